@@ -0,0 +1,331 @@
+import { parseArgs } from 'node:util';
+import type Database from 'better-sqlite3';
+import { handleGenerateInstructions } from './tools/instructions.js';
+import { handleImportKnowledge } from './tools/import.js';
+import { handleMergeProjects, handleMoveProject } from './tools/projects.js';
+import { hookInputSchema, runHook } from './hooks.js';
+import { purgeIgnoredFiles, scrubStoredText } from './storage/scrub.js';
+import type { ScrubReport } from './storage/scrub.js';
+import { defaultRedactor } from './context/redaction.js';
+import { loadIgnoreMatcher } from './context/ignore.js';
+import { resolveProjectPath } from './context/projects.js';
+import { reconcileFiles } from './context/file-history.js';
+import { getGitWorktree } from './utils.js';
+import { errorMessage } from './tools/output.js';
+import type { ToolResult } from './tools/output.js';
+import type { InstructionsFormat } from './context/instructions.js';
+
+const USAGE = `Usage: synapse-memory [command] [options]
+
+Without a command, runs the MCP server on stdio.
+
+Server options:
+  --http <port>           Serve MCP over streamable HTTP at /mcp instead of stdio
+  --host <address>        Interface to bind in HTTP mode (default: 127.0.0.1)
+                          Set SYNAPSE_MEMORY_AUTH_TOKEN to require a bearer token;
+                          non-loopback addresses refuse to start without one
+
+Commands:
+  generate-instructions   Write promoted knowledge into CLAUDE.md, AGENTS.md or .cursorrules
+    --project <path>      Project root (default: current directory)
+    --format <format>     claude | agents | cursorrules (default: claude)
+    --output <file>       File to write (default depends on format)
+    --branch <name>       Branch to rank knowledge for (default: current git branch)
+    --dry-run             Print the generated block without writing
+    --json                Print the structured result as JSON
+
+  import [paths...]       Import CLAUDE.md, AGENTS.md, .cursorrules and docs/adr as knowledge
+    --project <path>      Project root (default: current directory)
+    --dry-run             Report what would be imported without writing
+    --json                Print the structured result as JSON
+
+  move-project <from> <to>
+                          Move a project's memory to where its repository now is
+    --json                Print the structured result as JSON
+
+  merge-projects <source> <target>
+                          Fold the source project's memory into the target project
+    --json                Print the structured result as JSON
+
+  scrub                   Redact secrets and PII already stored, using the current rules
+    --dry-run             Report what would be redacted without writing
+    --json                Print the structured result as JSON
+
+  purge-ignored           Remove stored file activity that .synapseignore rules now match
+    --project <path>      Project root (default: current directory)
+    --dry-run             Report what would be removed without writing
+    --json                Print the structured result as JSON
+
+  reconcile-files         Carry file importance over git renames and mark deleted files
+    --project <path>      Project root (default: current directory)
+    --json                Print the structured result as JSON
+
+  hook                    Record a Claude Code hook event read as JSON from stdin
+                          (SessionStart, PreToolUse, PostToolUse, SessionEnd)`;
+
+const FORMATS: readonly InstructionsFormat[] = ['claude', 'agents', 'cursorrules'];
+
+function printResult(result: ToolResult<unknown>, json?: boolean): number {
+  const text = result.content.map((c) => c.text).join('\n');
+  if (result.isError) {
+    console.error(text);
+    return 1;
+  }
+  console.log(json ? JSON.stringify(result.structuredContent, null, 2) : text);
+  return 0;
+}
+
+async function generateInstructions(db: Database.Database, args: readonly string[]): Promise<number> {
+  const { values } = parseArgs({
+    args: [...args],
+    options: {
+      project: { type: 'string' },
+      format: { type: 'string' },
+      output: { type: 'string' },
+      branch: { type: 'string' },
+      'dry-run': { type: 'boolean' },
+      json: { type: 'boolean' },
+    },
+  });
+
+  const format = values.format as InstructionsFormat | undefined;
+  if (format && !FORMATS.includes(format)) {
+    console.error(`Unknown format "${format}". Expected one of: ${FORMATS.join(', ')}`);
+    return 1;
+  }
+
+  return printResult(await handleGenerateInstructions(db)({
+    projectPath: values.project ?? process.cwd(),
+    format,
+    outputPath: values.output,
+    branch: values.branch,
+    dryRun: values['dry-run'],
+  }), values.json);
+}
+
+async function importKnowledge(db: Database.Database, args: readonly string[]): Promise<number> {
+  const { values, positionals } = parseArgs({
+    args: [...args],
+    options: {
+      project: { type: 'string' },
+      'dry-run': { type: 'boolean' },
+      json: { type: 'boolean' },
+    },
+    allowPositionals: true,
+  });
+
+  return printResult(await handleImportKnowledge(db)({
+    projectPath: values.project ?? process.cwd(),
+    paths: positionals.length > 0 ? positionals : undefined,
+    dryRun: values['dry-run'],
+  }), values.json);
+}
+
+function pathPair(args: readonly string[]): { paths?: [string, string]; json?: boolean } {
+  const { values, positionals } = parseArgs({
+    args: [...args],
+    options: { json: { type: 'boolean' } },
+    allowPositionals: true,
+  });
+  const [first, second] = positionals;
+  return { paths: first && second && positionals.length === 2 ? [first, second] : undefined, json: values.json };
+}
+
+async function moveProject(db: Database.Database, args: readonly string[]): Promise<number> {
+  const { paths, json } = pathPair(args);
+  if (!paths) {
+    console.error('Usage: synapse-memory move-project <from> <to>');
+    return 1;
+  }
+  return printResult(await handleMoveProject(db)({ fromPath: paths[0], toPath: paths[1] }), json);
+}
+
+async function mergeProjects(db: Database.Database, args: readonly string[]): Promise<number> {
+  const { paths, json } = pathPair(args);
+  if (!paths) {
+    console.error('Usage: synapse-memory merge-projects <source> <target>');
+    return 1;
+  }
+  return printResult(await handleMergeProjects(db)({ sourcePath: paths[0], targetPath: paths[1] }), json);
+}
+
+function renderScrub(report: ScrubReport, dryRun: boolean): string {
+  const labels: Record<keyof ScrubReport, string> = {
+    events: 'Events',
+    sessions: 'Session summaries',
+    knowledge: 'Knowledge items',
+    revisions: 'Knowledge revisions',
+    commits: 'Commit subjects',
+  };
+  const found = Object.values(report).some((c) => c.rows > 0);
+  if (!found) {
+    return 'Nothing to redact.';
+  }
+
+  const lines = [dryRun ? 'Would redact:' : 'Redacted:'];
+  for (const table of Object.keys(labels) as (keyof ScrubReport)[]) {
+    const { rows, redactions } = report[table];
+    if (rows > 0) {
+      lines.push(`  ${labels[table]}: ${redactions} secret(s) in ${rows} row(s)`);
+    }
+  }
+  return lines.join('\n');
+}
+
+function scrub(db: Database.Database, args: readonly string[]): number {
+  const { values } = parseArgs({
+    args: [...args],
+    options: {
+      'dry-run': { type: 'boolean' },
+      json: { type: 'boolean' },
+    },
+  });
+
+  try {
+    const dryRun = values['dry-run'] ?? false;
+    const report = scrubStoredText(db, defaultRedactor(), dryRun);
+    console.log(values.json ? JSON.stringify({ dryRun, ...report }, null, 2) : renderScrub(report, dryRun));
+    return 0;
+  } catch (error: unknown) {
+    console.error(`synapse-memory scrub: ${errorMessage(error)}`);
+    return 1;
+  }
+}
+
+function purgeIgnored(db: Database.Database, args: readonly string[]): number {
+  const { values } = parseArgs({
+    args: [...args],
+    options: {
+      project: { type: 'string' },
+      'dry-run': { type: 'boolean' },
+      json: { type: 'boolean' },
+    },
+  });
+
+  try {
+    const dryRun = values['dry-run'] ?? false;
+    const projectPath = resolveProjectPath(db, values.project ?? process.cwd());
+    const ignore = loadIgnoreMatcher(projectPath);
+    const report = purgeIgnoredFiles(db, projectPath, (path) => ignore.ignores(path), dryRun);
+    console.log(values.json
+      ? JSON.stringify({ projectPath, dryRun, ...report }, null, 2)
+      : `${dryRun ? 'Would remove' : 'Removed'} ${report.events} file event(s), ${report.files} file importance entr${report.files === 1 ? 'y' : 'ies'} and ${report.pairs} related file pair(s) from ${projectPath}.`);
+    return 0;
+  } catch (error: unknown) {
+    console.error(`synapse-memory purge-ignored: ${errorMessage(error)}`);
+    return 1;
+  }
+}
+
+function reconcile(db: Database.Database, args: readonly string[]): number {
+  const { values } = parseArgs({
+    args: [...args],
+    options: {
+      project: { type: 'string' },
+      json: { type: 'boolean' },
+    },
+  });
+
+  try {
+    const requestedPath = values.project ?? process.cwd();
+    const root = getGitWorktree(requestedPath);
+    if (!root) {
+      console.error(`synapse-memory reconcile-files: ${requestedPath} is not a git checkout`);
+      return 1;
+    }
+    const projectPath = resolveProjectPath(db, requestedPath);
+    const result = reconcileFiles(db, projectPath, root);
+    if (values.json) {
+      console.log(JSON.stringify({ projectPath, ...result }, null, 2));
+      return 0;
+    }
+
+    const lines = [
+      `Reconciled files in ${projectPath}: ${result.renamed.length} renamed, ${result.deleted.length} deleted, ${result.restored.length} restored.`,
+      ...result.renamed.map((r) => `  ${r.from} -> ${r.to}`),
+      ...result.deleted.map((path) => `  deleted: ${path}`),
+    ];
+    console.log(lines.join('\n'));
+    return 0;
+  } catch (error: unknown) {
+    console.error(`synapse-memory reconcile-files: ${errorMessage(error)}`);
+    return 1;
+  }
+}
+
+async function readStdin(): Promise<string> {
+  const chunks: Buffer[] = [];
+  for await (const chunk of process.stdin) {
+    chunks.push(chunk as Buffer);
+  }
+  return Buffer.concat(chunks).toString('utf-8');
+}
+
+/**
+ * Hooks must never block the agent: failures exit 1, which Claude Code
+ * reports without interrupting the tool call (exit 2 would block it).
+ */
+async function hook(db: Database.Database): Promise<number> {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(await readStdin());
+  } catch (error: unknown) {
+    console.error(`synapse-memory hook: invalid JSON on stdin: ${errorMessage(error)}`);
+    return 1;
+  }
+
+  const input = hookInputSchema.safeParse(parsed);
+  if (!input.success) {
+    const issues = input.error.issues.map((i) => `${i.path.join('.')}: ${i.message}`);
+    console.error(`synapse-memory hook: unexpected input: ${issues.join('; ')}`);
+    return 1;
+  }
+
+  try {
+    const output = await runHook(db, input.data);
+    if (output) {
+      console.log(output);
+    }
+    return 0;
+  } catch (error: unknown) {
+    console.error(`synapse-memory hook: ${errorMessage(error)}`);
+    return 1;
+  }
+}
+
+/**
+ * Run a CLI subcommand against the memory database. Returns the process exit
+ * code.
+ */
+export async function runCommand(
+  db: Database.Database,
+  command: string,
+  args: readonly string[],
+): Promise<number> {
+  switch (command) {
+    case 'generate-instructions':
+      return generateInstructions(db, args);
+    case 'import':
+      return importKnowledge(db, args);
+    case 'move-project':
+      return moveProject(db, args);
+    case 'merge-projects':
+      return mergeProjects(db, args);
+    case 'scrub':
+      return scrub(db, args);
+    case 'purge-ignored':
+      return purgeIgnored(db, args);
+    case 'reconcile-files':
+      return reconcile(db, args);
+    case 'hook':
+      return hook(db);
+    case 'help':
+    case '--help':
+    case '-h':
+      console.log(USAGE);
+      return 0;
+    default:
+      console.error(`Unknown command "${command}".\n\n${USAGE}`);
+      return 1;
+  }
+}
@@ -0,0 +1,128 @@
+import type { ContextBudgetConfig, TokenEstimator } from '../types.js';
+
+export type ContextSection = 'sessions' | 'knowledge' | 'files';
+
+export const DEFAULT_CONTEXT_BUDGET: Required<ContextBudgetConfig> = {
+  maxTokens: 2000,
+  maxItemTokens: 150,
+  maxSessions: 5,
+  maxKnowledge: 15,
+  maxFiles: 10,
+};
+
+/**
+ * How much a section's best item is worth relative to the other sections'
+ * best items. Knowledge is curated, sessions are raw history, files are hints.
+ */
+const SECTION_WEIGHTS: Record<ContextSection, number> = {
+  knowledge: 1.0,
+  sessions: 0.8,
+  files: 0.5,
+};
+
+const ELLIPSIS = '…';
+
+/**
+ * Roughly four characters per token for English prose and code.
+ */
+export const estimateTokens: TokenEstimator = (text) => Math.ceil(text.length / 4);
+
+/**
+ * Something that could go into the context. `tokens` is the cost of its full
+ * rendering, `minTokens` the cost of the shortest rendering still worth
+ * showing (equal to `tokens` when the item cannot be shortened).
+ */
+export interface BudgetCandidate {
+  readonly section: ContextSection;
+  readonly id: string;
+  readonly score: number;
+  readonly tokens: number;
+  readonly minTokens: number;
+}
+
+export interface BudgetAllocation {
+  /** Tokens granted per included item, by section and id. Less than `tokens` means shorten it. */
+  readonly granted: Readonly<Record<ContextSection, ReadonlyMap<string, number>>>;
+  /** Items left out, best first, so callers can point the agent at them. */
+  readonly omitted: readonly BudgetCandidate[];
+  readonly usedTokens: number;
+}
+
+/**
+ * Share a token budget across context sections. Scores are normalized
+ * within each section (they are on different scales) and weighted by
+ * section, then items are granted tokens best first: in full when they fit
+ * under `maxItemTokens`, cut down to fit otherwise, and omitted when even
+ * their shortest form does not fit in what is left.
+ */
+export function allocateBudget(
+  candidates: readonly BudgetCandidate[],
+  config: ContextBudgetConfig = {},
+): BudgetAllocation {
+  const budget = { ...DEFAULT_CONTEXT_BUDGET, ...config };
+  const limits: Record<ContextSection, number> = {
+    sessions: budget.maxSessions,
+    knowledge: budget.maxKnowledge,
+    files: budget.maxFiles,
+  };
+
+  const topScore = new Map<ContextSection, number>();
+  for (const c of candidates) {
+    topScore.set(c.section, Math.max(topScore.get(c.section) ?? 0, c.score));
+  }
+  const priority = (c: BudgetCandidate) =>
+    SECTION_WEIGHTS[c.section] * (c.score / (topScore.get(c.section) || 1));
+
+  const granted: Record<ContextSection, Map<string, number>> = {
+    sessions: new Map(),
+    knowledge: new Map(),
+    files: new Map(),
+  };
+  const omitted: BudgetCandidate[] = [];
+  let remaining = budget.maxTokens;
+
+  for (const c of [...candidates].sort((a, b) => priority(b) - priority(a))) {
+    const section = granted[c.section];
+    const wanted = Math.min(c.tokens, Math.max(c.minTokens, budget.maxItemTokens));
+
+    if (section.size >= limits[c.section] || c.minTokens > remaining) {
+      omitted.push(c);
+      continue;
+    }
+
+    const tokens = Math.min(wanted, remaining);
+    section.set(c.id, tokens);
+    remaining -= tokens;
+  }
+
+  return { granted, omitted, usedTokens: budget.maxTokens - remaining };
+}
+
+/**
+ * Cut text at a word boundary so it fits in `maxTokens`, marking the cut
+ * with an ellipsis. Returns the text unchanged when it already fits.
+ */
+export function truncateToTokens(
+  text: string,
+  maxTokens: number,
+  estimate: TokenEstimator = estimateTokens,
+): string {
+  if (estimate(text) <= maxTokens) {
+    return text;
+  }
+
+  const words = text.split(/(?<=\s)/);
+  let low = 0;
+  let high = words.length - 1;
+  // Binary search for the longest word prefix that fits with the ellipsis
+  while (low < high) {
+    const mid = Math.ceil((low + high) / 2);
+    if (estimate(words.slice(0, mid).join('').trimEnd() + ELLIPSIS) <= maxTokens) {
+      low = mid;
+    } else {
+      high = mid - 1;
+    }
+  }
+
+  return words.slice(0, low).join('').trimEnd() + ELLIPSIS;
+}
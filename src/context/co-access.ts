@@ -0,0 +1,85 @@
+import type Database from 'better-sqlite3';
+import { getSessionEvents } from '../storage/events.js';
+import { getSessionFileChanges } from '../storage/git-changes.js';
+import { getRelatedFiles } from '../storage/co-access.js';
+import { loadIgnoreMatcher } from './ignore.js';
+import type { Session } from '../types.js';
+
+export interface SessionFiles {
+  /** Project files read, written or edited, or changed by the session's commits */
+  readonly touched: readonly string[];
+  /** The subset that was written, edited or changed */
+  readonly edited: readonly string[];
+}
+
+export interface Companion {
+  /** Edited in the session */
+  readonly filePath: string;
+  /** Usually seen with `filePath`, but not touched in the session */
+  readonly companion: string;
+  /** Sessions and commits that had both */
+  readonly together: number;
+}
+
+/**
+ * The project files a session worked on: its recorded file operations and
+ * the files its commits changed. Paths outside the project, deleted files
+ * and `.synapseignore` matches are left out.
+ */
+export function getSessionFiles(db: Database.Database, session: Session): SessionFiles {
+  const ignore = loadIgnoreMatcher(session.worktree ?? session.projectPath);
+  const touched = new Set<string>();
+  const edited = new Set<string>();
+
+  for (const { detail } of getSessionEvents(db, session.sessionId)) {
+    if (detail.type === 'file_op' && !detail.outsideProject) {
+      touched.add(detail.path);
+      if (detail.operation !== 'read') {
+        edited.add(detail.path);
+      }
+    }
+  }
+  for (const change of getSessionFileChanges(db, session.sessionId)) {
+    if (change.changeType !== 'deleted') {
+      touched.add(change.path);
+      edited.add(change.path);
+    }
+  }
+
+  const keep = (path: string) => !ignore.ignores(path);
+  return { touched: [...touched].filter(keep), edited: [...edited].filter(keep) };
+}
+
+/**
+ * Files a session probably should have looked at: for each file it edited,
+ * the files seen together with it at least `minTogether` times that the
+ * session never touched. Strongest first; each companion is listed once.
+ */
+export function findUntouchedCompanions(
+  db: Database.Database,
+  session: Session,
+  minTogether: number,
+  limit: number,
+): readonly Companion[] {
+  const { touched, edited } = getSessionFiles(db, session);
+  const ignore = loadIgnoreMatcher(session.worktree ?? session.projectPath);
+  const seen = new Set(touched);
+  const best = new Map<string, Companion>();
+
+  for (const filePath of edited) {
+    for (const related of getRelatedFiles(db, session.projectPath, filePath, 10, (path) => ignore.ignores(path))) {
+      const together = related.sessionCount + related.commitCount;
+      if (together < minTogether || seen.has(related.filePath)) {
+        continue;
+      }
+      const current = best.get(related.filePath);
+      if (!current || together > current.together) {
+        best.set(related.filePath, { filePath, companion: related.filePath, together });
+      }
+    }
+  }
+
+  return [...best.values()]
+    .sort((a, b) => b.together - a.together || a.companion.localeCompare(b.companion))
+    .slice(0, limit);
+}
@@ -0,0 +1,90 @@
+import type Database from 'better-sqlite3';
+import { getProjectKnowledge } from '../storage/knowledge.js';
+import { computeContentHash, computeTitleSimilarity } from './deduplication.js';
+import { tokenize } from './embeddings.js';
+import { jaccard } from './similarity.js';
+import type { ConflictCandidate } from '../types.js';
+
+// Titles this close are duplicates, which findDuplicates already reports
+const DUPLICATE_TITLE_SIMILARITY = 0.85;
+
+// Minimum title keyword overlap to treat two decisions as the same subject
+const MIN_KEYWORD_OVERLAP = 0.25;
+
+/**
+ * Extract file references like `src/db.ts` or `package.json` from free text.
+ */
+export function extractFileRefs(text: string): readonly string[] {
+  const matches = text.match(/(?:[\w@-]+\/)*[\w-]+\.[a-z]{2,5}\b/gi) ?? [];
+  return [...new Set(matches)];
+}
+
+function intersect(a: readonly string[], b: readonly string[]): readonly string[] {
+  const setB = new Set(b);
+  return [...new Set(a)].filter((x) => setB.has(x));
+}
+
+function distinctFrom(a: readonly string[], b: readonly string[]): boolean {
+  const setB = new Set(b);
+  return a.some((x) => !setB.has(x));
+}
+
+/**
+ * Find existing, non-superseded decisions that talk about the same subject
+ * as a new decision but say something different. "Use Postgres for storage"
+ * conflicts with "Use SQLite for storage": the titles share `use storage`
+ * and each names a different choice. A title that only narrows another
+ * ("Use SQLite" vs "Use SQLite for storage") is a refinement, not a conflict.
+ */
+export function findConflicts(
+  db: Database.Database,
+  projectPath: string,
+  title: string,
+  content: string,
+  tags: readonly string[] = [],
+): readonly ConflictCandidate[] {
+  const contentHash = computeContentHash(content);
+  const titleTokens = tokenize(title);
+  const files = extractFileRefs(`${title} ${content}`);
+  const conflicts: ConflictCandidate[] = [];
+
+  for (const existing of getProjectKnowledge(db, projectPath, 'decision', 1000)) {
+    if (existing.contentHash === contentHash) {
+      continue;
+    }
+    if (computeTitleSimilarity(title, existing.title) >= DUPLICATE_TITLE_SIMILARITY) {
+      continue;
+    }
+
+    const existingTokens = tokenize(existing.title);
+    const sharedKeywords = intersect(titleTokens, existingTokens);
+    const sharedTags = intersect(tags, existing.tags);
+    const sharedFiles = intersect(files, extractFileRefs(`${existing.title} ${existing.content}`));
+
+    // One shared word ("use") is not a subject; two, or one plus a tag or file, is
+    const keywordOverlap = jaccard(titleTokens, existingTokens);
+    const sameSubject =
+      (sharedKeywords.length >= 2 && keywordOverlap >= MIN_KEYWORD_OVERLAP) ||
+      (sharedKeywords.length >= 1 && (sharedTags.length > 0 || sharedFiles.length > 0));
+
+    // Both titles must say something the other does not
+    const differs = distinctFrom(titleTokens, existingTokens) && distinctFrom(existingTokens, titleTokens);
+
+    if (!sameSubject || !differs) {
+      continue;
+    }
+
+    conflicts.push({
+      existingKnowledge: existing,
+      conflictScore:
+        keywordOverlap * 0.5 +
+        jaccard(tags, existing.tags) * 0.25 +
+        (sharedFiles.length > 0 ? 0.25 : 0),
+      sharedKeywords,
+      sharedTags,
+      sharedFiles,
+    });
+  }
+
+  return conflicts.sort((a, b) => b.conflictScore - a.conflictScore);
+}
@@ -87,7 +87,7 @@ export function findDuplicates(
   // Check for exact content hash match
   const exactMatch = db.prepare(`
     SELECT * FROM promoted_knowledge
-    WHERE project_path = ? AND content_hash = ? AND superseded_by IS NULL
+    WHERE project_path = ? AND content_hash = ? AND superseded_by IS NULL AND retracted_at IS NULL
   `).get(projectPath, contentHash) as KnowledgeRow | undefined;
 
   if (exactMatch) {
@@ -102,7 +102,7 @@ export function findDuplicates(
   // Check for similar titles
   const candidates = db.prepare(`
     SELECT * FROM promoted_knowledge
-    WHERE project_path = ? AND superseded_by IS NULL
+    WHERE project_path = ? AND superseded_by IS NULL AND retracted_at IS NULL
   `).all(projectPath) as KnowledgeRow[];
 
   for (const candidate of candidates) {
@@ -152,6 +152,9 @@ interface KnowledgeRow {
   content_hash: string | null;
   usage_count: number;
   superseded_by: string | null;
+  updated_at: string | null;
+  retracted_at: string | null;
+  retraction_reason: string | null;
 }
 
 function rowToKnowledge(row: KnowledgeRow): PromotedKnowledge {
@@ -171,5 +174,8 @@ function rowToKnowledge(row: KnowledgeRow): PromotedKnowledge {
     contentHash: row.content_hash ?? undefined,
     usageCount: row.usage_count,
     supersededBy: row.superseded_by ?? undefined,
+    updatedAt: row.updated_at ?? undefined,
+    retractedAt: row.retracted_at ?? undefined,
+    retractionReason: row.retraction_reason ?? undefined,
   };
 }
@@ -0,0 +1,122 @@
+import type { Embedder } from '../types.js';
+
+const DEFAULT_DIMENSIONS = 512;
+
+// Words too common to say anything about what a memory is about
+const STOP_WORDS = new Set([
+  'a', 'an', 'and', 'are', 'as', 'at', 'be', 'by', 'did', 'do', 'does', 'for',
+  'from', 'had', 'has', 'have', 'how', 'i', 'in', 'is', 'it', 'its', 'of', 'on',
+  'or', 'our', 'so', 'that', 'the', 'this', 'to', 'was', 'we', 'were', 'what',
+  'when', 'where', 'which', 'who', 'why', 'with', 'you',
+]);
+
+/**
+ * 32-bit FNV-1a hash. Stable across runs and platforms, which the stored
+ * vectors depend on.
+ */
+function fnv1a(text: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+/**
+ * Split text into lowercase word tokens, dropping stop words.
+ */
+export function tokenize(text: string): readonly string[] {
+  const words = text.toLowerCase().match(/[\p{L}\p{N}]+/gu) ?? [];
+  return words.filter((w) => !STOP_WORDS.has(w));
+}
+
+/**
+ * Extract weighted features: whole words, adjacent word pairs and character
+ * trigrams. Trigrams let "refresh" match "refreshing" and "tokens" match
+ * "token" without a stemmer.
+ */
+function extractFeatures(text: string): Map<string, number> {
+  const features = new Map<string, number>();
+  const add = (feature: string, weight: number): void => {
+    features.set(feature, (features.get(feature) ?? 0) + weight);
+  };
+
+  const words = tokenize(text);
+  words.forEach((word, i) => {
+    add(`w:${word}`, 1.0);
+
+    const next = words[i + 1];
+    if (next) {
+      add(`b:${word} ${next}`, 0.5);
+    }
+
+    const padded = `#${word}#`;
+    for (let j = 0; j + 3 <= padded.length; j++) {
+      add(`c:${padded.slice(j, j + 3)}`, 0.25);
+    }
+  });
+
+  return features;
+}
+
+/**
+ * Create the built-in offline embedder: hashed bag-of-features vectors with
+ * sublinear term frequency and signed feature hashing, L2-normalized so a dot
+ * product is the cosine similarity. Needs no model download or network.
+ */
+export function createHashingEmbedder(dimensions: number = DEFAULT_DIMENSIONS): Embedder {
+  return {
+    name: `hashing-v1-${dimensions}`,
+    dimensions,
+    embed: async (text: string) => {
+      const vector = new Float32Array(dimensions);
+
+      for (const [feature, weight] of extractFeatures(text)) {
+        const hash = fnv1a(feature);
+        const index = hash % dimensions;
+        // The top bit picks the sign so collisions cancel out on average
+        const sign = hash & 0x80000000 ? -1 : 1;
+        vector[index] = vector[index]! + sign * Math.log1p(weight);
+      }
+
+      return normalize(vector);
+    },
+  };
+}
+
+export function normalize(vector: Float32Array): Float32Array {
+  let norm = 0;
+  for (const v of vector) {
+    norm += v * v;
+  }
+  norm = Math.sqrt(norm);
+  if (norm === 0) {
+    return vector;
+  }
+  return vector.map((v) => v / norm);
+}
+
+/**
+ * Cosine similarity between two vectors (-1 to 1). Returns 0 when either
+ * vector is all zeros or the dimensions differ.
+ */
+export function cosineSimilarity(a: Float32Array, b: Float32Array): number {
+  if (a.length !== b.length) {
+    return 0;
+  }
+
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+  for (let i = 0; i < a.length; i++) {
+    dot += a[i]! * b[i]!;
+    normA += a[i]! * a[i]!;
+    normB += b[i]! * b[i]!;
+  }
+
+  if (normA === 0 || normB === 0) {
+    return 0;
+  }
+  return dot / (Math.sqrt(normA) * Math.sqrt(normB));
+}
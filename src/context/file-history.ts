@@ -0,0 +1,115 @@
+import { existsSync } from 'node:fs';
+import { isAbsolute, join } from 'node:path';
+import type Database from 'better-sqlite3';
+import { getTrackedFiles, renameFileImportance, setFileDeleted } from '../storage/file-importance.js';
+import { renameEventFiles } from '../storage/events.js';
+import { renameCoAccessFile } from '../storage/co-access.js';
+import { getReconciledWorktrees, setReconciledCommit } from '../storage/projects.js';
+import { getFirstSessionStart } from '../storage/sessions.js';
+import { getGitHead, getGitRenames, nowISO } from '../utils.js';
+
+export interface FileReconciliation {
+  readonly renamed: readonly { from: string; to: string }[];
+  readonly deleted: readonly string[];
+  /** Files marked deleted that exist again */
+  readonly restored: readonly string[];
+}
+
+const NOTHING: FileReconciliation = { renamed: [], deleted: [], restored: [] };
+
+// Where a path ended up after the renames that followed it
+function followRenames(next: ReadonlyMap<string, string>, path: string): string {
+  const seen = new Set([path]);
+  let current = path;
+  for (let renamed = next.get(current); renamed && !seen.has(renamed); renamed = next.get(current)) {
+    current = renamed;
+    seen.add(current);
+  }
+  return current;
+}
+
+/**
+ * Bring a project's file importance in line with its checkout at
+ * `rootPath`: counts of a file that was renamed move to its new path, along
+ * with the `files` of pattern and resolved-error events and the files seen
+ * together with it, and files that no longer exist are marked deleted so
+ * they drop out of important files.
+ * A file still present in another worktree the project was reconciled in
+ * counts as existing, so files on one branch only are left alone.
+ * Renames are read from git since the commit this worktree was last
+ * reconciled at; the first time, since the project's first session. Projects
+ * that are not git checkouts are left alone.
+ */
+export function reconcileFiles(db: Database.Database, projectPath: string, rootPath: string): FileReconciliation {
+  const head = getGitHead(rootPath);
+  if (!head) {
+    return NOTHING;
+  }
+
+  const worktrees = getReconciledWorktrees(db, projectPath);
+  const since = worktrees.get(rootPath);
+  const firstSeen = getFirstSessionStart(db, projectPath);
+  // A reconciled commit that is gone (rebased, garbage collected) means starting over
+  const renames = since === head
+    ? []
+    : (since ? getGitRenames(rootPath, since, head) : undefined) ?? getGitRenames(rootPath, undefined, head, firstSeen);
+
+  const roots = [rootPath, ...[...worktrees.keys()].filter((w) => w !== rootPath && existsSync(w))];
+  const existsAnywhere = (path: string) => roots.some((root) => existsSync(join(root, path)));
+
+  const next = new Map<string, string>();
+  for (const r of renames ?? []) {
+    if (r.previousPath) {
+      next.set(r.previousPath, r.path);
+    }
+  }
+  // Old path -> the path it now lives at, for old paths that are gone
+  const moves = new Map<string, string>();
+  for (const from of next.keys()) {
+    const to = followRenames(next, from);
+    if (to !== from && !existsAnywhere(from) && existsSync(join(rootPath, to))) {
+      moves.set(from, to);
+    }
+  }
+
+  const renamed: { from: string; to: string }[] = [];
+  const deleted: string[] = [];
+  const restored: string[] = [];
+  const now = nowISO();
+
+  db.transaction(() => {
+    for (const file of getTrackedFiles(db, projectPath)) {
+      // Paths stored before they were made relative cannot be checked
+      if (isAbsolute(file.filePath)) {
+        continue;
+      }
+
+      if (existsAnywhere(file.filePath)) {
+        if (file.deletedAt) {
+          setFileDeleted(db, projectPath, file.filePath, undefined);
+          restored.push(file.filePath);
+        }
+        continue;
+      }
+
+      const target = moves.get(file.filePath);
+      if (target) {
+        renameFileImportance(db, projectPath, file.filePath, target);
+        renamed.push({ from: file.filePath, to: target });
+      } else if (!file.deletedAt) {
+        setFileDeleted(db, projectPath, file.filePath, now);
+        deleted.push(file.filePath);
+      }
+    }
+
+    renameEventFiles(db, projectPath, moves);
+    for (const [from, to] of moves) {
+      renameCoAccessFile(db, projectPath, from, to);
+    }
+    // Also when git failed: repeating the scan on every session start
+    // costs more than the renames it might find
+    setReconciledCommit(db, projectPath, rootPath, head);
+  })();
+
+  return { renamed, deleted, restored };
+}
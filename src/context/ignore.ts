@@ -0,0 +1,174 @@
+import { existsSync, readFileSync } from 'node:fs';
+import { isAbsolute, join, relative } from 'node:path';
+import { getDataDir } from '../storage/database.js';
+
+export const PROJECT_IGNORE_FILE = '.synapseignore';
+export const GLOBAL_IGNORE_FILE = 'synapseignore';
+
+/**
+ * Paths no project wants tracked: dependencies, build output, lockfiles and
+ * environment files. A `.synapseignore` can re-include any of them with `!`.
+ */
+export const DEFAULT_IGNORE_PATTERNS: readonly string[] = [
+  '.git/',
+  'node_modules/',
+  'bower_components/',
+  'vendor/bundle/',
+  '.venv/',
+  '__pycache__/',
+  'dist/',
+  'build/',
+  'out/',
+  'coverage/',
+  '.next/',
+  '.nuxt/',
+  '.turbo/',
+  '.cache/',
+  '*.min.js',
+  '*.map',
+  '*.log',
+  '.DS_Store',
+  'package-lock.json',
+  'npm-shrinkwrap.json',
+  'yarn.lock',
+  'pnpm-lock.yaml',
+  'bun.lockb',
+  'Cargo.lock',
+  'Gemfile.lock',
+  'composer.lock',
+  'poetry.lock',
+  'go.sum',
+  '.env',
+  '.env.*',
+  '!.env.example',
+];
+
+interface IgnoreRule {
+  readonly negate: boolean;
+  readonly dirOnly: boolean;
+  readonly regex: RegExp;
+}
+
+export interface IgnoreMatcher {
+  /** Paths relative to the project root, or absolute paths inside it */
+  ignores(path: string): boolean;
+}
+
+function globToRegex(glob: string): string {
+  let source = '';
+  for (let i = 0; i < glob.length; i++) {
+    const char = glob[i]!;
+    if (char === '*') {
+      if (glob[i + 1] === '*') {
+        // "**/" matches zero or more directories, a trailing "**" everything
+        const slash = glob[i + 2] === '/';
+        source += slash ? '(?:.*/)?' : '.*';
+        i += slash ? 2 : 1;
+      } else {
+        source += '[^/]*';
+      }
+    } else if (char === '?') {
+      source += '[^/]';
+    } else if (char === '[') {
+      const end = glob.indexOf(']', i + 1);
+      if (end === -1) {
+        source += '\\[';
+      } else {
+        source += `[${glob.slice(i + 1, end).replace(/^!/, '^').replace(/\\/g, '\\\\')}]`;
+        i = end;
+      }
+    } else if (char === '\\' && i + 1 < glob.length) {
+      source += glob[++i]!.replace(/[.*+?^${}()|[\]\\/]/g, '\\$&');
+    } else {
+      source += char.replace(/[.*+?^${}()|[\]\\/]/g, '\\$&');
+    }
+  }
+  return source;
+}
+
+function parseRule(line: string): IgnoreRule | undefined {
+  let pattern = line.replace(/(?<!\\)\s+$/, '');
+  if (pattern === '' || pattern.startsWith('#')) {
+    return undefined;
+  }
+
+  const negate = pattern.startsWith('!');
+  if (negate) {
+    pattern = pattern.slice(1);
+  }
+  const dirOnly = pattern.endsWith('/');
+  if (dirOnly) {
+    pattern = pattern.slice(0, -1);
+  }
+  // A slash anywhere but the end ties the pattern to the root, as in gitignore
+  const anchored = pattern.includes('/');
+  pattern = pattern.replace(/^\//, '');
+  if (pattern === '') {
+    return undefined;
+  }
+
+  return {
+    negate,
+    dirOnly,
+    regex: new RegExp(`^${anchored ? '' : '(?:.*/)?'}${globToRegex(pattern)}$`),
+  };
+}
+
+/**
+ * Build a matcher from gitignore-style lines: `#` comments, `!` negation,
+ * `*`, `?`, `**` and `[...]` globs, a trailing `/` for directories and a
+ * leading or inner `/` to anchor at the root. Later lines win, and nothing
+ * under an ignored directory can be re-included.
+ */
+export function createIgnoreMatcher(lines: readonly string[], rootPath?: string): IgnoreMatcher {
+  const rules = lines.flatMap((line) => parseRule(line) ?? []);
+
+  const lastMatch = (path: string, isDir: boolean): boolean | undefined => {
+    let ignored: boolean | undefined;
+    for (const rule of rules) {
+      if ((!rule.dirOnly || isDir) && rule.regex.test(path)) {
+        ignored = !rule.negate;
+      }
+    }
+    return ignored;
+  };
+
+  return {
+    ignores(path) {
+      let relativePath = path;
+      if (rootPath && isAbsolute(path)) {
+        const inside = relative(rootPath, path);
+        relativePath = inside.startsWith('..') || isAbsolute(inside) ? path : inside;
+      }
+      // Outside the root only unanchored patterns can sensibly match
+      relativePath = relativePath.replace(/^(?:\.?\/)+/, '');
+      if (relativePath === '') {
+        return false;
+      }
+
+      const segments = relativePath.split('/');
+      for (let i = 1; i < segments.length; i++) {
+        if (lastMatch(segments.slice(0, i).join('/'), true)) {
+          return true;
+        }
+      }
+      return lastMatch(relativePath, false) ?? false;
+    },
+  };
+}
+
+function readLines(path: string): string[] {
+  return existsSync(path) ? readFileSync(path, 'utf-8').split(/\r?\n/) : [];
+}
+
+/**
+ * The matcher for a project: the built-in defaults, then the data
+ * directory's `synapseignore`, then the project's `.synapseignore`.
+ */
+export function loadIgnoreMatcher(rootPath: string): IgnoreMatcher {
+  return createIgnoreMatcher([
+    ...DEFAULT_IGNORE_PATTERNS,
+    ...readLines(join(getDataDir(), GLOBAL_IGNORE_FILE)),
+    ...readLines(join(rootPath, PROJECT_IGNORE_FILE)),
+  ], rootPath);
+}
@@ -0,0 +1,237 @@
+import { MANAGED_BLOCK_END, MANAGED_BLOCK_START } from './instructions.js';
+import type { KnowledgeType } from '../types.js';
+
+/**
+ * A knowledge item parsed from an existing document, before it is checked
+ * for duplicates and promoted.
+ */
+export interface ImportCandidate {
+  readonly title: string;
+  readonly content: string;
+  readonly knowledgeType: KnowledgeType;
+  readonly tags: readonly string[];
+  readonly source: string;
+}
+
+/**
+ * A parsed item that will not be imported, with the reason.
+ */
+export interface ImportSkip {
+  readonly title: string;
+  readonly source: string;
+  readonly reason: string;
+}
+
+export interface ParsedDocument {
+  readonly candidates: readonly ImportCandidate[];
+  readonly skipped: readonly ImportSkip[];
+}
+
+const MAX_TITLE_LENGTH = 80;
+
+// Bullets shorter than this are file lists or link indexes, not conventions
+const MIN_BULLET_WORDS = 3;
+
+// ADRs in these states no longer describe how the project works
+const INACTIVE_ADR_STATUSES = ['superseded', 'deprecated', 'rejected'];
+
+/**
+ * Strip inline markdown so titles read as plain text.
+ */
+function stripInlineMarkdown(text: string): string {
+  return text
+    .replace(/\[([^\]]+)\]\([^)]*\)/g, '$1')
+    .replace(/(\*\*|__)(.+?)\1/g, '$2')
+    .replace(/`([^`]+)`/g, '$1')
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+function slugify(text: string): string {
+  return stripInlineMarkdown(text)
+    .toLowerCase()
+    .replace(/[^\p{L}\p{N}]+/gu, '-')
+    .replace(/^-|-$/g, '');
+}
+
+/**
+ * Derive a short title from a bullet: the lead-in before a colon or dash if
+ * there is one, otherwise the first sentence, capped at MAX_TITLE_LENGTH.
+ */
+export function deriveTitle(text: string): string {
+  const plain = stripInlineMarkdown(text);
+  const leadIn = plain.match(/^(.{3,60}?)(?::\s| — | - )/);
+  const firstSentence = plain.match(/^(.+?[.!?])(\s|$)/);
+  const title = (leadIn?.[1] ?? firstSentence?.[1] ?? plain).replace(/[.!?]$/, '');
+
+  return title.length > MAX_TITLE_LENGTH
+    ? `${title.slice(0, MAX_TITLE_LENGTH - 1).trimEnd()}…`
+    : title;
+}
+
+function removeManagedBlock(text: string): string {
+  const start = text.indexOf(MANAGED_BLOCK_START);
+  const end = text.indexOf(MANAGED_BLOCK_END, start);
+  if (start === -1 || end === -1) {
+    return text;
+  }
+  return text.slice(0, start) + text.slice(end + MANAGED_BLOCK_END.length);
+}
+
+/**
+ * Parse a markdown or plain-text instructions file (CLAUDE.md, AGENTS.md,
+ * .cursorrules) into `pattern` candidates, one per top-level bullet. Nested
+ * bullets and continuation lines stay with their parent. The block written
+ * by generate_instructions_file is ignored so generated files never import
+ * their own output.
+ */
+export function parseInstructionsFile(text: string, source: string): ParsedDocument {
+  const candidates: ImportCandidate[] = [];
+  let heading: string | undefined;
+  let current: string[] | undefined;
+  let inFence = false;
+
+  const flush = (): void => {
+    if (!current) {
+      return;
+    }
+    const content = current.join('\n').trim();
+    current = undefined;
+
+    if (stripInlineMarkdown(content).split(' ').length < MIN_BULLET_WORDS) {
+      return;
+    }
+
+    candidates.push({
+      title: deriveTitle(content.split('\n')[0]!),
+      content,
+      knowledgeType: 'pattern',
+      tags: heading ? ['imported', slugify(heading)] : ['imported'],
+      source,
+    });
+  };
+
+  for (const line of removeManagedBlock(text).split('\n')) {
+    if (/^\s*(```|~~~)/.test(line)) {
+      inFence = !inFence;
+      current?.push(line);
+      continue;
+    }
+    if (inFence) {
+      current?.push(line);
+      continue;
+    }
+
+    const headingMatch = line.match(/^#{1,6}\s+(.+?)\s*#*$/);
+    if (headingMatch) {
+      flush();
+      heading = headingMatch[1];
+      continue;
+    }
+
+    const bullet = line.match(/^ ?(?:[-*+]|\d+[.)])\s+(.*)$/);
+    if (bullet) {
+      flush();
+      current = [bullet[1]!];
+      continue;
+    }
+
+    if (line.trim() === '') {
+      flush();
+    } else if (current && /^\s+/.test(line)) {
+      current.push(line.trim());
+    } else {
+      flush();
+    }
+  }
+  flush();
+
+  return { candidates, skipped: [] };
+}
+
+function splitSections(text: string): { title?: string; sections: Map<string, string> } {
+  const sections = new Map<string, string>();
+  let title: string | undefined;
+  let name = '';
+  let lines: string[] = [];
+
+  const flush = (): void => {
+    const body = lines.join('\n').trim();
+    if (body) {
+      sections.set(name, body);
+    }
+    lines = [];
+  };
+
+  for (const line of text.split('\n')) {
+    const h1 = line.match(/^#\s+(.+?)\s*#*$/);
+    if (h1 && title === undefined) {
+      flush();
+      title = h1[1];
+      name = '';
+      continue;
+    }
+
+    const h2 = line.match(/^##\s+(.+?)\s*#*$/);
+    if (h2) {
+      flush();
+      name = h2[1]!.toLowerCase();
+      continue;
+    }
+
+    lines.push(line);
+  }
+  flush();
+
+  return { title, sections };
+}
+
+/**
+ * Parse an Architecture Decision Record (Nygard or MADR layout) into a
+ * `decision` candidate: the title without its ADR number, and the Decision
+ * section with its Context. ADRs whose status is superseded, deprecated or
+ * rejected are skipped.
+ */
+export function parseAdr(text: string, source: string): ParsedDocument {
+  // MADR front matter carries the status; the body follows it
+  const frontMatter = text.match(/^---\n([\s\S]*?)\n---\n?/);
+  const body = frontMatter ? text.slice(frontMatter[0].length) : text;
+  const { title: rawTitle, sections } = splitSections(body);
+
+  if (!rawTitle) {
+    return { candidates: [], skipped: [{ title: source, source, reason: 'no title heading' }] };
+  }
+
+  const title = stripInlineMarkdown(rawTitle)
+    .replace(/^(?:adr[\s-]*\d+\s*[.:-]?|\d+\s*[.:-])\s*/i, '');
+
+  const statusText = sections.get('status')
+    ?? frontMatter?.[1]?.match(/^status:\s*(.+)$/m)?.[1]
+    ?? body.match(/^status:\s*(.+)$/im)?.[1]
+    ?? '';
+  const status = INACTIVE_ADR_STATUSES.find((s) => statusText.toLowerCase().includes(s));
+  if (status) {
+    return { candidates: [], skipped: [{ title, source, reason: `ADR status is ${status}` }] };
+  }
+
+  const decision = sections.get('decision')
+    ?? sections.get('decision outcome')
+    ?? [...sections.entries()].find(([name]) => name === '')?.[1];
+  if (!decision) {
+    return { candidates: [], skipped: [{ title, source, reason: 'no Decision section' }] };
+  }
+
+  const context = sections.get('context') ?? sections.get('context and problem statement');
+  const content = context ? `${decision}\n\nContext: ${context}` : decision;
+
+  return {
+    candidates: [{
+      title,
+      content,
+      knowledgeType: 'decision',
+      tags: ['imported', 'adr'],
+      source,
+    }],
+    skipped: [],
+  };
+}
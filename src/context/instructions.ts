@@ -0,0 +1,131 @@
+import { existsSync, realpathSync } from 'node:fs';
+import { basename, dirname, isAbsolute, join, relative, resolve } from 'node:path';
+import type { KnowledgeType, ScoredKnowledge } from '../types.js';
+
+export type InstructionsFormat = 'claude' | 'agents' | 'cursorrules';
+
+export const INSTRUCTIONS_FILE_NAMES: Record<InstructionsFormat, string> = {
+  claude: 'CLAUDE.md',
+  agents: 'AGENTS.md',
+  cursorrules: '.cursorrules',
+};
+
+const KNOWN_FILE_NAMES = new Set(Object.values(INSTRUCTIONS_FILE_NAMES));
+
+export const MANAGED_BLOCK_START = '<!-- synapse-memory:start -->';
+export const MANAGED_BLOCK_END = '<!-- synapse-memory:end -->';
+
+const SECTION_ORDER: readonly KnowledgeType[] = ['decision', 'pattern', 'error_resolved', 'milestone'];
+
+const SECTION_TITLES: Record<KnowledgeType, string> = {
+  decision: 'Decisions',
+  pattern: 'Patterns',
+  error_resolved: 'Resolved Errors',
+  milestone: 'Milestones',
+};
+
+function indentContinuation(text: string, indent: string): string {
+  return text.trim().split('\n').join(`\n${indent}`);
+}
+
+/**
+ * Render ranked knowledge as the body of the managed block, grouped by
+ * knowledge type. Items keep their rank order within each group, with usage
+ * count breaking ties. Output has no timestamps so re-rendering unchanged
+ * knowledge produces identical text.
+ */
+export function renderInstructions(
+  ranked: readonly ScoredKnowledge[],
+  format: InstructionsFormat,
+): string {
+  const markdown = format !== 'cursorrules';
+  const lines: string[] = markdown
+    ? ['## Project Knowledge', '', '_Generated by synapse-memory from promoted knowledge. Edits inside this block are overwritten._']
+    : ['Project knowledge (generated by synapse-memory; edits inside this block are overwritten):'];
+
+  const ordered = [...ranked].sort((a, b) =>
+    b.relevanceScore - a.relevanceScore ||
+    (b.knowledge.usageCount ?? 0) - (a.knowledge.usageCount ?? 0));
+
+  for (const type of SECTION_ORDER) {
+    const items = ordered.filter((s) => s.knowledge.knowledgeType === type);
+    if (items.length === 0) {
+      continue;
+    }
+
+    lines.push('', markdown ? `### ${SECTION_TITLES[type]}` : `${SECTION_TITLES[type]}:`);
+    if (markdown) {
+      lines.push('');
+    }
+
+    for (const { knowledge: k } of items) {
+      const content = indentContinuation(k.content, '  ');
+      lines.push(markdown ? `- **${k.title}** — ${content}` : `- ${k.title}: ${content}`);
+    }
+  }
+
+  if (ordered.length === 0) {
+    lines.push('', markdown ? '_No promoted knowledge yet._' : 'No promoted knowledge yet.');
+  }
+
+  return lines.join('\n');
+}
+
+/** `path` with symlinks resolved as far as it exists. */
+function realpathExisting(path: string): string {
+  if (existsSync(path)) {
+    return realpathSync(path);
+  }
+  const parent = dirname(path);
+  return parent === path ? path : join(realpathExisting(parent), basename(path));
+}
+
+/**
+ * The file to write for `format`: `outputPath` if given, else the format's
+ * default name in the project root. Symlinks are resolved, and the target
+ * must be an instruction file (CLAUDE.md, AGENTS.md or .cursorrules) inside
+ * the project, so callers cannot append to arbitrary files.
+ */
+export function resolveInstructionsPath(
+  projectPath: string,
+  format: InstructionsFormat,
+  outputPath?: string,
+): string {
+  const root = realpathExisting(resolve(projectPath));
+  const target = realpathExisting(resolve(root, outputPath ?? INSTRUCTIONS_FILE_NAMES[format]));
+
+  const inside = relative(root, target);
+  if (inside === '' || inside.startsWith('..') || isAbsolute(inside)) {
+    throw new Error(`${outputPath ?? target} is outside the project ${projectPath}`);
+  }
+  if (!KNOWN_FILE_NAMES.has(basename(target))) {
+    throw new Error(`${outputPath ?? target} is not an instruction file; use one of ${[...KNOWN_FILE_NAMES].join(', ')}`);
+  }
+  return target;
+}
+
+/**
+ * Put `body` between the managed markers in `existing`, leaving everything
+ * outside the markers untouched. Without markers the block is appended. A
+ * start marker with no end marker after it is an error: appending a second
+ * block would make the next run replace everything between the two.
+ */
+export function mergeManagedBlock(existing: string | undefined, body: string): string {
+  const block = `${MANAGED_BLOCK_START}\n${body}\n${MANAGED_BLOCK_END}`;
+
+  if (!existing || existing.trim() === '') {
+    return `${block}\n`;
+  }
+
+  const start = existing.indexOf(MANAGED_BLOCK_START);
+  if (start !== -1) {
+    const end = existing.indexOf(MANAGED_BLOCK_END, start);
+    if (end === -1) {
+      throw new Error(`found ${MANAGED_BLOCK_START} without a ${MANAGED_BLOCK_END} after it; add the end marker or remove the start marker`);
+    }
+    return existing.slice(0, start) + block + existing.slice(end + MANAGED_BLOCK_END.length);
+  }
+
+  const separator = existing.endsWith('\n') ? '\n' : '\n\n';
+  return `${existing}${separator}${block}\n`;
+}
@@ -0,0 +1,51 @@
+import type Database from 'better-sqlite3';
+import {
+  addProjectAlias,
+  createProject,
+  findProjectByPath,
+  getProject,
+  identifyProject,
+  mergeProjects,
+} from '../storage/projects.js';
+import { detectProjectIdentity } from '../utils.js';
+import type { Project } from '../types.js';
+
+/**
+ * Map a path to its project, registering it the first time it is seen.
+ * Known paths are answered from the alias table; new ones are identified
+ * from git, so another clone, a symlink or a subdirectory of a known
+ * repository joins the existing project. A project backfilled from a stored
+ * path is identified once, and merged into the project git says it belongs
+ * to when that one already exists.
+ */
+export function resolveProject(db: Database.Database, path: string): Project {
+  const known = findProjectByPath(db, path);
+  if (known?.identifiedAt) {
+    return known;
+  }
+
+  const identity = detectProjectIdentity(path);
+  return db.transaction(() => {
+    const legacy = known ?? findProjectByPath(db, identity.rootPath);
+    let project: Project;
+    if (legacy && !legacy.identifiedAt) {
+      const existing = identity.projectId !== legacy.projectId ? getProject(db, identity.projectId) : undefined;
+      project = existing
+        ? mergeProjects(db, legacy.projectId, existing.projectId).project
+        : identifyProject(db, legacy.projectId, identity);
+    } else {
+      project = legacy ?? getProject(db, identity.projectId) ?? createProject(db, identity);
+    }
+
+    addProjectAlias(db, path, project.projectId);
+    addProjectAlias(db, identity.rootPath, project.projectId);
+    return project;
+  })();
+}
+
+/**
+ * The path project-scoped rows are stored under for `path`.
+ */
+export function resolveProjectPath(db: Database.Database, path: string): string {
+  return resolveProject(db, path).rootPath;
+}
@@ -0,0 +1,212 @@
+import { existsSync, readFileSync } from 'node:fs';
+import { join } from 'node:path';
+import { z } from 'zod';
+import { getDataDir } from '../storage/database.js';
+import type { EventDetail } from '../types.js';
+
+/**
+ * A pattern for text that must never be stored. When the pattern has a
+ * `secret` named group only that part is replaced, so `DB_PASSWORD=hunter2`
+ * keeps its name; otherwise the whole match is.
+ */
+export interface RedactionRule {
+  readonly name: string;
+  readonly pattern: RegExp;
+}
+
+export interface Redactor {
+  readonly rules: readonly RedactionRule[];
+  redact(text: string): { text: string; count: number };
+}
+
+export const REDACTION_CONFIG_FILE = 'redaction.json';
+
+const PLACEHOLDER_PREFIX = '[REDACTED:';
+
+/**
+ * Built-in detectors, applied in order. Earlier rules win: a GitHub token
+ * assigned to `GITHUB_TOKEN=` is reported as an api_key.
+ */
+export const BUILTIN_REDACTION_RULES: readonly RedactionRule[] = [
+  {
+    name: 'private_key',
+    pattern: /-----BEGIN [A-Z ]*PRIVATE KEY-----[\s\S]*?(?:-----END [A-Z ]*PRIVATE KEY-----|$)/g,
+  },
+  {
+    name: 'jwt',
+    pattern: /\beyJ[\w-]{5,}\.eyJ[\w-]{5,}\.[\w-]*/g,
+  },
+  {
+    name: 'connection_string',
+    pattern: /\b[a-z][a-z0-9+.-]*:\/\/[^\s:@/]*:(?<secret>[^\s@/]+)@/gi,
+  },
+  {
+    name: 'api_key',
+    pattern: new RegExp([
+      /\b(?:AKIA|ASIA)[0-9A-Z]{16}\b/, // AWS access key ID
+      /\bgh[pousr]_[A-Za-z0-9]{36,}\b/, // GitHub
+      /\bgithub_pat_\w{22,}\b/,
+      /\bglpat-[\w-]{20,}/, // GitLab
+      /\bxox[abprs]-[A-Za-z0-9-]{10,}/, // Slack
+      /\b[rs]k_(?:live|test)_[A-Za-z0-9]{16,}\b/, // Stripe
+      /\bsk-[\w-]{20,}/, // OpenAI, Anthropic
+      /\bAIza[\w-]{35}\b/, // Google
+      /\bnpm_[A-Za-z0-9]{36}\b/,
+    ].map((p) => p.source).join('|'), 'g'),
+  },
+  {
+    name: 'bearer_token',
+    pattern: /\b(?:Bearer|Basic)\s+(?<secret>[\w.~+/-]{16,}=*)/gi,
+  },
+  {
+    // Environment-style assignments: AWS_SECRET_ACCESS_KEY=..., DB_PASSWORD="..."
+    name: 'secret_assignment',
+    pattern: /\b[A-Z0-9_]*(?:SECRET|PASSWORD|PASSWD|TOKEN|API_?KEY|ACCESS_KEY|PRIVATE_KEY|CREDENTIALS?)[A-Z0-9_]*\s*=\s*["']?(?<secret>[^\s"']+)/g,
+  },
+  {
+    // Not followed by ':' so scp-style git remotes (git@github.com:org/repo) survive
+    name: 'email',
+    pattern: /\b[\w.%+-]+@[A-Za-z0-9-]+(?:\.[A-Za-z0-9-]+)*\.[A-Za-z]{2,}\b(?!:)/g,
+  },
+];
+
+function applyRule(text: string, rule: RedactionRule): { text: string; count: number } {
+  let count = 0;
+  const redacted = text.replace(rule.pattern, (match: string, ...rest: unknown[]) => {
+    const groups = rest.at(-1);
+    const secret = typeof groups === 'object' && groups !== null
+      ? (groups as Record<string, string | undefined>)['secret'] ?? match
+      : match;
+    // Already redacted, by this rule or an earlier one
+    if (secret.startsWith(PLACEHOLDER_PREFIX)) {
+      return match;
+    }
+    count++;
+    const at = match.lastIndexOf(secret);
+    return `${match.slice(0, at)}${PLACEHOLDER_PREFIX}${rule.name}]${match.slice(at + secret.length)}`;
+  });
+  return { text: redacted, count };
+}
+
+export function createRedactor(rules: readonly RedactionRule[] = BUILTIN_REDACTION_RULES): Redactor {
+  return {
+    rules,
+    redact(text) {
+      let redacted = text;
+      let count = 0;
+      for (const rule of rules) {
+        const result = applyRule(redacted, rule);
+        redacted = result.text;
+        count += result.count;
+      }
+      return { text: redacted, count };
+    },
+  };
+}
+
+/**
+ * Redact each string field that is set, counting replacements across them.
+ */
+export function redactFields<T extends Record<string, string | undefined>>(
+  redactor: Redactor,
+  fields: T,
+): { fields: T; count: number } {
+  let count = 0;
+  const redacted: Record<string, string | undefined> = {};
+  for (const [key, value] of Object.entries(fields)) {
+    if (value === undefined) {
+      redacted[key] = value;
+      continue;
+    }
+    const result = redactor.redact(value);
+    redacted[key] = result.text;
+    count += result.count;
+  }
+  return { fields: redacted as T, count };
+}
+
+/**
+ * Redact the free-text fields of an event. File paths are kept: file
+ * importance and session footprints match on them.
+ */
+export function redactEventDetail(redactor: Redactor, detail: EventDetail): { detail: EventDetail; count: number } {
+  switch (detail.type) {
+    case 'file_op':
+      return { detail, count: 0 };
+    case 'tool_call': {
+      const { fields, count } = redactFields(redactor, { params: detail.params });
+      return { detail: { ...detail, ...fields }, count };
+    }
+    case 'decision': {
+      const { fields, count } = redactFields(redactor, { title: detail.title, rationale: detail.rationale });
+      return { detail: { ...detail, ...fields }, count };
+    }
+    case 'pattern': {
+      const { fields, count } = redactFields(redactor, { description: detail.description });
+      return { detail: { ...detail, ...fields }, count };
+    }
+    case 'error_resolved': {
+      const { fields, count } = redactFields(redactor, { error: detail.error, resolution: detail.resolution });
+      return { detail: { ...detail, ...fields }, count };
+    }
+    case 'milestone': {
+      const { fields, count } = redactFields(redactor, { summary: detail.summary });
+      return { detail: { ...detail, ...fields }, count };
+    }
+  }
+}
+
+const redactionConfigSchema = z.object({
+  rules: z.array(z.object({
+    name: z.string().regex(/^[\w-]+$/, 'use letters, digits, _ and -'),
+    pattern: z.string().min(1),
+    flags: z.string().regex(/^[imsu]*$/, 'allowed flags are i, m, s and u').optional(),
+  })).default([]),
+  disable: z.array(z.string()).default([]),
+});
+
+/**
+ * Build the rule list from the built-ins and a config file of the form
+ * `{ "rules": [{ "name", "pattern", "flags"? }], "disable": ["email"] }`.
+ * Custom rules run after the built-ins. A missing file means built-ins
+ * only; an invalid one throws, since silently storing secrets is worse than
+ * refusing to start.
+ */
+export function loadRedactionRules(configPath: string): readonly RedactionRule[] {
+  if (!existsSync(configPath)) {
+    return BUILTIN_REDACTION_RULES;
+  }
+
+  try {
+    const config = redactionConfigSchema.parse(JSON.parse(readFileSync(configPath, 'utf-8')));
+    const unknown = config.disable.filter((name) => !BUILTIN_REDACTION_RULES.some((r) => r.name === name));
+    if (unknown.length > 0) {
+      throw new Error(`unknown built-in rule(s) in disable: ${unknown.join(', ')}`);
+    }
+    return [
+      ...BUILTIN_REDACTION_RULES.filter((r) => !config.disable.includes(r.name)),
+      ...config.rules.map((r) => ({ name: r.name, pattern: new RegExp(r.pattern, `${r.flags ?? ''}g`) })),
+    ];
+  } catch (error: unknown) {
+    const message = error instanceof z.ZodError
+      ? error.issues.map((i) => `${i.path.join('.')}: ${i.message}`).join('; ')
+      : error instanceof Error ? error.message : String(error);
+    throw new Error(`Invalid redaction config ${configPath}: ${message}`);
+  }
+}
+
+const loadedRedactors = new Map<string, Redactor>();
+
+/**
+ * The redactor for the data directory's `redaction.json`, read once per
+ * process.
+ */
+export function defaultRedactor(): Redactor {
+  const configPath = join(getDataDir(), REDACTION_CONFIG_FILE);
+  let redactor = loadedRedactors.get(configPath);
+  if (!redactor) {
+    redactor = createRedactor(loadRedactionRules(configPath));
+    loadedRedactors.set(configPath, redactor);
+  }
+  return redactor;
+}
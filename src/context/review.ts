@@ -0,0 +1,60 @@
+import type Database from 'better-sqlite3';
+import { getProjectKnowledge } from '../storage/knowledge.js';
+import { getKnowledgeUsageHistory } from '../storage/knowledge-usage.js';
+import type { PromotedKnowledge } from '../types.js';
+
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+// Items younger than this have not had a fair chance to be used
+const MIN_AGE_DAYS = 14;
+
+// At or below this many uses an item is barely pulling its weight
+const LOW_USAGE_COUNT = 1;
+
+const REVIEW_LIMIT = 200;
+
+export interface ReviewCandidate {
+  readonly knowledge: PromotedKnowledge;
+  readonly lastActivity: string;
+  readonly reasons: readonly string[];
+}
+
+/**
+ * Find active knowledge worth pruning: untouched and unused for `staleDays`,
+ * or rarely used despite being old enough to have come up. Activity is the
+ * latest of creation, edit and usage. Oldest activity first.
+ */
+export function findReviewCandidates(
+  db: Database.Database,
+  projectPath: string,
+  staleDays: number,
+  now: Date = new Date(),
+): readonly ReviewCandidate[] {
+  const candidates: ReviewCandidate[] = [];
+
+  for (const k of getProjectKnowledge(db, projectPath, undefined, REVIEW_LIMIT)) {
+    const lastUsed = getKnowledgeUsageHistory(db, k.knowledgeId, 1)[0]?.timestamp;
+    const lastActivity = [k.createdAt, k.updatedAt, lastUsed]
+      .filter((t): t is string => t !== undefined)
+      .sort()
+      .at(-1)!;
+
+    const ageDays = (now.getTime() - new Date(k.createdAt).getTime()) / MS_PER_DAY;
+    const idleDays = (now.getTime() - new Date(lastActivity).getTime()) / MS_PER_DAY;
+    const usageCount = k.usageCount ?? 0;
+
+    const reasons: string[] = [];
+    if (idleDays >= staleDays) {
+      reasons.push(`no activity for ${Math.floor(idleDays)} days`);
+    }
+    if (ageDays >= MIN_AGE_DAYS && usageCount <= LOW_USAGE_COUNT) {
+      reasons.push(usageCount === 0 ? 'never used' : 'used once');
+    }
+
+    if (reasons.length > 0) {
+      candidates.push({ knowledge: k, lastActivity, reasons });
+    }
+  }
+
+  return candidates.sort((a, b) => a.lastActivity.localeCompare(b.lastActivity));
+}
@@ -0,0 +1,115 @@
+import type Database from 'better-sqlite3';
+import { getEmbeddings, getUnembeddedItems, upsertEmbedding } from '../storage/embeddings.js';
+import { getSession } from '../storage/sessions.js';
+import { getKnowledgeById } from '../storage/knowledge.js';
+import { getEventById } from '../storage/events.js';
+import { cosineSimilarity } from './embeddings.js';
+import { computeRelevanceScore, scoreSession } from './scoring.js';
+import type { Embedder, EventType, SemanticHit } from '../types.js';
+
+// Vector similarity dominates; relevance breaks ties toward recent, same-branch items
+const SIMILARITY_WEIGHT = 0.7;
+const RELEVANCE_WEIGHT = 0.3;
+
+// Below this cosine similarity a match is noise for the hashing embedder
+const MIN_SIMILARITY = 0.1;
+
+/**
+ * Embed every session summary, event and knowledge item in a project that
+ * has no vector from this embedder yet. Returns the number embedded.
+ */
+export async function indexEmbeddings(
+  db: Database.Database,
+  embedder: Embedder,
+  projectPath: string,
+): Promise<number> {
+  const pending = getUnembeddedItems(db, projectPath, embedder.name);
+
+  for (const item of pending) {
+    const vector = await embedder.embed(item.text);
+    upsertEmbedding(db, item.source, item.itemId, projectPath, embedder.name, vector);
+  }
+
+  return pending.length;
+}
+
+/**
+ * Rank sessions, events and knowledge by cosine similarity to the query,
+ * blended with the same branch/recency relevance used by rankSessions and
+ * rankKnowledge. Superseded or retracted knowledge and other branches (when
+ * `branch` is given) are excluded; with `eventType`, so are events and
+ * knowledge of other types. Filters apply before `limit`.
+ */
+export async function semanticSearch(
+  db: Database.Database,
+  embedder: Embedder,
+  projectPath: string,
+  query: string,
+  currentBranch: string,
+  branch?: string,
+  limit: number = 10,
+  eventType?: EventType,
+): Promise<readonly SemanticHit[]> {
+  await indexEmbeddings(db, embedder, projectPath);
+
+  const queryVector = await embedder.embed(query);
+  const hits: SemanticHit[] = [];
+
+  for (const stored of getEmbeddings(db, projectPath, embedder.name)) {
+    const similarity = cosineSimilarity(queryVector, stored.vector);
+    if (similarity < MIN_SIMILARITY) {
+      continue;
+    }
+
+    const scored = scoreItem(db, stored.source, stored.itemId, currentBranch, branch, eventType);
+    if (!scored) {
+      continue;
+    }
+
+    hits.push({
+      source: stored.source,
+      id: stored.itemId,
+      sessionId: scored.sessionId,
+      similarity,
+      relevanceScore: scored.relevanceScore,
+      score: similarity * SIMILARITY_WEIGHT + scored.relevanceScore * RELEVANCE_WEIGHT,
+    });
+  }
+
+  return hits
+    .sort((a, b) => b.score - a.score)
+    .slice(0, limit);
+}
+
+function scoreItem(
+  db: Database.Database,
+  source: SemanticHit['source'],
+  itemId: string,
+  currentBranch: string,
+  branch?: string,
+  eventType?: EventType,
+): { sessionId?: string; relevanceScore: number } | undefined {
+  if (source === 'knowledge') {
+    const knowledge = getKnowledgeById(db, itemId);
+    if (!knowledge || knowledge.supersededBy || knowledge.retractedAt) {
+      return undefined;
+    }
+    if (eventType && knowledge.knowledgeType !== eventType) {
+      return undefined;
+    }
+    const { relevanceScore } = computeRelevanceScore(knowledge, currentBranch);
+    return { sessionId: knowledge.sessionId, relevanceScore };
+  }
+
+  const event = source === 'event' ? getEventById(db, itemId) : undefined;
+  if (source === 'event' && (!event || (eventType && event.eventType !== eventType))) {
+    return undefined;
+  }
+  const sessionId = source === 'session' ? itemId : event?.sessionId;
+  const session = sessionId ? getSession(db, sessionId) : undefined;
+  if (!session || (branch && session.branch !== branch)) {
+    return undefined;
+  }
+
+  return { sessionId: session.sessionId, relevanceScore: scoreSession(session, currentBranch).score };
+}
@@ -0,0 +1,220 @@
+import type Database from 'better-sqlite3';
+import { getSession, getRecentSessions } from '../storage/sessions.js';
+import { getSessionEvents } from '../storage/events.js';
+import { getImportantFiles } from '../storage/file-importance.js';
+import { tokenize } from './embeddings.js';
+import { scoreSession } from './scoring.js';
+import type { SessionFootprint, SimilarSession } from '../types.js';
+
+// Footprint components; shared files are the strongest signal of related work
+const FILE_WEIGHT = 0.45;
+const DECISION_WEIGHT = 0.25;
+const BRANCH_WEIGHT = 0.1;
+const TOOL_WEIGHT = 0.1;
+const RELEVANCE_WEIGHT = 0.1;
+
+// How many completed sessions to compare against
+const CANDIDATE_LIMIT = 100;
+
+const MIN_DECISION_SIMILARITY = 0.2;
+const MAX_REASON_FILES = 5;
+
+/**
+ * Collect the files, tools and decision-like texts recorded for a session.
+ */
+export function buildFootprint(
+  db: Database.Database,
+  sessionId: string,
+): SessionFootprint | undefined {
+  const session = getSession(db, sessionId);
+  if (!session) {
+    return undefined;
+  }
+
+  const files = new Set<string>();
+  const tools = new Set<string>();
+  const decisionTexts: string[] = [];
+
+  for (const event of getSessionEvents(db, sessionId)) {
+    const detail = event.detail;
+    switch (detail.type) {
+      case 'file_op':
+        files.add(detail.path);
+        break;
+      case 'tool_call':
+        tools.add(detail.toolName);
+        break;
+      case 'decision':
+        decisionTexts.push(`${detail.title} ${detail.rationale}`);
+        break;
+      case 'pattern':
+        decisionTexts.push(detail.description);
+        detail.files.forEach((f) => files.add(f));
+        break;
+      case 'error_resolved':
+        decisionTexts.push(`${detail.error} ${detail.resolution}`);
+        detail.files.forEach((f) => files.add(f));
+        break;
+      case 'milestone':
+        break;
+    }
+  }
+
+  return {
+    sessionId,
+    branch: session.branch,
+    files: [...files],
+    tools: [...tools],
+    decisionTexts,
+  };
+}
+
+export function jaccard(a: Iterable<string>, b: Iterable<string>): number {
+  const setA = new Set(a);
+  const setB = new Set(b);
+  if (setA.size === 0 && setB.size === 0) {
+    return 0;
+  }
+
+  let shared = 0;
+  for (const item of setA) {
+    if (setB.has(item)) {
+      shared++;
+    }
+  }
+  return shared / (setA.size + setB.size - shared);
+}
+
+/**
+ * Similarity of two branch names by shared leading segments, so
+ * `feature/auth-refresh` and `feature/auth-login` share the `feature/auth`
+ * family. Identical branches score 1.0.
+ */
+export function computeBranchFamilySimilarity(a: string, b: string): number {
+  if (a === b) {
+    return 1.0;
+  }
+
+  const partsA = a.split(/[/_-]/);
+  const partsB = b.split(/[/_-]/);
+  let common = 0;
+  while (common < partsA.length && common < partsB.length && partsA[common] === partsB[common]) {
+    common++;
+  }
+  return common / Math.max(partsA.length, partsB.length);
+}
+
+function bestDecisionMatch(
+  current: readonly string[],
+  past: readonly string[],
+): { similarity: number; current: string; past: string } | undefined {
+  let best: { similarity: number; current: string; past: string } | undefined;
+
+  for (const a of current) {
+    const tokensA = tokenize(a);
+    for (const b of past) {
+      const similarity = jaccard(tokensA, tokenize(b));
+      if (!best || similarity > best.similarity) {
+        best = { similarity, current: a, past: b };
+      }
+    }
+  }
+
+  return best;
+}
+
+function branchFamilyLabel(a: string, b: string): string {
+  const partsA = a.split(/([/_-])/);
+  const partsB = b.split(/([/_-])/);
+  let i = 0;
+  while (i < partsA.length && i < partsB.length && partsA[i] === partsB[i]) {
+    i++;
+  }
+  return partsA.slice(0, i).join('').replace(/[/_-]$/, '');
+}
+
+/**
+ * Find completed sessions in the same project whose footprint resembles the
+ * given session: overlapping files, similar decisions, related branches and
+ * tools, nudged by the usual branch/recency relevance.
+ */
+export function findSimilarSessions(
+  db: Database.Database,
+  sessionId: string,
+  limit: number = 5,
+): readonly SimilarSession[] {
+  const current = getSession(db, sessionId);
+  const footprint = buildFootprint(db, sessionId);
+  if (!current || !footprint) {
+    return [];
+  }
+
+  // Rank shared files by project-wide importance when explaining matches
+  const importance = new Map(
+    getImportantFiles(db, current.projectPath, 1000).map((f) => [f.filePath, f.importanceScore]),
+  );
+
+  const candidates = getRecentSessions(db, current.projectPath, CANDIDATE_LIMIT)
+    .filter((s) => s.sessionId !== sessionId);
+
+  const results: SimilarSession[] = [];
+
+  for (const candidate of candidates) {
+    const past = buildFootprint(db, candidate.sessionId);
+    if (!past) {
+      continue;
+    }
+
+    const reasons: string[] = [];
+    const pastFiles = new Set(past.files);
+    const sharedFiles = footprint.files
+      .filter((f) => pastFiles.has(f))
+      .sort((a, b) => (importance.get(b) ?? 0) - (importance.get(a) ?? 0));
+
+    const fileScore = jaccard(footprint.files, past.files);
+    if (sharedFiles.length > 0) {
+      const shown = sharedFiles.slice(0, MAX_REASON_FILES).join(', ');
+      const more = sharedFiles.length > MAX_REASON_FILES ? ` (+${sharedFiles.length - MAX_REASON_FILES} more)` : '';
+      reasons.push(`${sharedFiles.length} shared file(s): ${shown}${more}`);
+    }
+
+    let decisionScore = 0;
+    const decision = bestDecisionMatch(footprint.decisionTexts, past.decisionTexts);
+    if (decision && decision.similarity >= MIN_DECISION_SIMILARITY) {
+      decisionScore = decision.similarity;
+      reasons.push(`similar decision: "${decision.past}"`);
+    }
+
+    const branchScore = computeBranchFamilySimilarity(current.branch, candidate.branch);
+    if (branchScore === 1.0) {
+      reasons.push(`same branch: ${candidate.branch}`);
+    } else if (branchScore >= 0.5) {
+      reasons.push(`same branch family: ${branchFamilyLabel(current.branch, candidate.branch)}`);
+    }
+
+    const toolScore = jaccard(footprint.tools, past.tools);
+    const sharedTools = footprint.tools.filter((t) => past.tools.includes(t));
+    if (sharedTools.length > 0) {
+      reasons.push(`shared tools: ${sharedTools.join(', ')}`);
+    }
+
+    // Branch and tools alone describe most sessions; require real overlap
+    if (fileScore === 0 && decisionScore === 0) {
+      continue;
+    }
+
+    const relevance = scoreSession(candidate, current.branch).score;
+    const score =
+      fileScore * FILE_WEIGHT +
+      decisionScore * DECISION_WEIGHT +
+      branchScore * BRANCH_WEIGHT +
+      toolScore * TOOL_WEIGHT +
+      relevance * RELEVANCE_WEIGHT;
+
+    results.push({ session: candidate, score, sharedFiles, reasons });
+  }
+
+  return results
+    .sort((a, b) => b.score - a.score)
+    .slice(0, limit);
+}
@@ -0,0 +1,97 @@
+import type { Session, SessionEvent } from '../types.js';
+
+// Items named per list; the rest are counted
+const LISTED_FILES = 3;
+const LISTED_ITEMS = 3;
+
+const SHORT_SHA_LENGTH = 7;
+
+function listWithMore(items: readonly string[], limit: number): string {
+  const shown = items.slice(0, limit).join('; ');
+  return items.length > limit ? `${shown} (+${items.length - limit} more)` : shown;
+}
+
+function formatEditedFiles(counts: ReadonlyMap<string, number>): string {
+  // Most edited first; path breaks ties so the summary is stable
+  const files = [...counts].sort((a, b) => b[1] - a[1] || a[0].localeCompare(b[0]));
+  const shown = files.slice(0, LISTED_FILES).map(([path, count]) => (count > 1 ? `${path} (${count}x)` : path));
+  const rest = files.length - shown.length;
+  return `Edited ${shown.join(', ')}${rest > 0 ? ` and ${rest} other file(s)` : ''}.`;
+}
+
+/**
+ * Build a summary from what a session recorded: most edited files,
+ * decisions, patterns, resolved errors, milestones and the commit range.
+ * The same events always give the same text. Returns undefined when the
+ * session recorded nothing worth summarizing.
+ */
+export function summarizeSession(
+  session: Session,
+  events: readonly SessionEvent[],
+  gitCommitEnd: string | undefined = session.gitCommitEnd,
+): string | undefined {
+  const edits = new Map<string, number>();
+  const filesRead = new Set<string>();
+  const decisions: string[] = [];
+  const patterns: string[] = [];
+  const errors: string[] = [];
+  const milestones: string[] = [];
+  let toolCalls = 0;
+
+  for (const { detail } of events) {
+    switch (detail.type) {
+      case 'file_op':
+        if (detail.operation === 'read') {
+          filesRead.add(detail.path);
+        } else {
+          edits.set(detail.path, (edits.get(detail.path) ?? 0) + 1);
+        }
+        break;
+      case 'tool_call':
+        toolCalls++;
+        break;
+      case 'decision':
+        decisions.push(detail.title);
+        break;
+      case 'pattern':
+        patterns.push(detail.description);
+        break;
+      case 'error_resolved':
+        errors.push(detail.error);
+        break;
+      case 'milestone':
+        milestones.push(detail.summary);
+        break;
+    }
+  }
+
+  const parts: string[] = [];
+
+  if (milestones.length > 0) {
+    parts.push(`Milestones: ${listWithMore(milestones, LISTED_ITEMS)}.`);
+  }
+  if (edits.size > 0) {
+    parts.push(formatEditedFiles(edits));
+  } else if (filesRead.size > 0) {
+    parts.push(`Read ${filesRead.size} file(s) without editing.`);
+  }
+  if (decisions.length > 0) {
+    parts.push(`Decisions: ${listWithMore(decisions, LISTED_ITEMS)}.`);
+  }
+  if (patterns.length > 0) {
+    parts.push(`Patterns: ${listWithMore(patterns, LISTED_ITEMS)}.`);
+  }
+  if (errors.length > 0) {
+    parts.push(`Resolved: ${listWithMore(errors, LISTED_ITEMS)}.`);
+  }
+  if (parts.length === 0 && toolCalls > 0) {
+    parts.push(`Ran ${toolCalls} tool call(s).`);
+  }
+
+  const start = session.gitCommitStart;
+  if (start && gitCommitEnd && start !== gitCommitEnd) {
+    parts.push(`Commits ${start.slice(0, SHORT_SHA_LENGTH)}..${gitCommitEnd.slice(0, SHORT_SHA_LENGTH)}.`);
+  }
+
+  return parts.length > 0 ? parts.join(' ') : undefined;
+}
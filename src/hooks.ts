@@ -0,0 +1,147 @@
+import { z } from 'zod';
+import type Database from 'better-sqlite3';
+import { getSession, reopenSession } from './storage/sessions.js';
+import { handleSessionStart } from './tools/session-start.js';
+import { handleSessionEnd } from './tools/session-end.js';
+import { handleRecordEvent } from './tools/record-event.js';
+import type { ToolResult } from './tools/output.js';
+import type { EventDetail, Session } from './types.js';
+
+// Long shell commands are summarized; the start says what kind of work it was
+const MAX_COMMAND_LENGTH = 200;
+
+/**
+ * The fields synapse-memory reads from Claude Code hook input. Claude Code
+ * sends more (transcript_path, permission_mode, tool_response, ...), which
+ * are ignored.
+ */
+export const hookInputSchema = z.object({
+  session_id: z.string().min(1),
+  cwd: z.string().min(1),
+  hook_event_name: z.string(),
+  source: z.string().optional(),
+  tool_name: z.string().optional(),
+  tool_input: z.record(z.unknown()).optional(),
+}).passthrough();
+
+export type HookInput = z.infer<typeof hookInputSchema>;
+
+function stringField(input: Record<string, unknown> | undefined, key: string): string | undefined {
+  const value = input?.[key];
+  return typeof value === 'string' && value.length > 0 ? value : undefined;
+}
+
+/**
+ * Map a Claude Code tool call to the event it represents. Returns undefined
+ * for tools that are not worth recording (searches, web fetches, MCP calls).
+ */
+export function mapToolUse(
+  toolName: string,
+  toolInput: Record<string, unknown> | undefined,
+): EventDetail | undefined {
+  const filePath = stringField(toolInput, 'file_path');
+
+  switch (toolName) {
+    case 'Read':
+      return filePath ? { type: 'file_op', path: filePath, operation: 'read' } : undefined;
+    case 'Write':
+      return filePath ? { type: 'file_op', path: filePath, operation: 'write' } : undefined;
+    case 'Edit':
+    case 'MultiEdit':
+      return filePath ? { type: 'file_op', path: filePath, operation: 'edit' } : undefined;
+    case 'NotebookEdit': {
+      const notebookPath = stringField(toolInput, 'notebook_path');
+      return notebookPath ? { type: 'file_op', path: notebookPath, operation: 'edit' } : undefined;
+    }
+    case 'Bash': {
+      const command = stringField(toolInput, 'command');
+      return {
+        type: 'tool_call',
+        toolName: 'Bash',
+        params: command && command.length > MAX_COMMAND_LENGTH
+          ? `${command.slice(0, MAX_COMMAND_LENGTH)}…`
+          : command,
+      };
+    }
+    default:
+      return undefined;
+  }
+}
+
+function check<T>(result: ToolResult<T>): T | undefined {
+  if (result.isError) {
+    throw new Error(result.content.map((c) => c.text).join('\n'));
+  }
+  return result.structuredContent;
+}
+
+/**
+ * Start the session, or pick it up again, and return its context. Claude
+ * Code's session ID doubles as the synapse-memory session ID, so every hook
+ * invocation for one conversation lands in the same session, and a
+ * SessionStart after compaction or resume gets that session's context again.
+ */
+async function startSession(db: Database.Database, input: HookInput): Promise<string> {
+  const result = await handleSessionStart(db)({
+    projectPath: input.cwd,
+    agentType: 'claude-code',
+    sessionId: input.session_id,
+  });
+  check(result);
+  return result.content.map((c) => c.text).join('\n');
+}
+
+/**
+ * The conversation's session, started if SessionStart was missed and
+ * reopened if SessionEnd ended it.
+ */
+async function ensureSession(db: Database.Database, input: HookInput): Promise<Session> {
+  const existing = getSession(db, input.session_id);
+  if (existing) {
+    return existing.status === 'active' ? existing : reopenSession(db, existing.sessionId) ?? existing;
+  }
+
+  await startSession(db, input);
+  return getSession(db, input.session_id)!;
+}
+
+/**
+ * Handle one Claude Code hook invocation. Returns text for stdout, which
+ * Claude Code adds to the conversation for SessionStart hooks.
+ */
+export async function runHook(db: Database.Database, input: HookInput): Promise<string | undefined> {
+  switch (input.hook_event_name) {
+    case 'SessionStart':
+      return startSession(db, input);
+
+    case 'PreToolUse':
+      await ensureSession(db, input);
+      return undefined;
+
+    case 'PostToolUse': {
+      const detail = mapToolUse(input.tool_name ?? '', input.tool_input);
+      if (!detail) {
+        return undefined;
+      }
+      const session = await ensureSession(db, input);
+      check(await handleRecordEvent(db)({ sessionId: session.sessionId, detail }));
+      return undefined;
+    }
+
+    // Not Stop: it fires after every turn, and the conversation goes on
+    case 'SessionEnd': {
+      const session = getSession(db, input.session_id);
+      if (session?.status === 'active') {
+        // Pass a written summary on; a generated one is rebuilt from the session's events
+        check(await handleSessionEnd(db)({
+          sessionId: session.sessionId,
+          summary: session.summaryGenerated ? undefined : session.summary,
+        }));
+      }
+      return undefined;
+    }
+
+    default:
+      return undefined;
+  }
+}
@@ -0,0 +1,223 @@
+import { createServer as createHttpServer } from 'node:http';
+import type { IncomingMessage, Server, ServerResponse } from 'node:http';
+import { randomUUID, timingSafeEqual } from 'node:crypto';
+import { StreamableHTTPServerTransport } from '@modelcontextprotocol/sdk/server/streamableHttp.js';
+import { isInitializeRequest } from '@modelcontextprotocol/sdk/types.js';
+import type Database from 'better-sqlite3';
+import { createServer } from './server.js';
+import { createResourceSubscriptions } from './resources.js';
+import type { Embedder } from './types.js';
+
+export const MCP_PATH = '/mcp';
+
+// Bearer token clients must send when set; unset means no authentication
+export const AUTH_TOKEN_ENV = 'SYNAPSE_MEMORY_AUTH_TOKEN';
+
+// Addresses only this machine can reach; anything else needs a token
+const LOOPBACK_HOSTS = new Set(['127.0.0.1', 'localhost', '::1']);
+
+// Tool payloads are small; anything larger is a mistake or abuse
+const MAX_BODY_BYTES = 4 * 1024 * 1024;
+
+export interface HttpServerOptions {
+  readonly port: number;
+  readonly host?: string;
+  readonly authToken?: string;
+  readonly embedder?: Embedder;
+  readonly log?: (line: string) => void;
+}
+
+export interface HttpServerHandle {
+  readonly server: Server;
+  readonly port: number;
+  /** Close every MCP session, then stop accepting connections. */
+  close(): Promise<void>;
+}
+
+class HttpError extends Error {
+  constructor(readonly status: number, message: string) {
+    super(message);
+  }
+}
+
+function sendError(res: ServerResponse, status: number, message: string, headers: Record<string, string> = {}): void {
+  if (res.headersSent) {
+    res.end();
+    return;
+  }
+  res.writeHead(status, { 'Content-Type': 'application/json', ...headers });
+  res.end(JSON.stringify({
+    jsonrpc: '2.0',
+    error: { code: status === 400 ? -32700 : -32000, message },
+    id: null,
+  }));
+}
+
+/** How `host` appears in a Host header: IPv6 addresses go in brackets. */
+function hostHeaderName(host: string): string {
+  return host.includes(':') ? `[${host}]` : host;
+}
+
+function isAuthorized(req: IncomingMessage, authToken: string): boolean {
+  const header = req.headers.authorization ?? '';
+  const match = header.match(/^Bearer\s+(.+)$/i);
+  if (!match) {
+    return false;
+  }
+
+  const given = Buffer.from(match[1]!);
+  const expected = Buffer.from(authToken);
+  return given.length === expected.length && timingSafeEqual(given, expected);
+}
+
+async function readJsonBody(req: IncomingMessage): Promise<unknown> {
+  const chunks: Buffer[] = [];
+  let size = 0;
+
+  for await (const chunk of req) {
+    size += (chunk as Buffer).length;
+    if (size > MAX_BODY_BYTES) {
+      throw new HttpError(413, 'Request body too large');
+    }
+    chunks.push(chunk as Buffer);
+  }
+
+  const text = Buffer.concat(chunks).toString('utf-8');
+  if (text === '') {
+    return undefined;
+  }
+
+  try {
+    return JSON.parse(text) as unknown;
+  } catch {
+    throw new HttpError(400, 'Parse error: request body is not valid JSON');
+  }
+}
+
+/**
+ * Serve MCP over streamable HTTP on a single long-lived process, so several
+ * agents can share one memory service. Each MCP session gets its own
+ * McpServer bound to the shared database; resource subscriptions are shared
+ * too, so every session hears about writes made through any other.
+ *
+ * Without a token the server only binds loopback addresses and rejects Host
+ * headers naming anything else, so a web page cannot reach it by rebinding
+ * its DNS name to 127.0.0.1.
+ */
+export async function startHttpServer(
+  db: Database.Database,
+  options: HttpServerOptions,
+): Promise<HttpServerHandle> {
+  const log = options.log ?? ((line: string) => console.error(line));
+  const host = options.host ?? '127.0.0.1';
+  const transports = new Map<string, StreamableHTTPServerTransport>();
+  const subscriptions = createResourceSubscriptions();
+  let allowedHosts: string[] | undefined;
+
+  if (!options.authToken && !LOOPBACK_HOSTS.has(host)) {
+    throw new Error(`Refusing to listen on ${host} without ${AUTH_TOKEN_ENV}; set a token or bind a loopback address`);
+  }
+
+  const handle = async (req: IncomingMessage, res: ServerResponse): Promise<void> => {
+    const path = new URL(req.url ?? '/', 'http://localhost').pathname;
+    if (path !== MCP_PATH) {
+      sendError(res, 404, `Not found. The MCP endpoint is ${MCP_PATH}`);
+      return;
+    }
+
+    if (options.authToken && !isAuthorized(req, options.authToken)) {
+      sendError(res, 401, 'Unauthorized', { 'WWW-Authenticate': 'Bearer' });
+      return;
+    }
+
+    const sessionId = req.headers['mcp-session-id'];
+    const existing = typeof sessionId === 'string' ? transports.get(sessionId) : undefined;
+
+    if (req.method !== 'POST') {
+      if (!existing) {
+        sendError(res, sessionId ? 404 : 400, sessionId ? 'Session not found' : 'Missing mcp-session-id header');
+        return;
+      }
+      await existing.handleRequest(req, res);
+      return;
+    }
+
+    const body = await readJsonBody(req);
+
+    if (existing) {
+      await existing.handleRequest(req, res, body);
+      return;
+    }
+
+    if (sessionId) {
+      sendError(res, 404, 'Session not found');
+      return;
+    }
+
+    if (!isInitializeRequest(body)) {
+      sendError(res, 400, 'Missing mcp-session-id header');
+      return;
+    }
+
+    const transport = new StreamableHTTPServerTransport({
+      sessionIdGenerator: () => randomUUID(),
+      enableDnsRebindingProtection: allowedHosts !== undefined,
+      allowedHosts,
+      onsessioninitialized: (id) => {
+        transports.set(id, transport);
+      },
+    });
+    transport.onclose = () => {
+      if (transport.sessionId) {
+        transports.delete(transport.sessionId);
+      }
+    };
+
+    await createServer(db, options.embedder, undefined, subscriptions).connect(transport);
+    await transport.handleRequest(req, res, body);
+  };
+
+  const server = createHttpServer((req, res) => {
+    const started = Date.now();
+    res.on('finish', () => {
+      const session = res.getHeader('mcp-session-id') ?? req.headers['mcp-session-id'];
+      log(`${req.method} ${req.url} ${res.statusCode} ${Date.now() - started}ms${session ? ` session=${String(session)}` : ''}`);
+    });
+
+    handle(req, res).catch((error: unknown) => {
+      if (error instanceof HttpError) {
+        sendError(res, error.status, error.message);
+        return;
+      }
+      log(`Request failed: ${error instanceof Error ? error.message : String(error)}`);
+      sendError(res, 500, 'Internal server error');
+    });
+  });
+
+  await new Promise<void>((resolve, reject) => {
+    server.once('error', reject);
+    server.listen(options.port, host, () => {
+      server.off('error', reject);
+      resolve();
+    });
+  });
+
+  const address = server.address();
+  const port = typeof address === 'object' && address ? address.port : options.port;
+  if (!options.authToken) {
+    allowedHosts = [...new Set([host, ...LOOPBACK_HOSTS])].map((name) => `${hostHeaderName(name)}:${port}`);
+  }
+
+  return {
+    server,
+    port,
+    close: async () => {
+      await Promise.all([...transports.values()].map((t) => t.close()));
+      transports.clear();
+      await new Promise<void>((resolve, reject) => {
+        server.close((error) => (error ? reject(error) : resolve()));
+        server.closeAllConnections();
+      });
+    },
+  };
+}
@@ -1,18 +1,92 @@
 #!/usr/bin/env node
 
+import { parseArgs } from 'node:util';
 import { StdioServerTransport } from '@modelcontextprotocol/sdk/server/stdio.js';
-import { createDatabase } from './storage/database.js';
+import type Database from 'better-sqlite3';
+import { closeDatabase, createDatabase } from './storage/database.js';
 import { createServer } from './server.js';
+import { runCommand } from './cli.js';
+import { AUTH_TOKEN_ENV, MCP_PATH, startHttpServer } from './http.js';
 
-async function main() {
-  const db = createDatabase();
+function onShutdown(cleanup: () => Promise<void>): void {
+  let stopping = false;
+  const stop = (signal: string) => {
+    if (stopping) {
+      return;
+    }
+    stopping = true;
+    console.error(`Received ${signal}, shutting down synapse-memory`);
+    cleanup()
+      .then(() => process.exit(0))
+      .catch((error: unknown) => {
+        console.error('Shutdown failed:', error);
+        process.exit(1);
+      });
+  };
+
+  process.on('SIGINT', () => stop('SIGINT'));
+  process.on('SIGTERM', () => stop('SIGTERM'));
+}
+
+async function serveHttp(db: Database.Database, port: number, host?: string): Promise<void> {
+  const authToken = process.env[AUTH_TOKEN_ENV] || undefined;
+  const handle = await startHttpServer(db, { port, host, authToken });
+
+  onShutdown(async () => {
+    await handle.close();
+    closeDatabase(db);
+  });
+
+  console.error(
+    `synapse-memory MCP server listening on http://${host ?? '127.0.0.1'}:${handle.port}${MCP_PATH}` +
+    (authToken ? ' (bearer auth enabled)' : ` (no auth; set ${AUTH_TOKEN_ENV} to require a token)`),
+  );
+}
+
+async function serveStdio(db: Database.Database): Promise<void> {
   const server = createServer(db);
   const transport = new StdioServerTransport();
 
+  onShutdown(async () => {
+    await server.close();
+    closeDatabase(db);
+  });
+
   await server.connect(transport);
   console.error('synapse-memory MCP server running on stdio');
 }
 
+async function main() {
+  const argv = process.argv.slice(2);
+  const db = createDatabase();
+
+  const [command, ...args] = argv;
+  if (command && !command.startsWith('--http') && !command.startsWith('--host')) {
+    process.exitCode = await runCommand(db, command, args);
+    closeDatabase(db);
+    return;
+  }
+
+  const { values } = parseArgs({
+    args: argv,
+    options: {
+      http: { type: 'string' },
+      host: { type: 'string' },
+    },
+  });
+
+  if (values.http === undefined) {
+    await serveStdio(db);
+    return;
+  }
+
+  const port = Number(values.http);
+  if (!Number.isInteger(port) || port < 0 || port > 65535) {
+    throw new Error(`Invalid --http port "${values.http}"`);
+  }
+  await serveHttp(db, port, values.host);
+}
+
 main().catch((error: unknown) => {
   console.error('Failed to start synapse-memory:', error);
   process.exit(1);
@@ -0,0 +1,167 @@
+import { z } from 'zod';
+import type { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import type Database from 'better-sqlite3';
+import { getActiveSession, getSession } from './storage/sessions.js';
+import { getSessionEvents } from './storage/events.js';
+import { getProjectKnowledge } from './storage/knowledge.js';
+import { handleSessionStart } from './tools/session-start.js';
+import { findReviewCandidates } from './context/review.js';
+import { resolveProjectPath } from './context/projects.js';
+import type { EventDetail } from './types.js';
+
+const DEFAULT_STALE_DAYS = 60;
+
+function userMessage(text: string) {
+  return {
+    messages: [{ role: 'user' as const, content: { type: 'text' as const, text } }],
+  };
+}
+
+function describeEvent(detail: EventDetail): string {
+  switch (detail.type) {
+    case 'file_op':
+      return `${detail.operation} ${detail.path}`;
+    case 'tool_call':
+      return `tool ${detail.toolName}`;
+    case 'decision':
+      return `decision: ${detail.title} — ${detail.rationale}`;
+    case 'pattern':
+      return `pattern: ${detail.description}`;
+    case 'error_resolved':
+      return `error resolved: ${detail.error} — ${detail.resolution}`;
+    case 'milestone':
+      return `milestone: ${detail.summary}`;
+  }
+}
+
+/**
+ * Register prompts that package the session workflow, so agents don't need
+ * hand-written instructions for starting, wrapping up and pruning memory.
+ */
+export function registerPrompts(server: McpServer, db: Database.Database): void {
+  server.prompt(
+    'start-work',
+    'Start a session and load context from past sessions and project knowledge.',
+    {
+      projectPath: z.string().describe('Project root path'),
+      branch: z.string().optional().describe('Git branch name (auto-detected if omitted)'),
+      task: z.string().optional().describe('What you are about to work on'),
+    },
+    async ({ projectPath, branch, task }) => {
+      const result = await handleSessionStart(db)({ projectPath, branch });
+      const context = result.content.map((c) => c.text).join('\n');
+
+      if (result.isError) {
+        throw new Error(context);
+      }
+
+      const sessionId = result.structuredContent?.sessionId ?? '(see above)';
+
+      return userMessage([
+        `I'm starting work on ${projectPath}.${task ? ` Task: ${task}` : ''}`,
+        '',
+        'Here is what synapse-memory remembers about this project. Treat the project knowledge as',
+        'established decisions and conventions; follow them unless I say otherwise.',
+        '',
+        context,
+        '',
+        `While working, call record_event with sessionId "${sessionId}" for files you touch,`,
+        'decisions you make, patterns you notice, errors you resolve and milestones you reach.',
+        'When we are done, call session_end with a short summary.',
+      ].join('\n'));
+    },
+  );
+
+  server.prompt(
+    'wrap-up',
+    'Summarize the active session for session_end and propose knowledge worth promoting.',
+    {
+      projectPath: z.string().describe('Project root path'),
+      sessionId: z.string().optional().describe('Session to wrap up (default: the active session for the project)'),
+    },
+    async ({ projectPath, sessionId }) => {
+      const session = sessionId
+        ? getSession(db, sessionId)
+        : getActiveSession(db, resolveProjectPath(db, projectPath));
+      if (!session) {
+        throw new Error(sessionId
+          ? `Session ${sessionId} not found.`
+          : `No active session for ${projectPath}.`);
+      }
+
+      const promotedEvents = new Set(
+        getProjectKnowledge(db, session.projectPath, undefined, 1000)
+          .map((k) => k.sourceEventId)
+          .filter((id): id is string => id !== undefined),
+      );
+
+      const events = getSessionEvents(db, session.sessionId);
+      const lines = [
+        `Wrap up session ${session.sessionId} on ${session.projectPath} (branch ${session.branch}, started ${session.startedAt}).`,
+        '',
+      ];
+
+      if (events.length === 0) {
+        lines.push('No events were recorded in this session.');
+      } else {
+        lines.push(`Recorded events (${events.length}):`);
+        for (const e of events) {
+          const promoted = promotedEvents.has(e.eventId) ? ' [already promoted]' : '';
+          lines.push(`- ${e.timestamp} ${describeEvent(e.detail)} (event ${e.eventId})${promoted}`);
+        }
+      }
+
+      lines.push(
+        '',
+        'Please:',
+        `1. Write a two or three sentence summary of what was accomplished and call session_end with sessionId "${session.sessionId}".`,
+        '2. From the decisions, patterns and resolved errors above that are not already promoted, propose the ones',
+        '   that will matter in future sessions as promote_knowledge calls (title, content, knowledgeType, tags,',
+        '   sessionId and sourceEventId). Skip anything specific to this session only. Ask me before promoting.',
+      );
+
+      return userMessage(lines.join('\n'));
+    },
+  );
+
+  server.prompt(
+    'review-knowledge',
+    'List stale or rarely used knowledge and ask which items to retract, update or keep.',
+    {
+      projectPath: z.string().describe('Project root path'),
+      staleDays: z.string().optional().describe(`Days without activity before an item counts as stale (default ${DEFAULT_STALE_DAYS})`),
+    },
+    async ({ projectPath, staleDays }) => {
+      const days = staleDays ? Number(staleDays) : DEFAULT_STALE_DAYS;
+      if (!Number.isFinite(days) || days <= 0) {
+        throw new Error(`staleDays must be a positive number, got "${staleDays}".`);
+      }
+
+      const candidates = findReviewCandidates(db, resolveProjectPath(db, projectPath), days);
+      if (candidates.length === 0) {
+        return userMessage(`All promoted knowledge for ${projectPath} has been used recently. Nothing to review.`);
+      }
+
+      const lines = [
+        `These ${candidates.length} knowledge item(s) in ${projectPath} are stale or rarely used:`,
+      ];
+      for (const { knowledge: k, lastActivity, reasons } of candidates) {
+        lines.push(
+          '',
+          `[${k.knowledgeType}] ${k.title} (${k.knowledgeId})`,
+          `  ${k.content.split('\n')[0]}`,
+          `  Uses: ${k.usageCount ?? 0} | Last activity: ${lastActivity.split('T')[0]} | ${reasons.join(', ')}`,
+        );
+      }
+
+      lines.push(
+        '',
+        'For each item, recommend one of: keep, update_knowledge (if it is still true but unclear or outdated),',
+        'or retract_knowledge with a reason (if it no longer applies). Check the code when unsure. Ask me before',
+        'changing anything.',
+      );
+
+      return userMessage(lines.join('\n'));
+    },
+  );
+}
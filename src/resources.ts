@@ -0,0 +1,219 @@
+import { ResourceTemplate } from '@modelcontextprotocol/sdk/server/mcp.js';
+import type { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import type { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import { SubscribeRequestSchema, UnsubscribeRequestSchema } from '@modelcontextprotocol/sdk/types.js';
+import type Database from 'better-sqlite3';
+import { getProjectPaths, getSession, listRecentSessions } from './storage/sessions.js';
+import { getSessionEvents } from './storage/events.js';
+import { getProjectKnowledge } from './storage/knowledge.js';
+import { getImportantFiles } from './storage/file-importance.js';
+import { findProjectByPath } from './storage/projects.js';
+
+const MIME_TYPE = 'application/json';
+
+// Listing is for browsing; read handlers are not limited by these
+const LIST_SESSION_LIMIT = 50;
+const KNOWLEDGE_LIMIT = 200;
+const FILE_LIMIT = 100;
+
+// Project paths contain slashes, and commas split template values in the SDK
+function encodePath(projectPath: string): string {
+  return encodeURIComponent(projectPath).replace(/,/g, '%2C');
+}
+
+export function knowledgeUri(projectPath: string): string {
+  return `synapse://project/${encodePath(projectPath)}/knowledge`;
+}
+
+export function filesUri(projectPath: string): string {
+  return `synapse://project/${encodePath(projectPath)}/files`;
+}
+
+export function sessionUri(sessionId: string): string {
+  return `synapse://session/${encodeURIComponent(sessionId)}`;
+}
+
+export function sessionEventsUri(sessionId: string): string {
+  return `${sessionUri(sessionId)}/events`;
+}
+
+function variable(value: string | string[] | undefined): string {
+  return decodeURIComponent(Array.isArray(value) ? value.join(',') : value ?? '');
+}
+
+// Reading never registers a project; an alias path reads its project's rows
+function storedProjectPath(db: Database.Database, path: string): string {
+  return findProjectByPath(db, path)?.rootPath ?? path;
+}
+
+function jsonContents(uri: URL, data: unknown) {
+  return {
+    contents: [{ uri: uri.href, mimeType: MIME_TYPE, text: JSON.stringify(data, null, 2) }],
+  };
+}
+
+export interface ResourceSubscriptions {
+  subscribe(server: Server, uri: string): void;
+  unsubscribe(server: Server, uri: string): void;
+  /** Drop every subscription of a server whose connection closed. */
+  remove(server: Server): void;
+  /** Send a resource-updated notification to every subscriber of `uris`. */
+  notify(uris: readonly string[]): Promise<void>;
+}
+
+/**
+ * Subscriptions shared by every MCP server in the process, so a write made
+ * through one client's connection reaches subscribers on all the others.
+ */
+export function createResourceSubscriptions(): ResourceSubscriptions {
+  const subscribers = new Map<string, Set<Server>>();
+
+  return {
+    subscribe: (server, uri) => {
+      const servers = subscribers.get(uri) ?? new Set<Server>();
+      servers.add(server);
+      subscribers.set(uri, servers);
+    },
+    unsubscribe: (server, uri) => {
+      const servers = subscribers.get(uri);
+      servers?.delete(server);
+      if (servers?.size === 0) {
+        subscribers.delete(uri);
+      }
+    },
+    remove: (server) => {
+      for (const [uri, servers] of subscribers) {
+        servers.delete(server);
+        if (servers.size === 0) {
+          subscribers.delete(uri);
+        }
+      }
+    },
+    notify: async (uris) => {
+      for (const uri of uris) {
+        for (const server of subscribers.get(uri) ?? []) {
+          try {
+            await server.sendResourceUpdated({ uri });
+          } catch {
+            // A disconnected client must not turn a successful write into an error
+          }
+        }
+      }
+    },
+  };
+}
+
+export interface ResourceNotifier {
+  /**
+   * Wrap a tool handler so that, after it succeeds, subscribers of the URIs
+   * returned by `changedUris` receive a resource-updated notification.
+   */
+  afterChange<A, R extends { isError?: boolean }>(
+    handler: (args: A) => Promise<R>,
+    changedUris: (args: A) => readonly string[],
+  ): (args: A) => Promise<R>;
+}
+
+/**
+ * Expose sessions, events, knowledge and file importance as browsable MCP
+ * resources, and track subscriptions in `subscriptions` so tool writes can
+ * notify clients. The server must declare `resources: { subscribe: true }`.
+ */
+export function registerResources(
+  server: McpServer,
+  db: Database.Database,
+  subscriptions: ResourceSubscriptions = createResourceSubscriptions(),
+): ResourceNotifier {
+  const listProjects = (uriFor: (p: string) => string, label: string) => async () => ({
+    resources: getProjectPaths(db).map((p) => ({
+      uri: uriFor(p),
+      name: `${label}: ${p}`,
+      mimeType: MIME_TYPE,
+    })),
+  });
+
+  server.registerResource(
+    'project-knowledge',
+    new ResourceTemplate('synapse://project/{path}/knowledge', {
+      list: listProjects(knowledgeUri, 'Knowledge'),
+    }),
+    {
+      description: 'Active promoted knowledge for a project (URL-encoded project path)',
+      mimeType: MIME_TYPE,
+    },
+    async (uri, { path }) => jsonContents(uri, getProjectKnowledge(db, storedProjectPath(db, variable(path)), undefined, KNOWLEDGE_LIMIT)),
+  );
+
+  server.registerResource(
+    'project-files',
+    new ResourceTemplate('synapse://project/{path}/files', {
+      list: listProjects(filesUri, 'Important files'),
+    }),
+    {
+      description: 'Most important files in a project by access frequency and recency',
+      mimeType: MIME_TYPE,
+    },
+    async (uri, { path }) => jsonContents(uri, getImportantFiles(db, storedProjectPath(db, variable(path)), FILE_LIMIT)),
+  );
+
+  server.registerResource(
+    'session',
+    new ResourceTemplate('synapse://session/{id}', {
+      list: async () => ({
+        resources: listRecentSessions(db, LIST_SESSION_LIMIT).map((s) => ({
+          uri: sessionUri(s.sessionId),
+          name: `${s.startedAt.split('T')[0]} ${s.branch}: ${s.summary ?? s.status}`,
+          mimeType: MIME_TYPE,
+        })),
+      }),
+    }),
+    {
+      description: 'A session with its status, summary and metrics',
+      mimeType: MIME_TYPE,
+    },
+    async (uri, { id }) => {
+      const session = getSession(db, variable(id));
+      if (!session) {
+        throw new Error(`Session ${variable(id)} not found`);
+      }
+      return jsonContents(uri, session);
+    },
+  );
+
+  server.registerResource(
+    'session-events',
+    new ResourceTemplate('synapse://session/{id}/events', { list: undefined }),
+    {
+      description: 'Every event recorded in a session, oldest first',
+      mimeType: MIME_TYPE,
+    },
+    async (uri, { id }) => {
+      if (!getSession(db, variable(id))) {
+        throw new Error(`Session ${variable(id)} not found`);
+      }
+      return jsonContents(uri, getSessionEvents(db, variable(id)));
+    },
+  );
+
+  server.server.setRequestHandler(SubscribeRequestSchema, async (request) => {
+    subscriptions.subscribe(server.server, request.params.uri);
+    return {};
+  });
+
+  server.server.setRequestHandler(UnsubscribeRequestSchema, async (request) => {
+    subscriptions.unsubscribe(server.server, request.params.uri);
+    return {};
+  });
+
+  server.server.onclose = () => subscriptions.remove(server.server);
+
+  return {
+    afterChange: (handler, changedUris) => async (args) => {
+      const result = await handler(args);
+      if (!result.isError) {
+        await subscriptions.notify(changedUris(args));
+      }
+      return result;
+    },
+  };
+}
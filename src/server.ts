@@ -1,93 +1,337 @@
 import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
 import type Database from 'better-sqlite3';
-import { sessionStartSchema, handleSessionStart } from './tools/session-start.js';
-import { sessionEndSchema, handleSessionEnd } from './tools/session-end.js';
-import { recordEventSchema, handleRecordEvent } from './tools/record-event.js';
-import { recallSchema, handleRecall } from './tools/recall.js';
-import { statsSchema, handleStats } from './tools/stats.js';
+import { sessionStartSchema, sessionStartOutputSchema, handleSessionStart } from './tools/session-start.js';
+import { sessionEndSchema, sessionEndOutputSchema, handleSessionEnd } from './tools/session-end.js';
+import { pauseSessionSchema, pauseSessionOutputSchema, handlePauseSession } from './tools/session-pause.js';
+import { resumeSessionSchema, resumeSessionOutputSchema, handleResumeSession } from './tools/session-resume.js';
+import {
+  listActiveSessionsSchema,
+  listActiveSessionsOutputSchema,
+  handleListActiveSessions,
+} from './tools/active-sessions.js';
+import { recordEventSchema, recordEventOutputSchema, handleRecordEvent } from './tools/record-event.js';
+import { recallSchema, recallOutputSchema, handleRecall } from './tools/recall.js';
+import { statsSchema, statsOutputSchema, handleStats } from './tools/stats.js';
+import {
+  findSimilarSessionsSchema,
+  findSimilarSessionsOutputSchema,
+  handleFindSimilarSessions,
+} from './tools/similar-sessions.js';
+import { relatedFilesSchema, relatedFilesOutputSchema, handleRelatedFiles } from './tools/related-files.js';
 import {
   promoteKnowledgeSchema,
+  promoteKnowledgeOutputSchema,
   handlePromoteKnowledge,
   getKnowledgeSchema,
+  getKnowledgeOutputSchema,
   handleGetKnowledge,
+  updateKnowledgeSchema,
+  updateKnowledgeOutputSchema,
+  handleUpdateKnowledge,
+  retractKnowledgeSchema,
+  retractKnowledgeOutputSchema,
+  handleRetractKnowledge,
+  deleteKnowledgeSchema,
+  deleteKnowledgeOutputSchema,
+  handleDeleteKnowledge,
+  knowledgeHistorySchema,
+  knowledgeHistoryOutputSchema,
+  handleKnowledgeHistory,
+  restoreKnowledgeSchema,
+  restoreKnowledgeOutputSchema,
+  handleRestoreKnowledge,
 } from './tools/knowledge.js';
-import { valueMetricsSchema, handleValueMetrics } from './tools/value-metrics.js';
+import { valueMetricsSchema, valueMetricsOutputSchema, handleValueMetrics } from './tools/value-metrics.js';
+import {
+  generateInstructionsSchema,
+  generateInstructionsOutputSchema,
+  handleGenerateInstructions,
+} from './tools/instructions.js';
+import { importKnowledgeSchema, importKnowledgeOutputSchema, handleImportKnowledge } from './tools/import.js';
+import {
+  moveProjectSchema,
+  moveProjectOutputSchema,
+  handleMoveProject,
+  mergeProjectsSchema,
+  mergeProjectsOutputSchema,
+  handleMergeProjects,
+} from './tools/projects.js';
+import { createHashingEmbedder } from './context/embeddings.js';
+import { getSession } from './storage/sessions.js';
+import { resolveProjectPath } from './context/projects.js';
+import { defaultRedactor } from './context/redaction.js';
+import type { Redactor } from './context/redaction.js';
+import {
+  registerResources,
+  createResourceSubscriptions,
+  filesUri,
+  knowledgeUri,
+  sessionEventsUri,
+  sessionUri,
+} from './resources.js';
+import type { ResourceSubscriptions } from './resources.js';
+import { registerPrompts } from './prompts.js';
+import type { Embedder } from './types.js';
 
-export function createServer(db: Database.Database): McpServer {
+export function createServer(
+  db: Database.Database,
+  embedder: Embedder = createHashingEmbedder(),
+  redactor: Redactor = defaultRedactor(),
+  subscriptions: ResourceSubscriptions = createResourceSubscriptions(),
+): McpServer {
   const server = new McpServer({
     name: 'synapse-memory',
     version: '0.2.0',
   }, {
     capabilities: {
       logging: {},
+      resources: { subscribe: true },
     },
   });
 
+  const resources = registerResources(server, db, subscriptions);
+  registerPrompts(server, db);
+
   // --- Session lifecycle ---
 
-  server.tool(
+  server.registerTool(
     'session_start',
-    'Start a new coding session. Records the session and returns context from past sessions on this project/branch.',
-    sessionStartSchema,
+    {
+      description: 'Start a new coding session. Records the session and returns context from past sessions on this project/branch.',
+      inputSchema: sessionStartSchema,
+      outputSchema: sessionStartOutputSchema,
+    },
     handleSessionStart(db),
   );
 
-  server.tool(
+  server.registerTool(
     'session_end',
-    'End the current session. Computes metrics and stores a summary of what was accomplished.',
-    sessionEndSchema,
-    handleSessionEnd(db),
+    {
+      description: 'End the current session. Computes metrics and stores a summary of what was accomplished.',
+      inputSchema: sessionEndSchema,
+      outputSchema: sessionEndOutputSchema,
+    },
+    handleSessionEnd(db, redactor),
+  );
+
+  server.registerTool(
+    'pause_session',
+    {
+      description: 'Pause an active session you intend to come back to. Paused sessions are never abandoned and can be picked up with resume_session.',
+      inputSchema: pauseSessionSchema,
+      outputSchema: pauseSessionOutputSchema,
+    },
+    handlePauseSession(db),
+  );
+
+  server.registerTool(
+    'resume_session',
+    {
+      description: 'Resume a paused or abandoned session by ID, or the most recently active one in a project, and return its latest events.',
+      inputSchema: resumeSessionSchema,
+      outputSchema: resumeSessionOutputSchema,
+    },
+    handleResumeSession(db),
+  );
+
+  server.registerTool(
+    'list_active_sessions',
+    {
+      description: 'Show who is working on a project right now: active sessions with their branch, worktree, agent and the files they are editing. Check it before editing files another agent may be changing.',
+      inputSchema: listActiveSessionsSchema,
+      outputSchema: listActiveSessionsOutputSchema,
+    },
+    handleListActiveSessions(db),
   );
 
   // --- Event recording ---
 
-  server.tool(
+  server.registerTool(
     'record_event',
-    'Record a significant event during a session: file operations, decisions, patterns, errors resolved, or milestones.',
-    recordEventSchema,
-    handleRecordEvent(db),
+    {
+      description: 'Record a significant event during a session: file operations, decisions, patterns, errors resolved, or milestones.',
+      inputSchema: recordEventSchema,
+      outputSchema: recordEventOutputSchema,
+    },
+    resources.afterChange(handleRecordEvent(db, redactor), ({ sessionId }) => {
+      const session = getSession(db, sessionId);
+      return [
+        sessionUri(sessionId),
+        sessionEventsUri(sessionId),
+        ...(session ? [filesUri(session.projectPath)] : []),
+      ];
+    }),
   );
 
   // --- Query & analytics ---
 
-  server.tool(
+  server.registerTool(
     'recall',
-    'Query past sessions for relevant knowledge: decisions made, patterns discovered, errors resolved.',
-    recallSchema,
-    handleRecall(db),
+    {
+      description: 'Query past sessions for relevant knowledge: decisions made, patterns discovered, errors resolved. Use mode "semantic" to find related work when the exact words differ.',
+      inputSchema: recallSchema,
+      outputSchema: recallOutputSchema,
+    },
+    handleRecall(db, embedder),
+  );
+
+  server.registerTool(
+    'find_similar_sessions',
+    {
+      description: 'Find past sessions similar to the current one: overlapping files, similar decisions, same branch family. Returns why each matched.',
+      inputSchema: findSimilarSessionsSchema,
+      outputSchema: findSimilarSessionsOutputSchema,
+    },
+    handleFindSimilarSessions(db),
   );
 
-  server.tool(
+  server.registerTool(
+    'related_files',
+    {
+      description: 'List the files most often read or edited together with a file, in past sessions and commits. Check it before changing a file to find the ones that usually change with it.',
+      inputSchema: relatedFilesSchema,
+      outputSchema: relatedFilesOutputSchema,
+    },
+    handleRelatedFiles(db),
+  );
+
+  server.registerTool(
     'stats',
-    'Get session analytics for a project: total sessions, time spent, most-touched files, tool usage.',
-    statsSchema,
+    {
+      description: 'Get session analytics for a project: total sessions, time spent, most-touched files, tool usage.',
+      inputSchema: statsSchema,
+      outputSchema: statsOutputSchema,
+    },
     handleStats(db),
   );
 
   // --- Knowledge promotion (Synapse integration path) ---
 
-  server.tool(
+  server.registerTool(
     'promote_knowledge',
-    'Elevate a session finding to project-level knowledge. Promoted knowledge persists across sessions and can optionally sync to a Synapse instance.',
-    promoteKnowledgeSchema,
-    handlePromoteKnowledge(db),
+    {
+      description: 'Elevate a session finding to project-level knowledge. Promoted knowledge persists across sessions and can optionally sync to a Synapse instance.',
+      inputSchema: promoteKnowledgeSchema,
+      outputSchema: promoteKnowledgeOutputSchema,
+    },
+    resources.afterChange(handlePromoteKnowledge(db, redactor), ({ projectPath }) => [
+      knowledgeUri(resolveProjectPath(db, projectPath)),
+    ]),
   );
 
-  server.tool(
+  server.registerTool(
     'get_knowledge',
-    'Retrieve promoted project-level knowledge: decisions, patterns, error resolutions, and milestones that persist across sessions.',
-    getKnowledgeSchema,
+    {
+      description: 'Retrieve promoted project-level knowledge: decisions, patterns, error resolutions, and milestones that persist across sessions.',
+      inputSchema: getKnowledgeSchema,
+      outputSchema: getKnowledgeOutputSchema,
+    },
     handleGetKnowledge(db),
   );
 
+  server.registerTool(
+    'update_knowledge',
+    {
+      description: 'Edit a promoted knowledge item: fix its title, content, type or tags. Duplicate detection is re-run against the edited text.',
+      inputSchema: updateKnowledgeSchema,
+      outputSchema: updateKnowledgeOutputSchema,
+    },
+    handleUpdateKnowledge(db, redactor),
+  );
+
+  server.registerTool(
+    'retract_knowledge',
+    {
+      description: 'Retract promoted knowledge that is wrong or no longer applies. The item is kept with the reason but hidden from context and search.',
+      inputSchema: retractKnowledgeSchema,
+      outputSchema: retractKnowledgeOutputSchema,
+    },
+    handleRetractKnowledge(db, redactor),
+  );
+
+  server.registerTool(
+    'delete_knowledge',
+    {
+      description: 'Permanently delete a promoted knowledge item and its usage history.',
+      inputSchema: deleteKnowledgeSchema,
+      outputSchema: deleteKnowledgeOutputSchema,
+    },
+    handleDeleteKnowledge(db),
+  );
+
+  server.registerTool(
+    'get_knowledge_history',
+    {
+      description: 'Show how a knowledge item evolved: every revision with its author session, plus the supersession chain.',
+      inputSchema: knowledgeHistorySchema,
+      outputSchema: knowledgeHistoryOutputSchema,
+    },
+    handleKnowledgeHistory(db),
+  );
+
+  server.registerTool(
+    'restore_knowledge_revision',
+    {
+      description: 'Restore a knowledge item to an earlier revision. The restore is recorded as a new revision.',
+      inputSchema: restoreKnowledgeSchema,
+      outputSchema: restoreKnowledgeOutputSchema,
+    },
+    handleRestoreKnowledge(db),
+  );
+
+  server.registerTool(
+    'generate_instructions_file',
+    {
+      description: 'Write promoted knowledge into CLAUDE.md, AGENTS.md or .cursorrules inside a managed block. Content outside the block is preserved, so re-running only refreshes the block.',
+      inputSchema: generateInstructionsSchema,
+      outputSchema: generateInstructionsOutputSchema,
+    },
+    handleGenerateInstructions(db),
+  );
+
+  server.registerTool(
+    'import_knowledge',
+    {
+      description: 'Import existing conventions from CLAUDE.md, AGENTS.md, .cursorrules and docs/adr Architecture Decision Records as promoted knowledge. Duplicates are skipped and reported.',
+      inputSchema: importKnowledgeSchema,
+      outputSchema: importKnowledgeOutputSchema,
+    },
+    handleImportKnowledge(db, redactor),
+  );
+
   // --- Value tracking ---
 
-  server.tool(
+  server.registerTool(
     'get_value_metrics',
-    'Get value analytics for a project: sessions tracked, knowledge surfaced, time saved estimates.',
-    valueMetricsSchema,
+    {
+      description: 'Get value analytics for a project: sessions tracked, knowledge surfaced, time saved estimates.',
+      inputSchema: valueMetricsSchema,
+      outputSchema: valueMetricsOutputSchema,
+    },
     handleValueMetrics(db),
   );
 
+  // --- Project identity ---
+
+  server.registerTool(
+    'move_project',
+    {
+      description: 'Move a project to the new location of its repository after it moved on disk. Sessions, knowledge and file history follow it.',
+      inputSchema: moveProjectSchema,
+      outputSchema: moveProjectOutputSchema,
+    },
+    handleMoveProject(db),
+  );
+
+  server.registerTool(
+    'merge_projects',
+    {
+      description: 'Fold the memory of one project into another, for the same repository recorded under two identities (for example a clone without a remote). The source project is deleted and its paths map to the target.',
+      inputSchema: mergeProjectsSchema,
+      outputSchema: mergeProjectsOutputSchema,
+    },
+    handleMergeProjects(db),
+  );
+
   return server;
 }
@@ -0,0 +1,183 @@
+import type Database from 'better-sqlite3';
+import type { RelatedFile } from '../types.js';
+
+// Sessions and commits touching more files are bulk changes (renames,
+// formatting, dependency bumps) that say little about which files belong
+// together. Migration v16 uses the same limit.
+export const MAX_CO_ACCESS_FILES = 50;
+
+export type CoAccessSource = 'session' | 'commit';
+
+interface RelatedFileRow {
+  file_path: string;
+  session_count: number;
+  commit_count: number;
+  last_seen_at: string;
+}
+
+interface CoAccessRow {
+  file_a: string;
+  file_b: string;
+  session_count: number;
+  commit_count: number;
+  last_seen_at: string;
+}
+
+function rowToRelatedFile(row: RelatedFileRow): RelatedFile {
+  return {
+    filePath: row.file_path,
+    sessionCount: row.session_count,
+    commitCount: row.commit_count,
+    lastSeenAt: row.last_seen_at,
+  };
+}
+
+const UPSERT_PAIR = `
+  INSERT INTO file_co_access (project_path, file_a, file_b, session_count, commit_count, last_seen_at)
+  VALUES (@project_path, @file_a, @file_b, @session_count, @commit_count, @last_seen_at)
+  ON CONFLICT(project_path, file_a, file_b) DO UPDATE SET
+    session_count = session_count + excluded.session_count,
+    commit_count = commit_count + excluded.commit_count,
+    last_seen_at = MAX(last_seen_at, excluded.last_seen_at)
+`;
+
+// Each pair is stored once, in path order
+function orderPair(a: string, b: string): { file_a: string; file_b: string } {
+  return a < b ? { file_a: a, file_b: b } : { file_a: b, file_b: a };
+}
+
+/**
+ * Count every pair of `files` as seen together once more, in a session or
+ * in a commit; with `fresh`, only pairs that include one of those files.
+ * Returns the number of pairs; nothing is recorded for more than
+ * MAX_CO_ACCESS_FILES files.
+ */
+export function recordCoAccess(
+  db: Database.Database,
+  projectPath: string,
+  files: readonly string[],
+  source: CoAccessSource,
+  seenAt: string,
+  fresh?: ReadonlySet<string>,
+): number {
+  const unique = [...new Set(files)];
+  if (unique.length < 2 || unique.length > MAX_CO_ACCESS_FILES) {
+    return 0;
+  }
+
+  const upsert = db.prepare(UPSERT_PAIR);
+  let pairs = 0;
+  db.transaction(() => {
+    for (let i = 0; i < unique.length; i++) {
+      for (let j = i + 1; j < unique.length; j++) {
+        if (fresh && !fresh.has(unique[i]!) && !fresh.has(unique[j]!)) {
+          continue;
+        }
+        upsert.run({
+          project_path: projectPath,
+          ...orderPair(unique[i]!, unique[j]!),
+          session_count: source === 'session' ? 1 : 0,
+          commit_count: source === 'commit' ? 1 : 0,
+          last_seen_at: seenAt,
+        });
+        pairs++;
+      }
+    }
+  })();
+  return pairs;
+}
+
+/**
+ * Count a session's files as seen together, once per session: pairs the
+ * session counted before it was reopened and ended again are skipped.
+ */
+export function recordSessionCoAccess(
+  db: Database.Database,
+  projectPath: string,
+  sessionId: string,
+  files: readonly string[],
+  seenAt: string,
+): number {
+  const counted = new Set((db.prepare('SELECT file_path FROM session_co_access_files WHERE session_id = ?')
+    .all(sessionId) as { file_path: string }[]).map((r) => r.file_path));
+  const fresh = new Set(files.filter((f) => !counted.has(f)));
+  if (fresh.size === 0) {
+    return 0;
+  }
+
+  const markCounted = db.prepare('INSERT OR IGNORE INTO session_co_access_files (session_id, file_path) VALUES (?, ?)');
+  return db.transaction(() => {
+    const pairs = recordCoAccess(db, projectPath, [...counted, ...fresh], 'session', seenAt, fresh);
+    for (const file of fresh) {
+      markCounted.run(sessionId, file);
+    }
+    return pairs;
+  })();
+}
+
+/**
+ * Files most often seen together with `filePath`, sessions and commits
+ * counted alike. Files marked deleted or matched by `isIgnored` are left out.
+ */
+export function getRelatedFiles(
+  db: Database.Database,
+  projectPath: string,
+  filePath: string,
+  limit: number = 10,
+  isIgnored: (path: string) => boolean = () => false,
+): readonly RelatedFile[] {
+  const rows = db.prepare(`
+    SELECT
+      CASE WHEN c.file_a = @file_path THEN c.file_b ELSE c.file_a END AS file_path,
+      c.session_count,
+      c.commit_count,
+      c.last_seen_at
+    FROM file_co_access c
+    WHERE c.project_path = @project_path
+      AND (c.file_a = @file_path OR c.file_b = @file_path)
+      AND NOT EXISTS (
+        SELECT 1 FROM file_importance f
+        WHERE f.project_path = c.project_path
+          AND f.file_path = CASE WHEN c.file_a = @file_path THEN c.file_b ELSE c.file_a END
+          AND f.deleted_at IS NOT NULL
+      )
+    ORDER BY c.session_count + c.commit_count DESC, c.last_seen_at DESC, file_path
+  `).all({ project_path: projectPath, file_path: filePath }) as RelatedFileRow[];
+
+  return rows.filter((r) => !isIgnored(r.file_path)).slice(0, limit).map(rowToRelatedFile);
+}
+
+/**
+ * Move a file's pairs to the path it was renamed to, adding them to any
+ * pairs already there.
+ */
+export function renameCoAccessFile(
+  db: Database.Database,
+  projectPath: string,
+  fromPath: string,
+  toPath: string,
+): void {
+  const rows = db.prepare(`
+    SELECT file_a, file_b, session_count, commit_count, last_seen_at FROM file_co_access
+    WHERE project_path = ? AND (file_a = ? OR file_b = ?)
+  `).all(projectPath, fromPath, fromPath) as CoAccessRow[];
+  const remove = db.prepare('DELETE FROM file_co_access WHERE project_path = ? AND file_a = ? AND file_b = ?');
+  const upsert = db.prepare(UPSERT_PAIR);
+
+  db.transaction(() => {
+    for (const row of rows) {
+      remove.run(projectPath, row.file_a, row.file_b);
+      const other = row.file_a === fromPath ? row.file_b : row.file_a;
+      if (other === toPath) {
+        continue;
+      }
+      upsert.run({
+        project_path: projectPath,
+        ...orderPair(toPath, other),
+        session_count: row.session_count,
+        commit_count: row.commit_count,
+        last_seen_at: row.last_seen_at,
+      });
+    }
+  })();
+}
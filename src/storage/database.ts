@@ -3,7 +3,7 @@ import { join } from 'node:path';
 import { mkdirSync } from 'node:fs';
 import { homedir } from 'node:os';
 
-const CURRENT_SCHEMA_VERSION = 3;
+const CURRENT_SCHEMA_VERSION = 18;
 
 const MIGRATIONS: Record<number, string> = {
   1: `
@@ -141,6 +141,436 @@ const MIGRATIONS: Record<number, string> = {
     CREATE INDEX IF NOT EXISTS idx_knowledge_branch
       ON promoted_knowledge(project_path, branch);
   `,
+
+  // v4: Full-text search over session summaries, event details and knowledge
+  4: `
+    CREATE VIRTUAL TABLE IF NOT EXISTS sessions_fts USING fts5(
+      session_id UNINDEXED,
+      summary
+    );
+
+    CREATE VIRTUAL TABLE IF NOT EXISTS events_fts USING fts5(
+      event_id UNINDEXED,
+      session_id UNINDEXED,
+      event_type UNINDEXED,
+      title,
+      body
+    );
+
+    CREATE VIRTUAL TABLE IF NOT EXISTS knowledge_fts USING fts5(
+      knowledge_id UNINDEXED,
+      title,
+      content,
+      tags
+    );
+
+    -- Searchable text per event type (file ops carry no prose and are skipped)
+    CREATE VIEW IF NOT EXISTS event_search_text AS
+      SELECT
+        event_id,
+        session_id,
+        event_type,
+        CASE event_type
+          WHEN 'decision' THEN json_extract(detail_json, '$.title')
+          WHEN 'error_resolved' THEN json_extract(detail_json, '$.error')
+          WHEN 'tool_call' THEN json_extract(detail_json, '$.toolName')
+        END AS title,
+        CASE event_type
+          WHEN 'decision' THEN json_extract(detail_json, '$.rationale')
+          WHEN 'pattern' THEN json_extract(detail_json, '$.description')
+          WHEN 'error_resolved' THEN json_extract(detail_json, '$.resolution')
+          WHEN 'milestone' THEN json_extract(detail_json, '$.summary')
+          WHEN 'tool_call' THEN json_extract(detail_json, '$.params')
+        END AS body
+      FROM session_events
+      WHERE event_type NOT IN ('file_read', 'file_write', 'file_edit');
+
+    CREATE TRIGGER IF NOT EXISTS sessions_fts_insert AFTER INSERT ON sessions
+    WHEN new.summary IS NOT NULL
+    BEGIN
+      INSERT INTO sessions_fts (session_id, summary) VALUES (new.session_id, new.summary);
+    END;
+
+    CREATE TRIGGER IF NOT EXISTS sessions_fts_update AFTER UPDATE OF summary ON sessions
+    BEGIN
+      DELETE FROM sessions_fts WHERE session_id = old.session_id;
+      INSERT INTO sessions_fts (session_id, summary)
+        SELECT new.session_id, new.summary WHERE new.summary IS NOT NULL;
+    END;
+
+    CREATE TRIGGER IF NOT EXISTS sessions_fts_delete AFTER DELETE ON sessions
+    BEGIN
+      DELETE FROM sessions_fts WHERE session_id = old.session_id;
+    END;
+
+    CREATE TRIGGER IF NOT EXISTS events_fts_insert AFTER INSERT ON session_events
+    BEGIN
+      INSERT INTO events_fts (event_id, session_id, event_type, title, body)
+        SELECT event_id, session_id, event_type, title, body
+        FROM event_search_text WHERE event_id = new.event_id;
+    END;
+
+    CREATE TRIGGER IF NOT EXISTS events_fts_update AFTER UPDATE OF detail_json, event_type ON session_events
+    BEGIN
+      DELETE FROM events_fts WHERE event_id = old.event_id;
+      INSERT INTO events_fts (event_id, session_id, event_type, title, body)
+        SELECT event_id, session_id, event_type, title, body
+        FROM event_search_text WHERE event_id = new.event_id;
+    END;
+
+    CREATE TRIGGER IF NOT EXISTS events_fts_delete AFTER DELETE ON session_events
+    BEGIN
+      DELETE FROM events_fts WHERE event_id = old.event_id;
+    END;
+
+    CREATE TRIGGER IF NOT EXISTS knowledge_fts_insert AFTER INSERT ON promoted_knowledge
+    BEGIN
+      INSERT INTO knowledge_fts (knowledge_id, title, content, tags)
+        VALUES (new.knowledge_id, new.title, new.content, new.tags);
+    END;
+
+    CREATE TRIGGER IF NOT EXISTS knowledge_fts_update AFTER UPDATE OF title, content, tags ON promoted_knowledge
+    BEGIN
+      DELETE FROM knowledge_fts WHERE knowledge_id = old.knowledge_id;
+      INSERT INTO knowledge_fts (knowledge_id, title, content, tags)
+        VALUES (new.knowledge_id, new.title, new.content, new.tags);
+    END;
+
+    CREATE TRIGGER IF NOT EXISTS knowledge_fts_delete AFTER DELETE ON promoted_knowledge
+    BEGIN
+      DELETE FROM knowledge_fts WHERE knowledge_id = old.knowledge_id;
+    END;
+
+    -- Backfill rows written before v4
+    INSERT INTO sessions_fts (session_id, summary)
+      SELECT session_id, summary FROM sessions WHERE summary IS NOT NULL;
+    INSERT INTO events_fts (event_id, session_id, event_type, title, body)
+      SELECT event_id, session_id, event_type, title, body FROM event_search_text;
+    INSERT INTO knowledge_fts (knowledge_id, title, content, tags)
+      SELECT knowledge_id, title, content, tags FROM promoted_knowledge;
+  `,
+
+  // v5: Embedding vectors for semantic recall
+  5: `
+    CREATE TABLE IF NOT EXISTS embeddings (
+      source TEXT NOT NULL,
+      item_id TEXT NOT NULL,
+      project_path TEXT NOT NULL,
+      embedder TEXT NOT NULL,
+      dimensions INTEGER NOT NULL,
+      vector BLOB NOT NULL,
+      created_at TEXT NOT NULL DEFAULT (datetime('now')),
+      PRIMARY KEY (source, item_id)
+    );
+
+    CREATE INDEX IF NOT EXISTS idx_embeddings_project
+      ON embeddings(project_path, source);
+
+    -- Drop vectors whose text changed or disappeared; they are re-embedded lazily
+    CREATE TRIGGER IF NOT EXISTS sessions_embedding_update AFTER UPDATE OF summary ON sessions
+    BEGIN
+      DELETE FROM embeddings WHERE source = 'session' AND item_id = old.session_id;
+    END;
+
+    CREATE TRIGGER IF NOT EXISTS sessions_embedding_delete AFTER DELETE ON sessions
+    BEGIN
+      DELETE FROM embeddings WHERE source = 'session' AND item_id = old.session_id;
+    END;
+
+    CREATE TRIGGER IF NOT EXISTS events_embedding_update AFTER UPDATE OF detail_json ON session_events
+    BEGIN
+      DELETE FROM embeddings WHERE source = 'event' AND item_id = old.event_id;
+    END;
+
+    CREATE TRIGGER IF NOT EXISTS events_embedding_delete AFTER DELETE ON session_events
+    BEGIN
+      DELETE FROM embeddings WHERE source = 'event' AND item_id = old.event_id;
+    END;
+
+    CREATE TRIGGER IF NOT EXISTS knowledge_embedding_update AFTER UPDATE OF title, content, tags ON promoted_knowledge
+    BEGIN
+      DELETE FROM embeddings WHERE source = 'knowledge' AND item_id = old.knowledge_id;
+    END;
+
+    CREATE TRIGGER IF NOT EXISTS knowledge_embedding_delete AFTER DELETE ON promoted_knowledge
+    BEGIN
+      DELETE FROM embeddings WHERE source = 'knowledge' AND item_id = old.knowledge_id;
+    END;
+  `,
+
+  // v6: Knowledge editing and soft-delete (retraction)
+  6: `
+    ALTER TABLE promoted_knowledge ADD COLUMN updated_at TEXT;
+    ALTER TABLE promoted_knowledge ADD COLUMN retracted_at TEXT;
+    ALTER TABLE promoted_knowledge ADD COLUMN retraction_reason TEXT;
+  `,
+
+  // v7: Knowledge revision history
+  7: `
+    CREATE TABLE IF NOT EXISTS knowledge_revisions (
+      revision_id TEXT PRIMARY KEY,
+      knowledge_id TEXT NOT NULL,
+      revision_number INTEGER NOT NULL,
+      title TEXT NOT NULL,
+      content TEXT NOT NULL,
+      knowledge_type TEXT NOT NULL,
+      tags TEXT NOT NULL DEFAULT '[]',
+      session_id TEXT,
+      change_type TEXT NOT NULL,
+      created_at TEXT NOT NULL,
+      UNIQUE (knowledge_id, revision_number)
+    );
+
+    CREATE INDEX IF NOT EXISTS idx_knowledge_revisions_knowledge
+      ON knowledge_revisions(knowledge_id, revision_number);
+
+    -- Existing items start their history at their current state
+    INSERT INTO knowledge_revisions
+      (revision_id, knowledge_id, revision_number, title, content,
+       knowledge_type, tags, session_id, change_type, created_at)
+    SELECT lower(hex(randomblob(16))), knowledge_id, 1, title, content,
+           knowledge_type, tags, session_id, 'created', COALESCE(updated_at, created_at)
+    FROM promoted_knowledge;
+  `,
+
+  // v8: Concurrent sessions per project, told apart by worktree and agent instance
+  8: `
+    ALTER TABLE sessions ADD COLUMN worktree TEXT;
+    ALTER TABLE sessions ADD COLUMN agent_instance TEXT;
+
+    CREATE INDEX IF NOT EXISTS idx_sessions_project_status
+      ON sessions(project_path, status);
+  `,
+
+  // v9: Subagent sessions nested under the session that spawned them
+  9: `
+    ALTER TABLE sessions ADD COLUMN parent_session_id TEXT REFERENCES sessions(session_id);
+
+    CREATE INDEX IF NOT EXISTS idx_sessions_parent
+      ON sessions(parent_session_id);
+  `,
+
+  // v10: Summaries generated from events, replaceable by a written one
+  10: `
+    ALTER TABLE sessions ADD COLUMN summary_generated INTEGER NOT NULL DEFAULT 0;
+  `,
+
+  // v11: Commits and changed files between a session's start and end commits
+  11: `
+    CREATE TABLE IF NOT EXISTS session_commits (
+      session_id TEXT NOT NULL REFERENCES sessions(session_id),
+      sha TEXT NOT NULL,
+      subject TEXT NOT NULL,
+      author TEXT NOT NULL,
+      committed_at TEXT NOT NULL,
+      PRIMARY KEY (session_id, sha)
+    );
+
+    CREATE TABLE IF NOT EXISTS session_file_changes (
+      session_id TEXT NOT NULL REFERENCES sessions(session_id),
+      file_path TEXT NOT NULL,
+      change_type TEXT NOT NULL,
+      previous_path TEXT,
+      PRIMARY KEY (session_id, file_path)
+    );
+
+    CREATE INDEX IF NOT EXISTS idx_session_file_changes_path
+      ON session_file_changes(file_path);
+
+    CREATE VIRTUAL TABLE IF NOT EXISTS session_commits_fts USING fts5(
+      session_id UNINDEXED,
+      sha UNINDEXED,
+      subject
+    );
+
+    CREATE TRIGGER IF NOT EXISTS session_commits_fts_insert AFTER INSERT ON session_commits
+    BEGIN
+      INSERT INTO session_commits_fts (session_id, sha, subject)
+        VALUES (new.session_id, new.sha, new.subject);
+    END;
+
+    CREATE TRIGGER IF NOT EXISTS session_commits_fts_delete AFTER DELETE ON session_commits
+    BEGIN
+      DELETE FROM session_commits_fts WHERE session_id = old.session_id AND sha = old.sha;
+    END;
+  `,
+
+  // v12: Project identity. Project-scoped tables keep storing a path, the
+  // project's root_path; clones, symlinks and subdirectories reach it
+  // through project_aliases.
+  12: `
+    CREATE TABLE IF NOT EXISTS projects (
+      project_id TEXT PRIMARY KEY,
+      root_path TEXT NOT NULL UNIQUE,
+      remote_url TEXT,
+      created_at TEXT NOT NULL DEFAULT (datetime('now')),
+      identified_at TEXT
+    );
+
+    CREATE TABLE IF NOT EXISTS project_aliases (
+      alias_path TEXT PRIMARY KEY,
+      project_id TEXT NOT NULL REFERENCES projects(project_id)
+        ON UPDATE CASCADE ON DELETE CASCADE
+    );
+
+    CREATE INDEX IF NOT EXISTS idx_project_aliases_project
+      ON project_aliases(project_id);
+
+    -- Every stored path becomes a project named after it, identified from
+    -- git the next time it is resolved
+    INSERT OR IGNORE INTO projects (project_id, root_path)
+      SELECT 'path:' || project_path, project_path FROM (
+        SELECT project_path FROM sessions
+        UNION SELECT project_path FROM promoted_knowledge
+        UNION SELECT project_path FROM file_importance
+        UNION SELECT project_path FROM value_metrics
+        UNION SELECT project_path FROM embeddings
+        UNION SELECT project_path FROM synapse_sync_config
+      );
+
+    INSERT OR IGNORE INTO project_aliases (alias_path, project_id)
+      SELECT root_path, project_id FROM projects;
+  `,
+
+  // v13: Secrets replaced in each event before it was stored
+  13: `
+    ALTER TABLE session_events ADD COLUMN redactions INTEGER NOT NULL DEFAULT 0;
+  `,
+
+  // v14: File paths relative to the project root. Absolute paths under the
+  // root and "./" prefixes are rewritten; file_importance rows that then
+  // name the same file are merged by summing their counts. Their score is
+  // the sum of the merged scores until the file is next accessed.
+  14: `
+    UPDATE session_events AS e
+    SET detail_json = json_set(e.detail_json, '$.path', CASE
+      WHEN substr(json_extract(e.detail_json, '$.path'), 1, length(s.root) + 1) = s.root || '/'
+        THEN substr(json_extract(e.detail_json, '$.path'), length(s.root) + 2)
+      ELSE substr(json_extract(e.detail_json, '$.path'), 3)
+    END)
+    FROM (SELECT session_id, COALESCE(worktree, project_path) AS root FROM sessions) AS s
+    WHERE e.session_id = s.session_id
+      AND e.event_type IN ('file_read', 'file_write', 'file_edit')
+      AND (substr(json_extract(e.detail_json, '$.path'), 1, length(s.root) + 1) = s.root || '/'
+        OR substr(json_extract(e.detail_json, '$.path'), 1, 2) = './');
+
+    CREATE TABLE file_importance_v14 AS
+      SELECT project_path, file_path,
+        SUM(read_count) AS read_count,
+        SUM(edit_count) AS edit_count,
+        MAX(last_accessed_at) AS last_accessed_at,
+        SUM(importance_score) AS importance_score
+      FROM (
+        SELECT project_path, read_count, edit_count, last_accessed_at, importance_score, CASE
+          WHEN substr(file_path, 1, length(project_path) + 1) = project_path || '/'
+            THEN substr(file_path, length(project_path) + 2)
+          WHEN substr(file_path, 1, 2) = './' THEN substr(file_path, 3)
+          ELSE file_path
+        END AS file_path
+        FROM file_importance
+      )
+      GROUP BY project_path, file_path;
+
+    DELETE FROM file_importance;
+    INSERT INTO file_importance (project_path, file_path, read_count, edit_count, last_accessed_at, importance_score)
+      SELECT project_path, file_path, read_count, edit_count, last_accessed_at, importance_score
+      FROM file_importance_v14;
+    DROP TABLE file_importance_v14;
+  `,
+
+  // v15: Files that were deleted, and how far git renames have been
+  // carried into file importance
+  15: `
+    ALTER TABLE file_importance ADD COLUMN deleted_at TEXT;
+    ALTER TABLE projects ADD COLUMN files_reconciled_commit TEXT;
+  `,
+
+  // v16: Files touched in the same session or changed in the same commit.
+  // Backfilled from completed sessions; those touching more than 50 files
+  // are skipped, as session_end does
+  16: `
+    CREATE TABLE IF NOT EXISTS file_co_access (
+      project_path TEXT NOT NULL,
+      file_a TEXT NOT NULL,
+      file_b TEXT NOT NULL,
+      session_count INTEGER NOT NULL DEFAULT 0,
+      commit_count INTEGER NOT NULL DEFAULT 0,
+      last_seen_at TEXT NOT NULL,
+      PRIMARY KEY (project_path, file_a, file_b)
+    );
+
+    CREATE INDEX IF NOT EXISTS idx_file_co_access_b
+      ON file_co_access(project_path, file_b);
+
+    WITH session_files AS (
+      SELECT s.session_id, s.project_path, COALESCE(s.ended_at, s.started_at) AS seen_at,
+        json_extract(e.detail_json, '$.path') AS file_path
+      FROM session_events e
+      JOIN sessions s ON e.session_id = s.session_id
+      WHERE s.status = 'completed'
+        AND e.event_type IN ('file_read', 'file_write', 'file_edit')
+        AND json_extract(e.detail_json, '$.outsideProject') IS NOT 1
+      UNION
+      SELECT s.session_id, s.project_path, COALESCE(s.ended_at, s.started_at), c.file_path
+      FROM session_file_changes c
+      JOIN sessions s ON c.session_id = s.session_id
+      WHERE s.status = 'completed' AND c.change_type != 'deleted'
+    ),
+    sized AS (
+      SELECT *, COUNT(*) OVER (PARTITION BY session_id) AS file_count
+      FROM session_files
+      WHERE file_path IS NOT NULL
+    )
+    INSERT INTO file_co_access (project_path, file_a, file_b, session_count, last_seen_at)
+    SELECT a.project_path, a.file_path, b.file_path, COUNT(*), MAX(a.seen_at)
+    FROM sized a
+    JOIN sized b ON a.session_id = b.session_id AND a.file_path < b.file_path
+    WHERE a.file_count <= 50
+    GROUP BY a.project_path, a.file_path, b.file_path;
+  `,
+
+  // v17: Files whose pairs a session has already counted, so a session
+  // ended again after being reopened only adds the files it touched since.
+  // Completed sessions were counted by the v16 backfill
+  17: `
+    CREATE TABLE IF NOT EXISTS session_co_access_files (
+      session_id TEXT NOT NULL REFERENCES sessions(session_id),
+      file_path TEXT NOT NULL,
+      PRIMARY KEY (session_id, file_path)
+    );
+
+    INSERT OR IGNORE INTO session_co_access_files (session_id, file_path)
+    SELECT s.session_id, json_extract(e.detail_json, '$.path')
+    FROM session_events e
+    JOIN sessions s ON e.session_id = s.session_id
+    WHERE s.status = 'completed'
+      AND e.event_type IN ('file_read', 'file_write', 'file_edit')
+      AND json_extract(e.detail_json, '$.outsideProject') IS NOT 1
+      AND json_extract(e.detail_json, '$.path') IS NOT NULL
+    UNION
+    SELECT s.session_id, c.file_path
+    FROM session_file_changes c
+    JOIN sessions s ON c.session_id = s.session_id
+    WHERE s.status = 'completed' AND c.change_type != 'deleted';
+  `,
+
+  // v18: How far git renames have been carried into file importance, per
+  // worktree: clones and worktrees of one project sit at different commits
+  18: `
+    CREATE TABLE IF NOT EXISTS worktree_reconciliation (
+      project_path TEXT NOT NULL,
+      worktree TEXT NOT NULL,
+      reconciled_commit TEXT NOT NULL,
+      PRIMARY KEY (project_path, worktree)
+    );
+
+    INSERT OR IGNORE INTO worktree_reconciliation (project_path, worktree, reconciled_commit)
+    SELECT root_path, root_path, files_reconciled_commit
+    FROM projects
+    WHERE files_reconciled_commit IS NOT NULL;
+
+    ALTER TABLE projects DROP COLUMN files_reconciled_commit;
+  `,
 };
 
 function getSchemaVersion(db: Database.Database): number {
@@ -178,8 +608,12 @@ function runMigrations(db: Database.Database): void {
   migrate();
 }
 
+export function getDataDir(): string {
+  return process.env['SYNAPSE_MEMORY_DIR'] ?? join(homedir(), '.synapse-memory');
+}
+
 export function getDbPath(): string {
-  const dir = process.env['SYNAPSE_MEMORY_DIR'] ?? join(homedir(), '.synapse-memory');
+  const dir = getDataDir();
   mkdirSync(dir, { recursive: true });
   return join(dir, 'memory.db');
 }
@@ -198,3 +632,14 @@ export function createDatabase(dbPath?: string): Database.Database {
 export function createInMemoryDatabase(): Database.Database {
   return createDatabase(':memory:');
 }
+
+/**
+ * Fold the WAL back into the main database file and close it, so a stopped
+ * server leaves a single self-contained file behind.
+ */
+export function closeDatabase(db: Database.Database): void {
+  if (db.open) {
+    db.pragma('wal_checkpoint(TRUNCATE)');
+    db.close();
+  }
+}
@@ -0,0 +1,115 @@
+import type Database from 'better-sqlite3';
+import type { SearchSource } from '../types.js';
+
+interface EmbeddingRow {
+  source: string;
+  item_id: string;
+  vector: Buffer;
+}
+
+export interface StoredEmbedding {
+  readonly source: SearchSource;
+  readonly itemId: string;
+  readonly vector: Float32Array;
+}
+
+export interface EmbeddableItem {
+  readonly source: SearchSource;
+  readonly itemId: string;
+  readonly text: string;
+}
+
+function vectorToBlob(vector: Float32Array): Buffer {
+  return Buffer.from(vector.buffer, vector.byteOffset, vector.byteLength);
+}
+
+function blobToVector(blob: Buffer): Float32Array {
+  // Copy: SQLite blobs are not guaranteed to be 4-byte aligned
+  return new Float32Array(Uint8Array.from(blob).buffer);
+}
+
+export function upsertEmbedding(
+  db: Database.Database,
+  source: SearchSource,
+  itemId: string,
+  projectPath: string,
+  embedderName: string,
+  vector: Float32Array,
+): void {
+  db.prepare(`
+    INSERT INTO embeddings (source, item_id, project_path, embedder, dimensions, vector)
+    VALUES (@source, @item_id, @project_path, @embedder, @dimensions, @vector)
+    ON CONFLICT(source, item_id) DO UPDATE SET
+      project_path = @project_path,
+      embedder = @embedder,
+      dimensions = @dimensions,
+      vector = @vector,
+      created_at = datetime('now')
+  `).run({
+    source,
+    item_id: itemId,
+    project_path: projectPath,
+    embedder: embedderName,
+    dimensions: vector.length,
+    vector: vectorToBlob(vector),
+  });
+}
+
+export function getEmbeddings(
+  db: Database.Database,
+  projectPath: string,
+  embedderName: string,
+  source?: SearchSource,
+): readonly StoredEmbedding[] {
+  const query = source
+    ? `SELECT source, item_id, vector FROM embeddings
+       WHERE project_path = ? AND embedder = ? AND source = ?`
+    : `SELECT source, item_id, vector FROM embeddings
+       WHERE project_path = ? AND embedder = ?`;
+
+  const params = source
+    ? [projectPath, embedderName, source]
+    : [projectPath, embedderName];
+
+  const rows = db.prepare(query).all(...params) as EmbeddingRow[];
+  return rows.map((row) => ({
+    source: row.source as SearchSource,
+    itemId: row.item_id,
+    vector: blobToVector(row.vector),
+  }));
+}
+
+/**
+ * Items in a project that have text but no vector from the given embedder.
+ * Event text comes from the same event_search_text view the FTS index uses.
+ */
+export function getUnembeddedItems(
+  db: Database.Database,
+  projectPath: string,
+  embedderName: string,
+): readonly EmbeddableItem[] {
+  return db.prepare(`
+    SELECT 'session' AS source, s.session_id AS itemId, s.summary AS text
+    FROM sessions s
+    LEFT JOIN embeddings e ON e.source = 'session' AND e.item_id = s.session_id
+    WHERE s.project_path = @project_path AND s.summary IS NOT NULL
+      AND (e.item_id IS NULL OR e.embedder != @embedder)
+
+    UNION ALL
+
+    SELECT 'event', t.event_id, trim(COALESCE(t.title, '') || ' ' || COALESCE(t.body, ''))
+    FROM event_search_text t
+    JOIN sessions s ON s.session_id = t.session_id
+    LEFT JOIN embeddings e ON e.source = 'event' AND e.item_id = t.event_id
+    WHERE s.project_path = @project_path
+      AND (e.item_id IS NULL OR e.embedder != @embedder)
+
+    UNION ALL
+
+    SELECT 'knowledge', k.knowledge_id, k.title || ' ' || k.content
+    FROM promoted_knowledge k
+    LEFT JOIN embeddings e ON e.source = 'knowledge' AND e.item_id = k.knowledge_id
+    WHERE k.project_path = @project_path
+      AND (e.item_id IS NULL OR e.embedder != @embedder)
+  `).all({ project_path: projectPath, embedder: embedderName }) as EmbeddableItem[];
+}
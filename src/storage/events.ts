@@ -8,6 +8,7 @@ interface EventRow {
   event_type: string;
   category: string;
   detail_json: string;
+  redactions: number;
 }
 
 function rowToEvent(row: EventRow): SessionEvent {
@@ -18,6 +19,7 @@ function rowToEvent(row: EventRow): SessionEvent {
     eventType: row.event_type as EventType,
     category: row.category as SessionEvent['category'],
     detail: JSON.parse(row.detail_json) as EventDetail,
+    redactions: row.redactions || undefined,
   };
 }
 
@@ -26,8 +28,8 @@ export function insertEvent(
   event: SessionEvent,
 ): SessionEvent {
   db.prepare(`
-    INSERT INTO session_events (event_id, session_id, timestamp, event_type, category, detail_json)
-    VALUES (@event_id, @session_id, @timestamp, @event_type, @category, @detail_json)
+    INSERT INTO session_events (event_id, session_id, timestamp, event_type, category, detail_json, redactions)
+    VALUES (@event_id, @session_id, @timestamp, @event_type, @category, @detail_json, @redactions)
   `).run({
     event_id: event.eventId,
     session_id: event.sessionId,
@@ -35,11 +37,23 @@ export function insertEvent(
     event_type: event.eventType,
     category: event.category,
     detail_json: JSON.stringify(event.detail),
+    redactions: event.redactions ?? 0,
   });
 
   return event;
 }
 
+export function getEventById(
+  db: Database.Database,
+  eventId: string,
+): SessionEvent | undefined {
+  const row = db.prepare(`
+    SELECT * FROM session_events WHERE event_id = ?
+  `).get(eventId) as EventRow | undefined;
+
+  return row ? rowToEvent(row) : undefined;
+}
+
 export function getSessionEvents(
   db: Database.Database,
   sessionId: string,
@@ -81,3 +95,47 @@ export function getRecentEvents(
   const rows = db.prepare(query).all(...params) as EventRow[];
   return rows.map(rowToEvent);
 }
+
+/**
+ * Point the `files` of a project's pattern and resolved-error events at
+ * renamed paths. Entries are matched relative to the session's root, so an
+ * absolute entry is rewritten too; rewritten entries are relative.
+ */
+export function renameEventFiles(
+  db: Database.Database,
+  projectPath: string,
+  renames: ReadonlyMap<string, string>,
+): number {
+  if (renames.size === 0) {
+    return 0;
+  }
+
+  const rows = db.prepare(`
+    SELECT e.event_id, e.detail_json, COALESCE(s.worktree, s.project_path) AS root
+    FROM session_events e
+    JOIN sessions s ON e.session_id = s.session_id
+    WHERE s.project_path = ? AND e.event_type IN ('pattern', 'error_resolved')
+  `).all(projectPath) as { event_id: string; detail_json: string; root: string }[];
+  const update = db.prepare('UPDATE session_events SET detail_json = ? WHERE event_id = ?');
+
+  let updated = 0;
+  for (const row of rows) {
+    const detail = JSON.parse(row.detail_json) as EventDetail;
+    if (detail.type !== 'pattern' && detail.type !== 'error_resolved') {
+      continue;
+    }
+    const prefix = `${row.root}/`;
+    let changed = false;
+    const files = detail.files.map((file) => {
+      const relativePath = (file.startsWith(prefix) ? file.slice(prefix.length) : file).replace(/^\.\//, '');
+      const renamed = renames.get(relativePath);
+      changed ||= renamed !== undefined;
+      return renamed ?? file;
+    });
+    if (changed) {
+      update.run(JSON.stringify({ ...detail, files }), row.event_id);
+      updated++;
+    }
+  }
+  return updated;
+}
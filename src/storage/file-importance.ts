@@ -9,6 +9,7 @@ interface FileImportanceRow {
   edit_count: number;
   last_accessed_at: string;
   importance_score: number;
+  deleted_at: string | null;
 }
 
 function rowToFileImportance(row: FileImportanceRow): FileImportance {
@@ -19,6 +20,7 @@ function rowToFileImportance(row: FileImportanceRow): FileImportance {
     editCount: row.edit_count,
     lastAccessedAt: row.last_accessed_at,
     importanceScore: row.importance_score,
+    deletedAt: row.deleted_at ?? undefined,
   };
 }
 
@@ -69,7 +71,8 @@ export function upsertFileAccess(
       read_count = @read_count,
       edit_count = @edit_count,
       last_accessed_at = @last_accessed_at,
-      importance_score = @importance_score
+      importance_score = @importance_score,
+      deleted_at = NULL
   `).run({
     project_path: projectPath,
     file_path: filePath,
@@ -89,6 +92,9 @@ export function upsertFileAccess(
   };
 }
 
+/**
+ * The project's most important files that still exist.
+ */
 export function getImportantFiles(
   db: Database.Database,
   projectPath: string,
@@ -96,7 +102,7 @@ export function getImportantFiles(
 ): readonly FileImportance[] {
   const rows = db.prepare(`
     SELECT * FROM file_importance
-    WHERE project_path = ?
+    WHERE project_path = ? AND deleted_at IS NULL
     ORDER BY importance_score DESC
     LIMIT ?
   `).all(projectPath, limit) as FileImportanceRow[];
@@ -104,6 +110,67 @@ export function getImportantFiles(
   return rows.map(rowToFileImportance);
 }
 
+/**
+ * Every file tracked for the project, deleted ones included.
+ */
+export function getTrackedFiles(db: Database.Database, projectPath: string): readonly FileImportance[] {
+  const rows = db.prepare(`
+    SELECT * FROM file_importance WHERE project_path = ? ORDER BY file_path
+  `).all(projectPath) as FileImportanceRow[];
+
+  return rows.map(rowToFileImportance);
+}
+
+/**
+ * Carry a file's counts over to the path it was renamed to, adding them to
+ * any counts already there.
+ */
+export function renameFileImportance(
+  db: Database.Database,
+  projectPath: string,
+  fromPath: string,
+  toPath: string,
+): FileImportance | undefined {
+  const params = { project_path: projectPath, from: fromPath, to: toPath };
+  db.prepare(`
+    INSERT INTO file_importance (project_path, file_path, read_count, edit_count, last_accessed_at, importance_score)
+    SELECT project_path, @to, read_count, edit_count, last_accessed_at, importance_score
+    FROM file_importance WHERE project_path = @project_path AND file_path = @from
+    ON CONFLICT(project_path, file_path) DO UPDATE SET
+      read_count = read_count + excluded.read_count,
+      edit_count = edit_count + excluded.edit_count,
+      last_accessed_at = MAX(last_accessed_at, excluded.last_accessed_at),
+      deleted_at = NULL
+  `).run(params);
+  db.prepare('DELETE FROM file_importance WHERE project_path = @project_path AND file_path = @from').run(params);
+
+  const row = db.prepare(`
+    SELECT * FROM file_importance WHERE project_path = @project_path AND file_path = @to
+  `).get(params) as FileImportanceRow | undefined;
+  if (!row) {
+    return undefined;
+  }
+  const importanceScore = computeImportanceScore(row.read_count, row.edit_count, row.last_accessed_at);
+  db.prepare(`
+    UPDATE file_importance SET importance_score = ? WHERE project_path = ? AND file_path = ?
+  `).run(importanceScore, projectPath, toPath);
+  return rowToFileImportance({ ...row, importance_score: importanceScore });
+}
+
+/**
+ * Mark a file deleted, or, with no `deletedAt`, present again.
+ */
+export function setFileDeleted(
+  db: Database.Database,
+  projectPath: string,
+  filePath: string,
+  deletedAt: string | undefined,
+): void {
+  db.prepare(`
+    UPDATE file_importance SET deleted_at = ? WHERE project_path = ? AND file_path = ?
+  `).run(deletedAt ?? null, projectPath, filePath);
+}
+
 export function refreshImportanceScores(
   db: Database.Database,
   projectPath: string,
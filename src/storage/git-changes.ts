@@ -0,0 +1,127 @@
+import type Database from 'better-sqlite3';
+import type { GitChangeType, GitCommit, GitFileChange } from '../types.js';
+
+interface CommitRow {
+  sha: string;
+  subject: string;
+  author: string;
+  committed_at: string;
+}
+
+interface FileChangeRow {
+  file_path: string;
+  change_type: string;
+  previous_path: string | null;
+}
+
+function rowToCommit(row: CommitRow): GitCommit {
+  return {
+    sha: row.sha,
+    subject: row.subject,
+    author: row.author,
+    committedAt: row.committed_at,
+  };
+}
+
+function rowToFileChange(row: FileChangeRow): GitFileChange {
+  return {
+    path: row.file_path,
+    changeType: row.change_type as GitChangeType,
+    previousPath: row.previous_path ?? undefined,
+  };
+}
+
+/**
+ * Link commits to a session. Commits it already has are skipped, so a
+ * session ended more than once keeps one row per commit.
+ */
+export function insertSessionCommits(
+  db: Database.Database,
+  sessionId: string,
+  commits: readonly GitCommit[],
+): void {
+  const insert = db.prepare(`
+    INSERT OR IGNORE INTO session_commits (session_id, sha, subject, author, committed_at)
+    VALUES (@session_id, @sha, @subject, @author, @committed_at)
+  `);
+
+  db.transaction(() => {
+    for (const c of commits) {
+      insert.run({
+        session_id: sessionId,
+        sha: c.sha,
+        subject: c.subject,
+        author: c.author,
+        committed_at: c.committedAt,
+      });
+    }
+  })();
+}
+
+/**
+ * Record the files a session's commits changed. Returns the changes for
+ * files the session had not recorded yet; known files only get their
+ * change type updated.
+ */
+export function upsertSessionFileChanges(
+  db: Database.Database,
+  sessionId: string,
+  changes: readonly GitFileChange[],
+): readonly GitFileChange[] {
+  const upsert = db.prepare(`
+    INSERT INTO session_file_changes (session_id, file_path, change_type, previous_path)
+    VALUES (@session_id, @file_path, @change_type, @previous_path)
+    ON CONFLICT(session_id, file_path) DO UPDATE SET
+      change_type = @change_type,
+      previous_path = @previous_path
+  `);
+  const known = new Set(getSessionFileChanges(db, sessionId).map((c) => c.path));
+
+  db.transaction(() => {
+    for (const c of changes) {
+      upsert.run({
+        session_id: sessionId,
+        file_path: c.path,
+        change_type: c.changeType,
+        previous_path: c.previousPath ?? null,
+      });
+    }
+  })();
+
+  return changes.filter((c) => !known.has(c.path));
+}
+
+/**
+ * Whether any session of the project has linked the commit, for example a
+ * concurrent session on the same branch.
+ */
+export function isCommitRecorded(db: Database.Database, projectPath: string, sha: string): boolean {
+  const row = db.prepare(`
+    SELECT 1 FROM session_commits c
+    JOIN sessions s ON c.session_id = s.session_id
+    WHERE s.project_path = ? AND c.sha = ?
+  `).get(projectPath, sha);
+  return row !== undefined;
+}
+
+export function getSessionCommits(
+  db: Database.Database,
+  sessionId: string,
+): readonly GitCommit[] {
+  const rows = db.prepare(`
+    SELECT * FROM session_commits WHERE session_id = ? ORDER BY committed_at DESC, sha
+  `).all(sessionId) as CommitRow[];
+
+  return rows.map(rowToCommit);
+}
+
+export function getSessionFileChanges(
+  db: Database.Database,
+  sessionId: string,
+): readonly GitFileChange[] {
+  const rows = db.prepare(`
+    SELECT * FROM session_file_changes WHERE session_id = ? ORDER BY file_path
+  `).all(sessionId) as FileChangeRow[];
+
+  return rows.map(rowToFileChange);
+}
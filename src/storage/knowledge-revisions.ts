@@ -0,0 +1,119 @@
+import type Database from 'better-sqlite3';
+import type {
+  KnowledgeRevision,
+  KnowledgeType,
+  PromotedKnowledge,
+  RevisionChangeType,
+} from '../types.js';
+import { generateId } from '../utils.js';
+
+interface KnowledgeRevisionRow {
+  revision_id: string;
+  knowledge_id: string;
+  revision_number: number;
+  title: string;
+  content: string;
+  knowledge_type: string;
+  tags: string;
+  session_id: string | null;
+  change_type: string;
+  created_at: string;
+}
+
+function rowToRevision(row: KnowledgeRevisionRow): KnowledgeRevision {
+  return {
+    revisionId: row.revision_id,
+    knowledgeId: row.knowledge_id,
+    revisionNumber: row.revision_number,
+    title: row.title,
+    content: row.content,
+    knowledgeType: row.knowledge_type as KnowledgeType,
+    tags: JSON.parse(row.tags) as string[],
+    sessionId: row.session_id ?? undefined,
+    changeType: row.change_type as RevisionChangeType,
+    createdAt: row.created_at,
+  };
+}
+
+/**
+ * Append the current state of a knowledge item as its next revision.
+ */
+export function recordRevision(
+  db: Database.Database,
+  knowledge: PromotedKnowledge,
+  changeType: RevisionChangeType,
+  createdAt: string,
+  sessionId?: string,
+): KnowledgeRevision {
+  const next = db.prepare(`
+    SELECT COALESCE(MAX(revision_number), 0) + 1 as next
+    FROM knowledge_revisions WHERE knowledge_id = ?
+  `).get(knowledge.knowledgeId) as { next: number };
+
+  const revision: KnowledgeRevision = {
+    revisionId: generateId(),
+    knowledgeId: knowledge.knowledgeId,
+    revisionNumber: next.next,
+    title: knowledge.title,
+    content: knowledge.content,
+    knowledgeType: knowledge.knowledgeType,
+    tags: knowledge.tags,
+    sessionId,
+    changeType,
+    createdAt,
+  };
+
+  db.prepare(`
+    INSERT INTO knowledge_revisions
+      (revision_id, knowledge_id, revision_number, title, content,
+       knowledge_type, tags, session_id, change_type, created_at)
+    VALUES (@revision_id, @knowledge_id, @revision_number, @title, @content,
+            @knowledge_type, @tags, @session_id, @change_type, @created_at)
+  `).run({
+    revision_id: revision.revisionId,
+    knowledge_id: revision.knowledgeId,
+    revision_number: revision.revisionNumber,
+    title: revision.title,
+    content: revision.content,
+    knowledge_type: revision.knowledgeType,
+    tags: JSON.stringify(revision.tags),
+    session_id: sessionId ?? null,
+    change_type: changeType,
+    created_at: createdAt,
+  });
+
+  return revision;
+}
+
+export function getKnowledgeRevisions(
+  db: Database.Database,
+  knowledgeId: string,
+): readonly KnowledgeRevision[] {
+  const rows = db.prepare(`
+    SELECT * FROM knowledge_revisions
+    WHERE knowledge_id = ?
+    ORDER BY revision_number ASC
+  `).all(knowledgeId) as KnowledgeRevisionRow[];
+
+  return rows.map(rowToRevision);
+}
+
+export function getKnowledgeRevision(
+  db: Database.Database,
+  knowledgeId: string,
+  revisionNumber: number,
+): KnowledgeRevision | undefined {
+  const row = db.prepare(`
+    SELECT * FROM knowledge_revisions
+    WHERE knowledge_id = ? AND revision_number = ?
+  `).get(knowledgeId, revisionNumber) as KnowledgeRevisionRow | undefined;
+
+  return row ? rowToRevision(row) : undefined;
+}
+
+export function deleteKnowledgeRevisions(
+  db: Database.Database,
+  knowledgeId: string,
+): void {
+  db.prepare('DELETE FROM knowledge_revisions WHERE knowledge_id = ?').run(knowledgeId);
+}
@@ -1,5 +1,11 @@
 import type Database from 'better-sqlite3';
-import type { KnowledgeType, PromotedKnowledge } from '../types.js';
+import type { KnowledgeType, KnowledgeUpdate, PromotedKnowledge } from '../types.js';
+import { computeContentHash } from '../context/deduplication.js';
+import {
+  recordRevision,
+  getKnowledgeRevision,
+  deleteKnowledgeRevisions,
+} from './knowledge-revisions.js';
 
 interface KnowledgeRow {
   knowledge_id: string;
@@ -17,6 +23,9 @@ interface KnowledgeRow {
   content_hash: string | null;
   usage_count: number;
   superseded_by: string | null;
+  updated_at: string | null;
+  retracted_at: string | null;
+  retraction_reason: string | null;
 }
 
 function rowToKnowledge(row: KnowledgeRow): PromotedKnowledge {
@@ -36,6 +45,9 @@ function rowToKnowledge(row: KnowledgeRow): PromotedKnowledge {
     contentHash: row.content_hash ?? undefined,
     usageCount: row.usage_count,
     supersededBy: row.superseded_by ?? undefined,
+    updatedAt: row.updated_at ?? undefined,
+    retractedAt: row.retracted_at ?? undefined,
+    retractionReason: row.retraction_reason ?? undefined,
   };
 }
 
@@ -43,6 +55,19 @@ export function insertKnowledge(
   db: Database.Database,
   knowledge: PromotedKnowledge,
 ): PromotedKnowledge {
+  const insert = db.transaction(() => {
+    insertKnowledgeRow(db, knowledge);
+    recordRevision(db, knowledge, 'created', knowledge.createdAt, knowledge.sessionId);
+  });
+  insert();
+
+  return knowledge;
+}
+
+function insertKnowledgeRow(
+  db: Database.Database,
+  knowledge: PromotedKnowledge,
+): void {
   db.prepare(`
     INSERT INTO promoted_knowledge
       (knowledge_id, project_path, session_id, source_event_id,
@@ -65,8 +90,6 @@ export function insertKnowledge(
     content_hash: knowledge.contentHash ?? null,
     usage_count: knowledge.usageCount ?? 0,
   });
-
-  return knowledge;
 }
 
 export function getProjectKnowledge(
@@ -75,13 +98,14 @@ export function getProjectKnowledge(
   knowledgeType?: KnowledgeType,
   limit: number = 50,
 ): readonly PromotedKnowledge[] {
-  // Exclude superseded knowledge
+  // Exclude superseded and retracted knowledge
   const query = knowledgeType
     ? `SELECT * FROM promoted_knowledge
-       WHERE project_path = ? AND knowledge_type = ? AND superseded_by IS NULL
+       WHERE project_path = ? AND knowledge_type = ?
+         AND superseded_by IS NULL AND retracted_at IS NULL
        ORDER BY created_at DESC LIMIT ?`
     : `SELECT * FROM promoted_knowledge
-       WHERE project_path = ? AND superseded_by IS NULL
+       WHERE project_path = ? AND superseded_by IS NULL AND retracted_at IS NULL
        ORDER BY created_at DESC LIMIT ?`;
 
   const params = knowledgeType
@@ -103,13 +127,30 @@ export function getKnowledgeById(
   return row ? rowToKnowledge(row) : undefined;
 }
 
+/**
+ * Items that were superseded by the given knowledge item (its predecessors).
+ */
+export function getSupersededKnowledge(
+  db: Database.Database,
+  knowledgeId: string,
+): readonly PromotedKnowledge[] {
+  const rows = db.prepare(`
+    SELECT * FROM promoted_knowledge
+    WHERE superseded_by = ?
+    ORDER BY created_at ASC
+  `).all(knowledgeId) as KnowledgeRow[];
+
+  return rows.map(rowToKnowledge);
+}
+
 export function getUnsyncedKnowledge(
   db: Database.Database,
   projectPath: string,
 ): readonly PromotedKnowledge[] {
   const rows = db.prepare(`
     SELECT * FROM promoted_knowledge
-    WHERE project_path = ? AND synced_at IS NULL AND superseded_by IS NULL
+    WHERE project_path = ? AND synced_at IS NULL
+      AND superseded_by IS NULL AND retracted_at IS NULL
     ORDER BY created_at ASC
   `).all(projectPath) as KnowledgeRow[];
 
@@ -129,18 +170,143 @@ export function markKnowledgeSynced(
   `).run(syncedAt, synapseKnowledgeId, knowledgeId);
 }
 
+/**
+ * Edit a knowledge item in place and record the result as a new revision.
+ * The content hash is recomputed whenever the content changes so duplicate
+ * detection keeps matching the current text.
+ */
+export function updateKnowledge(
+  db: Database.Database,
+  knowledgeId: string,
+  changes: KnowledgeUpdate,
+  updatedAt: string,
+  sessionId?: string,
+): PromotedKnowledge | undefined {
+  return writeKnowledgeVersion(db, knowledgeId, changes, updatedAt, sessionId, 'updated');
+}
+
+/**
+ * Bring back the title, content, type and tags of an earlier revision. The
+ * restore is itself recorded as a new revision, so history is never lost.
+ */
+export function restoreKnowledgeRevision(
+  db: Database.Database,
+  knowledgeId: string,
+  revisionNumber: number,
+  restoredAt: string,
+  sessionId?: string,
+): PromotedKnowledge | undefined {
+  const revision = getKnowledgeRevision(db, knowledgeId, revisionNumber);
+  if (!revision) {
+    return undefined;
+  }
+
+  return writeKnowledgeVersion(db, knowledgeId, {
+    title: revision.title,
+    content: revision.content,
+    knowledgeType: revision.knowledgeType,
+    tags: revision.tags,
+  }, restoredAt, sessionId, 'restored');
+}
+
+function writeKnowledgeVersion(
+  db: Database.Database,
+  knowledgeId: string,
+  changes: KnowledgeUpdate,
+  updatedAt: string,
+  sessionId: string | undefined,
+  changeType: 'updated' | 'restored',
+): PromotedKnowledge | undefined {
+  const existing = getKnowledgeById(db, knowledgeId);
+  if (!existing) {
+    return undefined;
+  }
+
+  const content = changes.content ?? existing.content;
+
+  const write = db.transaction(() => {
+    db.prepare(`
+      UPDATE promoted_knowledge
+      SET title = @title,
+          content = @content,
+          knowledge_type = @knowledge_type,
+          tags = @tags,
+          content_hash = @content_hash,
+          updated_at = @updated_at
+      WHERE knowledge_id = @knowledge_id
+    `).run({
+      knowledge_id: knowledgeId,
+      title: changes.title ?? existing.title,
+      content,
+      knowledge_type: changes.knowledgeType ?? existing.knowledgeType,
+      tags: JSON.stringify(changes.tags ?? existing.tags),
+      content_hash: computeContentHash(content),
+      updated_at: updatedAt,
+    });
+
+    const updated = getKnowledgeById(db, knowledgeId)!;
+    recordRevision(db, updated, changeType, updatedAt, sessionId);
+    return updated;
+  });
+
+  return write();
+}
+
+/**
+ * Soft-delete a knowledge item. Retracted items stay in the database for
+ * history but are hidden from listings, ranking and duplicate detection.
+ */
+export function retractKnowledge(
+  db: Database.Database,
+  knowledgeId: string,
+  reason: string,
+  retractedAt: string,
+): PromotedKnowledge | undefined {
+  const result = db.prepare(`
+    UPDATE promoted_knowledge
+    SET retracted_at = ?, retraction_reason = ?
+    WHERE knowledge_id = ? AND retracted_at IS NULL
+  `).run(retractedAt, reason, knowledgeId);
+
+  if (result.changes === 0) {
+    return undefined;
+  }
+
+  return getKnowledgeById(db, knowledgeId);
+}
+
+/**
+ * Permanently delete a knowledge item with its usage and revision history.
+ * Items it had superseded become current again.
+ */
+export function deleteKnowledge(
+  db: Database.Database,
+  knowledgeId: string,
+): boolean {
+  const remove = db.transaction(() => {
+    db.prepare('DELETE FROM knowledge_usage WHERE knowledge_id = ?').run(knowledgeId);
+    deleteKnowledgeRevisions(db, knowledgeId);
+    db.prepare(`
+      UPDATE promoted_knowledge SET superseded_by = NULL WHERE superseded_by = ?
+    `).run(knowledgeId);
+    return db.prepare('DELETE FROM promoted_knowledge WHERE knowledge_id = ?').run(knowledgeId);
+  });
+
+  return remove().changes > 0;
+}
+
 export function getKnowledgeCount(
   db: Database.Database,
   projectPath: string,
 ): { total: number; byType: Record<KnowledgeType, number> } {
   const total = db.prepare(`
     SELECT COUNT(*) as count FROM promoted_knowledge
-    WHERE project_path = ? AND superseded_by IS NULL
+    WHERE project_path = ? AND superseded_by IS NULL AND retracted_at IS NULL
   `).get(projectPath) as { count: number };
 
   const byType = db.prepare(`
     SELECT knowledge_type, COUNT(*) as count FROM promoted_knowledge
-    WHERE project_path = ? AND superseded_by IS NULL
+    WHERE project_path = ? AND superseded_by IS NULL AND retracted_at IS NULL
     GROUP BY knowledge_type
   `).all(projectPath) as Array<{ knowledge_type: string; count: number }>;
 
@@ -0,0 +1,237 @@
+import type Database from 'better-sqlite3';
+import { nowISO } from '../utils.js';
+import { refreshImportanceScores } from './file-importance.js';
+import type { Project, ProjectIdentity } from '../types.js';
+
+interface ProjectRow {
+  project_id: string;
+  root_path: string;
+  remote_url: string | null;
+  created_at: string;
+  identified_at: string | null;
+}
+
+function rowToProject(row: ProjectRow): Project {
+  return {
+    projectId: row.project_id,
+    rootPath: row.root_path,
+    remoteUrl: row.remote_url ?? undefined,
+    createdAt: row.created_at,
+    identifiedAt: row.identified_at ?? undefined,
+  };
+}
+
+/** Rows moved from one project root to another */
+export interface ReassignedRows {
+  readonly sessions: number;
+  readonly knowledge: number;
+}
+
+export function getProject(db: Database.Database, projectId: string): Project | undefined {
+  const row = db.prepare('SELECT * FROM projects WHERE project_id = ?').get(projectId) as ProjectRow | undefined;
+  return row ? rowToProject(row) : undefined;
+}
+
+/**
+ * The project a path was already mapped to, without looking at the disk.
+ */
+export function findProjectByPath(db: Database.Database, path: string): Project | undefined {
+  const row = db.prepare(`
+    SELECT p.* FROM project_aliases a
+    JOIN projects p ON p.project_id = a.project_id
+    WHERE a.alias_path = ?
+  `).get(path) as ProjectRow | undefined;
+  return row ? rowToProject(row) : undefined;
+}
+
+export function getProjectAliases(db: Database.Database, projectId: string): readonly string[] {
+  const rows = db.prepare(`
+    SELECT alias_path FROM project_aliases WHERE project_id = ? ORDER BY alias_path
+  `).all(projectId) as { alias_path: string }[];
+  return rows.map((r) => r.alias_path);
+}
+
+export function createProject(
+  db: Database.Database,
+  identity: ProjectIdentity,
+  now: string = nowISO(),
+): Project {
+  db.prepare(`
+    INSERT INTO projects (project_id, root_path, remote_url, created_at, identified_at)
+    VALUES (?, ?, ?, ?, ?)
+  `).run(identity.projectId, identity.rootPath, identity.remoteUrl ?? null, now, now);
+  addProjectAlias(db, identity.rootPath, identity.projectId);
+  return getProject(db, identity.projectId)!;
+}
+
+/**
+ * Map a path to a project. A path already mapped keeps its project.
+ */
+export function addProjectAlias(db: Database.Database, path: string, projectId: string): void {
+  db.prepare(`
+    INSERT OR IGNORE INTO project_aliases (alias_path, project_id) VALUES (?, ?)
+  `).run(path, projectId);
+}
+
+/**
+ * The worktrees of a project whose files have been reconciled with git,
+ * each with the HEAD it was reconciled at.
+ */
+export function getReconciledWorktrees(db: Database.Database, projectPath: string): ReadonlyMap<string, string> {
+  const rows = db.prepare(`
+    SELECT worktree, reconciled_commit FROM worktree_reconciliation WHERE project_path = ?
+  `).all(projectPath) as { worktree: string; reconciled_commit: string }[];
+  return new Map(rows.map((r) => [r.worktree, r.reconciled_commit]));
+}
+
+export function setReconciledCommit(db: Database.Database, projectPath: string, worktree: string, commit: string): void {
+  db.prepare(`
+    INSERT INTO worktree_reconciliation (project_path, worktree, reconciled_commit) VALUES (?, ?, ?)
+    ON CONFLICT(project_path, worktree) DO UPDATE SET reconciled_commit = excluded.reconciled_commit
+  `).run(projectPath, worktree, commit);
+}
+
+/**
+ * Record what git says about a project backfilled from a stored path. Its
+ * root path, and so its stored rows, stay as they are; aliases follow the
+ * new ID.
+ */
+export function identifyProject(
+  db: Database.Database,
+  projectId: string,
+  identity: ProjectIdentity,
+  now: string = nowISO(),
+): Project {
+  db.prepare(`
+    UPDATE projects SET project_id = ?, remote_url = ?, identified_at = ? WHERE project_id = ?
+  `).run(identity.projectId, identity.remoteUrl ?? null, now, projectId);
+  return getProject(db, identity.projectId)!;
+}
+
+/**
+ * Point every project-scoped row stored under `from` at `to`. Per-file and
+ * per-project counters that exist under both are added together.
+ */
+function reassignProjectRows(db: Database.Database, from: string, to: string): ReassignedRows {
+  const params = { from, to };
+
+  const sessions = db.prepare('UPDATE sessions SET project_path = @to WHERE project_path = @from').run(params).changes;
+  const knowledge = db.prepare(
+    'UPDATE promoted_knowledge SET project_path = @to WHERE project_path = @from',
+  ).run(params).changes;
+  db.prepare('UPDATE embeddings SET project_path = @to WHERE project_path = @from').run(params);
+
+  db.prepare(`
+    INSERT INTO file_importance (project_path, file_path, read_count, edit_count, last_accessed_at, importance_score)
+    SELECT @to, file_path, read_count, edit_count, last_accessed_at, importance_score
+    FROM file_importance WHERE project_path = @from
+    ON CONFLICT(project_path, file_path) DO UPDATE SET
+      read_count = read_count + excluded.read_count,
+      edit_count = edit_count + excluded.edit_count,
+      last_accessed_at = MAX(last_accessed_at, excluded.last_accessed_at)
+  `).run(params);
+  db.prepare('DELETE FROM file_importance WHERE project_path = @from').run(params);
+  refreshImportanceScores(db, to);
+
+  db.prepare(`
+    INSERT INTO file_co_access (project_path, file_a, file_b, session_count, commit_count, last_seen_at)
+    SELECT @to, file_a, file_b, session_count, commit_count, last_seen_at
+    FROM file_co_access WHERE project_path = @from
+    ON CONFLICT(project_path, file_a, file_b) DO UPDATE SET
+      session_count = session_count + excluded.session_count,
+      commit_count = commit_count + excluded.commit_count,
+      last_seen_at = MAX(last_seen_at, excluded.last_seen_at)
+  `).run(params);
+  db.prepare('DELETE FROM file_co_access WHERE project_path = @from').run(params);
+
+  db.prepare(`
+    INSERT INTO value_metrics (
+      project_path, total_sessions, context_reuse_count, knowledge_surfaced_count,
+      decisions_recalled_count, patterns_applied_count, errors_prevented_count,
+      estimated_time_saved_secs, updated_at
+    )
+    SELECT @to, total_sessions, context_reuse_count, knowledge_surfaced_count,
+      decisions_recalled_count, patterns_applied_count, errors_prevented_count,
+      estimated_time_saved_secs, updated_at
+    FROM value_metrics WHERE project_path = @from
+    ON CONFLICT(project_path) DO UPDATE SET
+      total_sessions = total_sessions + excluded.total_sessions,
+      context_reuse_count = context_reuse_count + excluded.context_reuse_count,
+      knowledge_surfaced_count = knowledge_surfaced_count + excluded.knowledge_surfaced_count,
+      decisions_recalled_count = decisions_recalled_count + excluded.decisions_recalled_count,
+      patterns_applied_count = patterns_applied_count + excluded.patterns_applied_count,
+      errors_prevented_count = errors_prevented_count + excluded.errors_prevented_count,
+      estimated_time_saved_secs = estimated_time_saved_secs + excluded.estimated_time_saved_secs,
+      updated_at = MAX(updated_at, excluded.updated_at)
+  `).run(params);
+  db.prepare('DELETE FROM value_metrics WHERE project_path = @from').run(params);
+
+  // The target's reconciled commits win where both reconciled a worktree
+  db.prepare('UPDATE OR IGNORE worktree_reconciliation SET project_path = @to WHERE project_path = @from').run(params);
+  db.prepare('DELETE FROM worktree_reconciliation WHERE project_path = @from').run(params);
+
+  // The target's sync settings win
+  db.prepare('UPDATE OR IGNORE synapse_sync_config SET project_path = @to WHERE project_path = @from').run(params);
+  db.prepare('DELETE FROM synapse_sync_config WHERE project_path = @from').run(params);
+
+  return { sessions, knowledge };
+}
+
+/**
+ * Move a project to a new root path, for a repository that moved on disk.
+ * Aliases at or under the old root are dropped; a project identified by
+ * its path gets an ID for the new one.
+ */
+export function moveProject(
+  db: Database.Database,
+  projectId: string,
+  newRootPath: string,
+): { project: Project; moved: ReassignedRows } {
+  return db.transaction(() => {
+    const project = getProject(db, projectId);
+    if (!project) {
+      throw new Error(`Project ${projectId} not found`);
+    }
+
+    const moved = reassignProjectRows(db, project.rootPath, newRootPath);
+    const newId = project.projectId.startsWith('path:') ? `path:${newRootPath}` : project.projectId;
+
+    db.prepare(`
+      DELETE FROM project_aliases
+      WHERE project_id = ? AND (alias_path = ? OR alias_path LIKE ? ESCAPE '\\')
+    `).run(projectId, project.rootPath, `${escapeLike(project.rootPath)}/%`);
+    db.prepare('UPDATE projects SET project_id = ?, root_path = ? WHERE project_id = ?')
+      .run(newId, newRootPath, projectId);
+    addProjectAlias(db, newRootPath, newId);
+
+    return { project: getProject(db, newId)!, moved };
+  })();
+}
+
+/**
+ * Fold one project into another: its rows move to the target's root path,
+ * its aliases map to the target and it is deleted.
+ */
+export function mergeProjects(
+  db: Database.Database,
+  sourceId: string,
+  targetId: string,
+): { project: Project; moved: ReassignedRows } {
+  return db.transaction(() => {
+    const source = getProject(db, sourceId);
+    const target = getProject(db, targetId);
+    if (!source || !target) {
+      throw new Error(`Project ${source ? targetId : sourceId} not found`);
+    }
+
+    const moved = reassignProjectRows(db, source.rootPath, target.rootPath);
+    db.prepare('UPDATE project_aliases SET project_id = ? WHERE project_id = ?').run(targetId, sourceId);
+    db.prepare('DELETE FROM projects WHERE project_id = ?').run(sourceId);
+
+    return { project: target, moved };
+  })();
+}
+
+function escapeLike(value: string): string {
+  return value.replace(/[\\%_]/g, '\\$&');
+}
@@ -0,0 +1,176 @@
+import type Database from 'better-sqlite3';
+import { computeContentHash } from '../context/deduplication.js';
+import { redactEventDetail, redactFields } from '../context/redaction.js';
+import type { Redactor } from '../context/redaction.js';
+import type { EventDetail } from '../types.js';
+
+export interface ScrubCount {
+  /** Rows with at least one redaction */
+  rows: number;
+  redactions: number;
+}
+
+export interface ScrubReport {
+  events: ScrubCount;
+  sessions: ScrubCount;
+  knowledge: ScrubCount;
+  revisions: ScrubCount;
+  commits: ScrubCount;
+}
+
+/**
+ * Run every stored row through the redactor, for data recorded before
+ * redaction existed or before a rule was added. Search indexes follow:
+ * the FTS update triggers fire, and session_commits_fts, which has no
+ * update trigger, is rewritten here. Embeddings of changed rows are dropped
+ * by their triggers and re-embedded lazily. On a dry run nothing is written.
+ */
+export function scrubStoredText(db: Database.Database, redactor: Redactor, dryRun = false): ScrubReport {
+  const report: ScrubReport = {
+    events: { rows: 0, redactions: 0 },
+    sessions: { rows: 0, redactions: 0 },
+    knowledge: { rows: 0, redactions: 0 },
+    revisions: { rows: 0, redactions: 0 },
+    commits: { rows: 0, redactions: 0 },
+  };
+  const tally = (count: ScrubCount, redactions: number): boolean => {
+    if (redactions === 0) {
+      return false;
+    }
+    count.rows++;
+    count.redactions += redactions;
+    return !dryRun;
+  };
+
+  const updateEvent = db.prepare(
+    'UPDATE session_events SET detail_json = ?, redactions = redactions + ? WHERE event_id = ?',
+  );
+  const updateSession = db.prepare('UPDATE sessions SET summary = ? WHERE session_id = ?');
+  const updateKnowledge = db.prepare(`
+    UPDATE promoted_knowledge
+    SET title = ?, content = ?, content_hash = ?, retraction_reason = ?
+    WHERE knowledge_id = ?
+  `);
+  const updateRevision = db.prepare('UPDATE knowledge_revisions SET title = ?, content = ? WHERE revision_id = ?');
+  const updateCommit = db.prepare('UPDATE session_commits SET subject = ? WHERE session_id = ? AND sha = ?');
+  const updateCommitFts = db.prepare('UPDATE session_commits_fts SET subject = ? WHERE session_id = ? AND sha = ?');
+
+  db.transaction(() => {
+    const events = db.prepare('SELECT event_id, detail_json FROM session_events')
+      .all() as { event_id: string; detail_json: string }[];
+    for (const row of events) {
+      const { detail, count } = redactEventDetail(redactor, JSON.parse(row.detail_json) as EventDetail);
+      if (tally(report.events, count)) {
+        updateEvent.run(JSON.stringify(detail), count, row.event_id);
+      }
+    }
+
+    const sessions = db.prepare('SELECT session_id, summary FROM sessions WHERE summary IS NOT NULL')
+      .all() as { session_id: string; summary: string }[];
+    for (const row of sessions) {
+      const { text, count } = redactor.redact(row.summary);
+      if (tally(report.sessions, count)) {
+        updateSession.run(text, row.session_id);
+      }
+    }
+
+    const knowledge = db.prepare('SELECT knowledge_id, title, content, retraction_reason FROM promoted_knowledge')
+      .all() as { knowledge_id: string; title: string; content: string; retraction_reason: string | null }[];
+    for (const row of knowledge) {
+      const { fields, count } = redactFields(redactor, {
+        title: row.title,
+        content: row.content,
+        retractionReason: row.retraction_reason ?? undefined,
+      });
+      if (tally(report.knowledge, count)) {
+        updateKnowledge.run(
+          fields.title,
+          fields.content,
+          computeContentHash(fields.content),
+          fields.retractionReason ?? null,
+          row.knowledge_id,
+        );
+      }
+    }
+
+    const revisions = db.prepare('SELECT revision_id, title, content FROM knowledge_revisions')
+      .all() as { revision_id: string; title: string; content: string }[];
+    for (const row of revisions) {
+      const { fields, count } = redactFields(redactor, { title: row.title, content: row.content });
+      if (tally(report.revisions, count)) {
+        updateRevision.run(fields.title, fields.content, row.revision_id);
+      }
+    }
+
+    const commits = db.prepare('SELECT session_id, sha, subject FROM session_commits')
+      .all() as { session_id: string; sha: string; subject: string }[];
+    for (const row of commits) {
+      const { text, count } = redactor.redact(row.subject);
+      if (tally(report.commits, count)) {
+        updateCommit.run(text, row.session_id, row.sha);
+        updateCommitFts.run(text, row.session_id, row.sha);
+      }
+    }
+  })();
+
+  return report;
+}
+
+export interface PurgeReport {
+  /** File op events removed */
+  events: number;
+  /** file_importance rows removed */
+  files: number;
+  /** file_co_access pairs removed */
+  pairs: number;
+}
+
+/**
+ * Remove file op events, file importance rows and files-touched-together
+ * pairs for paths a project's ignore rules now match. Knowledge that cited a removed event keeps its
+ * content and loses the reference. On a dry run nothing is written.
+ */
+export function purgeIgnoredFiles(
+  db: Database.Database,
+  projectPath: string,
+  isIgnored: (path: string) => boolean,
+  dryRun = false,
+): PurgeReport {
+  const events = (db.prepare(`
+    SELECT e.event_id, json_extract(e.detail_json, '$.path') AS path
+    FROM session_events e
+    JOIN sessions s ON e.session_id = s.session_id
+    WHERE s.project_path = ? AND e.event_type IN ('file_read', 'file_write', 'file_edit')
+  `).all(projectPath) as { event_id: string; path: string | null }[])
+    .filter((e) => e.path !== null && isIgnored(e.path));
+
+  const files = (db.prepare('SELECT file_path FROM file_importance WHERE project_path = ?')
+    .all(projectPath) as { file_path: string }[])
+    .filter((f) => isIgnored(f.file_path));
+
+  const pairs = (db.prepare('SELECT file_a, file_b FROM file_co_access WHERE project_path = ?')
+    .all(projectPath) as { file_a: string; file_b: string }[])
+    .filter((p) => isIgnored(p.file_a) || isIgnored(p.file_b));
+
+  if (!dryRun) {
+    const unlinkKnowledge = db.prepare('UPDATE promoted_knowledge SET source_event_id = NULL WHERE source_event_id = ?');
+    const deleteEvent = db.prepare('DELETE FROM session_events WHERE event_id = ?');
+    const deleteFile = db.prepare('DELETE FROM file_importance WHERE project_path = ? AND file_path = ?');
+    const deletePair = db.prepare('DELETE FROM file_co_access WHERE project_path = ? AND file_a = ? AND file_b = ?');
+
+    db.transaction(() => {
+      for (const e of events) {
+        unlinkKnowledge.run(e.event_id);
+        deleteEvent.run(e.event_id);
+      }
+      for (const f of files) {
+        deleteFile.run(projectPath, f.file_path);
+      }
+      for (const p of pairs) {
+        deletePair.run(projectPath, p.file_a, p.file_b);
+      }
+    })();
+  }
+
+  return { events: events.length, files: files.length, pairs: pairs.length };
+}
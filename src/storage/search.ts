@@ -0,0 +1,209 @@
+import type Database from 'better-sqlite3';
+import type { SearchHit, SearchSource } from '../types.js';
+
+// Markers used to detect which columns matched; never shown to callers
+const HIT_OPEN = 'char(1)';
+const HIT_CLOSE = 'char(2)';
+
+const SNIPPET_TOKENS = 16;
+
+interface FtsColumn {
+  readonly index: number;
+  readonly column: string;
+}
+
+interface HitRow {
+  id: string;
+  session_id: string | null;
+  kind: string;
+  title: string | null;
+  rank: number;
+  [matchOrSnippet: string]: string | number | null;
+}
+
+/**
+ * Event detail field names behind the generic `title`/`body` columns of
+ * events_fts, so hits report the field the agent originally recorded.
+ */
+const EVENT_FIELD_NAMES: Record<string, { title?: string; body?: string }> = {
+  decision: { title: 'title', body: 'rationale' },
+  pattern: { body: 'description' },
+  error_resolved: { title: 'error', body: 'resolution' },
+  milestone: { body: 'summary' },
+  tool_call: { title: 'toolName', body: 'params' },
+};
+
+/**
+ * Turn free text into an FTS5 MATCH expression. Every word becomes a quoted
+ * prefix term so punctuation in the query can never be parsed as FTS syntax.
+ * Returns undefined when the query has no searchable words.
+ */
+export function buildMatchQuery(query: string): string | undefined {
+  const terms = query.toLowerCase().match(/[\p{L}\p{N}_]+/gu);
+  if (!terms) {
+    return undefined;
+  }
+  return terms.map((t) => `"${t}"*`).join(' ');
+}
+
+function matchColumnsSql(table: string, columns: readonly FtsColumn[]): string {
+  return columns.map(({ index, column }) => `
+    instr(highlight(${table}, ${index}, ${HIT_OPEN}, ${HIT_CLOSE}), ${HIT_OPEN}) > 0 AS hit_${column},
+    snippet(${table}, ${index}, '**', '**', '…', ${SNIPPET_TOKENS}) AS snippet_${column}`,
+  ).join(',');
+}
+
+function rowToHit(
+  row: HitRow,
+  source: SearchSource,
+  columns: readonly FtsColumn[],
+  fieldName: (column: string) => string,
+): SearchHit {
+  const matched = columns.filter(({ column }) => row[`hit_${column}`] === 1);
+  const first = matched[0] ?? columns[0]!;
+
+  return {
+    source,
+    id: row.id,
+    sessionId: row.session_id ?? undefined,
+    kind: row.kind,
+    title: row.title ?? undefined,
+    fields: matched.map(({ column }) => fieldName(column)),
+    snippet: String(row[`snippet_${first.column}`] ?? ''),
+    // bm25() is lower-is-better; flip it so higher scores rank first everywhere
+    score: -row.rank,
+  };
+}
+
+const SESSION_COLUMNS: readonly FtsColumn[] = [{ index: 1, column: 'summary' }];
+
+export function searchSessionText(
+  db: Database.Database,
+  projectPath: string,
+  query: string,
+  branch?: string,
+  limit: number = 10,
+): readonly SearchHit[] {
+  const match = buildMatchQuery(query);
+  if (!match) {
+    return [];
+  }
+
+  const rows = db.prepare(`
+    SELECT sessions_fts.session_id AS id, sessions_fts.session_id AS session_id,
+      'summary' AS kind, NULL AS title, bm25(sessions_fts) AS rank,
+      ${matchColumnsSql('sessions_fts', SESSION_COLUMNS)}
+    FROM sessions_fts
+    JOIN sessions s ON s.session_id = sessions_fts.session_id
+    WHERE sessions_fts MATCH @match AND s.project_path = @project_path
+      AND (@branch IS NULL OR s.branch = @branch)
+    ORDER BY rank LIMIT @limit
+  `).all({ match, project_path: projectPath, branch: branch ?? null, limit }) as HitRow[];
+
+  return rows.map((row) => rowToHit(row, 'session', SESSION_COLUMNS, (c) => c));
+}
+
+const EVENT_COLUMNS: readonly FtsColumn[] = [
+  { index: 3, column: 'title' },
+  { index: 4, column: 'body' },
+];
+
+export function searchEventText(
+  db: Database.Database,
+  projectPath: string,
+  query: string,
+  branch?: string,
+  limit: number = 10,
+): readonly SearchHit[] {
+  const match = buildMatchQuery(query);
+  if (!match) {
+    return [];
+  }
+
+  const rows = db.prepare(`
+    SELECT events_fts.event_id AS id, events_fts.session_id AS session_id,
+      events_fts.event_type AS kind, events_fts.title AS title, bm25(events_fts) AS rank,
+      ${matchColumnsSql('events_fts', EVENT_COLUMNS)}
+    FROM events_fts
+    JOIN sessions s ON s.session_id = events_fts.session_id
+    WHERE events_fts MATCH @match AND s.project_path = @project_path
+      AND (@branch IS NULL OR s.branch = @branch)
+    ORDER BY rank LIMIT @limit
+  `).all({ match, project_path: projectPath, branch: branch ?? null, limit }) as HitRow[];
+
+  return rows.map((row) => rowToHit(
+    row,
+    'event',
+    EVENT_COLUMNS,
+    (c) => EVENT_FIELD_NAMES[row.kind]?.[c as 'title' | 'body'] ?? c,
+  ));
+}
+
+const KNOWLEDGE_COLUMNS: readonly FtsColumn[] = [
+  { index: 1, column: 'title' },
+  { index: 2, column: 'content' },
+  { index: 3, column: 'tags' },
+];
+
+export function searchKnowledgeText(
+  db: Database.Database,
+  projectPath: string,
+  query: string,
+  limit: number = 10,
+): readonly SearchHit[] {
+  const match = buildMatchQuery(query);
+  if (!match) {
+    return [];
+  }
+
+  // Title matches weigh double: titles are short and written to be found
+  const rows = db.prepare(`
+    SELECT knowledge_fts.knowledge_id AS id, pk.session_id AS session_id,
+      pk.knowledge_type AS kind, pk.title AS title,
+      bm25(knowledge_fts, 0.0, 2.0, 1.0, 1.0) AS rank,
+      ${matchColumnsSql('knowledge_fts', KNOWLEDGE_COLUMNS)}
+    FROM knowledge_fts
+    JOIN promoted_knowledge pk ON pk.knowledge_id = knowledge_fts.knowledge_id
+    WHERE knowledge_fts MATCH @match AND pk.project_path = @project_path
+      AND pk.superseded_by IS NULL AND pk.retracted_at IS NULL
+    ORDER BY rank LIMIT @limit
+  `).all({ match, project_path: projectPath, limit }) as HitRow[];
+
+  return rows.map((row) => rowToHit(row, 'knowledge', KNOWLEDGE_COLUMNS, (c) => c));
+}
+
+/**
+ * Scale scores to the best hit of the same search: 1 for the best, less for
+ * weaker ones. bm25 values from different FTS tables rest on different term
+ * statistics, so only their order within one table means anything.
+ */
+function normalizeScores(hits: readonly SearchHit[]): { hit: SearchHit; position: number }[] {
+  const best = Math.max(...hits.map((h) => h.score));
+  return hits.map((hit, position) => ({
+    hit: { ...hit, score: best > 0 ? hit.score / best : 1 },
+    position,
+  }));
+}
+
+/**
+ * Full-text search across session summaries, event details and promoted
+ * knowledge. Each source is ranked on its own and scored relative to its
+ * best hit; the lists are merged on that score, ties going to the hit ranked
+ * higher within its source.
+ */
+export function searchMemory(
+  db: Database.Database,
+  projectPath: string,
+  query: string,
+  branch?: string,
+  limit: number = 10,
+): readonly SearchHit[] {
+  return [
+    ...normalizeScores(searchSessionText(db, projectPath, query, branch, limit)),
+    ...normalizeScores(searchEventText(db, projectPath, query, branch, limit)),
+    ...normalizeScores(searchKnowledgeText(db, projectPath, query, limit)),
+  ]
+    .sort((a, b) => b.hit.score - a.hit.score || a.position - b.position)
+    .slice(0, limit)
+    .map(({ hit }) => hit);
+}
@@ -1,5 +1,25 @@
 import type Database from 'better-sqlite3';
-import type { AgentType, Session, SessionMetrics } from '../types.js';
+import type { AgentType, Session, SessionMetrics, SessionStatus } from '../types.js';
+import { buildMatchQuery } from './search.js';
+
+// Active sessions with no events for this long are treated as dead
+export const DEFAULT_STALE_AFTER_MINUTES = 240;
+
+// A session and every subagent session below it, as a table of session_id
+const SESSION_TREE_SQL = `WITH RECURSIVE tree(session_id) AS (
+  SELECT ?
+  UNION
+  SELECT s.session_id FROM sessions s JOIN tree t ON s.parent_session_id = t.session_id
+)`;
+
+// Files listed in session stats
+const TOP_FILES = 10;
+
+// A session's last sign of life: its latest event, or its start
+const LAST_ACTIVITY_SQL = `COALESCE(
+  (SELECT MAX(e.timestamp) FROM session_events e WHERE e.session_id = sessions.session_id),
+  sessions.started_at
+)`;
 
 interface SessionRow {
   session_id: string;
@@ -9,10 +29,14 @@ interface SessionRow {
   ended_at: string | null;
   status: string;
   summary: string | null;
+  summary_generated: number;
   git_commit_start: string | null;
   git_commit_end: string | null;
   agent_type: string;
   agent_version: string | null;
+  worktree: string | null;
+  agent_instance: string | null;
+  parent_session_id: string | null;
 }
 
 function rowToSession(row: SessionRow): Session {
@@ -24,10 +48,14 @@ function rowToSession(row: SessionRow): Session {
     endedAt: row.ended_at ?? undefined,
     status: row.status as Session['status'],
     summary: row.summary ?? undefined,
+    summaryGenerated: row.summary_generated === 1 || undefined,
     gitCommitStart: row.git_commit_start ?? undefined,
     gitCommitEnd: row.git_commit_end ?? undefined,
     agentType: row.agent_type as AgentType,
     agentVersion: row.agent_version ?? undefined,
+    worktree: row.worktree ?? undefined,
+    agentInstance: row.agent_instance ?? undefined,
+    parentSessionId: row.parent_session_id ?? undefined,
   };
 }
 
@@ -36,8 +64,14 @@ export function createSession(
   session: Session,
 ): Session {
   db.prepare(`
-    INSERT INTO sessions (session_id, project_path, branch, started_at, status, git_commit_start, agent_type, agent_version)
-    VALUES (@session_id, @project_path, @branch, @started_at, @status, @git_commit_start, @agent_type, @agent_version)
+    INSERT INTO sessions (
+      session_id, project_path, branch, started_at, status, git_commit_start,
+      agent_type, agent_version, worktree, agent_instance, parent_session_id
+    )
+    VALUES (
+      @session_id, @project_path, @branch, @started_at, @status, @git_commit_start,
+      @agent_type, @agent_version, @worktree, @agent_instance, @parent_session_id
+    )
   `).run({
     session_id: session.sessionId,
     project_path: session.projectPath,
@@ -47,6 +81,9 @@ export function createSession(
     git_commit_start: session.gitCommitStart ?? null,
     agent_type: session.agentType ?? 'unknown',
     agent_version: session.agentVersion ?? null,
+    worktree: session.worktree ?? null,
+    agent_instance: session.agentInstance ?? null,
+    parent_session_id: session.parentSessionId ?? null,
   });
 
   return session;
@@ -58,18 +95,21 @@ export function endSession(
   endedAt: string,
   summary?: string,
   gitCommitEnd?: string,
+  summaryGenerated: boolean = false,
 ): Session | undefined {
   const result = db.prepare(`
     UPDATE sessions
     SET ended_at = @ended_at,
         status = 'completed',
         summary = @summary,
+        summary_generated = @summary_generated,
         git_commit_end = @git_commit_end
-    WHERE session_id = @session_id AND status = 'active'
+    WHERE session_id = @session_id AND status IN ('active', 'paused')
   `).run({
     session_id: sessionId,
     ended_at: endedAt,
     summary: summary ?? null,
+    summary_generated: summary !== undefined && summaryGenerated ? 1 : 0,
     git_commit_end: gitCommitEnd ?? null,
   });
 
@@ -80,23 +120,161 @@ export function endSession(
   return getSession(db, sessionId);
 }
 
+/**
+ * Replace the generated summary of an ended session with a written one.
+ * Returns undefined if the session is active or its summary was written.
+ */
+export function replaceGeneratedSummary(
+  db: Database.Database,
+  sessionId: string,
+  summary: string,
+): Session | undefined {
+  const result = db.prepare(`
+    UPDATE sessions
+    SET summary = ?, summary_generated = 0
+    WHERE session_id = ? AND status IN ('completed', 'abandoned') AND summary_generated = 1
+  `).run(summary, sessionId);
+
+  if (result.changes === 0) {
+    return undefined;
+  }
+
+  return getSession(db, sessionId);
+}
+
+/**
+ * Make an ended session active again, keeping its events and start time.
+ * Returns undefined if the session does not exist or is already active.
+ */
+export function reopenSession(
+  db: Database.Database,
+  sessionId: string,
+): Session | undefined {
+  const result = db.prepare(`
+    UPDATE sessions
+    SET ended_at = NULL, status = 'active'
+    WHERE session_id = ? AND status != 'active'
+  `).run(sessionId);
+
+  if (result.changes === 0) {
+    return undefined;
+  }
+
+  return getSession(db, sessionId);
+}
+
+/**
+ * Pause an active session. Paused sessions are never abandoned for
+ * inactivity and stay resumable until they are ended.
+ */
+export function pauseSession(
+  db: Database.Database,
+  sessionId: string,
+): Session | undefined {
+  const result = db.prepare(`
+    UPDATE sessions SET status = 'paused' WHERE session_id = ? AND status = 'active'
+  `).run(sessionId);
+
+  if (result.changes === 0) {
+    return undefined;
+  }
+
+  return getSession(db, sessionId);
+}
+
+/**
+ * Abandon active sessions in a project that have had no events for
+ * `staleAfterMinutes`. They are ended at their last activity, so durations
+ * reflect the work done rather than the time until someone noticed.
+ */
 export function abandonStaleSessions(
   db: Database.Database,
   projectPath: string,
-  endedAt: string,
+  now: string,
+  staleAfterMinutes: number = DEFAULT_STALE_AFTER_MINUTES,
 ): number {
+  const cutoff = new Date(new Date(now).getTime() - staleAfterMinutes * 60_000).toISOString();
+
   const result = db.prepare(`
     UPDATE sessions
-    SET ended_at = @ended_at, status = 'abandoned'
-    WHERE project_path = @project_path AND status = 'active'
+    SET ended_at = ${LAST_ACTIVITY_SQL}, status = 'abandoned'
+    WHERE project_path = @project_path AND status = 'active' AND ${LAST_ACTIVITY_SQL} < @cutoff
   `).run({
     project_path: projectPath,
-    ended_at: endedAt,
+    cutoff,
   });
 
   return result.changes;
 }
 
+/**
+ * Narrows a project's sessions to one line of work. Several agents can be
+ * active on a project at once, in different worktrees or side by side.
+ */
+export interface SessionScope {
+  readonly branch?: string;
+  readonly worktree?: string;
+  readonly agentInstance?: string;
+  readonly parentSessionId?: string;
+}
+
+export interface ResumableSessionQuery extends SessionScope {
+  readonly statuses: readonly SessionStatus[];
+  /** Only sessions whose last activity is at or after this time */
+  readonly activeSince?: string;
+}
+
+function scopeConditions(scope: SessionScope): { conditions: string[]; params: string[] } {
+  const conditions: string[] = [];
+  const params: string[] = [];
+  const columns = [
+    ['branch', scope.branch],
+    ['worktree', scope.worktree],
+    ['agent_instance', scope.agentInstance],
+    ['parent_session_id', scope.parentSessionId],
+  ] as const;
+
+  for (const [column, value] of columns) {
+    if (value) {
+      conditions.push(`${column} = ?`);
+      params.push(value);
+    }
+  }
+
+  return { conditions, params };
+}
+
+/**
+ * The most recently active session in a project matching the query.
+ */
+export function findResumableSession(
+  db: Database.Database,
+  projectPath: string,
+  query: ResumableSessionQuery,
+): Session | undefined {
+  const scope = scopeConditions(query);
+  const conditions = [
+    'project_path = ?',
+    `status IN (${query.statuses.map(() => '?').join(', ')})`,
+    ...scope.conditions,
+  ];
+  const params: string[] = [projectPath, ...query.statuses, ...scope.params];
+
+  if (query.activeSince) {
+    conditions.push(`${LAST_ACTIVITY_SQL} >= ?`);
+    params.push(query.activeSince);
+  }
+
+  const row = db.prepare(`
+    SELECT * FROM sessions
+    WHERE ${conditions.join(' AND ')}
+    ORDER BY ${LAST_ACTIVITY_SQL} DESC
+    LIMIT 1
+  `).get(...params) as SessionRow | undefined;
+
+  return row ? rowToSession(row) : undefined;
+}
+
 export function getSession(
   db: Database.Database,
   sessionId: string,
@@ -108,18 +286,35 @@ export function getSession(
   return row ? rowToSession(row) : undefined;
 }
 
+/**
+ * The most recently started active session in a project, narrowed by scope.
+ * With concurrent sessions, prefer passing a session ID or a full scope.
+ */
 export function getActiveSession(
   db: Database.Database,
   projectPath: string,
+  scope: SessionScope = {},
 ): Session | undefined {
-  const row = db.prepare(`
+  return getActiveSessions(db, projectPath, scope)[0];
+}
+
+/**
+ * Every active session in a project within scope, most recently started first.
+ */
+export function getActiveSessions(
+  db: Database.Database,
+  projectPath: string,
+  scope: SessionScope = {},
+): readonly Session[] {
+  const { conditions, params } = scopeConditions(scope);
+
+  const rows = db.prepare(`
     SELECT * FROM sessions
-    WHERE project_path = ? AND status = 'active'
+    WHERE ${['project_path = ?', "status = 'active'", ...conditions].join(' AND ')}
     ORDER BY started_at DESC
-    LIMIT 1
-  `).get(projectPath) as SessionRow | undefined;
+  `).all(projectPath, ...params) as SessionRow[];
 
-  return row ? rowToSession(row) : undefined;
+  return rows.map(rowToSession);
 }
 
 export function getRecentSessions(
@@ -144,6 +339,45 @@ export function getRecentSessions(
   return rows.map(rowToSession);
 }
 
+/**
+ * Most recent sessions across every project, in any status.
+ */
+export function listRecentSessions(
+  db: Database.Database,
+  limit: number = 50,
+): readonly Session[] {
+  const rows = db.prepare(`
+    SELECT * FROM sessions ORDER BY started_at DESC LIMIT ?
+  `).all(limit) as SessionRow[];
+
+  return rows.map(rowToSession);
+}
+
+/**
+ * Every project path that has sessions or promoted knowledge.
+ */
+export function getProjectPaths(db: Database.Database): readonly string[] {
+  const rows = db.prepare(`
+    SELECT project_path FROM sessions
+    UNION
+    SELECT project_path FROM promoted_knowledge
+    ORDER BY project_path
+  `).all() as { project_path: string }[];
+
+  return rows.map((r) => r.project_path);
+}
+
+/**
+ * When the project's oldest session started: files were first recorded then.
+ */
+export function getFirstSessionStart(db: Database.Database, projectPath: string): string | undefined {
+  const row = db.prepare(`
+    SELECT MIN(started_at) AS started_at FROM sessions WHERE project_path = ?
+  `).get(projectPath) as { started_at: string | null };
+
+  return row.started_at ?? undefined;
+}
+
 export function searchSessions(
   db: Database.Database,
   projectPath: string,
@@ -151,27 +385,38 @@ export function searchSessions(
   branch?: string,
   limit: number = 10,
 ): readonly Session[] {
-  if (query) {
-    const likePattern = `%${query}%`;
-    const baseQuery = branch
-      ? `SELECT * FROM sessions
-         WHERE project_path = ? AND branch = ? AND summary LIKE ?
-         ORDER BY started_at DESC LIMIT ?`
-      : `SELECT * FROM sessions
-         WHERE project_path = ? AND summary LIKE ?
-         ORDER BY started_at DESC LIMIT ?`;
-
-    const params = branch
-      ? [projectPath, branch, likePattern, limit]
-      : [projectPath, likePattern, limit];
-
-    const rows = db.prepare(baseQuery).all(...params) as SessionRow[];
+  const match = query ? buildMatchQuery(query) : undefined;
+  if (match) {
+    // A session matches on its summary or on the subject of any of its commits
+    const rows = db.prepare(`
+      SELECT s.* FROM (
+        SELECT session_id, bm25(sessions_fts) AS rank
+        FROM sessions_fts WHERE sessions_fts MATCH @match
+        UNION ALL
+        SELECT session_id, bm25(session_commits_fts) AS rank
+        FROM session_commits_fts WHERE session_commits_fts MATCH @match
+      ) m
+      JOIN sessions s ON s.session_id = m.session_id
+      WHERE s.project_path = @project_path
+        AND (@branch IS NULL OR s.branch = @branch)
+      GROUP BY s.session_id
+      ORDER BY MIN(m.rank) LIMIT @limit
+    `).all({
+      match,
+      project_path: projectPath,
+      branch: branch ?? null,
+      limit,
+    }) as SessionRow[];
     return rows.map(rowToSession);
   }
 
   return getRecentSessions(db, projectPath, limit, branch);
 }
 
+/**
+ * Metrics for a session, with the events of its subagent sessions rolled
+ * in. Duration is the session's own; subagents run inside it.
+ */
 export function computeMetrics(
   db: Database.Database,
   sessionId: string,
@@ -187,29 +432,38 @@ export function computeMetrics(
   );
 
   const categoryCounts = db.prepare(`
+    ${SESSION_TREE_SQL}
     SELECT category, COUNT(*) as count
     FROM session_events
-    WHERE session_id = ?
+    WHERE session_id IN tree
     GROUP BY category
   `).all(sessionId) as Array<{ category: string; count: number }>;
 
   const eventTypeCounts = db.prepare(`
+    ${SESSION_TREE_SQL}
     SELECT event_type, COUNT(*) as count
     FROM session_events
-    WHERE session_id = ?
+    WHERE session_id IN tree
     GROUP BY event_type
   `).all(sessionId) as Array<{ event_type: string; count: number }>;
 
   const fileReadCount = db.prepare(`
+    ${SESSION_TREE_SQL}
     SELECT COUNT(DISTINCT json_extract(detail_json, '$.path')) as count
     FROM session_events
-    WHERE session_id = ? AND event_type = 'file_read'
+    WHERE session_id IN tree AND event_type = 'file_read'
   `).get(sessionId) as { count: number };
 
   const fileModifiedCount = db.prepare(`
+    ${SESSION_TREE_SQL}
     SELECT COUNT(DISTINCT json_extract(detail_json, '$.path')) as count
     FROM session_events
-    WHERE session_id = ? AND event_type IN ('file_write', 'file_edit')
+    WHERE session_id IN tree AND event_type IN ('file_write', 'file_edit')
+  `).get(sessionId) as { count: number };
+
+  const treeSize = db.prepare(`
+    ${SESSION_TREE_SQL}
+    SELECT COUNT(*) as count FROM tree
   `).get(sessionId) as { count: number };
 
   const countByCategory = (cat: string): number =>
@@ -237,13 +491,45 @@ export function computeMetrics(
     decisionsRecorded: countByType('decision'),
     patternsDiscovered: countByType('pattern'),
     errorsResolved: countByType('error_resolved'),
+    childSessions: treeSize.count - 1,
   };
 }
 
+export interface SessionTreeNode {
+  readonly session: Session;
+  /** 1 for direct children, 2 for their children, and so on */
+  readonly depth: number;
+}
+
+/**
+ * Every subagent session below a session, depth first in start order, so
+ * each child directly follows its parent.
+ */
+export function getChildSessions(
+  db: Database.Database,
+  sessionId: string,
+  depth: number = 1,
+): readonly SessionTreeNode[] {
+  const rows = db.prepare(`
+    SELECT * FROM sessions WHERE parent_session_id = ? ORDER BY started_at ASC
+  `).all(sessionId) as SessionRow[];
+
+  return rows.flatMap((row) => [
+    { session: rowToSession(row), depth },
+    ...getChildSessions(db, row.session_id, depth + 1),
+  ]);
+}
+
+/**
+ * Session totals for a project. Top files leave out paths outside the
+ * project, and `isIgnored` keeps out files whose events were stored before
+ * an ignore rule matched them.
+ */
 export function getSessionStats(
   db: Database.Database,
   projectPath: string,
   since?: string,
+  isIgnored: (path: string) => boolean = () => false,
 ): {
   totalSessions: number;
   totalDurationSecs: number;
@@ -277,9 +563,9 @@ export function getSessionStats(
     WHERE s.project_path = ? ${sinceClause}
       AND e.event_type IN ('file_read', 'file_write', 'file_edit')
       AND json_extract(e.detail_json, '$.path') IS NOT NULL
+      AND json_extract(e.detail_json, '$.outsideProject') IS NOT 1
     GROUP BY path
     ORDER BY count DESC
-    LIMIT 10
   `).all(...params) as Array<{ path: string; count: number }>;
 
   const toolBreakdown = db.prepare(`
@@ -302,7 +588,7 @@ export function getSessionStats(
   return {
     totalSessions: sessionStats.total_sessions,
     totalDurationSecs: Math.floor(sessionStats.total_duration),
-    topFiles,
+    topFiles: topFiles.filter((f) => !isIgnored(f.path)).slice(0, TOP_FILES),
     toolBreakdown,
     patternsDiscovered: patternCount.count,
   };
@@ -0,0 +1,106 @@
+import { z } from 'zod';
+import type Database from 'better-sqlite3';
+import { getActiveSessions } from '../storage/sessions.js';
+import { getSessionEvents } from '../storage/events.js';
+import { resolveProjectPath } from '../context/projects.js';
+import { getAgentDisplayName } from '../utils.js';
+import { toolResult, toolError, errorMessage, sessionOutput } from './output.js';
+import type { OutputOf } from './output.js';
+
+// Files listed per session in the text output; the JSON has them all
+const LISTED_FILES = 5;
+
+export const listActiveSessionsSchema = {
+  projectPath: z.string().describe('Project root path'),
+  excludeSessionId: z.string().optional().describe('Your own session, left out of the list'),
+};
+
+export const listActiveSessionsOutputSchema = {
+  projectPath: z.string(),
+  sessions: z.array(z.object({
+    session: sessionOutput,
+    lastActivityAt: z.string(),
+    eventCount: z.number(),
+    filesModified: z.array(z.string()).describe('Files written or edited in the session, most recent first'),
+  })).describe('Active sessions, most recently active first'),
+  sharedFiles: z.array(z.object({
+    filePath: z.string(),
+    sessionIds: z.array(z.string()),
+  })).describe('Files modified by more than one active session'),
+};
+
+type ListActiveSessionsOutput = OutputOf<typeof listActiveSessionsOutputSchema>;
+
+function renderActiveSessions({ projectPath, sessions, sharedFiles }: ListActiveSessionsOutput): string {
+  if (sessions.length === 0) {
+    return `No active sessions on ${projectPath}.`;
+  }
+
+  const lines = [`Active sessions on ${projectPath} (${sessions.length}):`];
+  for (const { session: s, lastActivityAt, eventCount, filesModified } of sessions) {
+    const where = [`Branch: ${s.branch}`, s.worktree ? `Worktree: ${s.worktree}` : ''].filter(Boolean);
+    const who = `${getAgentDisplayName(s.agentType ?? 'unknown')}${s.agentInstance ? ` (${s.agentInstance})` : ''}`;
+    lines.push('');
+    lines.push(`${s.sessionId} — ${who}`);
+    lines.push(`  ${where.join(' | ')}`);
+    lines.push(`  Started: ${s.startedAt} | Last activity: ${lastActivityAt} | Events: ${eventCount}`);
+    if (filesModified.length > 0) {
+      const more = filesModified.length > LISTED_FILES ? ` (+${filesModified.length - LISTED_FILES} more)` : '';
+      lines.push(`  Editing: ${filesModified.slice(0, LISTED_FILES).join(', ')}${more}`);
+    }
+  }
+
+  if (sharedFiles.length > 0) {
+    lines.push('', 'Modified by more than one session:');
+    for (const f of sharedFiles) {
+      lines.push(`  ${f.filePath} (${f.sessionIds.join(', ')})`);
+    }
+  }
+
+  return lines.join('\n');
+}
+
+export function handleListActiveSessions(db: Database.Database) {
+  return async ({ projectPath: requestedPath, excludeSessionId }: {
+    projectPath: string;
+    excludeSessionId?: string;
+  }) => {
+    try {
+      const projectPath = resolveProjectPath(db, requestedPath);
+      const active = getActiveSessions(db, projectPath);
+      const modifiedBy = new Map<string, string[]>();
+
+      const sessions = active.map((session) => {
+        const events = getSessionEvents(db, session.sessionId);
+        const filesModified = new Set<string>();
+        for (const e of [...events].reverse()) {
+          if (e.detail.type === 'file_op' && e.detail.operation !== 'read') {
+            filesModified.add(e.detail.path);
+          }
+        }
+        for (const filePath of filesModified) {
+          modifiedBy.set(filePath, [...(modifiedBy.get(filePath) ?? []), session.sessionId]);
+        }
+
+        return {
+          session,
+          lastActivityAt: events.at(-1)?.timestamp ?? session.startedAt,
+          eventCount: events.length,
+          filesModified: [...filesModified],
+        };
+      });
+
+      return toolResult({
+        projectPath,
+        sessions: sessions
+          .filter(({ session }) => session.sessionId !== excludeSessionId)
+          .sort((a, b) => b.lastActivityAt.localeCompare(a.lastActivityAt)),
+        sharedFiles: [...modifiedBy]
+          .filter(([, sessionIds]) => sessionIds.length > 1)
+          .map(([filePath, sessionIds]) => ({ filePath, sessionIds })),
+      }, renderActiveSessions);
+    } catch (error: unknown) {
+      return toolError(`Failed to list active sessions: ${errorMessage(error)}`);
+    }
+  };
+}
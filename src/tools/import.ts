@@ -0,0 +1,195 @@
+import { z } from 'zod';
+import { existsSync, readdirSync, readFileSync, statSync } from 'node:fs';
+import { basename, isAbsolute, join, relative } from 'node:path';
+import type Database from 'better-sqlite3';
+import { insertKnowledge } from '../storage/knowledge.js';
+import { findDuplicates, computeContentHash } from '../context/deduplication.js';
+import { parseAdr, parseInstructionsFile } from '../context/import.js';
+import type { ImportCandidate, ImportSkip } from '../context/import.js';
+import { resolveProjectPath } from '../context/projects.js';
+import { defaultRedactor, redactFields } from '../context/redaction.js';
+import type { Redactor } from '../context/redaction.js';
+import { generateId, nowISO } from '../utils.js';
+import { toolResult, toolError, errorMessage, knowledgeTypeSchema } from './output.js';
+import type { OutputOf } from './output.js';
+
+// Looked up in the project root when no paths are given
+const DEFAULT_INSTRUCTION_FILES = ['CLAUDE.md', 'AGENTS.md', '.cursorrules'];
+const DEFAULT_ADR_DIRS = ['docs/adr', 'doc/adr', 'docs/decisions'];
+
+// Index and template files that live alongside ADRs but are not decisions
+const NON_ADR_FILES = new Set(['readme.md', 'index.md', 'template.md', 'adr-template.md']);
+
+export const importKnowledgeSchema = {
+  projectPath: z.string().describe('Project root path'),
+  paths: z.array(z.string())
+    .optional()
+    .describe('Files or ADR directories to import, relative to projectPath (default: CLAUDE.md, AGENTS.md, .cursorrules, docs/adr)'),
+  dryRun: z.boolean().optional().describe('Report what would be imported without writing'),
+};
+
+export const importKnowledgeOutputSchema = {
+  projectPath: z.string(),
+  dryRun: z.boolean(),
+  imported: z.array(z.object({
+    knowledgeId: z.string().optional().describe('Absent on a dry run'),
+    title: z.string(),
+    content: z.string(),
+    knowledgeType: knowledgeTypeSchema,
+    tags: z.array(z.string()),
+    source: z.string(),
+  })),
+  skipped: z.array(z.object({ title: z.string(), source: z.string(), reason: z.string() })),
+  missing: z.array(z.string()).describe('Requested paths that do not exist'),
+  redactions: z.number().describe('Secrets replaced in imported titles and content'),
+};
+
+type ImportKnowledgeOutput = OutputOf<typeof importKnowledgeOutputSchema>;
+
+function renderImportKnowledge({ projectPath, dryRun, imported, skipped, missing, redactions }: ImportKnowledgeOutput): string {
+  if (imported.length === 0 && skipped.length === 0) {
+    return missing.length > 0
+      ? `Nothing to import. Not found: ${missing.join(', ')}`
+      : `Nothing to import. No CLAUDE.md, AGENTS.md, .cursorrules or docs/adr found in ${projectPath}.`;
+  }
+
+  const lines = [
+    `${dryRun ? 'Would import' : 'Imported'} ${imported.length} item(s), skipped ${skipped.length}.`,
+  ];
+
+  if (imported.length > 0) {
+    lines.push('', dryRun ? 'To import:' : 'Imported:');
+    for (const item of imported) {
+      lines.push(`  [${item.knowledgeType}] ${item.title} (${item.source})`);
+    }
+  }
+
+  if (skipped.length > 0) {
+    lines.push('', 'Skipped:');
+    for (const skip of skipped) {
+      lines.push(`  ${skip.title} (${skip.source}): ${skip.reason}`);
+    }
+  }
+
+  if (missing.length > 0) {
+    lines.push('', `Not found: ${missing.join(', ')}`);
+  }
+
+  if (redactions > 0) {
+    lines.push('', `Redacted ${redactions} secret(s)${dryRun ? '' : ' before storing'}.`);
+  }
+
+  return lines.join('\n');
+}
+
+function listAdrFiles(dir: string): string[] {
+  return readdirSync(dir)
+    .filter((f) => f.toLowerCase().endsWith('.md') && !NON_ADR_FILES.has(f.toLowerCase()))
+    .sort()
+    .map((f) => join(dir, f));
+}
+
+/**
+ * Parse every requested source. Directories are read as ADR collections;
+ * files are read as instruction files.
+ */
+function collectCandidates(
+  projectPath: string,
+  paths: readonly string[] | undefined,
+): { candidates: ImportCandidate[]; skipped: ImportSkip[]; missing: string[] } {
+  const candidates: ImportCandidate[] = [];
+  const skipped: ImportSkip[] = [];
+  const missing: string[] = [];
+
+  const requested = paths ?? [...DEFAULT_INSTRUCTION_FILES, ...DEFAULT_ADR_DIRS];
+
+  for (const path of requested) {
+    const absolute = isAbsolute(path) ? path : join(projectPath, path);
+    if (!existsSync(absolute)) {
+      // Defaults are probes; only explicit paths are worth reporting
+      if (paths) {
+        missing.push(path);
+      }
+      continue;
+    }
+
+    const parsed = statSync(absolute).isDirectory()
+      ? listAdrFiles(absolute).map((f) => parseAdr(readFileSync(f, 'utf-8'), relative(projectPath, f)))
+      : [parseInstructionsFile(readFileSync(absolute, 'utf-8'), basename(absolute))];
+
+    for (const doc of parsed) {
+      candidates.push(...doc.candidates);
+      skipped.push(...doc.skipped);
+    }
+  }
+
+  return { candidates, skipped, missing };
+}
+
+export function handleImportKnowledge(db: Database.Database, redactor: Redactor = defaultRedactor()) {
+  return async ({ projectPath, paths, dryRun }: {
+    projectPath: string;
+    paths?: string[];
+    dryRun?: boolean;
+  }) => {
+    try {
+      const { candidates, skipped, missing } = collectCandidates(projectPath, paths);
+      // Files are read from the path given; knowledge is stored under the project's root
+      const knowledgePath = resolveProjectPath(db, projectPath);
+      const imported: ImportKnowledgeOutput['imported'] = [];
+      // Catches repeats within this batch, which a dry run never stores
+      const seenHashes = new Set<string>();
+      let redactions = 0;
+
+      for (const parsed of candidates) {
+        const { fields, count } = redactFields(redactor, { title: parsed.title, content: parsed.content });
+        const candidate = { ...parsed, ...fields };
+        redactions += count;
+        const contentHash = computeContentHash(candidate.content);
+        if (seenHashes.has(contentHash)) {
+          skipped.push({ title: candidate.title, source: candidate.source, reason: 'repeated in import' });
+          continue;
+        }
+        seenHashes.add(contentHash);
+
+        const duplicates = findDuplicates(db, knowledgePath, candidate.title, candidate.content);
+        if (duplicates.length > 0) {
+          const dup = duplicates[0]!;
+          skipped.push({
+            title: candidate.title,
+            source: candidate.source,
+            reason: `duplicate of [${dup.existingKnowledge.knowledgeType}] ${dup.existingKnowledge.title} (${dup.existingKnowledge.knowledgeId})`,
+          });
+          continue;
+        }
+
+        const knowledgeId = dryRun ? undefined : generateId();
+        if (knowledgeId) {
+          insertKnowledge(db, {
+            knowledgeId,
+            projectPath: knowledgePath,
+            title: candidate.title,
+            content: candidate.content,
+            knowledgeType: candidate.knowledgeType,
+            tags: candidate.tags,
+            createdAt: nowISO(),
+            contentHash,
+            usageCount: 0,
+          });
+        }
+        imported.push({ knowledgeId, ...candidate, tags: [...candidate.tags] });
+      }
+
+      return toolResult({
+        projectPath,
+        dryRun: dryRun ?? false,
+        imported,
+        skipped,
+        missing,
+        redactions,
+      }, renderImportKnowledge);
+    } catch (error: unknown) {
+      return toolError(`Failed to import knowledge: ${errorMessage(error)}`);
+    }
+  };
+}
@@ -0,0 +1,91 @@
+import { z } from 'zod';
+import { existsSync, readFileSync, writeFileSync } from 'node:fs';
+import type Database from 'better-sqlite3';
+import { getProjectKnowledge } from '../storage/knowledge.js';
+import { rankKnowledge } from '../context/scoring.js';
+import { resolveProjectPath } from '../context/projects.js';
+import {
+  mergeManagedBlock,
+  renderInstructions,
+  resolveInstructionsPath,
+} from '../context/instructions.js';
+import type { InstructionsFormat } from '../context/instructions.js';
+import { getGitBranch } from '../utils.js';
+import { toolResult, toolError, errorMessage } from './output.js';
+import type { OutputOf } from './output.js';
+
+// Enough for any real project; instruction files should stay skimmable
+const MAX_ITEMS = 200;
+
+export const generateInstructionsSchema = {
+  projectPath: z.string().describe('Project root path'),
+  format: z.enum(['claude', 'agents', 'cursorrules'])
+    .optional()
+    .describe('Output format: claude (CLAUDE.md), agents (AGENTS.md) or cursorrules (.cursorrules). Default claude'),
+  outputPath: z.string().optional().describe('CLAUDE.md, AGENTS.md or .cursorrules inside the project, absolute or relative to projectPath (default depends on format)'),
+  branch: z.string().optional().describe('Branch to rank knowledge for (auto-detected if omitted)'),
+  dryRun: z.boolean().optional().describe('Return the generated block without writing the file'),
+};
+
+export const generateInstructionsOutputSchema = {
+  path: z.string().describe('Target file'),
+  format: generateInstructionsSchema.format.unwrap(),
+  itemCount: z.number().describe('Knowledge items rendered into the managed block'),
+  status: z.enum(['dry_run', 'created', 'updated', 'unchanged']),
+  content: z.string().optional().describe('The generated block, on a dry run'),
+};
+
+type GenerateInstructionsOutput = OutputOf<typeof generateInstructionsOutputSchema>;
+
+function renderGenerateInstructions(data: GenerateInstructionsOutput): string {
+  switch (data.status) {
+    case 'dry_run':
+      return `Would write ${data.itemCount} knowledge item(s) to ${data.path}:\n\n${data.content}`;
+    case 'unchanged':
+      return `${data.path} is already up to date (${data.itemCount} knowledge item(s)).`;
+    case 'created':
+    case 'updated':
+      return `${data.status === 'created' ? 'Created' : 'Updated'} ${data.path} with ${data.itemCount} knowledge item(s).`;
+  }
+}
+
+export function handleGenerateInstructions(db: Database.Database) {
+  return async ({ projectPath, format, outputPath, branch, dryRun }: {
+    projectPath: string;
+    format?: InstructionsFormat;
+    outputPath?: string;
+    branch?: string;
+    dryRun?: boolean;
+  }) => {
+    try {
+      const resolvedFormat = format ?? 'claude';
+      const resolvedBranch = branch ?? getGitBranch(projectPath);
+      const target = resolveInstructionsPath(projectPath, resolvedFormat, outputPath);
+
+      const knowledge = getProjectKnowledge(db, resolveProjectPath(db, projectPath), undefined, MAX_ITEMS);
+      const body = renderInstructions(rankKnowledge(knowledge, resolvedBranch), resolvedFormat);
+
+      const result = { path: target, format: resolvedFormat, itemCount: knowledge.length };
+
+      if (dryRun) {
+        return toolResult({ ...result, status: 'dry_run' as const, content: body }, renderGenerateInstructions);
+      }
+
+      const existing = existsSync(target) ? readFileSync(target, 'utf-8') : undefined;
+      const merged = mergeManagedBlock(existing, body);
+
+      if (merged === existing) {
+        return toolResult({ ...result, status: 'unchanged' as const }, renderGenerateInstructions);
+      }
+
+      writeFileSync(target, merged, 'utf-8');
+
+      return toolResult({
+        ...result,
+        status: existing === undefined ? 'created' as const : 'updated' as const,
+      }, renderGenerateInstructions);
+    } catch (error: unknown) {
+      return toolError(`Failed to generate instructions file: ${errorMessage(error)}`);
+    }
+  };
+}
@@ -1,10 +1,70 @@
 import { z } from 'zod';
 import type Database from 'better-sqlite3';
-import { insertKnowledge, getProjectKnowledge } from '../storage/knowledge.js';
+import {
+  insertKnowledge,
+  getProjectKnowledge,
+  getKnowledgeById,
+  updateKnowledge,
+  retractKnowledge,
+  deleteKnowledge,
+  getSupersededKnowledge,
+  restoreKnowledgeRevision,
+} from '../storage/knowledge.js';
+import { getKnowledgeRevisions } from '../storage/knowledge-revisions.js';
 import { getSession } from '../storage/sessions.js';
 import { findDuplicates, computeContentHash, markSuperseded } from '../context/deduplication.js';
+import { findConflicts } from '../context/conflicts.js';
+import { resolveProjectPath } from '../context/projects.js';
+import { defaultRedactor, redactFields } from '../context/redaction.js';
+import type { Redactor } from '../context/redaction.js';
 import { generateId, nowISO } from '../utils.js';
-import type { PromotedKnowledge, KnowledgeType } from '../types.js';
+import {
+  toolResult,
+  toolError,
+  errorMessage,
+  duplicateOutput,
+  knowledgeOutput,
+  revisionOutput,
+  toKnowledgeOutput,
+  toRevisionOutput,
+} from './output.js';
+import type { OutputOf } from './output.js';
+import type {
+  ConflictCandidate,
+  ConflictResolution,
+  DuplicateCandidate,
+  PromotedKnowledge,
+  KnowledgeType,
+} from '../types.js';
+
+const conflictOutput = z.object({
+  knowledge: knowledgeOutput,
+  conflictScore: z.number(),
+  sharedKeywords: z.array(z.string()),
+  sharedTags: z.array(z.string()),
+  sharedFiles: z.array(z.string()),
+});
+
+type ConflictOutput = z.infer<typeof conflictOutput>;
+type DuplicateOutput = z.infer<typeof duplicateOutput>;
+
+function toDuplicateOutput(d: DuplicateCandidate): DuplicateOutput {
+  return {
+    knowledge: toKnowledgeOutput(d.existingKnowledge),
+    similarityScore: d.similarityScore,
+    matchType: d.matchType,
+  };
+}
+
+function toConflictOutput(c: ConflictCandidate): ConflictOutput {
+  return {
+    knowledge: toKnowledgeOutput(c.existingKnowledge),
+    conflictScore: c.conflictScore,
+    sharedKeywords: [...c.sharedKeywords],
+    sharedTags: [...c.sharedTags],
+    sharedFiles: [...c.sharedFiles],
+  };
+}
 
 export const promoteKnowledgeSchema = {
   projectPath: z.string().describe('Project root path'),
@@ -17,10 +77,79 @@ export const promoteKnowledgeSchema = {
   sourceEventId: z.string().optional().describe('Source event ID'),
   allowDuplicate: z.boolean().optional().describe('Force promotion even if duplicate detected'),
   supersedes: z.string().optional().describe('Knowledge ID this supersedes (marks old as superseded)'),
+  resolution: z.enum(['supersede', 'coexist', 'abort'])
+    .optional()
+    .describe('How to resolve conflicting decisions: supersede them, coexist (requires scopeNote), or abort'),
+  scopeNote: z.string().optional().describe('Where this decision applies, when coexisting with a conflicting one'),
+};
+
+export const promoteKnowledgeOutputSchema = {
+  status: z.enum(['promoted', 'duplicate', 'conflict', 'aborted'])
+    .describe('promoted: stored. duplicate/conflict: nothing stored, resolve and retry. aborted: dropped on request'),
+  title: z.string(),
+  knowledge: knowledgeOutput.optional().describe('The stored item, when promoted'),
+  knowledgeCount: z.number().optional().describe('Active items in the project after promotion'),
+  supersedes: z.string().optional(),
+  resolution: promoteKnowledgeSchema.resolution,
+  duplicate: duplicateOutput.optional(),
+  conflicts: z.array(conflictOutput),
+  redactions: z.number().describe('Secrets replaced in title, content and scopeNote before checking and storing'),
 };
 
-export function handlePromoteKnowledge(db: Database.Database) {
-  return async ({ projectPath, title, content, knowledgeType, tags, sessionId, sourceEventId, allowDuplicate, supersedes }: {
+type PromoteKnowledgeOutput = OutputOf<typeof promoteKnowledgeOutputSchema>;
+
+function renderPromoteKnowledge(data: PromoteKnowledgeOutput): string {
+  const { duplicate: dup, conflicts, knowledge } = data;
+
+  switch (data.status) {
+    case 'duplicate': {
+      const matchTypeDesc = dup?.matchType === 'exact_hash' ? 'identical content' : 'similar title';
+      return [
+        `Duplicate detected (${matchTypeDesc}, similarity: ${((dup?.similarityScore ?? 0) * 100).toFixed(0)}%):`,
+        `  Existing: [${dup?.knowledge.knowledgeType}] ${dup?.knowledge.title}`,
+        `  ID: ${dup?.knowledge.knowledgeId}`,
+        '',
+        'To promote anyway, set allowDuplicate: true',
+        'To supersede the existing item, set supersedes: "<knowledge_id>"',
+      ].join('\n');
+    }
+    case 'conflict':
+      return formatConflicts(conflicts);
+    case 'aborted':
+      return `Promotion aborted: "${data.title}" conflicts with ${conflicts.length} existing decision(s).`;
+    case 'promoted':
+      break;
+  }
+
+  const lines = [
+    `Knowledge promoted: ${data.title} (${knowledge?.knowledgeId})`,
+    `Type: ${knowledge?.knowledgeType}`,
+    knowledge?.branch ? `Branch: ${knowledge.branch}` : '',
+    '',
+    `Project now has ${data.knowledgeCount} promoted knowledge item(s).`,
+  ].filter(Boolean);
+
+  if (data.redactions > 0) {
+    lines.push(`Redacted ${data.redactions} secret(s) before storing.`);
+  }
+
+  if (data.supersedes) {
+    lines.push(`Superseded: ${data.supersedes}`);
+  }
+  for (const c of conflicts) {
+    lines.push(data.resolution === 'supersede'
+      ? `Superseded (conflict): ${c.knowledge.title} (${c.knowledge.knowledgeId})`
+      : `Coexists with: ${c.knowledge.title} (${c.knowledge.knowledgeId})`);
+  }
+
+  return lines.join('\n');
+}
+
+export function handlePromoteKnowledge(db: Database.Database, redactor: Redactor = defaultRedactor()) {
+  return async ({
+    projectPath: requestedPath, knowledgeType, tags, sessionId, sourceEventId,
+    allowDuplicate, supersedes, resolution, ...text
+  }: {
     projectPath: string;
     title: string;
     content: string;
@@ -30,31 +159,56 @@ export function handlePromoteKnowledge(db: Database.Database) {
     sourceEventId?: string;
     allowDuplicate?: boolean;
     supersedes?: string;
+    resolution?: ConflictResolution;
+    scopeNote?: string;
   }) => {
     try {
+      const projectPath = resolveProjectPath(db, requestedPath);
+      // Redact first so duplicate and conflict checks compare what would be stored
+      const { fields: { title, content, scopeNote }, count: redactions } = redactFields(redactor, text);
+
       // Check for duplicates unless explicitly allowed
       if (!allowDuplicate) {
         const duplicates = findDuplicates(db, projectPath, title, content);
         if (duplicates.length > 0) {
-          const dup = duplicates[0]!;
-          const matchTypeDesc = dup.matchType === 'exact_hash' ? 'identical content' : 'similar title';
-          const lines = [
-            `Duplicate detected (${matchTypeDesc}, similarity: ${(dup.similarityScore * 100).toFixed(0)}%):`,
-            `  Existing: [${dup.existingKnowledge.knowledgeType}] ${dup.existingKnowledge.title}`,
-            `  ID: ${dup.existingKnowledge.knowledgeId}`,
-            '',
-            'To promote anyway, set allowDuplicate: true',
-            'To supersede the existing item, set supersedes: "<knowledge_id>"',
-          ];
-
-          return {
-            content: [{ type: 'text' as const, text: lines.join('\n') }],
-          };
+          return toolResult({
+            status: 'duplicate' as const,
+            title,
+            duplicate: toDuplicateOutput(duplicates[0]!),
+            conflicts: [],
+            redactions,
+          }, renderPromoteKnowledge);
+        }
+      }
+
+      // Decisions must not silently contradict existing ones
+      const conflicts = knowledgeType === 'decision'
+        ? findConflicts(db, projectPath, title, content, tags ?? [])
+          .filter((c) => c.existingKnowledge.knowledgeId !== supersedes)
+        : [];
+
+      if (conflicts.length > 0) {
+        if (!resolution || resolution === 'abort') {
+          return toolResult({
+            status: resolution === 'abort' ? 'aborted' as const : 'conflict' as const,
+            title,
+            resolution,
+            conflicts: conflicts.map(toConflictOutput),
+            redactions,
+          }, renderPromoteKnowledge);
+        }
+
+        if (resolution === 'coexist' && !scopeNote) {
+          return toolError('A scopeNote is required to coexist with conflicting decisions.');
         }
       }
 
+      const storedContent = conflicts.length > 0 && resolution === 'coexist'
+        ? `${content}\n\nScope: ${scopeNote}`
+        : content;
+
       // Compute content hash for future deduplication
-      const contentHash = computeContentHash(content);
+      const contentHash = computeContentHash(storedContent);
 
       // Get branch from session if available
       let branch: string | undefined;
@@ -69,7 +223,7 @@ export function handlePromoteKnowledge(db: Database.Database) {
         sessionId,
         sourceEventId,
         title,
-        content,
+        content: storedContent,
         knowledgeType,
         tags: tags ?? [],
         createdAt: nowISO(),
@@ -84,31 +238,26 @@ export function handlePromoteKnowledge(db: Database.Database) {
       if (supersedes) {
         markSuperseded(db, supersedes, knowledge.knowledgeId);
       }
+      if (resolution === 'supersede') {
+        for (const c of conflicts) {
+          markSuperseded(db, c.existingKnowledge.knowledgeId, knowledge.knowledgeId);
+        }
+      }
 
       const existing = getProjectKnowledge(db, projectPath, undefined, 100);
-      const lines = [
-        `Knowledge promoted: ${title} (${knowledge.knowledgeId})`,
-        `Type: ${knowledgeType}`,
-        branch ? `Branch: ${branch}` : '',
-        '',
-        `Project now has ${existing.length} promoted knowledge item(s).`,
-      ].filter(Boolean);
-
-      if (supersedes) {
-        lines.push(`Superseded: ${supersedes}`);
-      }
 
-      return {
-        content: [{ type: 'text' as const, text: lines.join('\n') }],
-      };
+      return toolResult({
+        status: 'promoted' as const,
+        title,
+        knowledge: toKnowledgeOutput(knowledge),
+        knowledgeCount: existing.length,
+        supersedes,
+        resolution: conflicts.length > 0 ? resolution : undefined,
+        conflicts: conflicts.map(toConflictOutput),
+        redactions,
+      }, renderPromoteKnowledge);
     } catch (error: unknown) {
-      return {
-        content: [{
-          type: 'text' as const,
-          text: `Failed to promote knowledge: ${error instanceof Error ? error.message : String(error)}`,
-        }],
-        isError: true,
-      };
+      return toolError(`Failed to promote knowledge: ${errorMessage(error)}`);
     }
   };
 }
@@ -121,49 +270,389 @@ export const getKnowledgeSchema = {
   limit: z.number().min(1).max(100).optional().describe('Max results (default 20)'),
 };
 
+export const getKnowledgeOutputSchema = {
+  projectPath: z.string(),
+  items: z.array(knowledgeOutput),
+};
+
+type GetKnowledgeOutput = OutputOf<typeof getKnowledgeOutputSchema>;
+
+function renderGetKnowledge({ projectPath, items }: GetKnowledgeOutput): string {
+  if (items.length === 0) {
+    return `No promoted knowledge found for ${projectPath}.`;
+  }
+
+  const lines = [`Project knowledge (${items.length} items):`];
+  for (const k of items) {
+    lines.push('');
+    lines.push(`[${k.knowledgeType}] ${k.title}`);
+    lines.push(`  ${k.content}`);
+    if (k.tags.length > 0) {
+      lines.push(`  Tags: ${k.tags.join(', ')}`);
+    }
+    if (k.usageCount > 0) {
+      lines.push(`  Used: ${k.usageCount} time(s)`);
+    }
+  }
+
+  return lines.join('\n');
+}
+
 export function handleGetKnowledge(db: Database.Database) {
-  return async ({ projectPath, knowledgeType, limit }: {
+  return async ({ projectPath: requestedPath, knowledgeType, limit }: {
     projectPath: string;
     knowledgeType?: KnowledgeType;
     limit?: number;
   }) => {
     try {
       const maxResults = limit ?? 20;
+      const projectPath = resolveProjectPath(db, requestedPath);
       const items = getProjectKnowledge(db, projectPath, knowledgeType, maxResults);
 
-      if (items.length === 0) {
-        return {
-          content: [{
-            type: 'text' as const,
-            text: `No promoted knowledge found for ${projectPath}.`,
-          }],
-        };
+      return toolResult({ projectPath, items: items.map(toKnowledgeOutput) }, renderGetKnowledge);
+    } catch (error: unknown) {
+      return toolError(`Failed to get knowledge: ${errorMessage(error)}`);
+    }
+  };
+}
+
+export const updateKnowledgeSchema = {
+  knowledgeId: z.string().describe('Knowledge ID to edit'),
+  title: z.string().optional().describe('New title'),
+  content: z.string().optional().describe('New content'),
+  knowledgeType: z.enum(['decision', 'pattern', 'error_resolved', 'milestone'])
+    .optional()
+    .describe('New knowledge type'),
+  tags: z.array(z.string()).optional().describe('Replacement tag list'),
+  sessionId: z.string().optional().describe('Session making the edit (recorded in revision history)'),
+  allowDuplicate: z.boolean().optional().describe('Save even if the edit duplicates another item'),
+};
+
+export const updateKnowledgeOutputSchema = {
+  status: z.enum(['updated', 'duplicate']).describe('duplicate: nothing saved, the edit matches another item'),
+  knowledgeId: z.string(),
+  changed: z.array(z.string()).describe('Fields the edit sets'),
+  knowledge: knowledgeOutput.optional().describe('The item after the edit'),
+  duplicate: duplicateOutput.optional(),
+  redactions: z.number().describe('Secrets replaced in the new title and content'),
+};
+
+type UpdateKnowledgeOutput = OutputOf<typeof updateKnowledgeOutputSchema>;
+
+function renderUpdateKnowledge(data: UpdateKnowledgeOutput): string {
+  const dup = data.duplicate;
+  if (data.status === 'duplicate') {
+    return [
+      `Edit would duplicate existing knowledge (similarity: ${((dup?.similarityScore ?? 0) * 100).toFixed(0)}%):`,
+      `  Existing: [${dup?.knowledge.knowledgeType}] ${dup?.knowledge.title}`,
+      `  ID: ${dup?.knowledge.knowledgeId}`,
+      '',
+      'To save anyway, set allowDuplicate: true',
+    ].join('\n');
+  }
+
+  const lines = [
+    `Knowledge updated: ${data.knowledge?.title} (${data.knowledgeId})`,
+    `Changed: ${data.changed.join(', ')}`,
+  ];
+  if (data.redactions > 0) {
+    lines.push(`Redacted ${data.redactions} secret(s) before storing.`);
+  }
+  return lines.join('\n');
+}
+
+export function handleUpdateKnowledge(db: Database.Database, redactor: Redactor = defaultRedactor()) {
+  return async ({ knowledgeId, knowledgeType, tags, sessionId, allowDuplicate, ...text }: {
+    knowledgeId: string;
+    title?: string;
+    content?: string;
+    knowledgeType?: KnowledgeType;
+    tags?: string[];
+    sessionId?: string;
+    allowDuplicate?: boolean;
+  }) => {
+    try {
+      const existing = getKnowledgeById(db, knowledgeId);
+      if (!existing) {
+        return toolError(`Knowledge ${knowledgeId} not found.`);
       }
 
-      const lines = [`Project knowledge (${items.length} items):`];
-      for (const k of items) {
-        lines.push('');
-        lines.push(`[${k.knowledgeType}] ${k.title}`);
-        lines.push(`  ${k.content}`);
-        if (k.tags.length > 0) {
-          lines.push(`  Tags: ${k.tags.join(', ')}`);
-        }
-        if (k.usageCount && k.usageCount > 0) {
-          lines.push(`  Used: ${k.usageCount} time(s)`);
+      const { fields: { title, content }, count: redactions } = redactFields(redactor, text);
+      const changed = Object.entries({ title, content, knowledgeType, tags })
+        .filter(([, value]) => value !== undefined)
+        .map(([field]) => field);
+
+      if (changed.length === 0) {
+        return toolError('Nothing to update: pass title, content, knowledgeType or tags.');
+      }
+
+      // An edit must not silently turn this item into a copy of another one
+      if (!allowDuplicate && (title !== undefined || content !== undefined)) {
+        const duplicates = findDuplicates(
+          db,
+          existing.projectPath,
+          title ?? existing.title,
+          content ?? existing.content,
+        ).filter((d) => d.existingKnowledge.knowledgeId !== knowledgeId);
+
+        if (duplicates.length > 0) {
+          return toolResult({
+            status: 'duplicate' as const,
+            knowledgeId,
+            changed,
+            duplicate: toDuplicateOutput(duplicates[0]!),
+            redactions,
+          }, renderUpdateKnowledge);
         }
       }
 
-      return {
-        content: [{ type: 'text' as const, text: lines.join('\n') }],
-      };
+      const updated = updateKnowledge(
+        db,
+        knowledgeId,
+        { title, content, knowledgeType, tags },
+        nowISO(),
+        sessionId,
+      );
+
+      return toolResult({
+        status: 'updated' as const,
+        knowledgeId,
+        changed,
+        knowledge: updated ? toKnowledgeOutput(updated) : undefined,
+        redactions,
+      }, renderUpdateKnowledge);
     } catch (error: unknown) {
-      return {
-        content: [{
-          type: 'text' as const,
-          text: `Failed to get knowledge: ${error instanceof Error ? error.message : String(error)}`,
-        }],
-        isError: true,
-      };
+      return toolError(`Failed to update knowledge: ${errorMessage(error)}`);
+    }
+  };
+}
+
+export const retractKnowledgeSchema = {
+  knowledgeId: z.string().describe('Knowledge ID to retract'),
+  reason: z.string().describe('Why this knowledge is wrong or no longer applies'),
+};
+
+export const retractKnowledgeOutputSchema = {
+  knowledge: knowledgeOutput.describe('The item after retraction'),
+  reason: z.string().describe('The reason as stored'),
+  redactions: z.number().describe('Secrets replaced in the reason before storing'),
+};
+
+type RetractKnowledgeOutput = OutputOf<typeof retractKnowledgeOutputSchema>;
+
+function renderRetractKnowledge({ knowledge, reason, redactions }: RetractKnowledgeOutput): string {
+  const lines = [`Knowledge retracted: ${knowledge.title} (${knowledge.knowledgeId})`, `Reason: ${reason}`];
+  if (redactions > 0) {
+    lines.push(`Redacted ${redactions} secret(s) before storing.`);
+  }
+  return lines.join('\n');
+}
+
+export function handleRetractKnowledge(db: Database.Database, redactor: Redactor = defaultRedactor()) {
+  return async ({ knowledgeId, reason: givenReason }: {
+    knowledgeId: string;
+    reason: string;
+  }) => {
+    try {
+      const { text: reason, count: redactions } = redactor.redact(givenReason);
+      const retracted = retractKnowledge(db, knowledgeId, reason, nowISO());
+      if (!retracted) {
+        return toolError(`Knowledge ${knowledgeId} not found or already retracted.`);
+      }
+
+      return toolResult({ knowledge: toKnowledgeOutput(retracted), reason, redactions }, renderRetractKnowledge);
+    } catch (error: unknown) {
+      return toolError(`Failed to retract knowledge: ${errorMessage(error)}`);
+    }
+  };
+}
+
+export const deleteKnowledgeSchema = {
+  knowledgeId: z.string().describe('Knowledge ID to permanently delete'),
+};
+
+export const deleteKnowledgeOutputSchema = {
+  knowledgeId: z.string(),
+  title: z.string(),
+};
+
+type DeleteKnowledgeOutput = OutputOf<typeof deleteKnowledgeOutputSchema>;
+
+function renderDeleteKnowledge({ knowledgeId, title }: DeleteKnowledgeOutput): string {
+  return `Knowledge deleted: ${title} (${knowledgeId})`;
+}
+
+export function handleDeleteKnowledge(db: Database.Database) {
+  return async ({ knowledgeId }: { knowledgeId: string }) => {
+    try {
+      const existing = getKnowledgeById(db, knowledgeId);
+      if (!existing || !deleteKnowledge(db, knowledgeId)) {
+        return toolError(`Knowledge ${knowledgeId} not found.`);
+      }
+
+      return toolResult({ knowledgeId, title: existing.title }, renderDeleteKnowledge);
+    } catch (error: unknown) {
+      return toolError(`Failed to delete knowledge: ${errorMessage(error)}`);
     }
   };
 }
+
+export const knowledgeHistorySchema = {
+  knowledgeId: z.string().describe('Knowledge ID to show history for'),
+};
+
+export const knowledgeHistoryOutputSchema = {
+  knowledge: knowledgeOutput,
+  chain: z.array(knowledgeOutput).describe('Supersession chain, oldest first, including the item itself'),
+  revisions: z.array(revisionOutput),
+};
+
+type KnowledgeHistoryOutput = OutputOf<typeof knowledgeHistoryOutputSchema>;
+
+function renderKnowledgeHistory({ knowledge, chain, revisions }: KnowledgeHistoryOutput): string {
+  const status = knowledge.retractedAt
+    ? `retracted ${knowledge.retractedAt} (${knowledge.retractionReason})`
+    : knowledge.supersededBy
+      ? `superseded by ${knowledge.supersededBy}`
+      : 'current';
+
+  const lines = [
+    `History for "${knowledge.title}" (${knowledge.knowledgeId})`,
+    `Status: ${status}`,
+  ];
+
+  if (chain.length > 1) {
+    lines.push('', 'Supersession chain (oldest first):');
+    for (const k of chain) {
+      const marker = k.knowledgeId === knowledge.knowledgeId ? '*' : '-';
+      lines.push(`  ${marker} [${k.knowledgeType}] ${k.title} (${k.knowledgeId}, ${k.createdAt})`);
+    }
+  }
+
+  lines.push('', `Revisions (${revisions.length}):`);
+  for (const r of revisions) {
+    const author = r.sessionId ? ` by session ${r.sessionId}` : '';
+    lines.push(`  r${r.revisionNumber} ${r.changeType} ${r.createdAt}${author}`);
+    lines.push(`    [${r.knowledgeType}] ${r.title}`);
+    lines.push(`    ${r.content}`);
+    if (r.tags.length > 0) {
+      lines.push(`    Tags: ${r.tags.join(', ')}`);
+    }
+  }
+
+  return lines.join('\n');
+}
+
+export function handleKnowledgeHistory(db: Database.Database) {
+  return async ({ knowledgeId }: { knowledgeId: string }) => {
+    try {
+      const knowledge = getKnowledgeById(db, knowledgeId);
+      if (!knowledge) {
+        return toolError(`Knowledge ${knowledgeId} not found.`);
+      }
+
+      return toolResult({
+        knowledge: toKnowledgeOutput(knowledge),
+        chain: getSupersessionChain(db, knowledge).map(toKnowledgeOutput),
+        revisions: getKnowledgeRevisions(db, knowledgeId).map(toRevisionOutput),
+      }, renderKnowledgeHistory);
+    } catch (error: unknown) {
+      return toolError(`Failed to get knowledge history: ${errorMessage(error)}`);
+    }
+  };
+}
+
+export const restoreKnowledgeSchema = {
+  knowledgeId: z.string().describe('Knowledge ID to restore'),
+  revisionNumber: z.number().int().min(1).describe('Revision number to restore (see get_knowledge_history)'),
+  sessionId: z.string().optional().describe('Session performing the restore'),
+};
+
+export const restoreKnowledgeOutputSchema = {
+  knowledge: knowledgeOutput.describe('The item after the restore'),
+  revisionNumber: z.number().describe('Revision whose content was restored'),
+};
+
+type RestoreKnowledgeOutput = OutputOf<typeof restoreKnowledgeOutputSchema>;
+
+function renderRestoreKnowledge({ knowledge, revisionNumber }: RestoreKnowledgeOutput): string {
+  return `Knowledge restored to revision ${revisionNumber}: ${knowledge.title} (${knowledge.knowledgeId})`;
+}
+
+export function handleRestoreKnowledge(db: Database.Database) {
+  return async ({ knowledgeId, revisionNumber, sessionId }: {
+    knowledgeId: string;
+    revisionNumber: number;
+    sessionId?: string;
+  }) => {
+    try {
+      const restored = restoreKnowledgeRevision(db, knowledgeId, revisionNumber, nowISO(), sessionId);
+      if (!restored) {
+        return toolError(`Revision ${revisionNumber} of knowledge ${knowledgeId} not found.`);
+      }
+
+      return toolResult({ knowledge: toKnowledgeOutput(restored), revisionNumber }, renderRestoreKnowledge);
+    } catch (error: unknown) {
+      return toolError(`Failed to restore knowledge: ${errorMessage(error)}`);
+    }
+  };
+}
+
+function formatConflicts(conflicts: readonly ConflictOutput[]): string {
+  const lines = [`Conflict detected with ${conflicts.length} existing decision(s):`];
+
+  for (const c of conflicts) {
+    const shared = [
+      c.sharedKeywords.length > 0 ? `keywords: ${c.sharedKeywords.join(', ')}` : '',
+      c.sharedTags.length > 0 ? `tags: ${c.sharedTags.join(', ')}` : '',
+      c.sharedFiles.length > 0 ? `files: ${c.sharedFiles.join(', ')}` : '',
+    ].filter(Boolean).join('; ');
+
+    lines.push(`  [conflict] ${c.knowledge.title} (${c.knowledge.knowledgeId})`);
+    lines.push(`    ${c.knowledge.content}`);
+    lines.push(`    Shared ${shared}`);
+  }
+
+  lines.push(
+    '',
+    'Resolve by promoting again with:',
+    '  resolution: "supersede" to replace the conflicting decision(s)',
+    '  resolution: "coexist" plus scopeNote to keep both, scoped',
+    '  resolution: "abort" to drop this promotion',
+  );
+
+  return lines.join('\n');
+}
+
+/**
+ * Walk supersession links both ways from an item: every predecessor it
+ * (transitively) replaced, then the item, then whatever replaced it.
+ */
+function getSupersessionChain(
+  db: Database.Database,
+  knowledge: PromotedKnowledge,
+): readonly PromotedKnowledge[] {
+  const seen = new Set<string>([knowledge.knowledgeId]);
+
+  const predecessors: PromotedKnowledge[] = [];
+  let frontier: readonly PromotedKnowledge[] = [knowledge];
+  while (frontier.length > 0) {
+    const next = frontier
+      .flatMap((k) => getSupersededKnowledge(db, k.knowledgeId))
+      .filter((k) => !seen.has(k.knowledgeId));
+    next.forEach((k) => seen.add(k.knowledgeId));
+    predecessors.push(...next);
+    frontier = next;
+  }
+
+  const successors: PromotedKnowledge[] = [];
+  let current = knowledge.supersededBy ? getKnowledgeById(db, knowledge.supersededBy) : undefined;
+  while (current && !seen.has(current.knowledgeId)) {
+    seen.add(current.knowledgeId);
+    successors.push(current);
+    current = current.supersededBy ? getKnowledgeById(db, current.supersededBy) : undefined;
+  }
+
+  predecessors.sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+  return [...predecessors, knowledge, ...successors];
+}
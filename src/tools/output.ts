@@ -0,0 +1,267 @@
+import { z } from 'zod';
+import type {
+  EventDetail,
+  KnowledgeRevision,
+  PromotedKnowledge,
+  SessionEvent,
+} from '../types.js';
+
+/**
+ * Shared output layer for tool handlers. Every handler builds one structured
+ * object that matches its declared output schema and renders its text from
+ * that object alone, so the text and JSON forms cannot disagree.
+ */
+
+export type OutputOf<S extends z.ZodRawShape> = z.infer<z.ZodObject<S>>;
+
+// A type alias rather than an interface so it satisfies the SDK's
+// index-signature result type
+export type ToolResult<T> = {
+  content: { type: 'text'; text: string }[];
+  structuredContent?: T;
+  isError?: boolean;
+};
+
+export function toolResult<T extends Record<string, unknown>>(
+  data: T,
+  render: (data: T) => string,
+): ToolResult<T> {
+  return {
+    content: [{ type: 'text', text: render(data) }],
+    structuredContent: data,
+  };
+}
+
+export function toolError(message: string): ToolResult<never> {
+  return {
+    content: [{ type: 'text', text: message }],
+    isError: true,
+  };
+}
+
+export function errorMessage(error: unknown): string {
+  return error instanceof Error ? error.message : String(error);
+}
+
+// --- Shared schemas ---
+
+export const knowledgeTypeSchema = z.enum(['decision', 'pattern', 'error_resolved', 'milestone']);
+
+export const eventDetailSchema = z.discriminatedUnion('type', [
+  z.object({
+    type: z.literal('file_op'),
+    path: z.string(),
+    operation: z.enum(['read', 'write', 'edit']),
+    outsideProject: z.boolean().optional().describe('Set on storage: the path is outside the project root'),
+  }),
+  z.object({
+    type: z.literal('tool_call'),
+    toolName: z.string(),
+    params: z.string().optional(),
+  }),
+  z.object({
+    type: z.literal('decision'),
+    title: z.string(),
+    rationale: z.string(),
+  }),
+  z.object({
+    type: z.literal('pattern'),
+    description: z.string(),
+    files: z.array(z.string()),
+  }),
+  z.object({
+    type: z.literal('error_resolved'),
+    error: z.string(),
+    resolution: z.string(),
+    files: z.array(z.string()),
+  }),
+  z.object({
+    type: z.literal('milestone'),
+    summary: z.string(),
+  }),
+]);
+
+export const sessionOutput = z.object({
+  sessionId: z.string(),
+  projectPath: z.string(),
+  branch: z.string(),
+  startedAt: z.string(),
+  endedAt: z.string().optional(),
+  status: z.enum(['active', 'paused', 'completed', 'abandoned']),
+  summary: z.string().optional(),
+  summaryGenerated: z.boolean().optional(),
+  gitCommitStart: z.string().optional(),
+  gitCommitEnd: z.string().optional(),
+  agentType: z.enum(['claude-code', 'cursor', 'aider', 'openclaw', 'unknown']).optional(),
+  agentVersion: z.string().optional(),
+  worktree: z.string().optional(),
+  agentInstance: z.string().optional(),
+  parentSessionId: z.string().optional(),
+});
+
+export const gitCommitOutput = z.object({
+  sha: z.string(),
+  subject: z.string(),
+  author: z.string(),
+  committedAt: z.string(),
+});
+
+export const gitFileChangeOutput = z.object({
+  path: z.string().describe('Relative to the repository root'),
+  changeType: z.enum(['added', 'modified', 'deleted', 'renamed', 'copied', 'type_changed']),
+  previousPath: z.string().optional(),
+});
+
+export const sessionMetricsOutput = z.object({
+  sessionId: z.string(),
+  durationSecs: z.number(),
+  eventsTotal: z.number(),
+  eventsByCategory: z.object({
+    read: z.number(),
+    search: z.number(),
+    edit: z.number(),
+    execute: z.number(),
+    agent: z.number(),
+    other: z.number(),
+  }),
+  filesRead: z.number(),
+  filesModified: z.number(),
+  decisionsRecorded: z.number(),
+  patternsDiscovered: z.number(),
+  errorsResolved: z.number(),
+  childSessions: z.number().describe('Subagent sessions rolled up into these metrics'),
+});
+
+export const eventOutput = z.object({
+  eventId: z.string(),
+  sessionId: z.string(),
+  timestamp: z.string(),
+  eventType: z.enum([
+    'file_read', 'file_write', 'file_edit', 'tool_call',
+    'decision', 'pattern', 'error_resolved', 'milestone',
+  ]),
+  category: z.enum(['read', 'search', 'edit', 'execute', 'agent', 'other']),
+  detail: eventDetailSchema,
+  redactions: z.number().optional().describe('Secrets replaced in detail before it was stored'),
+});
+
+export const knowledgeOutput = z.object({
+  knowledgeId: z.string(),
+  projectPath: z.string(),
+  sessionId: z.string().optional(),
+  sourceEventId: z.string().optional(),
+  title: z.string(),
+  content: z.string(),
+  knowledgeType: knowledgeTypeSchema,
+  tags: z.array(z.string()),
+  createdAt: z.string(),
+  updatedAt: z.string().optional(),
+  branch: z.string().optional(),
+  usageCount: z.number(),
+  supersededBy: z.string().optional(),
+  retractedAt: z.string().optional(),
+  retractionReason: z.string().optional(),
+});
+
+export const revisionOutput = z.object({
+  revisionNumber: z.number(),
+  changeType: z.enum(['created', 'updated', 'restored']),
+  title: z.string(),
+  content: z.string(),
+  knowledgeType: knowledgeTypeSchema,
+  tags: z.array(z.string()),
+  sessionId: z.string().optional(),
+  createdAt: z.string(),
+});
+
+export const fileImportanceOutput = z.object({
+  filePath: z.string(),
+  readCount: z.number(),
+  editCount: z.number(),
+  lastAccessedAt: z.string(),
+  importanceScore: z.number(),
+});
+
+export const valueSummaryOutput = z.object({
+  timeSavedMinutes: z.number(),
+  estimatedValueUSD: z.number(),
+  breakdown: z.object({
+    knowledgeSurfaced: z.number(),
+    decisionsRecalled: z.number(),
+    patternsApplied: z.number(),
+    errorsPrevented: z.number(),
+  }),
+});
+
+export const duplicateOutput = z.object({
+  knowledge: knowledgeOutput,
+  similarityScore: z.number(),
+  matchType: z.enum(['exact_hash', 'title_match']),
+});
+
+// --- Mappers from domain objects (readonly arrays, internal fields) ---
+
+export function toKnowledgeOutput(k: PromotedKnowledge): z.infer<typeof knowledgeOutput> {
+  return {
+    knowledgeId: k.knowledgeId,
+    projectPath: k.projectPath,
+    sessionId: k.sessionId,
+    sourceEventId: k.sourceEventId,
+    title: k.title,
+    content: k.content,
+    knowledgeType: k.knowledgeType,
+    tags: [...k.tags],
+    createdAt: k.createdAt,
+    updatedAt: k.updatedAt,
+    branch: k.branch,
+    usageCount: k.usageCount ?? 0,
+    supersededBy: k.supersededBy,
+    retractedAt: k.retractedAt,
+    retractionReason: k.retractionReason,
+  };
+}
+
+export function toEventOutput(e: SessionEvent): z.infer<typeof eventOutput> {
+  const detail = e.detail.type === 'pattern' || e.detail.type === 'error_resolved'
+    ? { ...e.detail, files: [...e.detail.files] }
+    : e.detail;
+  return { ...e, detail };
+}
+
+export function toRevisionOutput(r: KnowledgeRevision): z.infer<typeof revisionOutput> {
+  return {
+    revisionNumber: r.revisionNumber,
+    changeType: r.changeType,
+    title: r.title,
+    content: r.content,
+    knowledgeType: r.knowledgeType,
+    tags: [...r.tags],
+    sessionId: r.sessionId,
+    createdAt: r.createdAt,
+  };
+}
+
+// --- Shared text formatting ---
+
+export function formatDetail(detail: EventDetail): string {
+  switch (detail.type) {
+    case 'file_op':
+      return `${detail.operation} ${detail.path}`;
+    case 'tool_call':
+      return `${detail.toolName}${detail.params ? ` (${detail.params})` : ''}`;
+    case 'decision':
+      return `${detail.title}: ${detail.rationale}`;
+    case 'pattern':
+      return `${detail.description}`;
+    case 'error_resolved':
+      return `${detail.error} -> ${detail.resolution}`;
+    case 'milestone':
+      return `${detail.summary}`;
+  }
+}
+
+export function formatMinutes(totalMinutes: number): string {
+  const hours = Math.floor(totalMinutes / 60);
+  const mins = totalMinutes % 60;
+  return hours > 0 ? `${hours}h ${mins}m` : `${mins}m`;
+}
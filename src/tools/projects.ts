@@ -0,0 +1,143 @@
+import { z } from 'zod';
+import type Database from 'better-sqlite3';
+import {
+  findProjectByPath,
+  getProject,
+  getProjectAliases,
+  mergeProjects,
+  moveProject,
+} from '../storage/projects.js';
+import { resolveProject } from '../context/projects.js';
+import { detectProjectIdentity } from '../utils.js';
+import { toolResult, toolError, errorMessage } from './output.js';
+import type { OutputOf } from './output.js';
+import type { Project } from '../types.js';
+
+const projectOutput = z.object({
+  projectId: z.string(),
+  rootPath: z.string().describe('Path project data is stored under'),
+  remoteUrl: z.string().optional(),
+  aliases: z.array(z.string()),
+});
+
+const movedRowsOutput = z.object({
+  sessions: z.number(),
+  knowledge: z.number(),
+});
+
+function toProjectOutput(db: Database.Database, project: Project): z.infer<typeof projectOutput> {
+  return {
+    projectId: project.projectId,
+    rootPath: project.rootPath,
+    remoteUrl: project.remoteUrl,
+    aliases: [...getProjectAliases(db, project.projectId)],
+  };
+}
+
+function unknownProject(path: string) {
+  return toolError(`No project is known at ${path}. Pass a path a session was started in.`);
+}
+
+// --- move_project ---
+
+export const moveProjectSchema = {
+  fromPath: z.string().describe('Where the project used to be (its old root or any path mapped to it)'),
+  toPath: z.string().describe('Where the repository is now'),
+};
+
+export const moveProjectOutputSchema = {
+  project: projectOutput,
+  previousRootPath: z.string(),
+  moved: movedRowsOutput,
+};
+
+type MoveProjectOutput = OutputOf<typeof moveProjectOutputSchema>;
+
+function renderMoveProject({ project, previousRootPath, moved }: MoveProjectOutput): string {
+  return [
+    `Moved project ${project.projectId} from ${previousRootPath} to ${project.rootPath}.`,
+    `Sessions: ${moved.sessions} | Knowledge: ${moved.knowledge}`,
+  ].join('\n');
+}
+
+export function handleMoveProject(db: Database.Database) {
+  return async ({ fromPath, toPath }: { fromPath: string; toPath: string }) => {
+    try {
+      // The old location usually no longer exists, so only known paths count
+      const project = findProjectByPath(db, fromPath);
+      if (!project) {
+        return unknownProject(fromPath);
+      }
+
+      const identity = detectProjectIdentity(toPath);
+      const occupant = findProjectByPath(db, identity.rootPath)
+        ?? (identity.projectId !== project.projectId ? getProject(db, identity.projectId) : undefined);
+      if (occupant && occupant.projectId !== project.projectId) {
+        return toolError(
+          `${identity.rootPath} already belongs to project ${occupant.projectId}. Use merge_projects to combine them.`,
+        );
+      }
+      if (identity.rootPath === project.rootPath) {
+        return toolError(`Project ${project.projectId} is already at ${project.rootPath}.`);
+      }
+
+      const { project: moved, moved: rows } = moveProject(db, project.projectId, identity.rootPath);
+      return toolResult({
+        project: toProjectOutput(db, moved),
+        previousRootPath: project.rootPath,
+        moved: rows,
+      }, renderMoveProject);
+    } catch (error: unknown) {
+      return toolError(`Failed to move project: ${errorMessage(error)}`);
+    }
+  };
+}
+
+// --- merge_projects ---
+
+export const mergeProjectsSchema = {
+  sourcePath: z.string().describe('A path of the project to fold in; it is deleted afterwards'),
+  targetPath: z.string().describe('A path of the project to keep'),
+};
+
+export const mergeProjectsOutputSchema = {
+  project: projectOutput,
+  mergedProjectId: z.string(),
+  moved: movedRowsOutput,
+};
+
+type MergeProjectsOutput = OutputOf<typeof mergeProjectsOutputSchema>;
+
+function renderMergeProjects({ project, mergedProjectId, moved }: MergeProjectsOutput): string {
+  return [
+    `Merged project ${mergedProjectId} into ${project.projectId} (${project.rootPath}).`,
+    `Sessions: ${moved.sessions} | Knowledge: ${moved.knowledge}`,
+    `Aliases: ${project.aliases.join(', ')}`,
+  ].join('\n');
+}
+
+export function handleMergeProjects(db: Database.Database) {
+  return async ({ sourcePath, targetPath }: { sourcePath: string; targetPath: string }) => {
+    try {
+      // Resolving the target can fold a backfilled project into another, so
+      // the source is looked up afterwards
+      const target = resolveProject(db, targetPath);
+      const source = findProjectByPath(db, sourcePath);
+      if (!source) {
+        return unknownProject(sourcePath);
+      }
+      if (target.projectId === source.projectId) {
+        return toolError(`${sourcePath} and ${targetPath} are already the same project (${target.projectId}).`);
+      }
+
+      const { project, moved } = mergeProjects(db, source.projectId, target.projectId);
+      return toolResult({
+        project: toProjectOutput(db, project),
+        mergedProjectId: source.projectId,
+        moved,
+      }, renderMergeProjects);
+    } catch (error: unknown) {
+      return toolError(`Failed to merge projects: ${errorMessage(error)}`);
+    }
+  };
+}
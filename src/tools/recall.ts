@@ -1,164 +1,371 @@
 import { z } from 'zod';
 import type Database from 'better-sqlite3';
-import { searchSessions, getActiveSession } from '../storage/sessions.js';
-import { getSessionEvents, getRecentEvents } from '../storage/events.js';
-import { getProjectKnowledge } from '../storage/knowledge.js';
+import { searchSessions, getActiveSessions, getChildSessions, getSession } from '../storage/sessions.js';
+import { getSessionEvents, getRecentEvents, getEventById } from '../storage/events.js';
+import { getProjectKnowledge, getKnowledgeById } from '../storage/knowledge.js';
+import { getSessionCommits, getSessionFileChanges } from '../storage/git-changes.js';
+import { searchMemory } from '../storage/search.js';
 import { recordKnowledgeUsage } from '../storage/knowledge-usage.js';
 import { incrementDecisionRecall, incrementPatternApplied } from '../storage/value-metrics.js';
 import { rankKnowledge, rankSessions } from '../context/scoring.js';
+import { createHashingEmbedder } from '../context/embeddings.js';
+import { semanticSearch } from '../context/semantic.js';
+import { resolveProjectPath } from '../context/projects.js';
 import { getGitBranch } from '../utils.js';
-import type { EventDetail, EventType } from '../types.js';
+import {
+  toolResult,
+  toolError,
+  errorMessage,
+  eventOutput,
+  gitCommitOutput,
+  gitFileChangeOutput,
+  knowledgeOutput,
+  sessionOutput,
+  toEventOutput,
+  toKnowledgeOutput,
+  formatDetail,
+} from './output.js';
+import type { OutputOf } from './output.js';
+import type { Embedder, EventType, SearchHit, SemanticHit } from '../types.js';
+
+// Per session in the text output; the JSON has them all
+const LISTED_COMMITS = 5;
+const LISTED_FILES = 8;
 
 export const recallSchema = {
   projectPath: z.string().describe('Project root path to search'),
-  query: z.string().optional().describe('Search term for session summaries'),
+  query: z.string().optional().describe('Full-text search across session summaries, event details and promoted knowledge'),
   branch: z.string().optional().describe('Filter by git branch'),
   eventType: z.enum([
     'file_read', 'file_write', 'file_edit', 'tool_call',
     'decision', 'pattern', 'error_resolved', 'milestone',
   ]).optional().describe('Filter by event type'),
   limit: z.number().min(1).max(50).optional().describe('Max results (default 10)'),
+  mode: z.enum(['keyword', 'semantic'])
+    .optional()
+    .describe('keyword: full-text match (default). semantic: vector similarity, finds related wording'),
+  sessionId: z.string().optional()
+    .describe('Your session, so recalled knowledge is credited to it (default: the only active session on the branch)'),
 };
 
-export function handleRecall(db: Database.Database) {
-  return async ({ projectPath, query, branch, eventType, limit }: {
+const sourceSchema = z.enum(['session', 'event', 'knowledge']);
+
+export const recallOutputSchema = {
+  projectPath: z.string(),
+  query: z.string().optional(),
+  eventType: recallSchema.eventType,
+  mode: recallSchema.mode.unwrap(),
+  branch: z.string().describe('Branch used for relevance scoring'),
+  usageSessionId: z.string().optional().describe('Session recalled knowledge was credited to, if any'),
+  events: z.array(eventOutput).optional()
+    .describe('Recent events of eventType; only set when filtering by eventType without a query'),
+  knowledge: z.array(z.object({ knowledge: knowledgeOutput, relevanceScore: z.number() })),
+  textHits: z.array(z.object({
+    source: sourceSchema,
+    id: z.string(),
+    sessionId: z.string().optional(),
+    kind: z.string(),
+    title: z.string().optional(),
+    fields: z.array(z.string()),
+    snippet: z.string(),
+    score: z.number(),
+  })),
+  semanticHits: z.array(z.object({
+    source: sourceSchema,
+    id: z.string(),
+    sessionId: z.string().optional(),
+    kind: z.string().optional(),
+    text: z.string().describe('Session summary, event detail, or knowledge title and content'),
+    similarity: z.number(),
+    relevanceScore: z.number(),
+    score: z.number(),
+  })),
+  sessions: z.array(z.object({
+    session: sessionOutput,
+    score: z.number(),
+    events: z.array(eventOutput),
+    commits: z.array(gitCommitOutput),
+    changedFiles: z.array(gitFileChangeOutput).describe('Files changed by the commits, recorded or not'),
+    subagents: z.array(z.object({
+      session: sessionOutput,
+      depth: z.number().describe('1 for sessions spawned by this one, 2 for theirs, and so on'),
+      events: z.array(eventOutput),
+    })).describe('Subagent sessions below this one, depth first'),
+  })),
+};
+
+type RecallOutput = OutputOf<typeof recallOutputSchema>;
+type SemanticHitOutput = RecallOutput['semanticHits'][number];
+
+function renderRecall(data: RecallOutput): string {
+  const { projectPath, query, eventType } = data;
+
+  if (data.events) {
+    if (data.events.length === 0) {
+      return `No ${eventType} events found for ${projectPath}.`;
+    }
+    const lines = [`Recent ${eventType} events (${data.events.length}):`];
+    for (const e of data.events) {
+      lines.push(`  [${e.timestamp}] ${formatDetail(e.detail)}`);
+    }
+    return lines.join('\n');
+  }
+
+  const lines: string[] = [];
+
+  if (data.knowledge.length > 0) {
+    lines.push(`Promoted ${eventType}s (${data.knowledge.length}, ranked by relevance):`);
+    for (const { knowledge: k, relevanceScore } of data.knowledge) {
+      lines.push(`  [${k.knowledgeType}] ${k.title} (score: ${relevanceScore.toFixed(2)})`);
+      lines.push(`    ${k.content}`);
+    }
+    lines.push('');
+  }
+
+  if (data.semanticHits.length > 0) {
+    lines.push(`Semantic matches for "${query}" (${data.semanticHits.length}, similarity blended with relevance):`);
+    for (const hit of data.semanticHits) {
+      lines.push(`  ${formatSemanticHit(hit)}`);
+    }
+    lines.push('');
+  }
+
+  if (data.textHits.length > 0) {
+    lines.push(`Full-text matches for "${query}" (${data.textHits.length}, ranked by bm25 within each source):`);
+    for (const hit of data.textHits) {
+      lines.push(`  ${formatHit(hit)}`);
+    }
+    lines.push('');
+  }
+
+  if (data.sessions.length === 0 && lines.length === 0) {
+    return `No sessions found for ${projectPath}${query ? ` matching "${query}"` : ''}.`;
+  }
+
+  if (data.sessions.length > 0) {
+    lines.push(`Found ${data.sessions.length} session(s) (ranked by relevance):`);
+    for (const { session: s, score, events, commits, changedFiles, subagents } of data.sessions) {
+      lines.push('');
+      lines.push(`Session: ${s.sessionId} (score: ${score.toFixed(2)})`);
+      lines.push(`  Branch: ${s.branch} | ${s.startedAt}${s.endedAt ? ` - ${s.endedAt}` : ''}`);
+      lines.push(`  Status: ${s.status}${s.parentSessionId ? ` | Subagent of: ${s.parentSessionId}` : ''}`);
+      if (s.summary) {
+        lines.push(`  Summary: ${s.summary}`);
+      }
+      for (const e of events) {
+        lines.push(`  [${e.eventType}] ${formatDetail(e.detail)}`);
+      }
+      for (const c of commits.slice(0, LISTED_COMMITS)) {
+        lines.push(`  [commit] ${c.sha.slice(0, 7)} ${c.subject} (${c.author})`);
+      }
+      if (changedFiles.length > 0) {
+        const more = changedFiles.length > LISTED_FILES ? ` (+${changedFiles.length - LISTED_FILES} more)` : '';
+        lines.push(`  Changed: ${changedFiles.slice(0, LISTED_FILES).map((f) => f.path).join(', ')}${more}`);
+      }
+      for (const sub of subagents) {
+        const indent = '  '.repeat(sub.depth);
+        lines.push(`${indent}└ Subagent: ${sub.session.sessionId} (${sub.session.status})${sub.session.summary ? ` ${sub.session.summary}` : ''}`);
+        for (const e of sub.events) {
+          lines.push(`${indent}    [${e.eventType}] ${formatDetail(e.detail)}`);
+        }
+      }
+    }
+  }
+
+  return lines.join('\n');
+}
+
+function singleOrUndefined<T>(items: readonly T[]): T | undefined {
+  return items.length === 1 ? items[0] : undefined;
+}
+
+export function handleRecall(
+  db: Database.Database,
+  embedder: Embedder = createHashingEmbedder(),
+) {
+  return async ({ projectPath: requestedPath, query, branch, eventType, limit, mode, sessionId }: {
     projectPath: string;
     query?: string;
     branch?: string;
     eventType?: EventType;
     limit?: number;
+    mode?: 'keyword' | 'semantic';
+    sessionId?: string;
   }) => {
     try {
       const maxResults = limit ?? 10;
-      const lines: string[] = [];
+      const projectPath = resolveProjectPath(db, requestedPath);
 
       // Get current branch for scoring
-      const currentBranch = branch ?? getGitBranch(projectPath);
+      const currentBranch = branch ?? getGitBranch(requestedPath);
 
-      // Get active session for usage tracking
-      const activeSession = getActiveSession(db, projectPath);
+      // Credit usage to the caller's session. Without one, guess only when
+      // exactly one session is active on the branch; parallel agents would
+      // otherwise take each other's credit.
+      const usageSession = sessionId
+        ? getSession(db, sessionId)
+        : singleOrUndefined(getActiveSessions(db, projectPath, { branch: currentBranch }));
+      if (sessionId && !usageSession) {
+        return toolError(`Session ${sessionId} not found.`);
+      }
+
+      const data: RecallOutput = {
+        projectPath,
+        query,
+        eventType,
+        mode: mode ?? 'keyword',
+        branch: currentBranch,
+        usageSessionId: usageSession?.sessionId,
+        knowledge: [],
+        textHits: [],
+        semanticHits: [],
+        sessions: [],
+      };
 
       if (eventType && !query) {
         const events = getRecentEvents(db, projectPath, eventType, maxResults);
-        if (events.length === 0) {
-          return {
-            content: [{
-              type: 'text' as const,
-              text: `No ${eventType} events found for ${projectPath}.`,
-            }],
-          };
-        }
+        return toolResult({ ...data, events: events.map(toEventOutput) }, renderRecall);
+      }
 
-        lines.push(`Recent ${eventType} events (${events.length}):`);
-        for (const e of events) {
-          lines.push(`  [${e.timestamp}] ${formatDetail(e.detail)}`);
+      const recalledIds = new Set<string>();
+      const recordRecall = (knowledgeId: string) => {
+        if (usageSession && !recalledIds.has(knowledgeId)) {
+          recordKnowledgeUsage(db, knowledgeId, usageSession.sessionId, 'recalled');
+          recalledIds.add(knowledgeId);
         }
-
-        return {
-          content: [{ type: 'text' as const, text: lines.join('\n') }],
-        };
-      }
+      };
 
       // If searching for decisions or patterns specifically, also search promoted knowledge
       if (eventType === 'decision' || eventType === 'pattern') {
-        const knowledgeType = eventType === 'decision' ? 'decision' : 'pattern';
-        const knowledge = getProjectKnowledge(db, projectPath, knowledgeType, maxResults);
+        const knowledge = getProjectKnowledge(db, projectPath, eventType, maxResults);
         const rankedKnowledge = rankKnowledge(knowledge, currentBranch);
 
         if (rankedKnowledge.length > 0) {
-          lines.push(`Promoted ${knowledgeType}s (${rankedKnowledge.length}, ranked by relevance):`);
-
           // Track value metrics
-          if (knowledgeType === 'decision') {
+          if (eventType === 'decision') {
             incrementDecisionRecall(db, projectPath, rankedKnowledge.length);
           } else {
             incrementPatternApplied(db, projectPath, rankedKnowledge.length);
           }
 
-          for (const { knowledge: k, relevanceScore } of rankedKnowledge) {
-            lines.push(`  [${k.knowledgeType}] ${k.title} (score: ${relevanceScore.toFixed(2)})`);
-            lines.push(`    ${k.content}`);
-
-            // Record usage if we have an active session
-            if (activeSession) {
-              recordKnowledgeUsage(db, k.knowledgeId, activeSession.sessionId, 'recalled');
-            }
+          for (const { knowledge: k } of rankedKnowledge) {
+            recordRecall(k.knowledgeId);
           }
-          lines.push('');
         }
-      }
-
-      const sessions = searchSessions(db, projectPath, query, branch, maxResults);
 
-      if (sessions.length === 0 && lines.length === 0) {
-        return {
-          content: [{
-            type: 'text' as const,
-            text: `No sessions found for ${projectPath}${query ? ` matching "${query}"` : ''}.`,
-          }],
-        };
+        data.knowledge = rankedKnowledge.map(({ knowledge: k, relevanceScore }) => ({
+          knowledge: toKnowledgeOutput(k),
+          relevanceScore,
+        }));
       }
 
-      if (sessions.length > 0) {
-        // Rank sessions by relevance
-        const rankedSessions = rankSessions(sessions, currentBranch);
-
-        lines.push(`Found ${sessions.length} session(s) (ranked by relevance):`);
-        for (const { session: s, score } of rankedSessions) {
-          lines.push('');
-          lines.push(`Session: ${s.sessionId} (score: ${score.toFixed(2)})`);
-          lines.push(`  Branch: ${s.branch} | ${s.startedAt}${s.endedAt ? ` - ${s.endedAt}` : ''}`);
-          lines.push(`  Status: ${s.status}`);
-          if (s.summary) {
-            lines.push(`  Summary: ${s.summary}`);
+      if (query && mode === 'semantic') {
+        const hits = await semanticSearch(db, embedder, projectPath, query, currentBranch, branch, maxResults, eventType);
+
+        for (const hit of hits) {
+          if (hit.source === 'knowledge') {
+            recordRecall(hit.id);
           }
+        }
+        data.semanticHits = hits.map((hit) => toSemanticHitOutput(db, hit));
+      } else if (query) {
+        const hits = searchMemory(db, projectPath, query, branch, maxResults)
+          .filter((hit) => hitMatchesEventType(hit, eventType));
 
-          if (eventType) {
-            const events = getSessionEvents(db, s.sessionId, eventType);
-            for (const e of events) {
-              lines.push(`  [${e.eventType}] ${formatDetail(e.detail)}`);
-            }
-          } else {
-            const decisions = getSessionEvents(db, s.sessionId, 'decision');
-            for (const e of decisions) {
-              lines.push(`  [decision] ${formatDetail(e.detail)}`);
-            }
-            const patterns = getSessionEvents(db, s.sessionId, 'pattern');
-            for (const e of patterns) {
-              lines.push(`  [pattern] ${formatDetail(e.detail)}`);
-            }
+        for (const hit of hits) {
+          if (hit.source === 'knowledge') {
+            recordRecall(hit.id);
           }
         }
+        data.textHits = hits.map((hit) => ({ ...hit, fields: [...hit.fields] }));
       }
 
-      return {
-        content: [{ type: 'text' as const, text: lines.join('\n') }],
-      };
+      const sessions = searchSessions(db, projectPath, query, branch, maxResults);
+
+      const sessionEvents = (id: string) => (eventType
+        ? getSessionEvents(db, id, eventType)
+        : [
+          ...getSessionEvents(db, id, 'decision'),
+          ...getSessionEvents(db, id, 'pattern'),
+        ]).map(toEventOutput);
+
+      // Rank sessions by relevance, nesting subagents under their parents
+      const ranked = rankSessions(sessions, currentBranch).map(({ session, score }) => ({
+        session,
+        score,
+        events: sessionEvents(session.sessionId),
+        commits: [...getSessionCommits(db, session.sessionId)],
+        changedFiles: [...getSessionFileChanges(db, session.sessionId)],
+        subagents: getChildSessions(db, session.sessionId).map(({ session: child, depth }) => ({
+          session: child,
+          depth,
+          events: sessionEvents(child.sessionId),
+        })),
+      }));
+      const nested = new Set(ranked.flatMap((r) => r.subagents.map((sub) => sub.session.sessionId)));
+      data.sessions = ranked.filter((r) => !nested.has(r.session.sessionId));
+
+      return toolResult(data, renderRecall);
     } catch (error: unknown) {
-      return {
-        content: [{
-          type: 'text' as const,
-          text: `Failed to recall: ${error instanceof Error ? error.message : String(error)}`,
-        }],
-        isError: true,
-      };
+      return toolError(`Failed to recall: ${errorMessage(error)}`);
     }
   };
 }
 
-function formatDetail(detail: EventDetail): string {
-  switch (detail.type) {
-    case 'file_op':
-      return `${detail.operation} ${detail.path}`;
-    case 'tool_call':
-      return `${detail.toolName}${detail.params ? ` (${detail.params})` : ''}`;
-    case 'decision':
-      return `${detail.title}: ${detail.rationale}`;
-    case 'pattern':
-      return `${detail.description}`;
-    case 'error_resolved':
-      return `${detail.error} -> ${detail.resolution}`;
-    case 'milestone':
-      return `${detail.summary}`;
+function hitMatchesEventType(hit: SearchHit, eventType?: EventType): boolean {
+  if (!eventType || hit.source === 'session') {
+    return true;
+  }
+  return hit.kind === eventType;
+}
+
+function formatHit(hit: SearchHit): string {
+  const score = `score: ${hit.score.toFixed(2)}`;
+  const fields = hit.fields.join(', ');
+  switch (hit.source) {
+    case 'session':
+      return `[session] ${fields}: ${hit.snippet} (session ${hit.id}, ${score})`;
+    case 'event':
+      return `[${hit.kind}] ${fields}: ${hit.snippet} (session ${hit.sessionId}, ${score})`;
+    case 'knowledge':
+      return `[knowledge/${hit.kind}] ${hit.title} — ${fields}: ${hit.snippet} (${score})`;
+  }
+}
+
+
+function toSemanticHitOutput(db: Database.Database, hit: SemanticHit): SemanticHitOutput {
+  const base = {
+    source: hit.source,
+    id: hit.id,
+    sessionId: hit.sessionId,
+    similarity: hit.similarity,
+    relevanceScore: hit.relevanceScore,
+    score: hit.score,
+  };
+  switch (hit.source) {
+    case 'session': {
+      const session = getSession(db, hit.id);
+      return { ...base, text: session?.summary ?? '(no summary)' };
+    }
+    case 'event': {
+      const event = getEventById(db, hit.id);
+      return { ...base, kind: event?.eventType, text: event ? formatDetail(event.detail) : hit.id };
+    }
+    case 'knowledge': {
+      const knowledge = getKnowledgeById(db, hit.id);
+      return { ...base, kind: knowledge?.knowledgeType, text: `${knowledge?.title}: ${knowledge?.content}` };
+    }
+  }
+}
+
+function formatSemanticHit(hit: SemanticHitOutput): string {
+  const scores = `similarity: ${hit.similarity.toFixed(2)}, score: ${hit.score.toFixed(2)}`;
+  switch (hit.source) {
+    case 'session':
+      return `[session] ${hit.text} (session ${hit.id}, ${scores})`;
+    case 'event':
+      return `[${hit.kind ?? 'event'}] ${hit.text} (session ${hit.sessionId}, ${scores})`;
+    case 'knowledge':
+      return `[knowledge/${hit.kind}] ${hit.text} (${scores})`;
   }
 }
@@ -3,65 +3,52 @@ import type Database from 'better-sqlite3';
 import { insertEvent } from '../storage/events.js';
 import { getSession } from '../storage/sessions.js';
 import { upsertFileAccess } from '../storage/file-importance.js';
-import { generateId, nowISO, categorizeEvent, deriveEventType } from '../utils.js';
+import { defaultRedactor, redactEventDetail } from '../context/redaction.js';
+import type { Redactor } from '../context/redaction.js';
+import { loadIgnoreMatcher } from '../context/ignore.js';
+import { generateId, nowISO, categorizeEvent, deriveEventType, normalizeFilePath } from '../utils.js';
+import { toolResult, toolError, errorMessage, eventDetailSchema } from './output.js';
+import type { OutputOf } from './output.js';
 import type { EventDetail, SessionEvent } from '../types.js';
 
-const fileOpDetailSchema = z.object({
-  type: z.literal('file_op'),
-  path: z.string(),
-  operation: z.enum(['read', 'write', 'edit']),
-});
-
-const toolCallDetailSchema = z.object({
-  type: z.literal('tool_call'),
-  toolName: z.string(),
-  params: z.string().optional(),
-});
-
-const decisionDetailSchema = z.object({
-  type: z.literal('decision'),
-  title: z.string(),
-  rationale: z.string(),
-});
-
-const patternDetailSchema = z.object({
-  type: z.literal('pattern'),
-  description: z.string(),
-  files: z.array(z.string()),
-});
-
-const errorResolvedDetailSchema = z.object({
-  type: z.literal('error_resolved'),
-  error: z.string(),
-  resolution: z.string(),
-  files: z.array(z.string()),
-});
-
-const milestoneDetailSchema = z.object({
-  type: z.literal('milestone'),
-  summary: z.string(),
-});
-
-const detailSchema = z.discriminatedUnion('type', [
-  fileOpDetailSchema,
-  toolCallDetailSchema,
-  decisionDetailSchema,
-  patternDetailSchema,
-  errorResolvedDetailSchema,
-  milestoneDetailSchema,
-]);
-
 export const recordEventSchema = {
   sessionId: z.string().describe('Session ID to record event for'),
   eventType: z.enum([
     'file_read', 'file_write', 'file_edit', 'tool_call',
     'decision', 'pattern', 'error_resolved', 'milestone',
   ]).describe('Type of event'),
-  detail: detailSchema.describe('Event detail object (shape depends on eventType)'),
+  detail: eventDetailSchema.describe('Event detail object (shape depends on eventType)'),
 };
 
-export function handleRecordEvent(db: Database.Database) {
-  return async ({ sessionId, detail }: {
+export const recordEventOutputSchema = {
+  eventId: z.string().optional().describe('Absent when the event was ignored'),
+  sessionId: z.string(),
+  eventType: recordEventSchema.eventType,
+  timestamp: z.string(),
+  ignored: z.boolean().describe('A file op on a path matched by .synapseignore rules; nothing was stored'),
+  path: z.string().optional().describe('Path of a file op as stored, relative to the project root'),
+  outsideProject: z.boolean().optional().describe('A file op outside the project root, kept out of file importance'),
+  redactions: z.number().describe('Secrets replaced in detail before it was stored'),
+};
+
+type RecordEventOutput = OutputOf<typeof recordEventOutputSchema>;
+
+function renderRecordEvent({ eventType, eventId, ignored, outsideProject, redactions }: RecordEventOutput): string {
+  if (ignored) {
+    return `Event not recorded: ${eventType} on an ignored path (.synapseignore)`;
+  }
+  const lines = [`Event recorded: ${eventType} (${eventId})`];
+  if (outsideProject) {
+    lines.push('Path is outside the project root; not counted in file importance.');
+  }
+  if (redactions > 0) {
+    lines.push(`Redacted ${redactions} secret(s) before storing.`);
+  }
+  return lines.join('\n');
+}
+
+export function handleRecordEvent(db: Database.Database, redactor: Redactor = defaultRedactor()) {
+  return async ({ sessionId, detail: input }: {
     sessionId: string;
     eventType?: string;
     detail: EventDetail;
@@ -69,27 +56,33 @@ export function handleRecordEvent(db: Database.Database) {
     try {
       const session = getSession(db, sessionId);
       if (!session) {
-        return {
-          content: [{
-            type: 'text' as const,
-            text: `Session ${sessionId} not found.`,
-          }],
-          isError: true,
-        };
+        return toolError(`Session ${sessionId} not found.`);
       }
 
       if (session.status !== 'active') {
-        return {
-          content: [{
-            type: 'text' as const,
-            text: `Session ${sessionId} is ${session.status}, not active.`,
-          }],
-          isError: true,
-        };
+        return toolError(`Session ${sessionId} is ${session.status}, not active.`);
       }
 
+      const root = session.worktree ?? session.projectPath;
+      let detail = input;
+      if (input.type === 'file_op') {
+        const { path, outsideProject } = normalizeFilePath(root, input.path);
+        detail = { type: 'file_op', path, operation: input.operation, outsideProject: outsideProject || undefined };
+      }
       const resolvedEventType = deriveEventType(detail);
+      // Ignored paths never reach events, file importance or stats
+      if (detail.type === 'file_op' && loadIgnoreMatcher(root).ignores(detail.path)) {
+        return toolResult({
+          sessionId,
+          eventType: resolvedEventType,
+          timestamp: nowISO(),
+          ignored: true,
+          redactions: 0,
+        }, renderRecordEvent);
+      }
+
       const category = categorizeEvent(resolvedEventType);
+      const redacted = redactEventDetail(redactor, detail);
 
       const event: SessionEvent = {
         eventId: generateId(),
@@ -97,31 +90,30 @@ export function handleRecordEvent(db: Database.Database) {
         timestamp: nowISO(),
         eventType: resolvedEventType,
         category,
-        detail,
+        detail: redacted.detail,
+        redactions: redacted.count,
       };
 
       insertEvent(db, event);
 
-      // Track file importance for file operations
-      if (detail.type === 'file_op') {
+      // Track file importance for file operations inside the project
+      if (detail.type === 'file_op' && !detail.outsideProject) {
         const operation = detail.operation === 'read' ? 'read' : 'edit';
         upsertFileAccess(db, session.projectPath, detail.path, operation);
       }
 
-      return {
-        content: [{
-          type: 'text' as const,
-          text: `Event recorded: ${resolvedEventType} (${event.eventId})`,
-        }],
-      };
+      return toolResult({
+        eventId: event.eventId,
+        sessionId,
+        eventType: resolvedEventType,
+        timestamp: event.timestamp,
+        ignored: false,
+        path: detail.type === 'file_op' ? detail.path : undefined,
+        outsideProject: detail.type === 'file_op' ? detail.outsideProject : undefined,
+        redactions: redacted.count,
+      }, renderRecordEvent);
     } catch (error: unknown) {
-      return {
-        content: [{
-          type: 'text' as const,
-          text: `Failed to record event: ${error instanceof Error ? error.message : String(error)}`,
-        }],
-        isError: true,
-      };
+      return toolError(`Failed to record event: ${errorMessage(error)}`);
     }
   };
 }
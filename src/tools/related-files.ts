@@ -0,0 +1,61 @@
+import { z } from 'zod';
+import type Database from 'better-sqlite3';
+import { getRelatedFiles } from '../storage/co-access.js';
+import { resolveProjectPath } from '../context/projects.js';
+import { loadIgnoreMatcher } from '../context/ignore.js';
+import { normalizeFilePath } from '../utils.js';
+import { toolResult, toolError, errorMessage } from './output.js';
+import type { OutputOf } from './output.js';
+
+export const relatedFilesSchema = {
+  projectPath: z.string().describe('Project root path'),
+  filePath: z.string().describe('File to find companions for, relative to the project root or absolute'),
+  limit: z.number().int().min(1).max(50).optional().describe('Max results (default 10)'),
+};
+
+export const relatedFilesOutputSchema = {
+  projectPath: z.string(),
+  filePath: z.string().describe('The file, relative to the project root'),
+  related: z.array(z.object({
+    filePath: z.string(),
+    sessionCount: z.number().describe('Sessions that touched both files'),
+    commitCount: z.number().describe('Commits that changed both files'),
+    lastSeenAt: z.string(),
+  })).describe('Files most often touched together with it, most frequent first'),
+};
+
+type RelatedFilesOutput = OutputOf<typeof relatedFilesOutputSchema>;
+
+function renderRelatedFiles({ filePath, related }: RelatedFilesOutput): string {
+  if (related.length === 0) {
+    return `No files have been touched together with ${filePath} yet.`;
+  }
+
+  const lines = [`Files usually touched together with ${filePath}:`];
+  for (const r of related) {
+    lines.push(`  ${r.filePath} (${r.sessionCount} session(s), ${r.commitCount} commit(s))`);
+  }
+  return lines.join('\n');
+}
+
+export function handleRelatedFiles(db: Database.Database) {
+  return async ({ projectPath: requestedPath, filePath: requestedFile, limit }: {
+    projectPath: string;
+    filePath: string;
+    limit?: number;
+  }) => {
+    try {
+      const projectPath = resolveProjectPath(db, requestedPath);
+      const { path: filePath } = normalizeFilePath(projectPath, requestedFile);
+      const ignore = loadIgnoreMatcher(projectPath);
+
+      return toolResult({
+        projectPath,
+        filePath,
+        related: [...getRelatedFiles(db, projectPath, filePath, limit ?? 10, (path) => ignore.ignores(path))],
+      }, renderRelatedFiles);
+    } catch (error: unknown) {
+      return toolError(`Failed to find related files: ${errorMessage(error)}`);
+    }
+  };
+}
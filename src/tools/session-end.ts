@@ -1,70 +1,201 @@
 import { z } from 'zod';
 import type Database from 'better-sqlite3';
-import { endSession, computeMetrics } from '../storage/sessions.js';
-import { nowISO } from '../utils.js';
+import { join } from 'node:path';
+import { endSession, computeMetrics, getSession, replaceGeneratedSummary } from '../storage/sessions.js';
+import { getSessionEvents } from '../storage/events.js';
+import { insertSessionCommits, isCommitRecorded, upsertSessionFileChanges } from '../storage/git-changes.js';
+import { upsertFileAccess } from '../storage/file-importance.js';
+import { recordCoAccess, recordSessionCoAccess } from '../storage/co-access.js';
+import { summarizeSession } from '../context/summary.js';
+import { defaultRedactor } from '../context/redaction.js';
+import type { Redactor } from '../context/redaction.js';
+import { loadIgnoreMatcher } from '../context/ignore.js';
+import { getSessionFiles } from '../context/co-access.js';
+import { nowISO, getGitHead, getGitCommits, getGitChangedFiles, getGitCommitFiles } from '../utils.js';
+import {
+  toolResult,
+  toolError,
+  errorMessage,
+  gitCommitOutput,
+  gitFileChangeOutput,
+  sessionOutput,
+  sessionMetricsOutput,
+} from './output.js';
+import type { OutputOf } from './output.js';
+import type { GitCommit, GitFileChange, Session } from '../types.js';
+
+// Commits listed in the text output; the JSON has them all
+const LISTED_COMMITS = 5;
 
 export const sessionEndSchema = {
   sessionId: z.string().describe('Session ID to end'),
-  summary: z.string().optional().describe('Summary of what was accomplished'),
-  gitCommit: z.string().optional().describe('HEAD commit SHA at session end'),
+  summary: z.string().optional()
+    .describe('Summary of what was accomplished (generated from recorded events if omitted). On an ended session, replaces a generated summary'),
+  gitCommit: z.string().optional().describe('HEAD commit SHA at session end (auto-detected if omitted)'),
+};
+
+export const sessionEndOutputSchema = {
+  session: sessionOutput,
+  summaryReplaced: z.boolean().describe('The session had already ended; only its generated summary was replaced'),
+  metrics: sessionMetricsOutput.optional().describe('Absent if metrics could not be computed'),
+  commits: z.array(gitCommitOutput).describe('Commits between the start and end commits, newest first'),
+  changedFiles: z.array(gitFileChangeOutput).describe('Files those commits changed'),
+  redactions: z.number().describe('Secrets replaced in the summary and commit subjects before storing'),
 };
 
-export function handleSessionEnd(db: Database.Database) {
-  return async ({ sessionId, summary, gitCommit }: {
+type SessionEndOutput = OutputOf<typeof sessionEndOutputSchema>;
+
+function renderSessionEnd({ session, metrics, summaryReplaced, commits, changedFiles, redactions }: SessionEndOutput): string {
+  if (summaryReplaced) {
+    return `Generated summary of session ${session.sessionId} replaced.\n\nSummary: ${session.summary}`;
+  }
+
+  if (!metrics) {
+    return `Session ${session.sessionId} ended but metrics could not be computed.`;
+  }
+
+  const durationMin = Math.floor(metrics.durationSecs / 60);
+  const lines = [
+    `Session ${session.sessionId} completed.`,
+    '',
+    `Duration: ${durationMin} min`,
+    `Events: ${metrics.eventsTotal}`,
+    `Files read: ${metrics.filesRead} | modified: ${metrics.filesModified}`,
+    `Decisions: ${metrics.decisionsRecorded} | Patterns: ${metrics.patternsDiscovered}`,
+    `Errors resolved: ${metrics.errorsResolved}`,
+  ];
+
+  if (metrics.childSessions > 0) {
+    lines.push(`Includes ${metrics.childSessions} subagent session(s).`);
+  }
+
+  if (commits.length > 0) {
+    lines.push(`Commits: ${commits.length} | Files changed in git: ${changedFiles.length}`);
+    for (const c of commits.slice(0, LISTED_COMMITS)) {
+      lines.push(`  ${c.sha.slice(0, 7)} ${c.subject}`);
+    }
+    if (commits.length > LISTED_COMMITS) {
+      lines.push(`  ... and ${commits.length - LISTED_COMMITS} more`);
+    }
+  }
+
+  if (session.summary) {
+    lines.push('', `Summary${session.summaryGenerated ? ' (generated)' : ''}: ${session.summary}`);
+  }
+
+  if (redactions > 0) {
+    lines.push(`Redacted ${redactions} secret(s) before storing.`);
+  }
+
+  return lines.join('\n');
+}
+
+/**
+ * Store the commits made between the session's start and end commits and
+ * the files they changed. Changed files the session never recorded an edit
+ * for count as edits in file importance, so work done outside recorded
+ * file operations (by hand, by other tools) still registers, unless
+ * `.synapseignore` rules exclude it. Files changed in the same commit count
+ * as seen together, once per commit however many sessions include it.
+ * Commit subjects are redacted like any other stored text.
+ */
+function captureGitChanges(
+  db: Database.Database,
+  session: Session,
+  redactor: Redactor,
+): { commits: readonly GitCommit[]; changedFiles: readonly GitFileChange[]; redactions: number } {
+  const { gitCommitStart: start, gitCommitEnd: end } = session;
+  if (!start || !end || start === end) {
+    return { commits: [], changedFiles: [], redactions: 0 };
+  }
+
+  const root = session.worktree ?? session.projectPath;
+  let redactions = 0;
+  const commits = getGitCommits(root, start, end).map((c) => {
+    const { text, count } = redactor.redact(c.subject);
+    redactions += count;
+    return { ...c, subject: text };
+  });
+  const changedFiles = getGitChangedFiles(root, start, end);
+  const unrecorded = commits.filter((c) => !isCommitRecorded(db, session.projectPath, c.sha));
+  insertSessionCommits(db, session.sessionId, commits);
+  const newChanges = upsertSessionFileChanges(db, session.sessionId, changedFiles);
+
+  const ignore = loadIgnoreMatcher(root);
+  if (unrecorded.length > 0) {
+    const commitFiles = getGitCommitFiles(root, start, end);
+    for (const c of unrecorded) {
+      const files = (commitFiles.get(c.sha) ?? []).filter((path) => !ignore.ignores(path));
+      recordCoAccess(db, session.projectPath, files, 'commit', session.endedAt ?? nowISO());
+    }
+  }
+
+  const recordedEdits = new Set(getSessionEvents(db, session.sessionId)
+    .flatMap((e) => (e.detail.type === 'file_op' && e.detail.operation !== 'read' ? [e.detail.path] : [])));
+  for (const change of newChanges) {
+    const recorded = recordedEdits.has(change.path) || recordedEdits.has(join(root, change.path));
+    if (change.changeType !== 'deleted' && !recorded && !ignore.ignores(change.path)) {
+      upsertFileAccess(db, session.projectPath, change.path, 'edit');
+    }
+  }
+
+  return { commits, changedFiles, redactions };
+}
+
+export function handleSessionEnd(db: Database.Database, redactor: Redactor = defaultRedactor()) {
+  return async ({ sessionId, summary: rawSummary, gitCommit }: {
     sessionId: string;
     summary?: string;
     gitCommit?: string;
   }) => {
     try {
       const now = nowISO();
+      const redactedSummary = rawSummary !== undefined ? redactor.redact(rawSummary) : undefined;
+      const summary = redactedSummary?.text;
 
-      const session = endSession(db, sessionId, now, summary, gitCommit);
-      if (!session) {
-        return {
-          content: [{
-            type: 'text' as const,
-            text: `Session ${sessionId} not found or already ended.`,
-          }],
-          isError: true,
+      const existing = getSession(db, sessionId);
+      if (existing && existing.status !== 'active' && existing.status !== 'paused') {
+        const replaced = summary ? replaceGeneratedSummary(db, sessionId, summary) : undefined;
+        if (!replaced) {
+          return toolError(`Session ${sessionId} already ended.`);
+        }
+        const data: SessionEndOutput = {
+          session: replaced,
+          summaryReplaced: true,
+          commits: [],
+          changedFiles: [],
+          redactions: redactedSummary?.count ?? 0,
         };
+        return toolResult(data, renderSessionEnd);
       }
 
-      const metrics = computeMetrics(db, sessionId);
-      if (!metrics) {
-        return {
-          content: [{
-            type: 'text' as const,
-            text: `Session ${sessionId} ended but metrics could not be computed.`,
-          }],
-        };
+      const gitCommitEnd = existing
+        ? gitCommit ?? getGitHead(existing.worktree ?? existing.projectPath)
+        : gitCommit;
+      // Generated from stored events, which were redacted when recorded
+      const generated = existing && !summary
+        ? summarizeSession(existing, getSessionEvents(db, sessionId), gitCommitEnd)
+        : undefined;
+      const session = endSession(db, sessionId, now, summary ?? generated, gitCommitEnd, generated !== undefined);
+      if (!session) {
+        return toolError(`Session ${sessionId} not found.`);
       }
 
-      const durationMin = Math.floor(metrics.durationSecs / 60);
-      const lines = [
-        `Session ${sessionId} completed.`,
-        '',
-        `Duration: ${durationMin} min`,
-        `Events: ${metrics.eventsTotal}`,
-        `Files read: ${metrics.filesRead} | modified: ${metrics.filesModified}`,
-        `Decisions: ${metrics.decisionsRecorded} | Patterns: ${metrics.patternsDiscovered}`,
-        `Errors resolved: ${metrics.errorsResolved}`,
-      ];
-
-      if (summary) {
-        lines.push('', `Summary: ${summary}`);
-      }
+      const { commits, changedFiles, redactions } = captureGitChanges(db, session, redactor);
+      recordSessionCoAccess(db, session.projectPath, sessionId, getSessionFiles(db, session).touched, now);
+      const metrics = computeMetrics(db, sessionId);
 
-      return {
-        content: [{ type: 'text' as const, text: lines.join('\n') }],
+      const data: SessionEndOutput = {
+        session,
+        summaryReplaced: false,
+        metrics,
+        commits: [...commits],
+        changedFiles: [...changedFiles],
+        redactions: (redactedSummary?.count ?? 0) + redactions,
       };
+      return toolResult(data, renderSessionEnd);
     } catch (error: unknown) {
-      return {
-        content: [{
-          type: 'text' as const,
-          text: `Failed to end session: ${error instanceof Error ? error.message : String(error)}`,
-        }],
-        isError: true,
-      };
+      return toolError(`Failed to end session: ${errorMessage(error)}`);
     }
   };
 }
@@ -0,0 +1,37 @@
+import { z } from 'zod';
+import type Database from 'better-sqlite3';
+import { getSession, pauseSession } from '../storage/sessions.js';
+import { toolResult, toolError, errorMessage, sessionOutput } from './output.js';
+import type { OutputOf } from './output.js';
+
+export const pauseSessionSchema = {
+  sessionId: z.string().describe('Active session to pause'),
+};
+
+export const pauseSessionOutputSchema = {
+  session: sessionOutput,
+};
+
+type PauseSessionOutput = OutputOf<typeof pauseSessionOutputSchema>;
+
+function renderPauseSession({ session }: PauseSessionOutput): string {
+  return `Session ${session.sessionId} paused. Resume it with resume_session; it will not be abandoned while paused.`;
+}
+
+export function handlePauseSession(db: Database.Database) {
+  return async ({ sessionId }: { sessionId: string }) => {
+    try {
+      const session = pauseSession(db, sessionId);
+      if (!session) {
+        const existing = getSession(db, sessionId);
+        return toolError(existing
+          ? `Session ${sessionId} is ${existing.status}, not active.`
+          : `Session ${sessionId} not found.`);
+      }
+
+      return toolResult({ session }, renderPauseSession);
+    } catch (error: unknown) {
+      return toolError(`Failed to pause session: ${errorMessage(error)}`);
+    }
+  };
+}
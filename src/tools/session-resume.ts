@@ -0,0 +1,96 @@
+import { z } from 'zod';
+import type Database from 'better-sqlite3';
+import { findResumableSession, getSession, reopenSession } from '../storage/sessions.js';
+import { getSessionEvents } from '../storage/events.js';
+import { resolveProjectPath } from '../context/projects.js';
+import {
+  toolResult,
+  toolError,
+  errorMessage,
+  eventOutput,
+  sessionOutput,
+  toEventOutput,
+  formatDetail,
+} from './output.js';
+import type { OutputOf } from './output.js';
+import type { SessionStatus } from '../types.js';
+
+// Enough to pick up the thread; recall has the rest
+const RECENT_EVENT_COUNT = 10;
+
+// Completed sessions were ended on purpose; start a new one instead
+const RESUMABLE_STATUSES: readonly SessionStatus[] = ['active', 'paused', 'abandoned'];
+
+export const resumeSessionSchema = {
+  sessionId: z.string().optional().describe('Session to resume'),
+  projectPath: z.string().optional()
+    .describe('Resume the most recently active paused, abandoned or active session in this project'),
+};
+
+export const resumeSessionOutputSchema = {
+  session: sessionOutput,
+  previousStatus: z.enum(['active', 'paused', 'abandoned']),
+  eventCount: z.number(),
+  recentEvents: z.array(eventOutput).describe('The latest events in the session, oldest first'),
+};
+
+type ResumeSessionOutput = OutputOf<typeof resumeSessionOutputSchema>;
+
+function renderResumeSession(data: ResumeSessionOutput): string {
+  const { session: s } = data;
+  const lines = [
+    `Session resumed: ${s.sessionId} (was ${data.previousStatus})`,
+    `Project: ${s.projectPath} | Branch: ${s.branch}`,
+    `Started: ${s.startedAt} | Events so far: ${data.eventCount}`,
+  ];
+
+  if (data.recentEvents.length > 0) {
+    lines.push('', `Latest events (${data.recentEvents.length}):`);
+    for (const e of data.recentEvents) {
+      lines.push(`  [${e.timestamp}] [${e.eventType}] ${formatDetail(e.detail)}`);
+    }
+  }
+
+  return lines.join('\n');
+}
+
+export function handleResumeSession(db: Database.Database) {
+  return async ({ sessionId, projectPath }: {
+    sessionId?: string;
+    projectPath?: string;
+  }) => {
+    try {
+      if (!sessionId && !projectPath) {
+        return toolError('Pass sessionId or projectPath.');
+      }
+
+      const existing = sessionId
+        ? getSession(db, sessionId)
+        : findResumableSession(db, resolveProjectPath(db, projectPath!), { statuses: RESUMABLE_STATUSES });
+
+      if (!existing) {
+        return toolError(sessionId
+          ? `Session ${sessionId} not found.`
+          : `No resumable session for ${projectPath}.`);
+      }
+
+      if (existing.status === 'completed') {
+        return toolError(`Session ${existing.sessionId} is completed. Start a new session instead.`);
+      }
+
+      const session = existing.status === 'active'
+        ? existing
+        : reopenSession(db, existing.sessionId) ?? existing;
+      const events = getSessionEvents(db, session.sessionId);
+
+      return toolResult({
+        session,
+        previousStatus: existing.status,
+        eventCount: events.length,
+        recentEvents: events.slice(-RECENT_EVENT_COUNT).map(toEventOutput),
+      }, renderResumeSession);
+    } catch (error: unknown) {
+      return toolError(`Failed to resume session: ${errorMessage(error)}`);
+    }
+  };
+}
@@ -3,7 +3,11 @@ import type Database from 'better-sqlite3';
 import {
   createSession,
   abandonStaleSessions,
+  findResumableSession,
+  getActiveSessions,
   getRecentSessions,
+  getSession,
+  reopenSession,
 } from '../storage/sessions.js';
 import { getSessionEvents } from '../storage/events.js';
 import { getProjectKnowledge } from '../storage/knowledge.js';
@@ -17,16 +21,64 @@ import {
   computeValueSummary,
 } from '../storage/value-metrics.js';
 import { rankSessions, rankKnowledge } from '../context/scoring.js';
+import { resolveProjectPath } from '../context/projects.js';
+import { reconcileFiles } from '../context/file-history.js';
+import { findUntouchedCompanions } from '../context/co-access.js';
+import {
+  allocateBudget,
+  estimateTokens,
+  truncateToTokens,
+  DEFAULT_CONTEXT_BUDGET,
+} from '../context/budget.js';
+import type { BudgetCandidate } from '../context/budget.js';
 import {
   generateId,
   nowISO,
   getGitBranch,
   getGitHead,
+  getGitWorktree,
   detectAgentType,
   getAgentVersion,
   getAgentDisplayName,
 } from '../utils.js';
-import type { AgentType, Session } from '../types.js';
+import {
+  toolResult,
+  toolError,
+  errorMessage,
+  sessionOutput,
+  knowledgeOutput,
+  fileImportanceOutput,
+  valueSummaryOutput,
+  toKnowledgeOutput,
+  formatMinutes,
+} from './output.js';
+import type { OutputOf } from './output.js';
+import type {
+  AgentType,
+  ContextBudgetConfig,
+  FileImportance,
+  ScoredKnowledge,
+  Session,
+  TokenEstimator,
+} from '../types.js';
+
+const DEFAULT_RESUME_WINDOW_MINUTES = 60;
+
+// Shortest useful slice of a knowledge item's content when space runs out
+const MIN_CONTENT_TOKENS = 16;
+
+// Omitted knowledge titles listed by name; the rest are counted
+const LISTED_OMISSIONS = 5;
+
+// A companion the last session skipped is only worth a hint once the two
+// files have been seen together this often
+const MIN_COMPANION_COUNT = 3;
+const LISTED_COMPANIONS = 5;
+
+const SESSIONS_HEADING = '--- Recent Sessions (ranked by relevance) ---';
+const KNOWLEDGE_HEADING = '--- Project Knowledge ---';
+const FILES_HEADING = '--- Important Files ---';
+const COMPANIONS_HEADING = '--- Often Changed Together ---';
 
 export const sessionStartSchema = {
   projectPath: z.string().describe('Working directory / project root path'),
@@ -36,23 +88,347 @@ export const sessionStartSchema = {
     .optional()
     .describe('AI agent calling this tool'),
   agentVersion: z.string().optional().describe('Version of the AI agent'),
+  worktree: z.string().optional().describe('Git worktree root (auto-detected if omitted)'),
+  agentInstance: z.string().optional()
+    .describe('Identifies this agent when several of the same type work on one worktree, e.g. a terminal or task name'),
+  parentSessionId: z.string().optional()
+    .describe('Session of the agent that spawned this one; set by subagents so their work rolls up into it'),
+  maxTokens: z.number().int().min(200).optional()
+    .describe(`Approximate token budget for the returned context (default ${DEFAULT_CONTEXT_BUDGET.maxTokens})`),
+  resumeIfRecent: z.boolean().optional()
+    .describe('Reattach to an active session on this project, branch, worktree and agent instance instead of starting a new one, if it was active recently'),
+  resumeWindowMinutes: z.number().min(1).optional()
+    .describe(`How recent "recently" is for resumeIfRecent (default ${DEFAULT_RESUME_WINDOW_MINUTES})`),
+};
+
+export const sessionStartOutputSchema = {
+  sessionId: z.string(),
+  resumed: z.boolean().describe('An existing session was reattached instead of a new one started'),
+  projectPath: z.string(),
+  branch: z.string(),
+  agentType: sessionStartSchema.agentType.unwrap(),
+  agentVersion: z.string().optional(),
+  worktree: z.string().optional(),
+  agentInstance: z.string().optional(),
+  parentSessionId: z.string().optional(),
+  abandonedSessions: z.number().describe('Sessions from this project abandoned after going inactive'),
+  concurrentSessions: z.number().describe('Other sessions active on this project right now'),
+  recentSessions: z.array(z.object({
+    session: sessionOutput,
+    score: z.number(),
+    decisions: z.array(z.string()),
+    patterns: z.array(z.string()),
+    truncated: z.boolean().describe('Some decisions or patterns were dropped to fit the budget'),
+  })).describe('Past sessions ranked by branch and recency relevance'),
+  knowledge: z.array(z.object({
+    knowledge: knowledgeOutput,
+    relevanceScore: z.number(),
+    truncated: z.boolean().describe('content was cut to fit the budget'),
+  })).describe('Project knowledge ranked by relevance'),
+  importantFiles: z.array(fileImportanceOutput),
+  untouchedCompanions: z.array(z.object({
+    filePath: z.string().describe('Edited in the last session'),
+    companion: z.string(),
+    together: z.number().describe('Sessions and commits that had both files'),
+  })).describe('Files usually changed with what the last session edited, which it did not touch'),
+  valueSummary: valueSummaryOutput,
+  omitted: z.object({
+    sessions: z.array(z.object({ sessionId: z.string(), summary: z.string().optional() })),
+    knowledge: z.array(z.object({
+      knowledgeId: z.string(),
+      title: z.string(),
+      knowledgeType: knowledgeOutput.shape.knowledgeType,
+    })),
+    files: z.array(z.string()),
+  }).describe('Context left out to fit the budget, best first; load it with recall or get_knowledge'),
+  budget: z.object({
+    maxTokens: z.number(),
+    usedTokens: z.number().describe('Estimated tokens in the text rendering'),
+  }),
+};
+
+type SessionStartOutput = OutputOf<typeof sessionStartOutputSchema>;
+type SessionEntry = SessionStartOutput['recentSessions'][number];
+type KnowledgeEntry = SessionStartOutput['knowledge'][number];
+type FileEntry = SessionStartOutput['importantFiles'][number];
+
+function formatSessionLines({ session: s, score, decisions, patterns }: SessionEntry): string[] {
+  const dateStr = s.startedAt.split('T')[0];
+  return [
+    `[${dateStr}] ${s.summary ?? '(no summary)'} (score: ${score.toFixed(2)})`,
+    ...decisions.map((d) => `  Decision: ${d}`),
+    ...patterns.map((p) => `  Pattern: ${p}`),
+  ];
+}
+
+function formatKnowledgeLine({ knowledge: k }: KnowledgeEntry): string {
+  return `[${k.knowledgeType}] ${k.title}: ${k.content}`;
+}
+
+function formatFileLine(f: FileEntry): string {
+  return `${f.filePath} (score: ${f.importanceScore.toFixed(1)} | ${f.readCount} reads, ${f.editCount} edits)`;
+}
+
+function formatOmitted(omitted: SessionStartOutput['omitted'], maxTokens: number): string[] {
+  const { sessions, knowledge, files } = omitted;
+  if (sessions.length + knowledge.length + files.length === 0) {
+    return [];
+  }
+
+  const lines = ['', `--- Not Shown (token budget: ${maxTokens}) ---`];
+  if (knowledge.length > 0) {
+    const titles = knowledge.slice(0, LISTED_OMISSIONS).map((k) => k.title);
+    const more = knowledge.length > LISTED_OMISSIONS ? `; +${knowledge.length - LISTED_OMISSIONS} more` : '';
+    lines.push(`Knowledge (${knowledge.length}): ${titles.join('; ')}${more}`);
+  }
+  const counts = [
+    sessions.length > 0 ? `Sessions: ${sessions.length}` : '',
+    files.length > 0 ? `Files: ${files.length}` : '',
+  ].filter(Boolean);
+  if (counts.length > 0) {
+    lines.push(counts.join(' | '));
+  }
+  lines.push('Use recall or get_knowledge to load them.');
+
+  return lines;
+}
+
+function renderSessionStart(data: SessionStartOutput): string {
+  const lines: string[] = [
+    `Session ${data.resumed ? 'resumed' : 'started'}: ${data.sessionId}`,
+    `Project: ${data.projectPath}`,
+    `Branch: ${data.branch}`,
+    `Agent: ${getAgentDisplayName(data.agentType)}${data.agentVersion ? ` (${data.agentVersion})` : ''}`,
+  ];
+
+  if (data.parentSessionId) {
+    lines.push(`Parent session: ${data.parentSessionId}`);
+  }
+
+  if (data.worktree && data.worktree !== data.projectPath) {
+    lines.push(`Worktree: ${data.worktree}`);
+  }
+
+  if (data.abandonedSessions > 0) {
+    lines.push(`Cleaned up ${data.abandonedSessions} stale session(s).`);
+  }
+
+  if (data.concurrentSessions > 0) {
+    lines.push(`${data.concurrentSessions} other session(s) active on this project. Call list_active_sessions before editing shared files.`);
+  }
+
+  if (data.recentSessions.length > 0) {
+    lines.push('', SESSIONS_HEADING);
+    data.recentSessions.forEach((entry) => lines.push(...formatSessionLines(entry)));
+  }
+
+  if (data.knowledge.length > 0) {
+    lines.push('', KNOWLEDGE_HEADING);
+    data.knowledge.forEach((entry) => lines.push(formatKnowledgeLine(entry)));
+  }
+
+  if (data.importantFiles.length > 0) {
+    lines.push('', FILES_HEADING);
+    data.importantFiles.forEach((f) => lines.push(formatFileLine(f)));
+  }
+
+  if (data.untouchedCompanions.length > 0) {
+    lines.push('', COMPANIONS_HEADING);
+    for (const c of data.untouchedCompanions) {
+      lines.push(`${c.companion}: changed with ${c.filePath} ${c.together} times, not touched last session`);
+    }
+  }
+
+  const { valueSummary } = data;
+  if (valueSummary.timeSavedMinutes > 0) {
+    lines.push('', '--- Value Summary ---');
+    lines.push(
+      `Sessions: ${valueSummary.breakdown.knowledgeSurfaced > 0 ? 'tracked' : '0'} | ` +
+      `Knowledge surfaced: ${valueSummary.breakdown.knowledgeSurfaced} times | ` +
+      `Time saved: ~${formatMinutes(valueSummary.timeSavedMinutes)}`,
+    );
+  }
+
+  lines.push(...formatOmitted(data.omitted, data.budget.maxTokens));
+
+  return lines.join('\n');
+}
+
+interface ContextCandidates {
+  readonly sessions: readonly SessionEntry[];
+  readonly knowledge: readonly KnowledgeEntry[];
+  readonly files: readonly FileEntry[];
+}
+
+type AssembledContext = Pick<SessionStartOutput, 'recentSessions' | 'knowledge' | 'importantFiles' | 'omitted'>;
+
+const EMPTY_CONTEXT: AssembledContext = {
+  recentSessions: [],
+  knowledge: [],
+  importantFiles: [],
+  omitted: { sessions: [], knowledge: [], files: [] },
 };
 
-export function handleSessionStart(db: Database.Database) {
-  return async ({ projectPath, branch, gitCommit, agentType, agentVersion }: {
+/**
+ * Fit ranked sessions, knowledge and files into `availableTokens` of
+ * rendered context. Long knowledge content is cut at a word boundary and
+ * sessions lose their trailing decision/pattern lines before anything is
+ * dropped. `maxTokens` is the caller's whole budget, shown with omissions.
+ */
+function assembleContext(
+  candidates: ContextCandidates,
+  availableTokens: number,
+  maxTokens: number,
+  budget: ContextBudgetConfig,
+  estimate: TokenEstimator,
+): AssembledContext {
+  // Each item also pays for the newline that separates it from the next
+  const cost = (lines: readonly string[]) => estimate(`${lines.join('\n')}\n`);
+
+  const budgetCandidates: BudgetCandidate[] = [
+    ...candidates.sessions.map((entry) => ({
+      section: 'sessions' as const,
+      id: entry.session.sessionId,
+      score: entry.score,
+      tokens: cost(formatSessionLines(entry)),
+      minTokens: cost(formatSessionLines({ ...entry, decisions: [], patterns: [] })),
+    })),
+    ...candidates.knowledge.map((entry) => ({
+      section: 'knowledge' as const,
+      id: entry.knowledge.knowledgeId,
+      score: entry.relevanceScore,
+      tokens: cost([formatKnowledgeLine(entry)]),
+      minTokens: cost([formatKnowledgeLine(withContent(
+        entry,
+        truncateToTokens(entry.knowledge.content, MIN_CONTENT_TOKENS, estimate),
+      ))]),
+    })),
+    ...candidates.files.map((f) => ({
+      section: 'files' as const,
+      id: f.filePath,
+      score: f.importanceScore,
+      tokens: cost([formatFileLine(f)]),
+      minTokens: cost([formatFileLine(f)]),
+    })),
+  ];
+
+  const assemble = (tokens: number): AssembledContext => {
+    const { granted, omitted } = allocateBudget(budgetCandidates, { ...budget, maxTokens: tokens });
+    const omittedIds = (section: BudgetCandidate['section']) =>
+      new Set(omitted.filter((c) => c.section === section).map((c) => c.id));
+    const omittedSessions = omittedIds('sessions');
+    const omittedKnowledge = omittedIds('knowledge');
+    const omittedFiles = omittedIds('files');
+
+    return {
+      recentSessions: candidates.sessions.flatMap((entry) => {
+        const grant = granted.sessions.get(entry.session.sessionId);
+        return grant === undefined ? [] : [shortenSession(entry, grant, cost)];
+      }),
+      knowledge: candidates.knowledge.flatMap((entry) => {
+        const grant = granted.knowledge.get(entry.knowledge.knowledgeId);
+        return grant === undefined ? [] : [shortenKnowledge(entry, grant, cost)];
+      }),
+      importantFiles: candidates.files.filter((f) => granted.files.has(f.filePath)),
+      omitted: {
+        sessions: candidates.sessions
+          .filter((e) => omittedSessions.has(e.session.sessionId))
+          .map(({ session: s }) => ({ sessionId: s.sessionId, summary: s.summary })),
+        knowledge: candidates.knowledge
+          .filter((e) => omittedKnowledge.has(e.knowledge.knowledgeId))
+          .map(({ knowledge: k }) => ({ knowledgeId: k.knowledgeId, title: k.title, knowledgeType: k.knowledgeType })),
+        files: candidates.files.filter((f) => omittedFiles.has(f.filePath)).map((f) => f.filePath),
+      },
+    };
+  };
+
+  // The list of omissions costs tokens too: size it from a first pass, then
+  // allocate again with that much less
+  const firstPass = assemble(availableTokens);
+  const footer = cost(formatOmitted(firstPass.omitted, maxTokens));
+  return footer > 0 ? assemble(Math.max(0, availableTokens - footer)) : firstPass;
+}
+
+function withContent(entry: KnowledgeEntry, content: string): KnowledgeEntry {
+  return { ...entry, knowledge: { ...entry.knowledge, content } };
+}
+
+function shortenKnowledge(
+  entry: KnowledgeEntry,
+  grant: number,
+  cost: (lines: readonly string[]) => number,
+): KnowledgeEntry {
+  // Measure the whole line: estimators need not be additive
+  const content = truncateToTokens(
+    entry.knowledge.content,
+    grant,
+    (c) => cost([formatKnowledgeLine(withContent(entry, c))]),
+  );
+  return { ...withContent(entry, content), truncated: content !== entry.knowledge.content };
+}
+
+function shortenSession(
+  entry: SessionEntry,
+  grant: number,
+  cost: (lines: readonly string[]) => number,
+): SessionEntry {
+  const decisions: string[] = [];
+  const patterns: string[] = [];
+  const fits = () => cost(formatSessionLines({ ...entry, decisions, patterns })) <= grant;
+
+  // Decisions first: they explain why the code looks the way it does
+  for (const [source, kept] of [[entry.decisions, decisions], [entry.patterns, patterns]] as const) {
+    for (const item of source) {
+      kept.push(item);
+      if (!fits()) {
+        kept.pop();
+        return { ...entry, decisions, patterns, truncated: true };
+      }
+    }
+  }
+
+  return { ...entry, truncated: false };
+}
+
+export function handleSessionStart(
+  db: Database.Database,
+  budget: ContextBudgetConfig = {},
+  estimate: TokenEstimator = estimateTokens,
+) {
+  const limits = { ...DEFAULT_CONTEXT_BUDGET, ...budget };
+
+  return async ({
+    projectPath: requestedPath, branch, gitCommit, agentType, agentVersion, worktree, agentInstance,
+    parentSessionId, maxTokens, resumeIfRecent, resumeWindowMinutes, sessionId,
+  }: {
     projectPath: string;
     branch?: string;
     gitCommit?: string;
     agentType?: AgentType;
     agentVersion?: string;
+    worktree?: string;
+    agentInstance?: string;
+    parentSessionId?: string;
+    maxTokens?: number;
+    resumeIfRecent?: boolean;
+    resumeWindowMinutes?: number;
+    // Not exposed as a tool input; lets integrations reuse their own session IDs
+    sessionId?: string;
   }) => {
     try {
       const now = nowISO();
 
+      if (parentSessionId && !getSession(db, parentSessionId)) {
+        return toolError(`Parent session ${parentSessionId} not found.`);
+      }
+
+      // Stored under the project's root path; git is asked about the path given
+      const projectPath = resolveProjectPath(db, requestedPath);
       const abandoned = abandonStaleSessions(db, projectPath, now);
 
-      const resolvedBranch = branch ?? getGitBranch(projectPath);
-      const resolvedCommit = gitCommit ?? getGitHead(projectPath);
+      const resolvedBranch = branch ?? getGitBranch(requestedPath);
+      const resolvedCommit = gitCommit ?? getGitHead(requestedPath);
+      const resolvedWorktree = worktree ?? getGitWorktree(requestedPath);
 
       // Resolve agent type from parameter or environment
       const resolvedAgentType = agentType ?? detectAgentType();
@@ -61,8 +437,24 @@ export function handleSessionStart(db: Database.Database) {
       // Register/update agent in registry
       upsertAgent(db, resolvedAgentType);
 
-      const session: Session = {
-        sessionId: generateId(),
+      const windowMs = (resumeWindowMinutes ?? DEFAULT_RESUME_WINDOW_MINUTES) * 60_000;
+      // An integration starting one of its sessions again (after compaction,
+      // say) gets that session back, reopened if it had ended
+      const known = sessionId ? getSession(db, sessionId) : undefined;
+      const reattached = known && (known.status === 'active' ? known : reopenSession(db, known.sessionId) ?? known);
+      const resumable = reattached ?? (resumeIfRecent
+        ? findResumableSession(db, projectPath, {
+          statuses: ['active'],
+          branch: resolvedBranch,
+          worktree: resolvedWorktree,
+          agentInstance,
+          parentSessionId,
+          activeSince: new Date(new Date(now).getTime() - windowMs).toISOString(),
+        })
+        : undefined);
+
+      const session: Session = resumable ?? {
+        sessionId: sessionId ?? generateId(),
         projectPath,
         branch: resolvedBranch,
         startedAt: now,
@@ -70,107 +462,119 @@ export function handleSessionStart(db: Database.Database) {
         gitCommitStart: resolvedCommit,
         agentType: resolvedAgentType,
         agentVersion: resolvedAgentVersion,
+        worktree: resolvedWorktree,
+        agentInstance,
+        parentSessionId,
       };
 
-      createSession(db, session);
-
-      // Track value metrics
-      incrementSessionCount(db, projectPath);
+      if (!resumable) {
+        createSession(db, session);
 
-      // Get recent sessions and rank by relevance
-      const recentSessions = getRecentSessions(db, projectPath, 10, undefined);
-      const rankedSessions = rankSessions(recentSessions, resolvedBranch).slice(0, 5);
-
-      const contextLines: string[] = [
-        `Session started: ${session.sessionId}`,
-        `Project: ${projectPath}`,
-        `Branch: ${resolvedBranch}`,
-        `Agent: ${getAgentDisplayName(resolvedAgentType)}${resolvedAgentVersion ? ` (${resolvedAgentVersion})` : ''}`,
-      ];
+        // Track value metrics; subagent work counts toward its parent's session
+        if (!parentSessionId) {
+          incrementSessionCount(db, projectPath);
+        }
+      }
 
-      if (abandoned > 0) {
-        contextLines.push(`Cleaned up ${abandoned} stale session(s).`);
+      // Renamed and deleted files must not surface under their old paths
+      if (resolvedWorktree) {
+        reconcileFiles(db, projectPath, resolvedWorktree);
       }
 
-      // Show ranked recent sessions
-      if (rankedSessions.length > 0) {
-        contextLines.push('', '--- Recent Sessions (ranked by relevance) ---');
-        incrementContextReuse(db, projectPath);
+      // Rank everything that could go into the context, then fit it to the budget
+      const rankedSessions = rankSessions(
+        getRecentSessions(db, projectPath, limits.maxSessions * 2, undefined),
+        resolvedBranch,
+      );
+      const rankedKnowledge = rankKnowledge(
+        getProjectKnowledge(db, projectPath, undefined, limits.maxKnowledge * 2),
+        resolvedBranch,
+      );
 
-        for (const { session: s, score } of rankedSessions) {
-          const dateStr = s.startedAt.split('T')[0];
-          contextLines.push(`[${dateStr}] ${s.summary ?? '(no summary)'} (score: ${score.toFixed(2)})`);
-
-          const decisions = getSessionEvents(db, s.sessionId, 'decision');
-          for (const e of decisions) {
-            if (e.detail.type === 'decision') {
-              contextLines.push(`  Decision: ${e.detail.title}`);
-            }
-          }
-          const patterns = getSessionEvents(db, s.sessionId, 'pattern');
-          for (const e of patterns) {
-            if (e.detail.type === 'pattern') {
-              contextLines.push(`  Pattern: ${e.detail.description}`);
-            }
-          }
-        }
-      }
+      // The header, section headings, companions and value line are shown regardless
+      const budgetTokens = maxTokens ?? limits.maxTokens;
+      const lastSession = getRecentSessions(db, projectPath, 1, undefined)[0];
+      const header = {
+        sessionId: session.sessionId,
+        resumed: resumable !== undefined,
+        projectPath,
+        branch: resolvedBranch,
+        agentType: session.agentType ?? resolvedAgentType,
+        agentVersion: session.agentVersion,
+        worktree: session.worktree,
+        agentInstance: session.agentInstance,
+        parentSessionId: session.parentSessionId,
+        abandonedSessions: abandoned,
+        concurrentSessions: getActiveSessions(db, projectPath)
+          .filter((s) => s.sessionId !== session.sessionId).length,
+        untouchedCompanions: lastSession
+          ? [...findUntouchedCompanions(db, lastSession, MIN_COMPANION_COUNT, LISTED_COMPANIONS)]
+          : [],
+        budget: { maxTokens: budgetTokens, usedTokens: 0 },
+      };
+      const valueBefore = computeValueSummary(db, projectPath);
+      const overhead = estimate(renderSessionStart({
+        ...header,
+        ...EMPTY_CONTEXT,
+        valueSummary: { ...valueBefore, timeSavedMinutes: Math.max(1, valueBefore.timeSavedMinutes) },
+      })) + estimate(['', SESSIONS_HEADING, '', KNOWLEDGE_HEADING, '', FILES_HEADING].join('\n'));
 
-      // Get knowledge and rank by relevance
-      const knowledge = getProjectKnowledge(db, projectPath, undefined, 30);
-      const rankedKnowledge = rankKnowledge(knowledge, resolvedBranch).slice(0, 15);
+      const context = assembleContext({
+        sessions: rankedSessions.map(({ session: s, score }) => toSessionEntry(db, s, score)),
+        knowledge: rankedKnowledge.map(toKnowledgeEntry),
+        files: getImportantFiles(db, projectPath, limits.maxFiles * 2).map(toFileEntry),
+      }, Math.max(0, budgetTokens - overhead), budgetTokens, budget, estimate);
 
-      if (rankedKnowledge.length > 0) {
-        contextLines.push('', '--- Project Knowledge ---');
+      if (context.recentSessions.length > 0) {
+        incrementContextReuse(db, projectPath);
+      }
 
+      if (context.knowledge.length > 0) {
         // Track surfacing for value metrics
-        incrementKnowledgeSurfaced(db, projectPath, rankedKnowledge.length);
+        incrementKnowledgeSurfaced(db, projectPath, context.knowledge.length);
 
-        for (const { knowledge: k } of rankedKnowledge) {
-          contextLines.push(`[${k.knowledgeType}] ${k.title}: ${k.content}`);
-
-          // Record that this knowledge was surfaced
+        // Record that this knowledge was surfaced
+        for (const { knowledge: k } of context.knowledge) {
           recordKnowledgeUsage(db, k.knowledgeId, session.sessionId, 'surfaced');
         }
       }
 
-      // Show important files
-      const importantFiles = getImportantFiles(db, projectPath, 10);
-      if (importantFiles.length > 0) {
-        contextLines.push('', '--- Important Files ---');
-        for (const f of importantFiles) {
-          contextLines.push(
-            `${f.filePath} (score: ${f.importanceScore.toFixed(1)} | ${f.readCount} reads, ${f.editCount} edits)`,
-          );
-        }
-      }
-
-      // Show value summary
-      const valueSummary = computeValueSummary(db, projectPath);
-      if (valueSummary.timeSavedMinutes > 0) {
-        const hours = Math.floor(valueSummary.timeSavedMinutes / 60);
-        const mins = valueSummary.timeSavedMinutes % 60;
-        const timeStr = hours > 0 ? `${hours}h ${mins}m` : `${mins}m`;
-
-        contextLines.push('', '--- Value Summary ---');
-        contextLines.push(
-          `Sessions: ${valueSummary.breakdown.knowledgeSurfaced > 0 ? 'tracked' : '0'} | ` +
-          `Knowledge surfaced: ${valueSummary.breakdown.knowledgeSurfaced} times | ` +
-          `Time saved: ~${timeStr}`,
-        );
-      }
-
-      return {
-        content: [{ type: 'text' as const, text: contextLines.join('\n') }],
+      const data: SessionStartOutput = {
+        ...header,
+        ...context,
+        valueSummary: computeValueSummary(db, projectPath),
       };
+      data.budget.usedTokens = estimate(renderSessionStart(data));
+
+      return toolResult(data, renderSessionStart);
     } catch (error: unknown) {
-      return {
-        content: [{
-          type: 'text' as const,
-          text: `Failed to start session: ${error instanceof Error ? error.message : String(error)}`,
-        }],
-        isError: true,
-      };
+      return toolError(`Failed to start session: ${errorMessage(error)}`);
     }
   };
 }
+
+function toSessionEntry(db: Database.Database, session: Session, score: number): SessionEntry {
+  return {
+    session,
+    score,
+    decisions: getSessionEvents(db, session.sessionId, 'decision')
+      .flatMap((e) => (e.detail.type === 'decision' ? [e.detail.title] : [])),
+    patterns: getSessionEvents(db, session.sessionId, 'pattern')
+      .flatMap((e) => (e.detail.type === 'pattern' ? [e.detail.description] : [])),
+    truncated: false,
+  };
+}
+
+function toKnowledgeEntry({ knowledge, relevanceScore }: ScoredKnowledge): KnowledgeEntry {
+  return { knowledge: toKnowledgeOutput(knowledge), relevanceScore, truncated: false };
+}
+
+function toFileEntry(f: FileImportance): FileEntry {
+  return {
+    filePath: f.filePath,
+    readCount: f.readCount,
+    editCount: f.editCount,
+    lastAccessedAt: f.lastAccessedAt,
+    importanceScore: f.importanceScore,
+  };
+}
@@ -0,0 +1,78 @@
+import { z } from 'zod';
+import type Database from 'better-sqlite3';
+import { getActiveSession, getSession } from '../storage/sessions.js';
+import { findSimilarSessions } from '../context/similarity.js';
+import { resolveProjectPath } from '../context/projects.js';
+import { toolResult, toolError, errorMessage, sessionOutput } from './output.js';
+import type { OutputOf } from './output.js';
+
+export const findSimilarSessionsSchema = {
+  projectPath: z.string().describe('Project root path'),
+  sessionId: z.string().optional().describe('Session to compare (default: the active session for the project)'),
+  limit: z.number().min(1).max(20).optional().describe('Max results (default 5)'),
+};
+
+export const findSimilarSessionsOutputSchema = {
+  sessionId: z.string().describe('Session that was compared'),
+  similar: z.array(z.object({
+    session: sessionOutput,
+    score: z.number(),
+    sharedFiles: z.array(z.string()),
+    reasons: z.array(z.string()),
+  })),
+};
+
+type FindSimilarSessionsOutput = OutputOf<typeof findSimilarSessionsOutputSchema>;
+
+function renderSimilarSessions({ sessionId, similar }: FindSimilarSessionsOutput): string {
+  if (similar.length === 0) {
+    return `No past sessions resemble ${sessionId} yet. Record file operations and decisions to build its footprint.`;
+  }
+
+  const lines = [`Sessions similar to ${sessionId} (${similar.length}):`];
+  for (const { session: s, score, reasons } of similar) {
+    const dateStr = s.startedAt.split('T')[0];
+    lines.push('');
+    lines.push(`[${dateStr}] ${s.summary ?? '(no summary)'} (score: ${score.toFixed(2)})`);
+    lines.push(`  Session: ${s.sessionId} | Branch: ${s.branch}`);
+    for (const reason of reasons) {
+      lines.push(`  - ${reason}`);
+    }
+  }
+
+  return lines.join('\n');
+}
+
+export function handleFindSimilarSessions(db: Database.Database) {
+  return async ({ projectPath, sessionId, limit }: {
+    projectPath: string;
+    sessionId?: string;
+    limit?: number;
+  }) => {
+    try {
+      const session = sessionId
+        ? getSession(db, sessionId)
+        : getActiveSession(db, resolveProjectPath(db, projectPath));
+
+      if (!session) {
+        return toolError(sessionId
+          ? `Session ${sessionId} not found.`
+          : `No active session for ${projectPath}. Start one with session_start or pass sessionId.`);
+      }
+
+      const similar = findSimilarSessions(db, session.sessionId, limit ?? 5);
+
+      return toolResult({
+        sessionId: session.sessionId,
+        similar: similar.map((s) => ({
+          session: s.session,
+          score: s.score,
+          sharedFiles: [...s.sharedFiles],
+          reasons: [...s.reasons],
+        })),
+      }, renderSimilarSessions);
+    } catch (error: unknown) {
+      return toolError(`Failed to find similar sessions: ${errorMessage(error)}`);
+    }
+  };
+}
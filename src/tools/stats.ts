@@ -3,7 +3,11 @@ import type Database from 'better-sqlite3';
 import { getSessionStats } from '../storage/sessions.js';
 import { getAgentStats } from '../storage/agents.js';
 import { getValueMetrics, computeValueSummary } from '../storage/value-metrics.js';
+import { resolveProjectPath } from '../context/projects.js';
+import { loadIgnoreMatcher } from '../context/ignore.js';
 import { periodToDate, getAgentDisplayName } from '../utils.js';
+import { toolResult, toolError, errorMessage, valueSummaryOutput, formatMinutes } from './output.js';
+import type { OutputOf } from './output.js';
 import type { StatsPeriod } from '../types.js';
 
 export const statsSchema = {
@@ -13,81 +17,100 @@ export const statsSchema = {
     .describe('Time period (default: week)'),
 };
 
-export function handleStats(db: Database.Database) {
-  return async ({ projectPath, period }: {
-    projectPath: string;
-    period?: StatsPeriod;
-  }) => {
-    try {
-      const resolvedPeriod = period ?? 'week';
-      const since = periodToDate(resolvedPeriod);
-      const stats = getSessionStats(db, projectPath, since);
+export const statsOutputSchema = {
+  projectPath: z.string(),
+  period: statsSchema.period.unwrap(),
+  totalSessions: z.number(),
+  totalDurationSecs: z.number(),
+  topFiles: z.array(z.object({ path: z.string(), count: z.number() })),
+  agentUsage: z.array(z.object({
+    agentType: z.enum(['claude-code', 'cursor', 'aider', 'openclaw', 'unknown']),
+    sessionCount: z.number(),
+  })),
+  valueSummary: valueSummaryOutput.optional().describe('Absent until the project has value metrics'),
+  patternsDiscovered: z.number(),
+  eventCategories: z.array(z.object({ category: z.string(), count: z.number() })),
+};
 
-      const lines: string[] = [
-        `--- Session Analytics (${resolvedPeriod}) ---`,
-        `Sessions: ${stats.totalSessions} | Total time: ${formatDuration(stats.totalDurationSecs)}`,
-      ];
+type StatsOutput = OutputOf<typeof statsOutputSchema>;
 
-      if (stats.topFiles.length > 0) {
-        const topFilesStr = stats.topFiles.slice(0, 3).map((f) => `${f.path} (${f.count})`).join(', ');
-        lines.push(`Top files: ${topFilesStr}`);
-      }
+function renderStats(data: StatsOutput): string {
+  const lines: string[] = [
+    `--- Session Analytics (${data.period}) ---`,
+    `Sessions: ${data.totalSessions} | Total time: ${formatDuration(data.totalDurationSecs)}`,
+  ];
 
-      // Agent usage breakdown
-      const agentStats = getAgentStats(db, projectPath, since);
-      if (agentStats.length > 0) {
-        lines.push('');
-        lines.push('--- Agent Usage ---');
-        const agentParts = agentStats.map(
-          (a) => `${getAgentDisplayName(a.agentType)}: ${a.sessionCount} session(s)`,
-        );
-        lines.push(agentParts.join(' | '));
-      }
+  if (data.topFiles.length > 0) {
+    const topFilesStr = data.topFiles.slice(0, 3).map((f) => `${f.path} (${f.count})`).join(', ');
+    lines.push(`Top files: ${topFilesStr}`);
+  }
 
-      // Value metrics section
-      const valueMetrics = getValueMetrics(db, projectPath);
-      if (valueMetrics) {
-        const valueSummary = computeValueSummary(db, projectPath);
+  // Agent usage breakdown
+  if (data.agentUsage.length > 0) {
+    lines.push('');
+    lines.push('--- Agent Usage ---');
+    const agentParts = data.agentUsage.map(
+      (a) => `${getAgentDisplayName(a.agentType)}: ${a.sessionCount} session(s)`,
+    );
+    lines.push(agentParts.join(' | '));
+  }
 
-        lines.push('');
-        lines.push('--- Value Metrics ---');
-        lines.push(`Knowledge surfaced: ${valueSummary.breakdown.knowledgeSurfaced} times`);
-        lines.push(`Decisions recalled: ${valueSummary.breakdown.decisionsRecalled} times`);
+  // Value metrics section
+  const { valueSummary } = data;
+  if (valueSummary) {
+    lines.push('');
+    lines.push('--- Value Metrics ---');
+    lines.push(`Knowledge surfaced: ${valueSummary.breakdown.knowledgeSurfaced} times`);
+    lines.push(`Decisions recalled: ${valueSummary.breakdown.decisionsRecalled} times`);
 
-        if (valueSummary.timeSavedMinutes > 0) {
-          const hours = Math.floor(valueSummary.timeSavedMinutes / 60);
-          const mins = valueSummary.timeSavedMinutes % 60;
-          const timeStr = hours > 0 ? `${hours}h ${mins}m` : `${mins}m`;
-          lines.push(`Time saved: ~${timeStr}`);
-        }
-      }
+    if (valueSummary.timeSavedMinutes > 0) {
+      lines.push(`Time saved: ~${formatMinutes(valueSummary.timeSavedMinutes)}`);
+    }
+  }
 
-      // Patterns discovered
-      if (stats.patternsDiscovered > 0) {
-        lines.push('');
-        lines.push(`Patterns discovered: ${stats.patternsDiscovered}`);
-      }
+  // Patterns discovered
+  if (data.patternsDiscovered > 0) {
+    lines.push('');
+    lines.push(`Patterns discovered: ${data.patternsDiscovered}`);
+  }
 
-      // Tool breakdown
-      if (stats.toolBreakdown.length > 0) {
-        lines.push('');
-        lines.push('Event categories:');
-        for (const t of stats.toolBreakdown) {
-          lines.push(`  ${t.category}: ${t.count}`);
-        }
-      }
+  // Tool breakdown
+  if (data.eventCategories.length > 0) {
+    lines.push('');
+    lines.push('Event categories:');
+    for (const t of data.eventCategories) {
+      lines.push(`  ${t.category}: ${t.count}`);
+    }
+  }
+
+  return lines.join('\n');
+}
+
+export function handleStats(db: Database.Database) {
+  return async ({ projectPath: requestedPath, period }: {
+    projectPath: string;
+    period?: StatsPeriod;
+  }) => {
+    try {
+      const resolvedPeriod = period ?? 'week';
+      const since = periodToDate(resolvedPeriod);
+      const projectPath = resolveProjectPath(db, requestedPath);
+      const ignore = loadIgnoreMatcher(projectPath);
+      const stats = getSessionStats(db, projectPath, since, (path) => ignore.ignores(path));
 
-      return {
-        content: [{ type: 'text' as const, text: lines.join('\n') }],
-      };
+      return toolResult({
+        projectPath,
+        period: resolvedPeriod,
+        totalSessions: stats.totalSessions,
+        totalDurationSecs: stats.totalDurationSecs,
+        topFiles: [...stats.topFiles],
+        agentUsage: [...getAgentStats(db, projectPath, since)],
+        valueSummary: getValueMetrics(db, projectPath) ? computeValueSummary(db, projectPath) : undefined,
+        patternsDiscovered: stats.patternsDiscovered,
+        eventCategories: [...stats.toolBreakdown],
+      }, renderStats);
     } catch (error: unknown) {
-      return {
-        content: [{
-          type: 'text' as const,
-          text: `Failed to get stats: ${error instanceof Error ? error.message : String(error)}`,
-        }],
-        isError: true,
-      };
+      return toolError(`Failed to get stats: ${errorMessage(error)}`);
     }
   };
 }
@@ -30,13 +30,21 @@ export interface Session {
   readonly endedAt?: string;
   readonly status: SessionStatus;
   readonly summary?: string;
+  /** The summary was built from recorded events; a written one replaces it */
+  readonly summaryGenerated?: boolean;
   readonly gitCommitStart?: string;
   readonly gitCommitEnd?: string;
   readonly agentType?: AgentType;
   readonly agentVersion?: string;
+  /** Git worktree root the session runs in; several can share one project */
+  readonly worktree?: string;
+  /** Tells apart agents of the same type working on the same worktree */
+  readonly agentInstance?: string;
+  /** The session that spawned this one, for subagents */
+  readonly parentSessionId?: string;
 }
 
-export type SessionStatus = 'active' | 'completed' | 'abandoned';
+export type SessionStatus = 'active' | 'paused' | 'completed' | 'abandoned';
 
 export interface SessionEvent {
   readonly eventId: string;
@@ -45,6 +53,8 @@ export interface SessionEvent {
   readonly eventType: EventType;
   readonly category: EventCategory;
   readonly detail: EventDetail;
+  /** Secrets replaced in `detail` before it was stored */
+  readonly redactions?: number;
 }
 
 export type EventType =
@@ -75,8 +85,10 @@ export type EventDetail =
 
 export interface FileOpDetail {
   readonly type: 'file_op';
+  /** Relative to the project root once stored; absolute when outside it */
   readonly path: string;
   readonly operation: 'read' | 'write' | 'edit';
+  readonly outsideProject?: boolean;
 }
 
 export interface ToolCallDetail {
@@ -126,6 +138,51 @@ export interface SessionMetrics {
   readonly decisionsRecorded: number;
   readonly patternsDiscovered: number;
   readonly errorsResolved: number;
+  /** Subagent sessions whose events are included in the counts above */
+  readonly childSessions: number;
+}
+
+/** A commit made during a session, read from `git log` at session end */
+export interface GitCommit {
+  readonly sha: string;
+  readonly subject: string;
+  readonly author: string;
+  readonly committedAt: string;
+}
+
+export type GitChangeType = 'added' | 'modified' | 'deleted' | 'renamed' | 'copied' | 'type_changed';
+
+/** A file changed by a session's commits, relative to the repository root */
+export interface GitFileChange {
+  readonly path: string;
+  readonly changeType: GitChangeType;
+  /** Source path of a rename or copy */
+  readonly previousPath?: string;
+}
+
+/**
+ * How a path on disk maps to a project: by its normalized `origin` remote
+ * when it has one, otherwise by the real path of its git root (or of the
+ * path itself outside git).
+ */
+export interface ProjectIdentity {
+  /** `git:<remote>` or `path:<root>` */
+  readonly projectId: string;
+  readonly rootPath: string;
+  readonly remoteUrl?: string;
+}
+
+/**
+ * A repository as synapse-memory knows it. Project-scoped tables store
+ * `rootPath`; other clones, symlinks and subdirectories are aliases of it.
+ */
+export interface Project {
+  readonly projectId: string;
+  readonly rootPath: string;
+  readonly remoteUrl?: string;
+  readonly createdAt: string;
+  /** Unset for projects backfilled from stored paths and not yet checked against git */
+  readonly identifiedAt?: string;
 }
 
 export interface CreateSessionInput {
@@ -196,6 +253,38 @@ export interface PromotedKnowledge {
   readonly contentHash?: string;
   readonly usageCount?: number;
   readonly supersededBy?: string;
+  readonly updatedAt?: string;
+  readonly retractedAt?: string;
+  readonly retractionReason?: string;
+}
+
+export type RevisionChangeType = 'created' | 'updated' | 'restored';
+
+/**
+ * One recorded version of a promoted knowledge item. Revision 1 is the
+ * promoted text; every edit or restore appends the next number.
+ */
+export interface KnowledgeRevision {
+  readonly revisionId: string;
+  readonly knowledgeId: string;
+  readonly revisionNumber: number;
+  readonly title: string;
+  readonly content: string;
+  readonly knowledgeType: KnowledgeType;
+  readonly tags: readonly string[];
+  readonly sessionId?: string;
+  readonly changeType: RevisionChangeType;
+  readonly createdAt: string;
+}
+
+/**
+ * Editable fields of a promoted knowledge item. Omitted fields are unchanged.
+ */
+export interface KnowledgeUpdate {
+  readonly title?: string;
+  readonly content?: string;
+  readonly knowledgeType?: KnowledgeType;
+  readonly tags?: readonly string[];
 }
 
 /**
@@ -251,6 +340,19 @@ export interface FileImportance {
   readonly editCount: number;
   readonly lastAccessedAt: string;
   readonly importanceScore: number;
+  /** Set when the file no longer exists in the project and was not renamed */
+  readonly deletedAt?: string;
+}
+
+/**
+ * A file seen together with another: touched in the same session or changed
+ * in the same commit.
+ */
+export interface RelatedFile {
+  readonly filePath: string;
+  readonly sessionCount: number;
+  readonly commitCount: number;
+  readonly lastSeenAt: string;
 }
 
 /**
@@ -300,15 +402,43 @@ export interface DuplicateCandidate {
   readonly matchType: 'exact_hash' | 'title_match';
 }
 
+/**
+ * An existing decision that shares a subject with a new one (tags, title
+ * keywords or referenced files) but asserts something different.
+ */
+export interface ConflictCandidate {
+  readonly existingKnowledge: PromotedKnowledge;
+  readonly conflictScore: number;
+  readonly sharedKeywords: readonly string[];
+  readonly sharedTags: readonly string[];
+  readonly sharedFiles: readonly string[];
+}
+
+/**
+ * How promote_knowledge should proceed when conflicts are detected.
+ *   supersede -> the new decision replaces every conflicting one
+ *   coexist   -> both stand; the scope note records where each applies
+ *   abort     -> nothing is promoted
+ */
+export type ConflictResolution = 'supersede' | 'coexist' | 'abort';
+
 /**
  * Context budget configuration for session_start output.
  */
 export interface ContextBudgetConfig {
+  readonly maxTokens?: number;        // default: 2000
+  readonly maxItemTokens?: number;    // default: 150, longer items are truncated
   readonly maxSessions?: number;      // default: 5
   readonly maxKnowledge?: number;     // default: 15
   readonly maxFiles?: number;         // default: 10
 }
 
+/**
+ * Estimates how many model tokens a piece of text costs. Only needs to be
+ * roughly right and monotonic: longer text never costs fewer tokens.
+ */
+export type TokenEstimator = (text: string) => number;
+
 /**
  * Time savings estimates per action type (in seconds).
  */
@@ -318,3 +448,72 @@ export interface TimeSavingsEstimates {
   readonly patternApplied: number;      // 300 seconds (5 min)
   readonly errorPrevented: number;      // 900 seconds (15 min)
 }
+
+// ---------------------------------------------------------------------------
+// v0.3: Search and recall
+// ---------------------------------------------------------------------------
+
+export type SearchSource = 'session' | 'event' | 'knowledge';
+
+/**
+ * A full-text search hit across session summaries, event details and
+ * promoted knowledge. `fields` names the matched fields (e.g. `summary`,
+ * `rationale`, `content`) and `snippet` highlights the match with `**`.
+ */
+export interface SearchHit {
+  readonly source: SearchSource;
+  readonly id: string;
+  readonly sessionId?: string;
+  readonly kind: string;
+  readonly title?: string;
+  readonly fields: readonly string[];
+  readonly snippet: string;
+  readonly score: number;
+}
+
+/**
+ * Turns text into a fixed-size vector for semantic recall. Implementations
+ * must be deterministic for a given `name`: stored vectors are reused until
+ * the embedder name changes or the underlying text is edited.
+ */
+export interface Embedder {
+  readonly name: string;
+  readonly dimensions: number;
+  embed(text: string): Promise<Float32Array>;
+}
+
+/**
+ * A semantic recall hit. `similarity` is the cosine similarity between the
+ * query and item vectors; `score` blends it with the item's branch/recency
+ * relevance from context/scoring.
+ */
+export interface SemanticHit {
+  readonly source: SearchSource;
+  readonly id: string;
+  readonly sessionId?: string;
+  readonly similarity: number;
+  readonly relevanceScore: number;
+  readonly score: number;
+}
+
+/**
+ * What a session touched: the basis for "sessions like this one" matching.
+ */
+export interface SessionFootprint {
+  readonly sessionId: string;
+  readonly branch: string;
+  readonly files: readonly string[];
+  readonly tools: readonly string[];
+  readonly decisionTexts: readonly string[];
+}
+
+/**
+ * A past session ranked by footprint similarity, with human-readable reasons
+ * explaining why it matched.
+ */
+export interface SimilarSession {
+  readonly session: Session;
+  readonly score: number;
+  readonly sharedFiles: readonly string[];
+  readonly reasons: readonly string[];
+}
@@ -1,6 +1,17 @@
 import { randomUUID } from 'node:crypto';
-import { execSync } from 'node:child_process';
-import type { AgentType, EventCategory, EventDetail, EventType } from './types.js';
+import { execFileSync, execSync } from 'node:child_process';
+import { realpathSync } from 'node:fs';
+import { basename, dirname, isAbsolute, join, relative, resolve, sep } from 'node:path';
+import type {
+  AgentType,
+  EventCategory,
+  EventDetail,
+  EventType,
+  GitChangeType,
+  GitCommit,
+  GitFileChange,
+  ProjectIdentity,
+} from './types.js';
 
 const AGENT_DISPLAY_NAMES: Record<AgentType, string> = {
   'claude-code': 'Claude Code',
@@ -95,6 +106,10 @@ export function getGitBranch(cwd: string): string {
   }
 }
 
+export function getGitWorktree(cwd: string): string | undefined {
+  return runGit(cwd, ['rev-parse', '--show-toplevel'])?.trim() || undefined;
+}
+
 export function getGitHead(cwd: string): string | undefined {
   try {
     return execSync('git rev-parse HEAD', {
@@ -107,6 +122,243 @@ export function getGitHead(cwd: string): string | undefined {
   }
 }
 
+// Sessions rarely make more; a long rebase should not flood the database
+const MAX_SESSION_COMMITS = 200;
+
+// A first rename scan looks no further back than this many rename commits
+const MAX_RENAME_COMMITS = 1000;
+
+// Rename scans over long histories print far more than execFileSync's 1 MB default
+const RENAME_SCAN_MAX_BUFFER = 64 * 1024 * 1024;
+
+// Commit IDs come from tool input; anything else never reaches git
+const SHA_PATTERN = /^[0-9a-f]{4,64}$/i;
+
+// Unit separator: cannot appear in commit subjects or author names
+const LOG_FIELD_SEPARATOR = '\x1f';
+
+// Record separator: starts each commit in `git log -z --name-only` output
+const LOG_RECORD_SEPARATOR = '\x1e';
+
+const CHANGE_TYPES: Record<string, GitChangeType> = {
+  A: 'added',
+  M: 'modified',
+  D: 'deleted',
+  R: 'renamed',
+  C: 'copied',
+  T: 'type_changed',
+};
+
+/**
+ * Parse `git log --format=%H%x1f%an%x1f%aI%x1f%s` output.
+ */
+export function parseGitLog(output: string): readonly GitCommit[] {
+  return output.split('\n').flatMap((line) => {
+    const [sha, author, committedAt, ...subject] = line.split(LOG_FIELD_SEPARATOR);
+    return sha && author !== undefined && committedAt
+      ? [{ sha, author, committedAt, subject: subject.join(LOG_FIELD_SEPARATOR) }]
+      : [];
+  });
+}
+
+/**
+ * Parse `git diff -z --name-status` output: a status, then its path, or for
+ * renames and copies a similarity score (`R095`) and both paths, each
+ * NUL-terminated. `-z` keeps paths verbatim instead of C-quoting unusual
+ * characters.
+ */
+export function parseNameStatus(output: string): readonly GitFileChange[] {
+  const fields = output.split('\0');
+  const changes: GitFileChange[] = [];
+  let i = 0;
+  while (i < fields.length) {
+    const status = fields[i++]!.trim();
+    if (!status) {
+      continue;
+    }
+    const changeType = CHANGE_TYPES[status.charAt(0)];
+    const paired = changeType === 'renamed' || changeType === 'copied';
+    const first = fields[i++];
+    const second = paired ? fields[i++] : undefined;
+    if (!changeType || !first || (paired && !second)) {
+      continue;
+    }
+    changes.push(second ? { path: second, changeType, previousPath: first } : { path: first, changeType });
+  }
+  return changes;
+}
+
+/**
+ * Parse `git log -z --format=%x1e%H --name-only` output into the files each
+ * commit changed.
+ */
+export function parseCommitFiles(output: string): ReadonlyMap<string, readonly string[]> {
+  const files = new Map<string, readonly string[]>();
+  for (const record of output.split(LOG_RECORD_SEPARATOR)) {
+    // The file list starts on the line after the commit ID
+    const [sha, ...paths] = record.split('\0');
+    if (sha) {
+      files.set(sha, paths.map((p, i) => (i === 0 ? p.replace(/^\n/, '') : p)).filter(Boolean));
+    }
+  }
+  return files;
+}
+
+function runGit(cwd: string, args: readonly string[], maxBuffer?: number): string | undefined {
+  try {
+    return execFileSync('git', args, {
+      cwd,
+      encoding: 'utf-8',
+      timeout: 5000,
+      maxBuffer,
+      stdio: ['ignore', 'pipe', 'ignore'],
+    });
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Commits reachable from `to` but not `from`, newest first. Empty when
+ * either is not a commit ID or git fails.
+ */
+export function getGitCommits(cwd: string, from: string, to: string): readonly GitCommit[] {
+  if (!SHA_PATTERN.test(from) || !SHA_PATTERN.test(to)) {
+    return [];
+  }
+  const output = runGit(cwd, [
+    'log',
+    `--format=%H%x1f%an%x1f%aI%x1f%s`,
+    `--max-count=${MAX_SESSION_COMMITS}`,
+    `${from}..${to}`,
+  ]);
+  return output ? parseGitLog(output) : [];
+}
+
+/**
+ * Files that differ between two commits, with renames detected.
+ */
+export function getGitChangedFiles(cwd: string, from: string, to: string): readonly GitFileChange[] {
+  if (!SHA_PATTERN.test(from) || !SHA_PATTERN.test(to)) {
+    return [];
+  }
+  const output = runGit(cwd, ['diff', '-z', '--name-status', '-M', from, to]);
+  return output ? parseNameStatus(output) : [];
+}
+
+/**
+ * The files each commit reachable from `to` but not `from` changed, keyed
+ * by commit ID. Renamed files appear under their new path.
+ */
+export function getGitCommitFiles(cwd: string, from: string, to: string): ReadonlyMap<string, readonly string[]> {
+  if (!SHA_PATTERN.test(from) || !SHA_PATTERN.test(to)) {
+    return new Map();
+  }
+  const output = runGit(cwd, [
+    'log',
+    '-z',
+    '--format=%x1e%H',
+    '--name-only',
+    '-M',
+    `--max-count=${MAX_SESSION_COMMITS}`,
+    `${from}..${to}`,
+  ]);
+  return output ? parseCommitFiles(output) : new Map();
+}
+
+/**
+ * Every rename in the commits reachable from `to` but not `from`, oldest
+ * first. `git log --follow` traces one path backwards; carrying a file's
+ * history forward needs the renames of the whole tree. Without `from` the
+ * scan covers commits made after `after`, and at most the latest 1000
+ * renaming commits. Undefined when git fails.
+ */
+export function getGitRenames(
+  cwd: string,
+  from: string | undefined,
+  to: string,
+  after?: string,
+): readonly GitFileChange[] | undefined {
+  if ((from !== undefined && !SHA_PATTERN.test(from)) || !SHA_PATTERN.test(to)) {
+    return undefined;
+  }
+  const bounds = from
+    ? [`${from}..${to}`]
+    : [...(after ? [`--since=${after}`] : []), `--max-count=${MAX_RENAME_COMMITS}`, to];
+  const output = runGit(cwd, [
+    'log', '-z', '--reverse', '-M', '--name-status', '--diff-filter=R', '--format=',
+    ...bounds,
+  ], RENAME_SCAN_MAX_BUFFER);
+  return output === undefined ? undefined : parseNameStatus(output);
+}
+
+export function getGitRemoteUrl(cwd: string): string | undefined {
+  return runGit(cwd, ['remote', 'get-url', 'origin'])?.trim() || undefined;
+}
+
+/**
+ * Reduce a remote URL to `host/path` so the HTTPS and SSH forms of the same
+ * remote compare equal: scheme, credentials, port and `.git` are dropped and
+ * the result is lowercased.
+ */
+export function normalizeRemoteUrl(url: string): string {
+  const trimmed = url.trim();
+  // scp-like syntax: git@github.com:org/repo.git
+  const scp = /^[^/@:]+@([^/:]+):(.*)$/.exec(trimmed);
+  const hostPath = scp
+    ? `${scp[1]}/${scp[2]}`
+    : trimmed
+      .replace(/^[a-z][a-z0-9+.-]*:\/\//i, '')
+      .replace(/^[^/@]*@/, '')
+      .replace(/^([^/:]+):\d+(?=\/)/, '$1');
+  return hostPath.replace(/\/+$/, '').replace(/\.git$/i, '').toLowerCase();
+}
+
+/**
+ * The real path, with symlinks resolved and, on case-insensitive
+ * filesystems, the case as stored on disk. For a path that does not exist
+ * (yet), its nearest existing ancestor is resolved instead.
+ */
+function realPathOrResolved(path: string): string {
+  const absolute = resolve(path);
+  try {
+    return realpathSync.native(absolute);
+  } catch {
+    const parent = dirname(absolute);
+    return parent === absolute ? absolute : join(realPathOrResolved(parent), basename(absolute));
+  }
+}
+
+/**
+ * A file path as stored for a project: relative to the root with `/`
+ * separators, whether it arrived absolute, relative, with `./` or `..`, or
+ * through a symlink. Paths outside the root stay absolute and are flagged.
+ */
+export function normalizeFilePath(rootPath: string, filePath: string): { path: string; outsideProject: boolean } {
+  const root = realPathOrResolved(rootPath);
+  const absolute = realPathOrResolved(isAbsolute(filePath) ? filePath : join(root, filePath));
+  const relativePath = relative(root, absolute);
+
+  if (relativePath === '..' || relativePath.startsWith(`..${sep}`) || isAbsolute(relativePath)) {
+    return { path: absolute.split(sep).join('/'), outsideProject: true };
+  }
+  return { path: relativePath.split(sep).join('/') || '.', outsideProject: false };
+}
+
+export function detectProjectIdentity(path: string): ProjectIdentity {
+  const real = realPathOrResolved(path);
+  const gitRoot = runGit(real, ['rev-parse', '--show-toplevel'])?.trim() || undefined;
+  const rootPath = gitRoot ? realPathOrResolved(gitRoot) : real;
+  const remote = gitRoot ? getGitRemoteUrl(rootPath) : undefined;
+  const remoteUrl = remote ? normalizeRemoteUrl(remote) : undefined;
+
+  return {
+    projectId: remoteUrl ? `git:${remoteUrl}` : `path:${rootPath}`,
+    rootPath,
+    remoteUrl,
+  };
+}
+
 export function periodToDate(period: 'day' | 'week' | 'month' | 'all'): string | undefined {
   if (period === 'all') {
     return undefined;
@@ -0,0 +1,92 @@
+import { describe, it, expect } from 'vitest';
+import { allocateBudget, estimateTokens, truncateToTokens } from '../../src/context/budget.js';
+import type { BudgetCandidate } from '../../src/context/budget.js';
+
+function candidate(
+  section: BudgetCandidate['section'],
+  id: string,
+  score: number,
+  tokens: number,
+  minTokens = tokens,
+): BudgetCandidate {
+  return { section, id, score, tokens, minTokens };
+}
+
+describe('estimateTokens', () => {
+  it('counts roughly four characters per token', () => {
+    expect(estimateTokens('')).toBe(0);
+    expect(estimateTokens('abcd')).toBe(1);
+    expect(estimateTokens('abcde')).toBe(2);
+  });
+});
+
+describe('truncateToTokens', () => {
+  it('returns text that already fits unchanged', () => {
+    expect(truncateToTokens('short text', 10)).toBe('short text');
+  });
+
+  it('cuts at a word boundary and marks the cut', () => {
+    const text = 'Use SQLite with WAL mode so readers never block the single writer process';
+    const cut = truncateToTokens(text, 8);
+
+    expect(cut.endsWith('…')).toBe(true);
+    expect(estimateTokens(cut)).toBeLessThanOrEqual(8);
+    expect(text.startsWith(cut.slice(0, -1))).toBe(true);
+    expect(cut).not.toMatch(/\s…$/);
+  });
+
+  it('uses the given estimator', () => {
+    const words = (text: string) => text.split(/\s+/).filter(Boolean).length;
+    expect(truncateToTokens('one two three four five', 3, words)).toBe('one two three…');
+  });
+});
+
+describe('allocateBudget', () => {
+  it('includes everything in full when it fits', () => {
+    const result = allocateBudget([
+      candidate('knowledge', 'k1', 1, 20),
+      candidate('sessions', 's1', 1, 30),
+      candidate('files', 'f1', 5, 10),
+    ], { maxTokens: 100 });
+
+    expect(result.granted.knowledge.get('k1')).toBe(20);
+    expect(result.granted.sessions.get('s1')).toBe(30);
+    expect(result.granted.files.get('f1')).toBe(10);
+    expect(result.omitted).toHaveLength(0);
+    expect(result.usedTokens).toBe(60);
+  });
+
+  it('favours higher scores across sections and omits what does not fit', () => {
+    const result = allocateBudget([
+      candidate('files', 'f1', 40, 30),
+      candidate('knowledge', 'k1', 0.9, 30),
+      candidate('knowledge', 'k2', 0.3, 30),
+    ], { maxTokens: 60 });
+
+    expect([...result.granted.knowledge.keys()]).toEqual(['k1']);
+    expect(result.granted.files.has('f1')).toBe(true);
+    expect(result.omitted.map((c) => c.id)).toEqual(['k2']);
+  });
+
+  it('shortens long items and fills the remainder', () => {
+    const result = allocateBudget([
+      candidate('knowledge', 'long', 1, 500, 20),
+      candidate('knowledge', 'tail', 0.5, 200, 20),
+    ], { maxTokens: 200, maxItemTokens: 150 });
+
+    expect(result.granted.knowledge.get('long')).toBe(150);
+    expect(result.granted.knowledge.get('tail')).toBe(50);
+    expect(result.usedTokens).toBe(200);
+  });
+
+  it('enforces per-section item limits', () => {
+    const result = allocateBudget([
+      candidate('sessions', 's1', 1, 5),
+      candidate('sessions', 's2', 0.9, 5),
+      candidate('sessions', 's3', 0.8, 5),
+    ], { maxTokens: 1000, maxSessions: 2 });
+
+    expect(result.granted.sessions.size).toBe(2);
+    expect(result.omitted.map((c) => c.id)).toEqual(['s3']);
+  });
+});
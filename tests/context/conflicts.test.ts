@@ -0,0 +1,92 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import type Database from 'better-sqlite3';
+import { createInMemoryDatabase } from '../../src/storage/database.js';
+import { insertKnowledge } from '../../src/storage/knowledge.js';
+import { computeContentHash, markSuperseded } from '../../src/context/deduplication.js';
+import { extractFileRefs, findConflicts } from '../../src/context/conflicts.js';
+import type { PromotedKnowledge } from '../../src/types.js';
+
+function seedDecision(db: Database.Database, overrides: Partial<PromotedKnowledge> = {}): void {
+  const content = overrides.content ?? 'Embedded database, zero infrastructure';
+  insertKnowledge(db, {
+    knowledgeId: 'k1',
+    projectPath: '/test/project',
+    title: 'Use SQLite for storage',
+    content,
+    knowledgeType: 'decision',
+    tags: [],
+    createdAt: '2026-01-15T10:00:00.000Z',
+    contentHash: computeContentHash(content),
+    ...overrides,
+  });
+}
+
+describe('conflict detection', () => {
+  let db: Database.Database;
+
+  beforeEach(() => {
+    db = createInMemoryDatabase();
+  });
+
+  describe('extractFileRefs', () => {
+    it('finds paths and file names', () => {
+      expect(extractFileRefs('Edit src/storage/db.ts and package.json, e.g. later')).toEqual([
+        'src/storage/db.ts',
+        'package.json',
+      ]);
+    });
+  });
+
+  describe('findConflicts', () => {
+    it('flags a decision on the same subject with a different choice', () => {
+      seedDecision(db);
+
+      const conflicts = findConflicts(db, '/test/project', 'Use Postgres for storage', 'Need concurrent writers');
+      expect(conflicts).toHaveLength(1);
+      expect(conflicts[0]?.existingKnowledge.knowledgeId).toBe('k1');
+      expect(conflicts[0]?.sharedKeywords).toEqual(['use', 'storage']);
+    });
+
+    it('uses shared tags and files as subject signals', () => {
+      seedDecision(db, {
+        title: 'Cache sessions in memory',
+        content: 'See src/cache.ts',
+        tags: ['caching'],
+      });
+
+      const conflicts = findConflicts(
+        db,
+        '/test/project',
+        'Cache sessions in Redis',
+        'Replace src/cache.ts backend',
+        ['caching'],
+      );
+      expect(conflicts[0]?.sharedTags).toEqual(['caching']);
+      expect(conflicts[0]?.sharedFiles).toEqual(['src/cache.ts']);
+    });
+
+    it('ignores unrelated decisions and refinements', () => {
+      seedDecision(db);
+
+      expect(findConflicts(db, '/test/project', 'Use Zod for validation', 'Runtime checks')).toHaveLength(0);
+      expect(findConflicts(db, '/test/project', 'Use SQLite', 'Short form')).toHaveLength(0);
+    });
+
+    it('leaves duplicates to findDuplicates', () => {
+      seedDecision(db);
+
+      expect(findConflicts(db, '/test/project', 'Something else entirely', 'Embedded database, zero infrastructure')).toHaveLength(0);
+      expect(findConflicts(db, '/test/project', 'Use SQLite for storage!', 'Different words')).toHaveLength(0);
+    });
+
+    it('skips superseded and non-decision knowledge', () => {
+      seedDecision(db);
+      seedDecision(db, { knowledgeId: 'k2', title: 'Use SQLite for all storage', content: 'v2' });
+      markSuperseded(db, 'k1', 'k2');
+      seedDecision(db, { knowledgeId: 'p1', title: 'Use MySQL for storage', content: 'pattern', knowledgeType: 'pattern' });
+
+      const conflicts = findConflicts(db, '/test/project', 'Use Postgres for storage', 'Concurrency');
+      expect(conflicts.map((c) => c.existingKnowledge.knowledgeId)).toEqual(['k2']);
+    });
+  });
+});
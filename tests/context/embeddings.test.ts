@@ -0,0 +1,65 @@
+import { describe, it, expect } from 'vitest';
+import {
+  createHashingEmbedder,
+  cosineSimilarity,
+  normalize,
+  tokenize,
+} from '../../src/context/embeddings.js';
+
+describe('embeddings', () => {
+  describe('tokenize', () => {
+    it('lowercases and drops stop words', () => {
+      expect(tokenize('How did we handle the Auth token?')).toEqual(['handle', 'auth', 'token']);
+    });
+  });
+
+  describe('createHashingEmbedder', () => {
+    const embedder = createHashingEmbedder(256);
+
+    it('produces unit vectors of the configured size', async () => {
+      const vector = await embedder.embed('Refresh tokens before expiry');
+      expect(vector).toHaveLength(256);
+      expect(cosineSimilarity(vector, vector)).toBeCloseTo(1, 5);
+      expect(embedder.name).toBe('hashing-v1-256');
+    });
+
+    it('is deterministic', async () => {
+      const a = await embedder.embed('Use SQLite for storage');
+      const b = await embedder.embed('Use SQLite for storage');
+      expect(Array.from(a)).toEqual(Array.from(b));
+    });
+
+    it('scores related wording above unrelated text', async () => {
+      const query = await embedder.embed('how did we handle auth token refresh?');
+      const related = await embedder.embed('Refreshing expired authentication tokens via interceptor');
+      const unrelated = await embedder.embed('Tweaked CSS grid layout on dashboard');
+
+      expect(cosineSimilarity(query, related)).toBeGreaterThan(cosineSimilarity(query, unrelated));
+    });
+
+    it('returns a zero vector for text with no words', async () => {
+      const vector = await embedder.embed('  ?! ');
+      expect(Array.from(vector).every((v) => v === 0)).toBe(true);
+    });
+  });
+
+  describe('cosineSimilarity', () => {
+    it('returns 0 for mismatched dimensions or zero vectors', () => {
+      expect(cosineSimilarity(new Float32Array([1, 0]), new Float32Array([1, 0, 0]))).toBe(0);
+      expect(cosineSimilarity(new Float32Array([0, 0]), new Float32Array([1, 0]))).toBe(0);
+    });
+
+    it('computes the angle between vectors', () => {
+      expect(cosineSimilarity(new Float32Array([1, 0]), new Float32Array([0, 1]))).toBe(0);
+      expect(cosineSimilarity(new Float32Array([2, 0]), new Float32Array([1, 0]))).toBeCloseTo(1);
+    });
+  });
+
+  describe('normalize', () => {
+    it('scales to unit length', () => {
+      const v = normalize(new Float32Array([3, 4]));
+      expect(v[0]).toBeCloseTo(0.6);
+      expect(v[1]).toBeCloseTo(0.8);
+    });
+  });
+});
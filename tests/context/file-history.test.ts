@@ -0,0 +1,118 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { execFileSync } from 'node:child_process';
+import { mkdirSync, mkdtempSync, realpathSync, rmSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import type Database from 'better-sqlite3';
+import { createInMemoryDatabase } from '../../src/storage/database.js';
+import { createSession } from '../../src/storage/sessions.js';
+import { insertEvent, getSessionEvents } from '../../src/storage/events.js';
+import { upsertFileAccess, getImportantFiles, getTrackedFiles } from '../../src/storage/file-importance.js';
+import { getReconciledWorktrees } from '../../src/storage/projects.js';
+import { getRelatedFiles, recordCoAccess } from '../../src/storage/co-access.js';
+import { resolveProjectPath } from '../../src/context/projects.js';
+import { reconcileFiles } from '../../src/context/file-history.js';
+
+function git(cwd: string, ...args: string[]): string {
+  return execFileSync('git', args, { cwd, encoding: 'utf-8', stdio: ['ignore', 'pipe', 'ignore'] }).trim();
+}
+
+describe('reconcileFiles', () => {
+  let db: Database.Database;
+  let repo: string;
+  let projectPath: string;
+
+  beforeEach(() => {
+    db = createInMemoryDatabase();
+    repo = realpathSync(mkdtempSync(join(tmpdir(), 'synapse-history-')));
+    git(repo, 'init', '-q', '-b', 'main');
+    git(repo, 'config', 'user.email', 'ada@example.com');
+    git(repo, 'config', 'user.name', 'Ada');
+    mkdirSync(join(repo, 'src'));
+    writeFileSync(join(repo, 'src/a.ts'), 'export const a = 1;\n'.repeat(20));
+    writeFileSync(join(repo, 'src/b.ts'), 'export const b = 2;\n');
+    git(repo, 'add', '-A');
+    git(repo, 'commit', '-q', '-m', 'Initial');
+
+    projectPath = resolveProjectPath(db, repo);
+    upsertFileAccess(db, projectPath, 'src/a.ts', 'read');
+    upsertFileAccess(db, projectPath, 'src/a.ts', 'edit');
+    upsertFileAccess(db, projectPath, 'src/b.ts', 'read');
+    recordCoAccess(db, projectPath, ['src/a.ts', 'README.md'], 'session', '2026-01-15T11:00:00.000Z');
+    createSession(db, {
+      sessionId: 's1',
+      projectPath,
+      branch: 'main',
+      startedAt: '2026-01-15T10:00:00.000Z',
+      status: 'completed',
+    });
+    insertEvent(db, {
+      eventId: 'e1',
+      sessionId: 's1',
+      timestamp: '2026-01-15T10:05:00.000Z',
+      eventType: 'pattern',
+      category: 'other',
+      detail: { type: 'pattern', description: 'Constants module', files: [join(repo, 'src/a.ts'), 'README.md'] },
+    });
+  });
+
+  afterEach(() => {
+    rmSync(repo, { recursive: true, force: true });
+  });
+
+  it('carries counts over renames and marks deleted files', () => {
+    git(repo, 'mv', 'src/a.ts', 'src/constants.ts');
+    git(repo, 'commit', '-q', '-m', 'Rename');
+    git(repo, 'mv', 'src/constants.ts', 'lib.ts');
+    git(repo, 'rm', '-q', 'src/b.ts');
+    git(repo, 'commit', '-q', '-m', 'Move and delete');
+
+    const result = reconcileFiles(db, projectPath, repo);
+
+    expect(result).toEqual({ renamed: [{ from: 'src/a.ts', to: 'lib.ts' }], deleted: ['src/b.ts'], restored: [] });
+    expect(getImportantFiles(db, projectPath)).toEqual([
+      expect.objectContaining({ filePath: 'lib.ts', readCount: 1, editCount: 1 }),
+    ]);
+    expect(getTrackedFiles(db, projectPath).find((f) => f.filePath === 'src/b.ts')?.deletedAt).toBeDefined();
+    expect(getSessionEvents(db, 's1')[0]?.detail).toMatchObject({ files: ['lib.ts', 'README.md'] });
+    expect(getRelatedFiles(db, projectPath, 'README.md').map((r) => r.filePath)).toEqual(['lib.ts']);
+    expect(getReconciledWorktrees(db, projectPath).get(repo)).toBe(git(repo, 'rev-parse', 'HEAD'));
+  });
+
+  it('restores a deleted file that comes back, and is a no-op otherwise', () => {
+    rmSync(join(repo, 'src/b.ts'));
+    expect(reconcileFiles(db, projectPath, repo).deleted).toEqual(['src/b.ts']);
+    expect(reconcileFiles(db, projectPath, repo)).toEqual({ renamed: [], deleted: [], restored: [] });
+
+    git(repo, 'checkout', '--', 'src/b.ts');
+    expect(reconcileFiles(db, projectPath, repo).restored).toEqual(['src/b.ts']);
+    expect(getImportantFiles(db, projectPath).map((f) => f.filePath)).toContain('src/b.ts');
+  });
+
+  it('keeps files another worktree still has, and tracks each worktree\'s commit', () => {
+    const worktree = `${repo}-feature`;
+    git(repo, 'worktree', 'add', '-q', '-b', 'feature', worktree);
+    try {
+      writeFileSync(join(worktree, 'src/feature.ts'), 'export const feature = true;\n');
+      git(worktree, 'add', '-A');
+      git(worktree, 'commit', '-q', '-m', 'Feature');
+      upsertFileAccess(db, projectPath, 'src/feature.ts', 'edit');
+
+      expect(reconcileFiles(db, projectPath, worktree).deleted).toEqual([]);
+      expect(reconcileFiles(db, projectPath, repo).deleted).toEqual([]);
+      expect(getReconciledWorktrees(db, projectPath)).toEqual(new Map([
+        [worktree, git(worktree, 'rev-parse', 'HEAD')],
+        [repo, git(repo, 'rev-parse', 'HEAD')],
+      ]));
+
+      rmSync(worktree, { recursive: true, force: true });
+      expect(reconcileFiles(db, projectPath, repo).deleted).toEqual(['src/feature.ts']);
+    } finally {
+      rmSync(worktree, { recursive: true, force: true });
+    }
+  });
+
+  it('leaves projects that are not git checkouts alone', () => {
+    expect(reconcileFiles(db, '/test/project', '/test/project')).toEqual({ renamed: [], deleted: [], restored: [] });
+  });
+});
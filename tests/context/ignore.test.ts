@@ -0,0 +1,76 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { mkdtempSync, rmSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { createIgnoreMatcher, DEFAULT_IGNORE_PATTERNS, loadIgnoreMatcher } from '../../src/context/ignore.js';
+
+describe('createIgnoreMatcher', () => {
+  it('matches gitignore-style patterns', () => {
+    const matcher = createIgnoreMatcher([
+      '# generated',
+      '*.snap',
+      '/config/local.json',
+      'docs/**/drafts/',
+      'tmp/',
+      'secret?.txt',
+    ]);
+
+    expect(matcher.ignores('src/__snapshots__/app.test.ts.snap')).toBe(true);
+    expect(matcher.ignores('config/local.json')).toBe(true);
+    expect(matcher.ignores('packages/a/config/local.json')).toBe(false);
+    expect(matcher.ignores('docs/drafts/idea.md')).toBe(true);
+    expect(matcher.ignores('docs/guide/drafts/idea.md')).toBe(true);
+    expect(matcher.ignores('packages/a/tmp/out.txt')).toBe(true);
+    expect(matcher.ignores('src/tmp.ts')).toBe(false);
+    expect(matcher.ignores('secret1.txt')).toBe(true);
+    expect(matcher.ignores('src/index.ts')).toBe(false);
+  });
+
+  it('re-includes with negation, except under an ignored directory', () => {
+    const matcher = createIgnoreMatcher(['*.json', '!package.json', 'vendor/', '!vendor/keep.js']);
+
+    expect(matcher.ignores('tsconfig.json')).toBe(true);
+    expect(matcher.ignores('package.json')).toBe(false);
+    expect(matcher.ignores('vendor/keep.js')).toBe(true);
+  });
+
+  it('makes absolute paths inside the root relative to it', () => {
+    const matcher = createIgnoreMatcher(['/build/', 'node_modules/'], '/home/me/app');
+
+    expect(matcher.ignores('/home/me/app/build/index.js')).toBe(true);
+    expect(matcher.ignores('/home/me/app/src/build.ts')).toBe(false);
+    expect(matcher.ignores('/elsewhere/node_modules/zod/index.js')).toBe(true);
+  });
+
+  it('ignores dependencies, build output, lockfiles and env files by default', () => {
+    const matcher = createIgnoreMatcher(DEFAULT_IGNORE_PATTERNS);
+
+    for (const path of ['node_modules/zod/index.js', 'dist/index.js', 'package-lock.json', '.env', 'api/.env.local']) {
+      expect(matcher.ignores(path), path).toBe(true);
+    }
+    for (const path of ['src/index.ts', '.env.example', 'README.md']) {
+      expect(matcher.ignores(path), path).toBe(false);
+    }
+  });
+});
+
+describe('loadIgnoreMatcher', () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), 'synapse-ignore-'));
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('applies the project .synapseignore after the defaults', () => {
+    writeFileSync(join(dir, '.synapseignore'), 'fixtures/\n!dist/\n');
+    const matcher = loadIgnoreMatcher(dir);
+
+    expect(matcher.ignores(join(dir, 'fixtures/big.json'))).toBe(true);
+    expect(matcher.ignores(join(dir, 'dist/index.js'))).toBe(false);
+    expect(matcher.ignores(join(dir, 'node_modules/zod/index.js'))).toBe(true);
+  });
+});
@@ -0,0 +1,109 @@
+import { describe, it, expect } from 'vitest';
+import { deriveTitle, parseAdr, parseInstructionsFile } from '../../src/context/import.js';
+import { MANAGED_BLOCK_END, MANAGED_BLOCK_START } from '../../src/context/instructions.js';
+
+describe('knowledge import parsing', () => {
+  describe('deriveTitle', () => {
+    it('uses the lead-in before a colon', () => {
+      expect(deriveTitle('**Errors**: wrap storage errors in tool results')).toBe('Errors');
+    });
+
+    it('uses the first sentence otherwise', () => {
+      expect(deriveTitle('Prefer readonly arrays. Mutation causes bugs.')).toBe('Prefer readonly arrays');
+    });
+
+    it('truncates long titles', () => {
+      const title = deriveTitle('word '.repeat(40));
+      expect(title.length).toBeLessThanOrEqual(80);
+      expect(title.endsWith('…')).toBe(true);
+    });
+  });
+
+  describe('parseInstructionsFile', () => {
+    it('turns top-level bullets into tagged patterns', () => {
+      const { candidates } = parseInstructionsFile([
+        '# Project',
+        '',
+        '## Code Style',
+        '',
+        '- Use `readonly` on all interface fields',
+        '  - including nested types',
+        '- Return errors as tool results, never throw',
+        '',
+        '## Files',
+        '',
+        '- `src/`',
+      ].join('\n'), 'CLAUDE.md');
+
+      expect(candidates).toHaveLength(2);
+      expect(candidates[0]).toMatchObject({
+        title: 'Use readonly on all interface fields',
+        knowledgeType: 'pattern',
+        tags: ['imported', 'code-style'],
+        source: 'CLAUDE.md',
+      });
+      expect(candidates[0]?.content).toContain('- including nested types');
+    });
+
+    it('ignores the generated block', () => {
+      const { candidates } = parseInstructionsFile([
+        MANAGED_BLOCK_START,
+        '- **Use SQLite** — Embedded database for storage',
+        MANAGED_BLOCK_END,
+        '- Run the full test suite before pushing',
+      ].join('\n'), 'CLAUDE.md');
+
+      expect(candidates.map((c) => c.title)).toEqual(['Run the full test suite before pushing']);
+    });
+
+    it('does not treat bullets inside code fences as conventions', () => {
+      const { candidates } = parseInstructionsFile('```\n- not a real bullet here\n```\n', 'AGENTS.md');
+      expect(candidates).toHaveLength(0);
+    });
+  });
+
+  describe('parseAdr', () => {
+    it('parses a Nygard-style ADR', () => {
+      const { candidates } = parseAdr([
+        '# 2. Use SQLite for storage',
+        '',
+        '## Status',
+        'Accepted',
+        '',
+        '## Context',
+        'We need zero-infrastructure persistence.',
+        '',
+        '## Decision',
+        'Store everything in a local SQLite file.',
+      ].join('\n'), 'docs/adr/0002-use-sqlite.md');
+
+      expect(candidates).toEqual([{
+        title: 'Use SQLite for storage',
+        content: 'Store everything in a local SQLite file.\n\nContext: We need zero-infrastructure persistence.',
+        knowledgeType: 'decision',
+        tags: ['imported', 'adr'],
+        source: 'docs/adr/0002-use-sqlite.md',
+      }]);
+    });
+
+    it('reads MADR front matter status and skips superseded records', () => {
+      const { candidates, skipped } = parseAdr([
+        '---',
+        'status: superseded by ADR-0005',
+        '---',
+        '# ADR-0003: Use Redis',
+        '',
+        '## Decision Outcome',
+        'Chosen option: Redis.',
+      ].join('\n'), 'docs/adr/0003.md');
+
+      expect(candidates).toHaveLength(0);
+      expect(skipped[0]).toMatchObject({ title: 'Use Redis', reason: 'ADR status is superseded' });
+    });
+
+    it('skips files without a title', () => {
+      const { skipped } = parseAdr('Just some notes', 'docs/adr/notes.md');
+      expect(skipped[0]?.reason).toBe('no title heading');
+    });
+  });
+});
@@ -0,0 +1,145 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { mkdirSync, mkdtempSync, realpathSync, rmSync, symlinkSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import {
+  MANAGED_BLOCK_END,
+  MANAGED_BLOCK_START,
+  mergeManagedBlock,
+  renderInstructions,
+  resolveInstructionsPath,
+} from '../../src/context/instructions.js';
+import type { PromotedKnowledge, ScoredKnowledge } from '../../src/types.js';
+
+function scored(overrides: Partial<PromotedKnowledge>, relevanceScore: number): ScoredKnowledge {
+  return {
+    knowledge: {
+      knowledgeId: 'k1',
+      projectPath: '/test/project',
+      title: 'Use SQLite',
+      content: 'Embedded database',
+      knowledgeType: 'decision',
+      tags: [],
+      createdAt: '2026-01-15T10:00:00.000Z',
+      ...overrides,
+    },
+    relevanceScore,
+    branchWeight: 1.0,
+    recencyWeight: 1.0,
+  };
+}
+
+describe('instructions rendering', () => {
+  describe('renderInstructions', () => {
+    it('groups by type in a fixed section order', () => {
+      const body = renderInstructions([
+        scored({ knowledgeId: 'p', title: 'Immutable types', knowledgeType: 'pattern' }, 0.9),
+        scored({ knowledgeId: 'd', title: 'Use SQLite', knowledgeType: 'decision' }, 0.5),
+      ], 'claude');
+
+      expect(body.indexOf('### Decisions')).toBeLessThan(body.indexOf('### Patterns'));
+      expect(body).toContain('- **Use SQLite** — Embedded database');
+      expect(body).not.toContain('### Milestones');
+    });
+
+    it('orders by score, then usage', () => {
+      const body = renderInstructions([
+        scored({ knowledgeId: 'a', title: 'Low' }, 0.2),
+        scored({ knowledgeId: 'b', title: 'Rarely used', usageCount: 1 }, 0.6),
+        scored({ knowledgeId: 'c', title: 'Often used', usageCount: 9 }, 0.6),
+      ], 'agents');
+
+      const order = ['Often used', 'Rarely used', 'Low'].map((t) => body.indexOf(t));
+      expect(order).toEqual([...order].sort((x, y) => x - y));
+    });
+
+    it('renders plain lines for cursorrules', () => {
+      const body = renderInstructions([scored({}, 0.5)], 'cursorrules');
+
+      expect(body).toContain('Decisions:');
+      expect(body).toContain('- Use SQLite: Embedded database');
+      expect(body).not.toContain('**');
+    });
+
+    it('indents multi-line content under its bullet', () => {
+      const body = renderInstructions([scored({ content: 'First line\nSecond line' }, 0.5)], 'claude');
+
+      expect(body).toContain('First line\n  Second line');
+    });
+
+    it('notes when there is no knowledge', () => {
+      expect(renderInstructions([], 'claude')).toContain('No promoted knowledge yet');
+    });
+  });
+
+  describe('mergeManagedBlock', () => {
+    it('creates a file containing only the block', () => {
+      expect(mergeManagedBlock(undefined, 'body')).toBe(`${MANAGED_BLOCK_START}\nbody\n${MANAGED_BLOCK_END}\n`);
+    });
+
+    it('appends the block after hand-written content', () => {
+      const merged = mergeManagedBlock('# My project\n', 'body');
+
+      expect(merged).toBe(`# My project\n\n${MANAGED_BLOCK_START}\nbody\n${MANAGED_BLOCK_END}\n`);
+    });
+
+    it('replaces only the block and keeps surrounding content', () => {
+      const existing = `# Intro\n\n${MANAGED_BLOCK_START}\nold\n${MANAGED_BLOCK_END}\n\n## Notes\nkeep me\n`;
+      const merged = mergeManagedBlock(existing, 'new');
+
+      expect(merged).toBe(`# Intro\n\n${MANAGED_BLOCK_START}\nnew\n${MANAGED_BLOCK_END}\n\n## Notes\nkeep me\n`);
+    });
+
+    it('refuses a start marker with no end marker after it', () => {
+      const existing = `# Intro\n${MANAGED_BLOCK_END}\n${MANAGED_BLOCK_START}\nold\n\n## Notes\nkeep me\n`;
+
+      expect(() => mergeManagedBlock(existing, 'new')).toThrow(/without a <!-- synapse-memory:end -->/);
+    });
+
+    it('is idempotent', () => {
+      const once = mergeManagedBlock('# Intro\n', 'body');
+      expect(mergeManagedBlock(once, 'body')).toBe(once);
+    });
+  });
+
+  describe('resolveInstructionsPath', () => {
+    let dir: string;
+    let projectPath: string;
+
+    beforeEach(() => {
+      dir = realpathSync(mkdtempSync(join(tmpdir(), 'synapse-instructions-path-')));
+      projectPath = join(dir, 'project');
+      mkdirSync(join(projectPath, 'packages/app'), { recursive: true });
+      writeFileSync(join(dir, '.bashrc'), 'export PATH\n');
+    });
+
+    afterEach(() => {
+      rmSync(dir, { recursive: true, force: true });
+    });
+
+    it('defaults to the format\'s file in the project root', () => {
+      expect(resolveInstructionsPath(projectPath, 'agents')).toBe(join(projectPath, 'AGENTS.md'));
+    });
+
+    it('accepts instruction files in subdirectories, relative or absolute', () => {
+      expect(resolveInstructionsPath(projectPath, 'claude', 'packages/app/CLAUDE.md'))
+        .toBe(join(projectPath, 'packages/app/CLAUDE.md'));
+      expect(resolveInstructionsPath(projectPath, 'claude', join(projectPath, '.cursorrules')))
+        .toBe(join(projectPath, '.cursorrules'));
+    });
+
+    it('rejects files outside the project', () => {
+      expect(() => resolveInstructionsPath(projectPath, 'claude', join(dir, '.bashrc'))).toThrow(/outside the project/);
+      expect(() => resolveInstructionsPath(projectPath, 'claude', '../CLAUDE.md')).toThrow(/outside the project/);
+    });
+
+    it('rejects symlinks that lead outside the project', () => {
+      symlinkSync(join(dir, '.bashrc'), join(projectPath, 'CLAUDE.md'));
+      expect(() => resolveInstructionsPath(projectPath, 'claude')).toThrow(/outside the project/);
+    });
+
+    it('rejects files that are not instruction files', () => {
+      expect(() => resolveInstructionsPath(projectPath, 'claude', 'package.json')).toThrow(/not an instruction file/);
+    });
+  });
+});
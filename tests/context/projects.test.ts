@@ -0,0 +1,107 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { execFileSync } from 'node:child_process';
+import { mkdirSync, mkdtempSync, realpathSync, rmSync, symlinkSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import type Database from 'better-sqlite3';
+import { createInMemoryDatabase } from '../../src/storage/database.js';
+import { createSession, getSession } from '../../src/storage/sessions.js';
+import { getProject, getProjectAliases } from '../../src/storage/projects.js';
+import { resolveProject, resolveProjectPath } from '../../src/context/projects.js';
+
+function initRepo(path: string, remote?: string): void {
+  mkdirSync(join(path, 'src'), { recursive: true });
+  execFileSync('git', ['init', '-q'], { cwd: path, stdio: 'ignore' });
+  if (remote) {
+    execFileSync('git', ['remote', 'add', 'origin', remote], { cwd: path, stdio: 'ignore' });
+  }
+}
+
+// What the v12 migration leaves for a path stored before project identity
+function backfill(db: Database.Database, path: string): void {
+  db.prepare('INSERT INTO projects (project_id, root_path) VALUES (?, ?)').run(`path:${path}`, path);
+  db.prepare('INSERT INTO project_aliases (alias_path, project_id) VALUES (?, ?)').run(path, `path:${path}`);
+}
+
+describe('resolveProject', () => {
+  let db: Database.Database;
+  let dir: string;
+
+  beforeEach(() => {
+    db = createInMemoryDatabase();
+    dir = realpathSync(mkdtempSync(join(tmpdir(), 'synapse-projects-')));
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('maps clones, symlinks and subdirectories of one repository to the first root seen', () => {
+    const home = join(dir, 'home-app');
+    const work = join(dir, 'work-app');
+    initRepo(home, 'https://github.com/acme/app.git');
+    initRepo(work, 'git@github.com:acme/app.git');
+    symlinkSync(home, join(dir, 'link'));
+
+    expect(resolveProjectPath(db, join(home, 'src'))).toBe(home);
+    expect(resolveProjectPath(db, work)).toBe(home);
+    expect(resolveProjectPath(db, join(dir, 'link'))).toBe(home);
+
+    const project = resolveProject(db, home);
+    expect(project).toMatchObject({ projectId: 'git:github.com/acme/app', remoteUrl: 'github.com/acme/app' });
+    expect(getProjectAliases(db, project.projectId)).toEqual(
+      [home, join(home, 'src'), join(dir, 'link'), work].sort(),
+    );
+  });
+
+  it('keeps repositories without a shared remote apart', () => {
+    const one = join(dir, 'one');
+    const two = join(dir, 'two');
+    initRepo(one);
+    initRepo(two);
+
+    expect(resolveProject(db, one).projectId).toBe(`path:${one}`);
+    expect(resolveProject(db, two).projectId).toBe(`path:${two}`);
+  });
+
+  it('identifies a backfilled project once, keeping its stored rows where they are', () => {
+    const repo = join(dir, 'app');
+    initRepo(repo, 'git@github.com:acme/app.git');
+    backfill(db, repo);
+
+    const project = resolveProject(db, repo);
+
+    expect(project).toMatchObject({ projectId: 'git:github.com/acme/app', rootPath: repo });
+    expect(project.identifiedAt).toBeDefined();
+    expect(getProject(db, `path:${repo}`)).toBeUndefined();
+  });
+
+  it('merges a backfilled clone into the project git says it belongs to', () => {
+    const home = join(dir, 'home-app');
+    const work = join(dir, 'work-app');
+    initRepo(home, 'git@github.com:acme/app.git');
+    initRepo(work, 'git@github.com:acme/app.git');
+    resolveProject(db, home);
+    backfill(db, work);
+    createSession(db, {
+      sessionId: 's1',
+      projectPath: work,
+      branch: 'main',
+      startedAt: '2026-01-15T10:00:00.000Z',
+      status: 'completed',
+    });
+
+    expect(resolveProjectPath(db, work)).toBe(home);
+    expect(getSession(db, 's1')?.projectPath).toBe(home);
+    expect(getProject(db, `path:${work}`)).toBeUndefined();
+  });
+
+  it('answers known paths without asking git again', () => {
+    const repo = join(dir, 'app');
+    initRepo(repo, 'git@github.com:acme/app.git');
+    resolveProject(db, repo);
+    rmSync(repo, { recursive: true, force: true });
+
+    expect(resolveProject(db, repo).projectId).toBe('git:github.com/acme/app');
+  });
+});
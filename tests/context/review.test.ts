@@ -0,0 +1,50 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import type Database from 'better-sqlite3';
+import { createInMemoryDatabase } from '../../src/storage/database.js';
+import { insertKnowledge, updateKnowledge } from '../../src/storage/knowledge.js';
+import { findReviewCandidates } from '../../src/context/review.js';
+import type { PromotedKnowledge } from '../../src/types.js';
+
+const NOW = new Date('2026-06-01T00:00:00.000Z');
+
+function seed(db: Database.Database, overrides: Partial<PromotedKnowledge>): void {
+  insertKnowledge(db, {
+    knowledgeId: 'k',
+    projectPath: '/test/project',
+    title: 'Use SQLite',
+    content: 'Embedded database',
+    knowledgeType: 'decision',
+    tags: [],
+    createdAt: '2026-05-30T00:00:00.000Z',
+    usageCount: 0,
+    ...overrides,
+  });
+}
+
+describe('findReviewCandidates', () => {
+  let db: Database.Database;
+
+  beforeEach(() => {
+    db = createInMemoryDatabase();
+  });
+
+  it('ignores young items', () => {
+    seed(db, { knowledgeId: 'young' });
+    expect(findReviewCandidates(db, '/test/project', 60, NOW)).toHaveLength(0);
+  });
+
+  it('flags old, unused items with every applicable reason', () => {
+    seed(db, { knowledgeId: 'old', createdAt: '2026-01-01T00:00:00.000Z' });
+
+    const [candidate] = findReviewCandidates(db, '/test/project', 60, NOW);
+    expect(candidate?.knowledge.knowledgeId).toBe('old');
+    expect(candidate?.reasons).toEqual(['no activity for 151 days', 'never used']);
+  });
+
+  it('counts edits as activity', () => {
+    seed(db, { knowledgeId: 'edited', createdAt: '2026-01-01T00:00:00.000Z', usageCount: 5 });
+    updateKnowledge(db, 'edited', { content: 'Embedded database, WAL mode' }, '2026-05-20T00:00:00.000Z');
+
+    expect(findReviewCandidates(db, '/test/project', 60, NOW)).toHaveLength(0);
+  });
+});
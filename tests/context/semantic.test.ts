@@ -0,0 +1,117 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import type Database from 'better-sqlite3';
+import { createInMemoryDatabase } from '../../src/storage/database.js';
+import { createSession, endSession } from '../../src/storage/sessions.js';
+import { insertEvent } from '../../src/storage/events.js';
+import { insertKnowledge } from '../../src/storage/knowledge.js';
+import { getEmbeddings } from '../../src/storage/embeddings.js';
+import { markSuperseded } from '../../src/context/deduplication.js';
+import { createHashingEmbedder } from '../../src/context/embeddings.js';
+import { indexEmbeddings, semanticSearch } from '../../src/context/semantic.js';
+import type { PromotedKnowledge } from '../../src/types.js';
+
+const embedder = createHashingEmbedder();
+
+function seedSession(db: Database.Database, id: string, summary: string, branch = 'main'): void {
+  createSession(db, {
+    sessionId: id,
+    projectPath: '/test/project',
+    branch,
+    startedAt: new Date().toISOString(),
+    status: 'active',
+  });
+  endSession(db, id, new Date().toISOString(), summary);
+}
+
+function seedKnowledge(db: Database.Database, overrides: Partial<PromotedKnowledge> = {}): void {
+  insertKnowledge(db, {
+    knowledgeId: 'k1',
+    projectPath: '/test/project',
+    title: 'Token refresh',
+    content: 'Refresh authentication tokens in the HTTP interceptor',
+    knowledgeType: 'decision',
+    tags: [],
+    createdAt: new Date().toISOString(),
+    ...overrides,
+  });
+}
+
+describe('semantic recall', () => {
+  let db: Database.Database;
+
+  beforeEach(() => {
+    db = createInMemoryDatabase();
+  });
+
+  describe('indexEmbeddings', () => {
+    it('embeds sessions, events and knowledge once', async () => {
+      seedSession(db, 's1', 'Reworked login flow');
+      insertEvent(db, {
+        eventId: 'e1',
+        sessionId: 's1',
+        timestamp: new Date().toISOString(),
+        eventType: 'decision',
+        category: 'other',
+        detail: { type: 'decision', title: 'JWT', rationale: 'Stateless auth' },
+      });
+      seedKnowledge(db);
+
+      expect(await indexEmbeddings(db, embedder, '/test/project')).toBe(3);
+      expect(await indexEmbeddings(db, embedder, '/test/project')).toBe(0);
+      expect(getEmbeddings(db, '/test/project', embedder.name)).toHaveLength(3);
+    });
+
+    it('re-embeds items whose text changed', async () => {
+      seedSession(db, 's1', 'Reworked login flow');
+      await indexEmbeddings(db, embedder, '/test/project');
+
+      db.prepare('UPDATE sessions SET summary = ? WHERE session_id = ?').run('Other work', 's1');
+      expect(await indexEmbeddings(db, embedder, '/test/project')).toBe(1);
+    });
+  });
+
+  describe('semanticSearch', () => {
+    it('finds related items without exact keyword overlap', async () => {
+      seedSession(db, 's1', 'Refreshing expired authentication tokens');
+      seedSession(db, 's2', 'Tweaked CSS grid layout on dashboard');
+
+      const hits = await semanticSearch(db, embedder, '/test/project', 'how did we handle auth token refresh?', 'main');
+      expect(hits[0]?.id).toBe('s1');
+      expect(hits.find((h) => h.id === 's2')).toBeUndefined();
+    });
+
+    it('blends similarity with relevance scores', async () => {
+      seedSession(db, 's1', 'Token refresh handling');
+
+      const [hit] = await semanticSearch(db, embedder, '/test/project', 'token refresh', 'main');
+      expect(hit).toBeDefined();
+      expect(hit!.score).toBeCloseTo(hit!.similarity * 0.7 + hit!.relevanceScore * 0.3);
+    });
+
+    it('skips superseded knowledge and other branches', async () => {
+      seedKnowledge(db);
+      seedKnowledge(db, { knowledgeId: 'k2', title: 'Token refresh v2' });
+      markSuperseded(db, 'k1', 'k2');
+      seedSession(db, 's1', 'Token refresh on feature branch', 'feature/x');
+
+      const hits = await semanticSearch(db, embedder, '/test/project', 'token refresh', 'main', 'main');
+      expect(hits.map((h) => h.id)).toEqual(['k2']);
+    });
+
+    it('filters by event type before applying the limit', async () => {
+      seedKnowledge(db);
+      seedSession(db, 's1', 'Tweaked CSS grid layout on dashboard');
+      insertEvent(db, {
+        eventId: 'e1',
+        sessionId: 's1',
+        timestamp: new Date().toISOString(),
+        eventType: 'pattern',
+        category: 'other',
+        detail: { type: 'pattern', description: 'Retry once after a token refresh' },
+      });
+
+      const hits = await semanticSearch(db, embedder, '/test/project', 'token refresh', 'main', undefined, 1, 'pattern');
+      expect(hits.map((h) => h.id)).toEqual(['e1']);
+    });
+  });
+});
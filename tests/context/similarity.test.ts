@@ -0,0 +1,124 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import type Database from 'better-sqlite3';
+import { createInMemoryDatabase } from '../../src/storage/database.js';
+import { createSession, endSession } from '../../src/storage/sessions.js';
+import { insertEvent } from '../../src/storage/events.js';
+import {
+  buildFootprint,
+  computeBranchFamilySimilarity,
+  findSimilarSessions,
+  jaccard,
+} from '../../src/context/similarity.js';
+import type { EventDetail } from '../../src/types.js';
+import { deriveEventType, categorizeEvent } from '../../src/utils.js';
+
+let counter = 0;
+
+function seedSession(db: Database.Database, id: string, branch = 'main', end = true): void {
+  createSession(db, {
+    sessionId: id,
+    projectPath: '/test/project',
+    branch,
+    startedAt: new Date().toISOString(),
+    status: 'active',
+  });
+  if (end) {
+    endSession(db, id, new Date().toISOString(), `Work in ${id}`);
+  }
+}
+
+function seedEvent(db: Database.Database, sessionId: string, detail: EventDetail): void {
+  const eventType = deriveEventType(detail);
+  insertEvent(db, {
+    eventId: `e${counter++}`,
+    sessionId,
+    timestamp: new Date().toISOString(),
+    eventType,
+    category: categorizeEvent(eventType),
+    detail,
+  });
+}
+
+describe('session similarity', () => {
+  let db: Database.Database;
+
+  beforeEach(() => {
+    db = createInMemoryDatabase();
+  });
+
+  describe('jaccard', () => {
+    it('computes set overlap', () => {
+      expect(jaccard(['a', 'b'], ['b', 'c'])).toBeCloseTo(1 / 3);
+      expect(jaccard([], [])).toBe(0);
+    });
+  });
+
+  describe('computeBranchFamilySimilarity', () => {
+    it('scores shared leading segments', () => {
+      expect(computeBranchFamilySimilarity('main', 'main')).toBe(1.0);
+      expect(computeBranchFamilySimilarity('feature/auth-refresh', 'feature/auth-login')).toBeCloseTo(2 / 3);
+      expect(computeBranchFamilySimilarity('feature/auth', 'main')).toBe(0);
+    });
+  });
+
+  describe('buildFootprint', () => {
+    it('collects files, tools and decision texts', () => {
+      seedSession(db, 's1');
+      seedEvent(db, 's1', { type: 'file_op', path: 'src/a.ts', operation: 'read' });
+      seedEvent(db, 's1', { type: 'tool_call', toolName: 'Bash' });
+      seedEvent(db, 's1', { type: 'decision', title: 'Use JWT', rationale: 'Stateless' });
+      seedEvent(db, 's1', { type: 'pattern', description: 'Guards', files: ['src/b.ts'] });
+
+      const footprint = buildFootprint(db, 's1');
+      expect(footprint?.files).toEqual(['src/a.ts', 'src/b.ts']);
+      expect(footprint?.tools).toEqual(['Bash']);
+      expect(footprint?.decisionTexts).toEqual(['Use JWT Stateless', 'Guards']);
+    });
+
+    it('returns undefined for unknown sessions', () => {
+      expect(buildFootprint(db, 'missing')).toBeUndefined();
+    });
+  });
+
+  describe('findSimilarSessions', () => {
+    it('ranks sessions by shared files and explains the match', () => {
+      seedSession(db, 'past-auth', 'feature/auth-login');
+      seedEvent(db, 'past-auth', { type: 'file_op', path: 'src/auth.ts', operation: 'edit' });
+      seedEvent(db, 'past-auth', { type: 'file_op', path: 'src/token.ts', operation: 'edit' });
+
+      seedSession(db, 'past-css');
+      seedEvent(db, 'past-css', { type: 'file_op', path: 'src/styles.css', operation: 'edit' });
+
+      seedSession(db, 'current', 'feature/auth-refresh', false);
+      seedEvent(db, 'current', { type: 'file_op', path: 'src/auth.ts', operation: 'read' });
+      seedEvent(db, 'current', { type: 'file_op', path: 'src/token.ts', operation: 'read' });
+
+      const similar = findSimilarSessions(db, 'current');
+      expect(similar.map((s) => s.session.sessionId)).toEqual(['past-auth']);
+      expect(similar[0]?.sharedFiles).toEqual(['src/auth.ts', 'src/token.ts']);
+      expect(similar[0]?.reasons).toContain('2 shared file(s): src/auth.ts, src/token.ts');
+      expect(similar[0]?.reasons).toContain('same branch family: feature/auth');
+    });
+
+    it('matches on similar decisions without shared files', () => {
+      seedSession(db, 'past');
+      seedEvent(db, 'past', { type: 'decision', title: 'Rotate refresh tokens', rationale: 'Limit token lifetime' });
+
+      seedSession(db, 'current', 'main', false);
+      seedEvent(db, 'current', { type: 'decision', title: 'Refresh tokens hourly', rationale: 'Token lifetime policy' });
+
+      const similar = findSimilarSessions(db, 'current');
+      expect(similar).toHaveLength(1);
+      expect(similar[0]?.reasons[0]).toContain('similar decision');
+    });
+
+    it('ignores active sessions and the session itself', () => {
+      seedSession(db, 'other-active', 'main', false);
+      seedEvent(db, 'other-active', { type: 'file_op', path: 'src/a.ts', operation: 'read' });
+      seedSession(db, 'current', 'main', false);
+      seedEvent(db, 'current', { type: 'file_op', path: 'src/a.ts', operation: 'read' });
+
+      expect(findSimilarSessions(db, 'current')).toHaveLength(0);
+    });
+  });
+});
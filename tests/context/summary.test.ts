@@ -0,0 +1,70 @@
+import { describe, it, expect } from 'vitest';
+import { summarizeSession } from '../../src/context/summary.js';
+import type { EventDetail, Session, SessionEvent } from '../../src/types.js';
+import { categorizeEvent, deriveEventType } from '../../src/utils.js';
+
+const SESSION: Session = {
+  sessionId: 's1',
+  projectPath: '/test/project',
+  branch: 'main',
+  startedAt: '2026-01-15T10:00:00.000Z',
+  status: 'active',
+  gitCommitStart: '1111111aaaa',
+};
+
+function events(...details: EventDetail[]): SessionEvent[] {
+  return details.map((detail, i) => ({
+    eventId: `e${i}`,
+    sessionId: 's1',
+    timestamp: `2026-01-15T10:${String(i).padStart(2, '0')}:00.000Z`,
+    eventType: deriveEventType(detail),
+    category: categorizeEvent(deriveEventType(detail)),
+    detail,
+  }));
+}
+
+describe('summarizeSession', () => {
+  it('summarizes edits, decisions, patterns, errors, milestones and commits', () => {
+    const summary = summarizeSession(SESSION, events(
+      { type: 'file_op', path: 'src/b.ts', operation: 'edit' },
+      { type: 'file_op', path: 'src/a.ts', operation: 'edit' },
+      { type: 'file_op', path: 'src/a.ts', operation: 'write' },
+      { type: 'file_op', path: 'src/c.ts', operation: 'read' },
+      { type: 'decision', title: 'Use SQLite', rationale: 'Embedded' },
+      { type: 'pattern', description: 'One module per tool', files: [] },
+      { type: 'error_resolved', error: 'FTS syntax error', resolution: 'Quote terms', files: [] },
+      { type: 'milestone', summary: 'Search works' },
+    ), '2222222bbbb');
+
+    expect(summary).toBe(
+      'Milestones: Search works. Edited src/a.ts (2x), src/b.ts. Decisions: Use SQLite. ' +
+      'Patterns: One module per tool. Resolved: FTS syntax error. Commits 1111111..2222222.',
+    );
+  });
+
+  it('names the most edited files and counts the rest', () => {
+    const summary = summarizeSession(SESSION, events(
+      ...['a', 'b', 'c', 'd', 'e'].map((name): EventDetail => ({ type: 'file_op', path: `${name}.ts`, operation: 'edit' })),
+      { type: 'file_op', path: 'e.ts', operation: 'edit' },
+      { type: 'decision', title: 'One', rationale: '' },
+      { type: 'decision', title: 'Two', rationale: '' },
+      { type: 'decision', title: 'Three', rationale: '' },
+      { type: 'decision', title: 'Four', rationale: '' },
+    ));
+
+    expect(summary).toBe('Edited e.ts (2x), a.ts, b.ts and 2 other file(s). Decisions: One; Two; Three (+1 more).');
+  });
+
+  it('falls back to reads and tool calls', () => {
+    expect(summarizeSession(SESSION, events(
+      { type: 'file_op', path: 'a.ts', operation: 'read' },
+      { type: 'file_op', path: 'a.ts', operation: 'read' },
+    ))).toBe('Read 1 file(s) without editing.');
+    expect(summarizeSession(SESSION, events({ type: 'tool_call', toolName: 'Bash' }))).toBe('Ran 1 tool call(s).');
+  });
+
+  it('returns undefined when nothing was recorded', () => {
+    expect(summarizeSession(SESSION, [])).toBeUndefined();
+    expect(summarizeSession(SESSION, [], SESSION.gitCommitStart)).toBeUndefined();
+  });
+});
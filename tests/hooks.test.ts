@@ -0,0 +1,142 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import type Database from 'better-sqlite3';
+import { createInMemoryDatabase } from '../src/storage/database.js';
+import { getSession } from '../src/storage/sessions.js';
+import { getSessionEvents } from '../src/storage/events.js';
+import { getImportantFiles } from '../src/storage/file-importance.js';
+import { getRelatedFiles } from '../src/storage/co-access.js';
+import { hookInputSchema, mapToolUse, runHook } from '../src/hooks.js';
+import type { HookInput } from '../src/hooks.js';
+
+const PROJECT = '/test/project';
+
+function hook(event: string, extra: Partial<HookInput> = {}): HookInput {
+  return hookInputSchema.parse({
+    session_id: 'claude-1',
+    transcript_path: '/tmp/transcript.jsonl',
+    cwd: PROJECT,
+    hook_event_name: event,
+    ...extra,
+  });
+}
+
+describe('mapToolUse', () => {
+  it('maps file tools to file operations', () => {
+    expect(mapToolUse('Read', { file_path: '/a.ts' })).toEqual({ type: 'file_op', path: '/a.ts', operation: 'read' });
+    expect(mapToolUse('Write', { file_path: '/a.ts', content: 'x' })).toMatchObject({ operation: 'write' });
+    expect(mapToolUse('Edit', { file_path: '/a.ts' })).toMatchObject({ operation: 'edit' });
+    expect(mapToolUse('MultiEdit', { file_path: '/a.ts' })).toMatchObject({ operation: 'edit' });
+    expect(mapToolUse('NotebookEdit', { notebook_path: '/n.ipynb' })).toMatchObject({ path: '/n.ipynb' });
+  });
+
+  it('maps Bash to a tool call and shortens long commands', () => {
+    expect(mapToolUse('Bash', { command: 'npm test' })).toEqual({ type: 'tool_call', toolName: 'Bash', params: 'npm test' });
+
+    const long = mapToolUse('Bash', { command: 'x'.repeat(500) });
+    expect(long?.type === 'tool_call' && long.params?.length).toBe(201);
+  });
+
+  it('ignores other tools and malformed input', () => {
+    expect(mapToolUse('Grep', { pattern: 'foo' })).toBeUndefined();
+    expect(mapToolUse('mcp__synapse-memory__recall', {})).toBeUndefined();
+    expect(mapToolUse('Read', {})).toBeUndefined();
+  });
+});
+
+describe('runHook', () => {
+  let db: Database.Database;
+
+  beforeEach(() => {
+    db = createInMemoryDatabase();
+  });
+
+  it('starts a session under the Claude Code session ID and returns context', async () => {
+    const output = await runHook(db, hook('SessionStart', { source: 'startup' }));
+
+    expect(output).toContain('Session started: claude-1');
+    expect(getSession(db, 'claude-1')).toMatchObject({ status: 'active', agentType: 'claude-code', projectPath: PROJECT });
+  });
+
+  it('records file reads and edits after tool use', async () => {
+    await runHook(db, hook('SessionStart'));
+    await runHook(db, hook('PostToolUse', { tool_name: 'Read', tool_input: { file_path: `${PROJECT}/src/a.ts` } }));
+    await runHook(db, hook('PostToolUse', { tool_name: 'Edit', tool_input: { file_path: `${PROJECT}/src/a.ts` } }));
+    await runHook(db, hook('PostToolUse', { tool_name: 'Grep', tool_input: { pattern: 'x' } }));
+
+    expect(getSessionEvents(db, 'claude-1').map((e) => e.eventType)).toEqual(['file_read', 'file_edit']);
+    expect(getImportantFiles(db, PROJECT)[0]).toMatchObject({ filePath: 'src/a.ts', readCount: 1, editCount: 1 });
+  });
+
+  it('starts a session on the first tool use when SessionStart was missed', async () => {
+    await runHook(db, hook('PreToolUse', { tool_name: 'Bash', tool_input: { command: 'ls' } }));
+    await runHook(db, hook('PostToolUse', { tool_name: 'Bash', tool_input: { command: 'ls' } }));
+
+    expect(getSession(db, 'claude-1')?.status).toBe('active');
+    expect(getSessionEvents(db, 'claude-1', 'tool_call')).toHaveLength(1);
+  });
+
+  it('returns the context again when the session starts after compaction', async () => {
+    await runHook(db, hook('SessionStart', { source: 'startup' }));
+    await runHook(db, hook('PostToolUse', { tool_name: 'Read', tool_input: { file_path: `${PROJECT}/src/a.ts` } }));
+
+    const output = await runHook(db, hook('SessionStart', { source: 'compact' }));
+
+    expect(output).toContain('Session resumed: claude-1');
+    expect(getSessionEvents(db, 'claude-1')).toHaveLength(1);
+  });
+
+  it('keeps the session active across turns and ends it on SessionEnd', async () => {
+    await runHook(db, hook('SessionStart'));
+    await runHook(db, hook('Stop', { stop_hook_active: false } as Partial<HookInput>));
+    expect(getSession(db, 'claude-1')?.status).toBe('active');
+
+    await runHook(db, hook('SessionEnd', { reason: 'exit' } as Partial<HookInput>));
+    expect(getSession(db, 'claude-1')?.status).toBe('completed');
+
+    await runHook(db, hook('PostToolUse', { tool_name: 'Read', tool_input: { file_path: '/src/b.ts' } }));
+    expect(getSession(db, 'claude-1')?.status).toBe('active');
+    expect(getSession(db, 'claude-1')?.endedAt).toBeUndefined();
+  });
+
+  it('reopens an ended session with its context on resume', async () => {
+    await runHook(db, hook('SessionStart'));
+    await runHook(db, hook('SessionEnd'));
+
+    expect(await runHook(db, hook('SessionStart', { source: 'resume' }))).toContain('Session resumed: claude-1');
+    expect(getSession(db, 'claude-1')?.status).toBe('active');
+  });
+
+  it('counts files touched together once per session, however often it is resumed', async () => {
+    const edit = (path: string) =>
+      runHook(db, hook('PostToolUse', { tool_name: 'Edit', tool_input: { file_path: `${PROJECT}/${path}` } }));
+    await runHook(db, hook('SessionStart'));
+    await edit('src/a.ts');
+    await edit('src/b.ts');
+    await runHook(db, hook('SessionEnd'));
+    await edit('src/a.ts');
+    await runHook(db, hook('SessionEnd'));
+    await edit('src/c.ts');
+    await runHook(db, hook('SessionEnd'));
+
+    expect(getRelatedFiles(db, PROJECT, 'src/a.ts')).toEqual([
+      expect.objectContaining({ filePath: 'src/c.ts', sessionCount: 1 }),
+      expect.objectContaining({ filePath: 'src/b.ts', sessionCount: 1 }),
+    ]);
+  });
+
+  it('refreshes the generated summary each time the session ends', async () => {
+    await runHook(db, hook('SessionStart'));
+    await runHook(db, hook('PostToolUse', { tool_name: 'Edit', tool_input: { file_path: `${PROJECT}/src/a.ts` } }));
+    await runHook(db, hook('SessionEnd'));
+    expect(getSession(db, 'claude-1')).toMatchObject({ summary: 'Edited src/a.ts.', summaryGenerated: true });
+
+    await runHook(db, hook('PostToolUse', { tool_name: 'Edit', tool_input: { file_path: `${PROJECT}/src/a.ts` } }));
+    await runHook(db, hook('SessionEnd'));
+    expect(getSession(db, 'claude-1')?.summary).toBe('Edited src/a.ts (2x).');
+  });
+
+  it('ignores unknown hook events', async () => {
+    expect(await runHook(db, hook('Notification'))).toBeUndefined();
+    expect(getSession(db, 'claude-1')).toBeUndefined();
+  });
+});
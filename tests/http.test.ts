@@ -0,0 +1,149 @@
+import { request } from 'node:http';
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { StreamableHTTPClientTransport } from '@modelcontextprotocol/sdk/client/streamableHttp.js';
+import { ResourceUpdatedNotificationSchema } from '@modelcontextprotocol/sdk/types.js';
+import type Database from 'better-sqlite3';
+import { createInMemoryDatabase } from '../src/storage/database.js';
+import { startHttpServer } from '../src/http.js';
+import type { HttpServerHandle } from '../src/http.js';
+import { knowledgeUri } from '../src/resources.js';
+
+const TOKEN = 'test-token';
+
+describe('HTTP transport', () => {
+  let db: Database.Database;
+  let handle: HttpServerHandle;
+  let logs: string[];
+
+  beforeEach(async () => {
+    db = createInMemoryDatabase();
+    logs = [];
+    handle = await startHttpServer(db, { port: 0, authToken: TOKEN, log: (line) => logs.push(line) });
+  });
+
+  afterEach(async () => {
+    await handle.close();
+    db.close();
+  });
+
+  function url(path: string = '/mcp'): URL {
+    return new URL(`http://127.0.0.1:${handle.port}${path}`);
+  }
+
+  it('serves tools to an authenticated client', async () => {
+    const client = new Client({ name: 'test', version: '1.0.0' });
+    await client.connect(new StreamableHTTPClientTransport(url(), {
+      requestInit: { headers: { Authorization: `Bearer ${TOKEN}` } },
+    }));
+
+    const { tools } = await client.listTools();
+    expect(tools.map((t) => t.name)).toContain('session_start');
+
+    await client.close();
+    expect(logs.some((l) => /^POST \/mcp 200 \d+ms session=/.test(l))).toBe(true);
+  });
+
+  it('notifies subscribers on other connections of writes', async () => {
+    const connect = async (name: string) => {
+      const client = new Client({ name, version: '1.0.0' });
+      await client.connect(new StreamableHTTPClientTransport(url(), {
+        requestInit: { headers: { Authorization: `Bearer ${TOKEN}` } },
+      }));
+      return client;
+    };
+    const writer = await connect('writer');
+    const watcher = await connect('watcher');
+    const updated = new Promise<string>((resolve) => {
+      watcher.setNotificationHandler(ResourceUpdatedNotificationSchema, (n) => resolve(n.params.uri));
+    });
+
+    await watcher.subscribeResource({ uri: knowledgeUri('/test/project') });
+    await writer.callTool({
+      name: 'promote_knowledge',
+      arguments: { projectPath: '/test/project', title: 'Use SQLite', content: 'Embedded', knowledgeType: 'decision' },
+    });
+
+    expect(await updated).toBe(knowledgeUri('/test/project'));
+    await writer.close();
+    await watcher.close();
+  });
+
+  it('rejects requests without the bearer token', async () => {
+    const res = await fetch(url(), { method: 'POST', body: '{}' });
+
+    expect(res.status).toBe(401);
+    expect(res.headers.get('www-authenticate')).toBe('Bearer');
+  });
+
+  it('rejects a wrong token', async () => {
+    const res = await fetch(url(), { method: 'POST', body: '{}', headers: { Authorization: 'Bearer nope' } });
+    expect(res.status).toBe(401);
+  });
+
+  it('requires a session for non-initialize requests', async () => {
+    const res = await fetch(url(), {
+      method: 'POST',
+      headers: { Authorization: `Bearer ${TOKEN}`, 'Content-Type': 'application/json' },
+      body: JSON.stringify({ jsonrpc: '2.0', id: 1, method: 'tools/list' }),
+    });
+    expect(res.status).toBe(400);
+  });
+
+  it('returns 404 outside the MCP endpoint', async () => {
+    const res = await fetch(url('/other'));
+    expect(res.status).toBe(404);
+  });
+
+  describe('without a token', () => {
+    let open: HttpServerHandle;
+
+    beforeEach(async () => {
+      open = await startHttpServer(db, { port: 0, log: () => undefined });
+    });
+
+    afterEach(async () => {
+      await open.close();
+    });
+
+    function initialize(host: string): Promise<number> {
+      const body = JSON.stringify({
+        jsonrpc: '2.0',
+        id: 1,
+        method: 'initialize',
+        params: { protocolVersion: '2025-03-26', capabilities: {}, clientInfo: { name: 'test', version: '1.0.0' } },
+      });
+      return new Promise((resolve, reject) => {
+        const req = request({
+          host: '127.0.0.1',
+          port: open.port,
+          path: '/mcp',
+          method: 'POST',
+          headers: {
+            Host: host,
+            'Content-Type': 'application/json',
+            Accept: 'application/json, text/event-stream',
+          },
+        }, (res) => {
+          res.resume();
+          resolve(res.statusCode ?? 0);
+        });
+        req.on('error', reject);
+        req.end(body);
+      });
+    }
+
+    it('accepts loopback Host headers', async () => {
+      expect(await initialize(`127.0.0.1:${open.port}`)).toBe(200);
+      expect(await initialize(`localhost:${open.port}`)).toBe(200);
+    });
+
+    it('rejects other Host headers, as a rebound DNS name would send', async () => {
+      expect(await initialize(`evil.example:${open.port}`)).toBe(403);
+    });
+
+    it('refuses to bind a non-loopback address', async () => {
+      await expect(startHttpServer(db, { port: 0, host: '0.0.0.0' })).rejects.toThrow(/SYNAPSE_MEMORY_AUTH_TOKEN/);
+    });
+  });
+});
@@ -0,0 +1,111 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { InMemoryTransport } from '@modelcontextprotocol/sdk/inMemory.js';
+import type Database from 'better-sqlite3';
+import { createInMemoryDatabase } from '../src/storage/database.js';
+import { createSession, getActiveSession } from '../src/storage/sessions.js';
+import { insertEvent } from '../src/storage/events.js';
+import { insertKnowledge } from '../src/storage/knowledge.js';
+import { createServer } from '../src/server.js';
+
+const PROJECT = '/test/project';
+
+describe('MCP prompts', () => {
+  let db: Database.Database;
+  let client: Client;
+
+  beforeEach(async () => {
+    db = createInMemoryDatabase();
+    const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+    await createServer(db).connect(serverTransport);
+    client = new Client({ name: 'test', version: '1.0.0' });
+    await client.connect(clientTransport);
+  });
+
+  afterEach(async () => {
+    await client.close();
+    db.close();
+  });
+
+  async function promptText(name: string, args: Record<string, string>): Promise<string> {
+    const result = await client.getPrompt({ name, arguments: args });
+    const content = result.messages[0]?.content;
+    return content?.type === 'text' ? content.text : '';
+  }
+
+  it('lists the workflow prompts', async () => {
+    const { prompts } = await client.listPrompts();
+    expect(prompts.map((p) => p.name)).toEqual(['start-work', 'wrap-up', 'review-knowledge']);
+  });
+
+  it('start-work starts a session and frames its context', async () => {
+    const text = await promptText('start-work', { projectPath: PROJECT, branch: 'main', task: 'Fix the parser' });
+    const session = getActiveSession(db, PROJECT);
+
+    expect(session).toBeDefined();
+    expect(text).toContain('Task: Fix the parser');
+    expect(text).toContain(`Session started: ${session!.sessionId}`);
+    expect(text).toContain(`record_event with sessionId "${session!.sessionId}"`);
+  });
+
+  it('wrap-up lists events and marks promoted ones', async () => {
+    createSession(db, {
+      sessionId: 's1',
+      projectPath: PROJECT,
+      branch: 'main',
+      startedAt: '2026-01-15T10:00:00.000Z',
+      status: 'active',
+    });
+    insertEvent(db, {
+      eventId: 'e1',
+      sessionId: 's1',
+      timestamp: '2026-01-15T10:05:00.000Z',
+      eventType: 'decision',
+      category: 'other',
+      detail: { type: 'decision', title: 'Use SQLite', rationale: 'Zero setup' },
+    });
+    insertKnowledge(db, {
+      knowledgeId: 'k1',
+      projectPath: PROJECT,
+      sourceEventId: 'e1',
+      title: 'Use SQLite',
+      content: 'Zero setup',
+      knowledgeType: 'decision',
+      tags: [],
+      createdAt: '2026-01-15T10:06:00.000Z',
+    });
+
+    const text = await promptText('wrap-up', { projectPath: PROJECT });
+
+    expect(text).toContain('decision: Use SQLite — Zero setup (event e1) [already promoted]');
+    expect(text).toContain('call session_end with sessionId "s1"');
+  });
+
+  it('wrap-up fails without an active session', async () => {
+    await expect(client.getPrompt({ name: 'wrap-up', arguments: { projectPath: PROJECT } }))
+      .rejects.toThrow(/No active session/);
+  });
+
+  it('review-knowledge lists old unused knowledge', async () => {
+    insertKnowledge(db, {
+      knowledgeId: 'k-old',
+      projectPath: PROJECT,
+      title: 'Use Redis for caching',
+      content: 'Cache API responses',
+      knowledgeType: 'decision',
+      tags: [],
+      createdAt: '2025-01-01T00:00:00.000Z',
+    });
+
+    const text = await promptText('review-knowledge', { projectPath: PROJECT });
+
+    expect(text).toContain('[decision] Use Redis for caching (k-old)');
+    expect(text).toContain('never used');
+    expect(text).toContain('retract_knowledge');
+  });
+
+  it('review-knowledge reports when nothing is stale', async () => {
+    const text = await promptText('review-knowledge', { projectPath: PROJECT });
+    expect(text).toContain('Nothing to review');
+  });
+});
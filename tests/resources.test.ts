@@ -0,0 +1,102 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { InMemoryTransport } from '@modelcontextprotocol/sdk/inMemory.js';
+import { ResourceUpdatedNotificationSchema } from '@modelcontextprotocol/sdk/types.js';
+import type Database from 'better-sqlite3';
+import { createInMemoryDatabase } from '../src/storage/database.js';
+import { createSession } from '../src/storage/sessions.js';
+import { createServer } from '../src/server.js';
+import { filesUri, knowledgeUri, sessionEventsUri, sessionUri } from '../src/resources.js';
+
+const PROJECT = '/test/project';
+
+function textOf(result: { contents: readonly { text?: unknown }[] }): unknown {
+  return JSON.parse(String(result.contents[0]?.text));
+}
+
+describe('MCP resources', () => {
+  let db: Database.Database;
+  let client: Client;
+
+  beforeEach(async () => {
+    db = createInMemoryDatabase();
+    createSession(db, {
+      sessionId: 's1',
+      projectPath: PROJECT,
+      branch: 'main',
+      startedAt: new Date().toISOString(),
+      status: 'active',
+    });
+
+    const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+    await createServer(db).connect(serverTransport);
+    client = new Client({ name: 'test', version: '1.0.0' });
+    await client.connect(clientTransport);
+  });
+
+  afterEach(async () => {
+    await client.close();
+    db.close();
+  });
+
+  it('builds URIs that keep project paths in one segment', () => {
+    expect(knowledgeUri('/a/b,c')).toBe('synapse://project/%2Fa%2Fb%2Cc/knowledge');
+    expect(sessionEventsUri('s1')).toBe('synapse://session/s1/events');
+  });
+
+  it('lists project and session resources', async () => {
+    const { resources } = await client.listResources();
+    const uris = resources.map((r) => r.uri);
+
+    expect(uris).toContain(knowledgeUri(PROJECT));
+    expect(uris).toContain(filesUri(PROJECT));
+    expect(uris).toContain(sessionUri('s1'));
+  });
+
+  it('reads a session and its events', async () => {
+    await client.callTool({
+      name: 'record_event',
+      arguments: { sessionId: 's1', eventType: 'milestone', detail: { type: 'milestone', summary: 'Parser done' } },
+    });
+
+    expect(textOf(await client.readResource({ uri: sessionUri('s1') }))).toMatchObject({ sessionId: 's1' });
+    const events = textOf(await client.readResource({ uri: sessionEventsUri('s1') })) as unknown[];
+    expect(events).toHaveLength(1);
+  });
+
+  it('reads project knowledge', async () => {
+    await client.callTool({
+      name: 'promote_knowledge',
+      arguments: { projectPath: PROJECT, title: 'Use SQLite', content: 'Embedded', knowledgeType: 'decision' },
+    });
+
+    const knowledge = textOf(await client.readResource({ uri: knowledgeUri(PROJECT) })) as { title: string }[];
+    expect(knowledge.map((k) => k.title)).toEqual(['Use SQLite']);
+  });
+
+  it('errors for an unknown session', async () => {
+    await expect(client.readResource({ uri: sessionUri('missing') })).rejects.toThrow(/not found/);
+  });
+
+  it('notifies subscribers when tools change the data', async () => {
+    const updated: string[] = [];
+    client.setNotificationHandler(ResourceUpdatedNotificationSchema, (n) => {
+      updated.push(n.params.uri);
+    });
+
+    await client.subscribeResource({ uri: sessionEventsUri('s1') });
+    await client.subscribeResource({ uri: knowledgeUri(PROJECT) });
+
+    await client.callTool({
+      name: 'record_event',
+      arguments: { sessionId: 's1', eventType: 'file_edit', detail: { type: 'file_op', path: 'src/a.ts', operation: 'edit' } },
+    });
+    await client.callTool({
+      name: 'promote_knowledge',
+      arguments: { projectPath: PROJECT, title: 'Use SQLite', content: 'Embedded', knowledgeType: 'decision' },
+    });
+
+    // Notifications are sent before the tool result, so both have arrived
+    expect(updated).toEqual([sessionEventsUri('s1'), knowledgeUri(PROJECT)]);
+  });
+});
@@ -0,0 +1,119 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { InMemoryTransport } from '@modelcontextprotocol/sdk/inMemory.js';
+import type Database from 'better-sqlite3';
+import { createInMemoryDatabase } from '../src/storage/database.js';
+import { createServer } from '../src/server.js';
+
+const PROJECT = '/test/project';
+
+describe('structured tool output', () => {
+  let db: Database.Database;
+  let client: Client;
+
+  // The client validates structuredContent against each tool's outputSchema
+  // and throws on a mismatch, so every call here doubles as a schema check
+  async function call(name: string, args: Record<string, unknown>): Promise<Record<string, unknown>> {
+    const result = await client.callTool({ name, arguments: args });
+    expect(result.isError, `${name} failed`).toBeFalsy();
+    expect(result.structuredContent, `${name} has no structuredContent`).toBeDefined();
+    return result.structuredContent as Record<string, unknown>;
+  }
+
+  beforeEach(async () => {
+    db = createInMemoryDatabase();
+    const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+    await createServer(db).connect(serverTransport);
+    client = new Client({ name: 'test', version: '1.0.0' });
+    await client.connect(clientTransport);
+  });
+
+  afterEach(async () => {
+    await client.close();
+    db.close();
+  });
+
+  it('declares an output schema for every tool', async () => {
+    const { tools } = await client.listTools();
+
+    expect(tools.length).toBeGreaterThan(0);
+    for (const tool of tools) {
+      expect(tool.outputSchema, tool.name).toMatchObject({ type: 'object' });
+    }
+  });
+
+  it('returns schema-valid structured content from every tool', async () => {
+    const { tools } = await client.listTools();
+    const called = new Set<string>();
+    const track = async (name: string, args: Record<string, unknown>) => {
+      called.add(name);
+      return call(name, args);
+    };
+
+    const start = await track('session_start', { projectPath: PROJECT, branch: 'main' });
+    const sessionId = start.sessionId as string;
+    expect(sessionId).toEqual(expect.any(String));
+
+    const event = await track('record_event', {
+      sessionId,
+      eventType: 'decision',
+      detail: { type: 'decision', title: 'Use SQLite', rationale: 'Zero infrastructure' },
+    });
+    expect(event).toMatchObject({ sessionId, eventType: 'decision' });
+
+    const promoted = await track('promote_knowledge', {
+      projectPath: PROJECT,
+      title: 'Use SQLite',
+      content: 'Zero infrastructure, embedded in process',
+      knowledgeType: 'decision',
+      sessionId,
+    });
+    expect(promoted.status).toBe('promoted');
+    const knowledgeId = (promoted.knowledge as { knowledgeId: string }).knowledgeId;
+
+    const duplicate = await track('promote_knowledge', {
+      projectPath: PROJECT,
+      title: 'Use SQLite',
+      content: 'Zero infrastructure, embedded in process',
+      knowledgeType: 'decision',
+    });
+    expect(duplicate.status).toBe('duplicate');
+
+    await track('update_knowledge', { knowledgeId, content: 'Embedded, zero infrastructure', sessionId });
+    await track('get_knowledge', { projectPath: PROJECT });
+    await track('get_knowledge_history', { knowledgeId });
+    await track('restore_knowledge_revision', { knowledgeId, revisionNumber: 1 });
+    await track('recall', { projectPath: PROJECT, query: 'sqlite' });
+    await track('recall', { projectPath: PROJECT, query: 'sqlite', mode: 'semantic' });
+    await track('recall', { projectPath: PROJECT, eventType: 'decision' });
+    await track('find_similar_sessions', { projectPath: PROJECT });
+    await track('generate_instructions_file', { projectPath: PROJECT, dryRun: true });
+    await track('import_knowledge', { projectPath: PROJECT, dryRun: true });
+    const active = await track('list_active_sessions', { projectPath: PROJECT });
+    expect(active.sessions).toHaveLength(1);
+    await track('pause_session', { sessionId });
+    const resumed = await track('resume_session', { projectPath: PROJECT });
+    expect(resumed).toMatchObject({ previousStatus: 'paused', eventCount: 1 });
+    await track('session_end', { sessionId, summary: 'Picked storage' });
+    await track('stats', { projectPath: PROJECT, period: 'all' });
+    await track('related_files', { projectPath: PROJECT, filePath: 'src/index.ts' });
+    await track('get_value_metrics', { projectPath: PROJECT });
+    await track('retract_knowledge', { knowledgeId, reason: 'Moving to Postgres' });
+    await track('delete_knowledge', { knowledgeId });
+    const moved = await track('move_project', { fromPath: PROJECT, toPath: `${PROJECT}-moved` });
+    expect(moved.moved).toEqual({ sessions: 1, knowledge: 0 });
+    await call('session_start', { projectPath: PROJECT, branch: 'main' });
+    const merged = await track('merge_projects', { sourcePath: PROJECT, targetPath: `${PROJECT}-moved` });
+    expect(merged.moved).toEqual({ sessions: 1, knowledge: 0 });
+
+    expect([...called].sort()).toEqual(tools.map((t) => t.name).sort());
+  });
+
+  it('keeps errors as plain text without structured content', async () => {
+    const result = await client.callTool({ name: 'delete_knowledge', arguments: { knowledgeId: 'missing' } });
+
+    expect(result.isError).toBe(true);
+    expect(result.structuredContent).toBeUndefined();
+    expect((result.content as { text: string }[])[0]?.text).toContain('not found');
+  });
+});
@@ -0,0 +1,72 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import type Database from 'better-sqlite3';
+import { createInMemoryDatabase } from '../../src/storage/database.js';
+import {
+  getRelatedFiles,
+  MAX_CO_ACCESS_FILES,
+  recordCoAccess,
+  renameCoAccessFile,
+} from '../../src/storage/co-access.js';
+import { setFileDeleted, upsertFileAccess } from '../../src/storage/file-importance.js';
+
+describe('co-access storage', () => {
+  let db: Database.Database;
+
+  beforeEach(() => {
+    db = createInMemoryDatabase();
+  });
+
+  describe('recordCoAccess', () => {
+    it('counts every pair once, whichever order the files come in', () => {
+      expect(recordCoAccess(db, '/test/project', ['b.ts', 'a.ts', 'c.ts', 'a.ts'], 'session', '2026-01-10T00:00:00Z')).toBe(3);
+      recordCoAccess(db, '/test/project', ['a.ts', 'b.ts'], 'commit', '2026-01-12T00:00:00Z');
+
+      expect(getRelatedFiles(db, '/test/project', 'b.ts')).toEqual([
+        { filePath: 'a.ts', sessionCount: 1, commitCount: 1, lastSeenAt: '2026-01-12T00:00:00Z' },
+        { filePath: 'c.ts', sessionCount: 1, commitCount: 0, lastSeenAt: '2026-01-10T00:00:00Z' },
+      ]);
+    });
+
+    it('skips bulk changes', () => {
+      const files = Array.from({ length: MAX_CO_ACCESS_FILES + 1 }, (_, i) => `src/file${i}.ts`);
+
+      expect(recordCoAccess(db, '/test/project', files, 'commit', '2026-01-10T00:00:00Z')).toBe(0);
+      expect(getRelatedFiles(db, '/test/project', 'src/file0.ts')).toEqual([]);
+    });
+  });
+
+  describe('getRelatedFiles', () => {
+    it('leaves out deleted files and other projects', () => {
+      recordCoAccess(db, '/test/project', ['a.ts', 'gone.ts', 'b.ts'], 'session', '2026-01-10T00:00:00Z');
+      recordCoAccess(db, '/other/project', ['a.ts', 'c.ts'], 'session', '2026-01-10T00:00:00Z');
+      upsertFileAccess(db, '/test/project', 'gone.ts', 'edit');
+      setFileDeleted(db, '/test/project', 'gone.ts', '2026-01-11T00:00:00Z');
+
+      expect(getRelatedFiles(db, '/test/project', 'a.ts').map((r) => r.filePath)).toEqual(['b.ts']);
+    });
+
+    it('leaves out files the ignore rules match before applying the limit', () => {
+      recordCoAccess(db, '/test/project', ['a.ts', 'fixtures/big.json'], 'commit', '2026-01-11T00:00:00Z');
+      recordCoAccess(db, '/test/project', ['a.ts', 'fixtures/big.json', 'b.ts'], 'session', '2026-01-10T00:00:00Z');
+
+      const related = getRelatedFiles(db, '/test/project', 'a.ts', 1, (path) => path.startsWith('fixtures/'));
+
+      expect(related.map((r) => r.filePath)).toEqual(['b.ts']);
+    });
+  });
+
+  describe('renameCoAccessFile', () => {
+    it('moves pairs to the new path and merges them with existing ones', () => {
+      recordCoAccess(db, '/test/project', ['old.ts', 'a.ts'], 'session', '2026-01-10T00:00:00Z');
+      recordCoAccess(db, '/test/project', ['old.ts', 'new.ts'], 'session', '2026-01-10T00:00:00Z');
+      recordCoAccess(db, '/test/project', ['new.ts', 'a.ts'], 'commit', '2026-01-12T00:00:00Z');
+
+      renameCoAccessFile(db, '/test/project', 'old.ts', 'new.ts');
+
+      expect(getRelatedFiles(db, '/test/project', 'new.ts')).toEqual([
+        { filePath: 'a.ts', sessionCount: 1, commitCount: 1, lastSeenAt: '2026-01-12T00:00:00Z' },
+      ]);
+      expect(getRelatedFiles(db, '/test/project', 'old.ts')).toEqual([]);
+    });
+  });
+});
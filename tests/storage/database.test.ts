@@ -1,5 +1,8 @@
 import { describe, it, expect } from 'vitest';
-import { createInMemoryDatabase } from '../../src/storage/database.js';
+import { mkdtempSync, rmSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { closeDatabase, createDatabase, createInMemoryDatabase } from '../../src/storage/database.js';
 
 describe('database', () => {
   it('creates all tables on initialization', () => {
@@ -21,6 +24,17 @@ describe('database', () => {
     expect(tableNames).toContain('file_importance');
     expect(tableNames).toContain('knowledge_usage');
     expect(tableNames).toContain('value_metrics');
+    // v4 tables
+    expect(tableNames).toContain('sessions_fts');
+    expect(tableNames).toContain('events_fts');
+    expect(tableNames).toContain('knowledge_fts');
+    // v5 tables
+    expect(tableNames).toContain('embeddings');
+    // v7 tables
+    expect(tableNames).toContain('knowledge_revisions');
+    // v12 tables
+    expect(tableNames).toContain('projects');
+    expect(tableNames).toContain('project_aliases');
   });
 
   it('enables WAL mode', () => {
@@ -68,10 +82,25 @@ describe('database', () => {
       .prepare('SELECT version FROM schema_version ORDER BY version ASC')
       .all() as Array<{ version: number }>;
 
-    expect(rows).toHaveLength(3);
+    expect(rows).toHaveLength(18);
     expect(rows[0]?.version).toBe(1);
     expect(rows[1]?.version).toBe(2);
     expect(rows[2]?.version).toBe(3);
+    expect(rows[3]?.version).toBe(4);
+    expect(rows[4]?.version).toBe(5);
+    expect(rows[5]?.version).toBe(6);
+    expect(rows[6]?.version).toBe(7);
+    expect(rows[7]?.version).toBe(8);
+    expect(rows[8]?.version).toBe(9);
+    expect(rows[9]?.version).toBe(10);
+    expect(rows[10]?.version).toBe(11);
+    expect(rows[11]?.version).toBe(12);
+    expect(rows[12]?.version).toBe(13);
+    expect(rows[13]?.version).toBe(14);
+    expect(rows[14]?.version).toBe(15);
+    expect(rows[15]?.version).toBe(16);
+    expect(rows[16]?.version).toBe(17);
+    expect(rows[17]?.version).toBe(18);
   });
 
   it('is idempotent — second createInMemoryDatabase on same db is safe', () => {
@@ -86,4 +115,173 @@ describe('database', () => {
     const row = db1.prepare('SELECT session_id FROM sessions WHERE session_id = ?').get('s1') as { session_id: string } | undefined;
     expect(row?.session_id).toBe('s1');
   });
+
+  it('backfills a project and alias for every stored project path', () => {
+    const dir = mkdtempSync(join(tmpdir(), 'synapse-db-'));
+    const dbPath = join(dir, 'memory.db');
+    try {
+      // Simulate a database written before v12
+      const before = createDatabase(dbPath);
+      before.exec(`
+        DROP TABLE project_aliases;
+        DROP TABLE projects;
+        ALTER TABLE session_events DROP COLUMN redactions;
+        ALTER TABLE file_importance DROP COLUMN deleted_at;
+        DELETE FROM schema_version WHERE version >= 12;
+      `);
+      before.prepare(
+        "INSERT INTO sessions (session_id, project_path, branch, started_at, status) VALUES (?, ?, ?, ?, ?)",
+      ).run('s1', '/home/a/app', 'main', '2026-01-01T00:00:00Z', 'completed');
+      before.prepare(
+        "INSERT INTO file_importance (project_path, file_path, last_accessed_at) VALUES (?, ?, ?)",
+      ).run('/work/app', 'src/index.ts', '2026-01-01T00:00:00Z');
+      closeDatabase(before);
+
+      const db = createDatabase(dbPath);
+      const projects = db.prepare('SELECT project_id, root_path, identified_at FROM projects ORDER BY root_path').all();
+      expect(projects).toEqual([
+        { project_id: 'path:/home/a/app', root_path: '/home/a/app', identified_at: null },
+        { project_id: 'path:/work/app', root_path: '/work/app', identified_at: null },
+      ]);
+      const aliases = db.prepare('SELECT alias_path, project_id FROM project_aliases ORDER BY alias_path').all();
+      expect(aliases).toEqual([
+        { alias_path: '/home/a/app', project_id: 'path:/home/a/app' },
+        { alias_path: '/work/app', project_id: 'path:/work/app' },
+      ]);
+      closeDatabase(db);
+    } finally {
+      rmSync(dir, { recursive: true, force: true });
+    }
+  });
+
+  it('makes stored file paths relative and merges the duplicates', () => {
+    const dir = mkdtempSync(join(tmpdir(), 'synapse-db-'));
+    const dbPath = join(dir, 'memory.db');
+    try {
+      // Simulate a database written before v14
+      const before = createDatabase(dbPath);
+      before.exec(`
+        ALTER TABLE file_importance DROP COLUMN deleted_at;
+        DROP TABLE worktree_reconciliation;
+        DELETE FROM schema_version WHERE version >= 14;
+      `);
+      before.prepare(
+        "INSERT INTO sessions (session_id, project_path, branch, started_at, status) VALUES (?, ?, ?, ?, ?)",
+      ).run('s1', '/app', 'main', '2026-01-01T00:00:00Z', 'completed');
+      const insertEvent = before.prepare(
+        "INSERT INTO session_events (event_id, session_id, timestamp, event_type, detail_json) VALUES (?, 's1', ?, 'file_read', ?)",
+      );
+      const insertFile = before.prepare(
+        'INSERT INTO file_importance (project_path, file_path, read_count, edit_count, last_accessed_at) VALUES (?, ?, ?, ?, ?)',
+      );
+      for (const [i, path] of ['/app/src/a.ts', './src/a.ts', 'src/a.ts', '/elsewhere/b.ts'].entries()) {
+        insertEvent.run(`e${i}`, `2026-01-0${i + 1}T00:00:00Z`, JSON.stringify({ type: 'file_op', path, operation: 'read' }));
+        insertFile.run('/app', path, 1, i, `2026-01-0${i + 1}T00:00:00Z`);
+      }
+      closeDatabase(before);
+
+      const db = createDatabase(dbPath);
+      const paths = db.prepare("SELECT json_extract(detail_json, '$.path') AS path FROM session_events ORDER BY event_id")
+        .all() as { path: string }[];
+      expect(paths.map((p) => p.path)).toEqual(['src/a.ts', 'src/a.ts', 'src/a.ts', '/elsewhere/b.ts']);
+      const files = db.prepare(
+        'SELECT file_path, read_count, edit_count, last_accessed_at FROM file_importance ORDER BY file_path',
+      ).all();
+      expect(files).toEqual([
+        { file_path: '/elsewhere/b.ts', read_count: 1, edit_count: 3, last_accessed_at: '2026-01-04T00:00:00Z' },
+        { file_path: 'src/a.ts', read_count: 3, edit_count: 3, last_accessed_at: '2026-01-03T00:00:00Z' },
+      ]);
+      closeDatabase(db);
+    } finally {
+      rmSync(dir, { recursive: true, force: true });
+    }
+  });
+
+  it('backfills files touched together from completed sessions', () => {
+    const dir = mkdtempSync(join(tmpdir(), 'synapse-db-'));
+    const dbPath = join(dir, 'memory.db');
+    try {
+      // Simulate a database written before v16
+      const before = createDatabase(dbPath);
+      before.exec(`
+        DROP TABLE file_co_access;
+        DROP TABLE session_co_access_files;
+        DROP TABLE worktree_reconciliation;
+        ALTER TABLE projects ADD COLUMN files_reconciled_commit TEXT;
+        DELETE FROM schema_version WHERE version >= 16;
+      `);
+      const insertSession = before.prepare(
+        "INSERT INTO sessions (session_id, project_path, branch, started_at, ended_at, status) VALUES (?, '/app', 'main', ?, ?, ?)",
+      );
+      insertSession.run('s1', '2026-01-01T00:00:00Z', '2026-01-01T01:00:00Z', 'completed');
+      insertSession.run('s2', '2026-01-02T00:00:00Z', '2026-01-02T01:00:00Z', 'completed');
+      insertSession.run('s3', '2026-01-03T00:00:00Z', null, 'active');
+      const insertEvent = before.prepare(
+        "INSERT INTO session_events (event_id, session_id, timestamp, event_type, detail_json) VALUES (?, ?, '2026-01-01T00:00:00Z', 'file_read', ?)",
+      );
+      const events: [string, string][] = [
+        ['s1', 'a.ts'], ['s1', 'b.ts'], ['s1', '/elsewhere/x.ts'], ['s2', 'a.ts'], ['s2', 'b.ts'], ['s3', 'a.ts'], ['s3', 'c.ts'],
+      ];
+      for (const [i, [sessionId, path]] of events.entries()) {
+        const outsideProject = path.startsWith('/') || undefined;
+        insertEvent.run(`e${i}`, sessionId, JSON.stringify({ type: 'file_op', path, operation: 'read', outsideProject }));
+      }
+      const insertChange = before.prepare(
+        'INSERT INTO session_file_changes (session_id, file_path, change_type) VALUES (?, ?, ?)',
+      );
+      insertChange.run('s1', 'c.ts', 'added');
+      insertChange.run('s1', 'd.ts', 'deleted');
+      closeDatabase(before);
+
+      const db = createDatabase(dbPath);
+      const pairs = db.prepare(
+        'SELECT file_a, file_b, session_count, commit_count, last_seen_at FROM file_co_access ORDER BY file_a, file_b',
+      ).all();
+      expect(pairs).toEqual([
+        { file_a: 'a.ts', file_b: 'b.ts', session_count: 2, commit_count: 0, last_seen_at: '2026-01-02T01:00:00Z' },
+        { file_a: 'a.ts', file_b: 'c.ts', session_count: 1, commit_count: 0, last_seen_at: '2026-01-01T01:00:00Z' },
+        { file_a: 'b.ts', file_b: 'c.ts', session_count: 1, commit_count: 0, last_seen_at: '2026-01-01T01:00:00Z' },
+      ]);
+      // Completed sessions are marked counted; the active one is counted when it ends
+      const counted = db.prepare('SELECT session_id, file_path FROM session_co_access_files ORDER BY session_id, file_path').all();
+      expect(counted).toEqual([
+        { session_id: 's1', file_path: 'a.ts' },
+        { session_id: 's1', file_path: 'b.ts' },
+        { session_id: 's1', file_path: 'c.ts' },
+        { session_id: 's2', file_path: 'a.ts' },
+        { session_id: 's2', file_path: 'b.ts' },
+      ]);
+      closeDatabase(db);
+    } finally {
+      rmSync(dir, { recursive: true, force: true });
+    }
+  });
+
+  it('keys the reconciled commit by worktree', () => {
+    const dir = mkdtempSync(join(tmpdir(), 'synapse-db-'));
+    const dbPath = join(dir, 'memory.db');
+    try {
+      // Simulate a database written before v18
+      const before = createDatabase(dbPath);
+      before.exec(`
+        DROP TABLE worktree_reconciliation;
+        ALTER TABLE projects ADD COLUMN files_reconciled_commit TEXT;
+        DELETE FROM schema_version WHERE version >= 18;
+      `);
+      before.prepare(
+        "INSERT INTO projects (project_id, root_path, created_at, files_reconciled_commit) VALUES (?, ?, '2026-01-01T00:00:00Z', ?)",
+      ).run('path:/app', '/app', 'abc123');
+      closeDatabase(before);
+
+      const db = createDatabase(dbPath);
+      expect(db.prepare('SELECT * FROM worktree_reconciliation').all()).toEqual([
+        { project_path: '/app', worktree: '/app', reconciled_commit: 'abc123' },
+      ]);
+      const columns = db.prepare('PRAGMA table_info(projects)').all() as { name: string }[];
+      expect(columns.map((c) => c.name)).not.toContain('files_reconciled_commit');
+      closeDatabase(db);
+    } finally {
+      rmSync(dir, { recursive: true, force: true });
+    }
+  });
 });
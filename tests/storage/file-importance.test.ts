@@ -6,6 +6,8 @@ import {
   getImportantFiles,
   computeImportanceScore,
   refreshImportanceScores,
+  renameFileImportance,
+  setFileDeleted,
 } from '../../src/storage/file-importance.js';
 
 describe('file-importance storage', () => {
@@ -115,4 +117,29 @@ describe('file-importance storage', () => {
       expect(updated).toBe(1);
     });
   });
+
+  describe('renameFileImportance', () => {
+    it('adds the counts of the old path to the new one', () => {
+      upsertFileAccess(db, '/test/project', 'src/old.ts', 'edit');
+      upsertFileAccess(db, '/test/project', 'src/new.ts', 'read');
+
+      const renamed = renameFileImportance(db, '/test/project', 'src/old.ts', 'src/new.ts');
+
+      expect(renamed).toMatchObject({ filePath: 'src/new.ts', readCount: 1, editCount: 1 });
+      expect(getImportantFiles(db, '/test/project').map((f) => f.filePath)).toEqual(['src/new.ts']);
+    });
+  });
+
+  describe('setFileDeleted', () => {
+    it('hides deleted files until they are accessed again', () => {
+      upsertFileAccess(db, '/test/project', 'src/gone.ts', 'edit');
+      setFileDeleted(db, '/test/project', 'src/gone.ts', '2026-01-15T10:00:00.000Z');
+
+      expect(getImportantFiles(db, '/test/project')).toEqual([]);
+
+      upsertFileAccess(db, '/test/project', 'src/gone.ts', 'write');
+
+      expect(getImportantFiles(db, '/test/project')[0]?.deletedAt).toBeUndefined();
+    });
+  });
 });
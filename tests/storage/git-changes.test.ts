@@ -0,0 +1,50 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import type Database from 'better-sqlite3';
+import { createInMemoryDatabase } from '../../src/storage/database.js';
+import { createSession } from '../../src/storage/sessions.js';
+import {
+  insertSessionCommits,
+  upsertSessionFileChanges,
+  getSessionCommits,
+  getSessionFileChanges,
+} from '../../src/storage/git-changes.js';
+
+describe('git changes', () => {
+  let db: Database.Database;
+
+  beforeEach(() => {
+    db = createInMemoryDatabase();
+    createSession(db, {
+      sessionId: 's1',
+      projectPath: '/test/project',
+      branch: 'main',
+      startedAt: '2026-01-15T10:00:00.000Z',
+      status: 'active',
+    });
+  });
+
+  it('stores each commit once, newest first', () => {
+    const older = { sha: 'aaa', subject: 'First', author: 'Ada', committedAt: '2026-01-15T10:10:00Z' };
+    const newer = { sha: 'bbb', subject: 'Second', author: 'Ada', committedAt: '2026-01-15T10:20:00Z' };
+
+    insertSessionCommits(db, 's1', [older]);
+    insertSessionCommits(db, 's1', [newer, older]);
+
+    expect(getSessionCommits(db, 's1')).toEqual([newer, older]);
+  });
+
+  it('returns only files the session had not recorded yet', () => {
+    const first = upsertSessionFileChanges(db, 's1', [{ path: 'a.ts', changeType: 'added' }]);
+    const second = upsertSessionFileChanges(db, 's1', [
+      { path: 'a.ts', changeType: 'modified' },
+      { path: 'c.ts', changeType: 'renamed', previousPath: 'b.ts' },
+    ]);
+
+    expect(first.map((c) => c.path)).toEqual(['a.ts']);
+    expect(second.map((c) => c.path)).toEqual(['c.ts']);
+    expect(getSessionFileChanges(db, 's1')).toEqual([
+      { path: 'a.ts', changeType: 'modified', previousPath: undefined },
+      { path: 'c.ts', changeType: 'renamed', previousPath: 'b.ts' },
+    ]);
+  });
+});
@@ -0,0 +1,82 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import type Database from 'better-sqlite3';
+import { createInMemoryDatabase } from '../../src/storage/database.js';
+import {
+  insertKnowledge,
+  updateKnowledge,
+  restoreKnowledgeRevision,
+  deleteKnowledge,
+  getKnowledgeById,
+} from '../../src/storage/knowledge.js';
+import { getKnowledgeRevisions, getKnowledgeRevision } from '../../src/storage/knowledge-revisions.js';
+import type { PromotedKnowledge } from '../../src/types.js';
+
+function makeKnowledge(overrides: Partial<PromotedKnowledge> = {}): PromotedKnowledge {
+  return {
+    knowledgeId: 'k1',
+    projectPath: '/test/project',
+    sessionId: undefined,
+    title: 'Use SQLite',
+    content: 'Embedded storage',
+    knowledgeType: 'decision',
+    tags: ['storage'],
+    createdAt: '2026-01-15T10:00:00.000Z',
+    ...overrides,
+  };
+}
+
+describe('knowledge revisions', () => {
+  let db: Database.Database;
+
+  beforeEach(() => {
+    db = createInMemoryDatabase();
+  });
+
+  it('records revision 1 on insert', () => {
+    insertKnowledge(db, makeKnowledge());
+
+    const revisions = getKnowledgeRevisions(db, 'k1');
+    expect(revisions).toHaveLength(1);
+    expect(revisions[0]?.revisionNumber).toBe(1);
+    expect(revisions[0]?.changeType).toBe('created');
+    expect(revisions[0]?.title).toBe('Use SQLite');
+    expect(revisions[0]?.createdAt).toBe('2026-01-15T10:00:00.000Z');
+  });
+
+  it('appends a revision per edit with the author session', () => {
+    insertKnowledge(db, makeKnowledge());
+    updateKnowledge(db, 'k1', { content: 'Embedded storage, WAL mode' }, '2026-01-16T10:00:00.000Z', 'session-2');
+    updateKnowledge(db, 'k1', { tags: ['storage', 'sqlite'] }, '2026-01-17T10:00:00.000Z');
+
+    const revisions = getKnowledgeRevisions(db, 'k1');
+    expect(revisions.map((r) => r.revisionNumber)).toEqual([1, 2, 3]);
+    expect(revisions[1]?.content).toBe('Embedded storage, WAL mode');
+    expect(revisions[1]?.sessionId).toBe('session-2');
+    expect(revisions[2]?.tags).toEqual(['storage', 'sqlite']);
+  });
+
+  it('restores an older revision as a new revision', () => {
+    insertKnowledge(db, makeKnowledge());
+    updateKnowledge(db, 'k1', { title: 'Use Postgres', content: 'Server database' }, '2026-01-16T10:00:00.000Z');
+
+    const restored = restoreKnowledgeRevision(db, 'k1', 1, '2026-01-17T10:00:00.000Z');
+    expect(restored?.title).toBe('Use SQLite');
+    expect(restored?.content).toBe('Embedded storage');
+
+    const latest = getKnowledgeRevision(db, 'k1', 3);
+    expect(latest?.changeType).toBe('restored');
+    expect(latest?.title).toBe('Use SQLite');
+  });
+
+  it('returns undefined when restoring a missing revision', () => {
+    insertKnowledge(db, makeKnowledge());
+    expect(restoreKnowledgeRevision(db, 'k1', 9, '2026-01-17T10:00:00.000Z')).toBeUndefined();
+    expect(getKnowledgeById(db, 'k1')?.title).toBe('Use SQLite');
+  });
+
+  it('drops revisions when knowledge is deleted', () => {
+    insertKnowledge(db, makeKnowledge());
+    deleteKnowledge(db, 'k1');
+    expect(getKnowledgeRevisions(db, 'k1')).toHaveLength(0);
+  });
+});
@@ -6,7 +6,13 @@ import {
   getProjectKnowledge,
   getUnsyncedKnowledge,
   markKnowledgeSynced,
+  getKnowledgeById,
+  updateKnowledge,
+  retractKnowledge,
+  deleteKnowledge,
 } from '../../src/storage/knowledge.js';
+import { recordKnowledgeUsage, getKnowledgeUsageHistory } from '../../src/storage/knowledge-usage.js';
+import { computeContentHash, findDuplicates, markSuperseded } from '../../src/context/deduplication.js';
 import { createSession } from '../../src/storage/sessions.js';
 import { insertEvent } from '../../src/storage/events.js';
 import type { PromotedKnowledge, Session, SessionEvent } from '../../src/types.js';
@@ -203,4 +209,74 @@ describe('knowledge storage', () => {
       expect(items[0]?.synapseKnowledgeId).toBe('synapse-456');
     });
   });
+
+  describe('updateKnowledge', () => {
+    it('updates fields and recomputes the content hash', () => {
+      insertKnowledge(db, makeKnowledge({
+        knowledgeId: 'k1',
+        content: 'Old content',
+        contentHash: computeContentHash('Old content'),
+      }));
+
+      const updated = updateKnowledge(db, 'k1', {
+        content: 'New content',
+        tags: ['storage'],
+      }, '2026-01-16T10:00:00.000Z');
+
+      expect(updated?.content).toBe('New content');
+      expect(updated?.title).toBe('Default Title');
+      expect(updated?.tags).toEqual(['storage']);
+      expect(updated?.contentHash).toBe(computeContentHash('New content'));
+      expect(updated?.updatedAt).toBe('2026-01-16T10:00:00.000Z');
+
+      expect(findDuplicates(db, '/test/project', 'Other', 'New content')).toHaveLength(1);
+      expect(findDuplicates(db, '/test/project', 'Other', 'Old content')).toHaveLength(0);
+    });
+
+    it('returns undefined for unknown knowledge', () => {
+      expect(updateKnowledge(db, 'missing', { title: 'x' }, '2026-01-16T10:00:00.000Z')).toBeUndefined();
+    });
+  });
+
+  describe('retractKnowledge', () => {
+    it('hides retracted knowledge but keeps the row', () => {
+      insertKnowledge(db, makeKnowledge({ knowledgeId: 'k1' }));
+
+      const retracted = retractKnowledge(db, 'k1', 'Wrong assumption', '2026-01-16T10:00:00.000Z');
+      expect(retracted?.retractionReason).toBe('Wrong assumption');
+      expect(getProjectKnowledge(db, '/test/project')).toHaveLength(0);
+      expect(getUnsyncedKnowledge(db, '/test/project')).toHaveLength(0);
+      expect(getKnowledgeById(db, 'k1')?.retractedAt).toBe('2026-01-16T10:00:00.000Z');
+    });
+
+    it('returns undefined when already retracted', () => {
+      insertKnowledge(db, makeKnowledge({ knowledgeId: 'k1' }));
+      retractKnowledge(db, 'k1', 'Wrong', '2026-01-16T10:00:00.000Z');
+      expect(retractKnowledge(db, 'k1', 'Again', '2026-01-16T11:00:00.000Z')).toBeUndefined();
+    });
+  });
+
+  describe('deleteKnowledge', () => {
+    it('removes the item and its usage history', () => {
+      insertKnowledge(db, makeKnowledge({ knowledgeId: 'k1' }));
+      recordKnowledgeUsage(db, 'k1', 'session-1', 'surfaced');
+
+      expect(deleteKnowledge(db, 'k1')).toBe(true);
+      expect(getKnowledgeById(db, 'k1')).toBeUndefined();
+      expect(getKnowledgeUsageHistory(db, 'k1')).toHaveLength(0);
+    });
+
+    it('restores items the deleted knowledge had superseded', () => {
+      insertKnowledge(db, makeKnowledge({ knowledgeId: 'old' }));
+      insertKnowledge(db, makeKnowledge({ knowledgeId: 'new' }));
+      markSuperseded(db, 'old', 'new');
+
+      deleteKnowledge(db, 'new');
+      expect(getKnowledgeById(db, 'old')?.supersededBy).toBeUndefined();
+    });
+
+    it('returns false for unknown knowledge', () => {
+      expect(deleteKnowledge(db, 'missing')).toBe(false);
+    });
+  });
 });
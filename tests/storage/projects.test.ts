@@ -0,0 +1,124 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import type Database from 'better-sqlite3';
+import { createInMemoryDatabase } from '../../src/storage/database.js';
+import { createSession, getSession } from '../../src/storage/sessions.js';
+import { upsertFileAccess, getImportantFiles } from '../../src/storage/file-importance.js';
+import { incrementSessionCount, getValueMetrics } from '../../src/storage/value-metrics.js';
+import { getRelatedFiles, recordCoAccess } from '../../src/storage/co-access.js';
+import {
+  addProjectAlias,
+  createProject,
+  findProjectByPath,
+  getProject,
+  getProjectAliases,
+  getReconciledWorktrees,
+  identifyProject,
+  mergeProjects,
+  moveProject,
+  setReconciledCommit,
+} from '../../src/storage/projects.js';
+
+const APP = { projectId: 'git:github.com/acme/app', rootPath: '/home/a/app', remoteUrl: 'github.com/acme/app' };
+
+function seedSession(db: Database.Database, sessionId: string, projectPath: string): void {
+  createSession(db, {
+    sessionId,
+    projectPath,
+    branch: 'main',
+    startedAt: '2026-01-15T10:00:00.000Z',
+    status: 'completed',
+  });
+}
+
+describe('projects', () => {
+  let db: Database.Database;
+
+  beforeEach(() => {
+    db = createInMemoryDatabase();
+  });
+
+  it('creates a project with its root as the first alias', () => {
+    const project = createProject(db, APP, '2026-01-15T10:00:00.000Z');
+
+    expect(project).toEqual({ ...APP, createdAt: '2026-01-15T10:00:00.000Z', identifiedAt: '2026-01-15T10:00:00.000Z' });
+    expect(findProjectByPath(db, '/home/a/app')).toEqual(project);
+    expect(findProjectByPath(db, '/work/app')).toBeUndefined();
+  });
+
+  it('keeps the first project a path was mapped to', () => {
+    createProject(db, APP);
+    createProject(db, { projectId: 'path:/work/app', rootPath: '/work/app' });
+
+    addProjectAlias(db, '/home/a/app/src', APP.projectId);
+    addProjectAlias(db, '/home/a/app/src', 'path:/work/app');
+
+    expect(getProjectAliases(db, APP.projectId)).toEqual(['/home/a/app', '/home/a/app/src']);
+  });
+
+  it('re-keys an identified project and its aliases', () => {
+    createProject(db, { projectId: 'path:/home/a/app', rootPath: '/home/a/app' });
+    addProjectAlias(db, '/home/a/app/src', 'path:/home/a/app');
+
+    const project = identifyProject(db, 'path:/home/a/app', APP);
+
+    expect(project).toMatchObject(APP);
+    expect(getProject(db, 'path:/home/a/app')).toBeUndefined();
+    expect(getProjectAliases(db, APP.projectId)).toEqual(['/home/a/app', '/home/a/app/src']);
+  });
+
+  it('moves rows and drops aliases under the old root', () => {
+    createProject(db, { projectId: 'path:/home/a/app', rootPath: '/home/a/app' });
+    addProjectAlias(db, '/home/a/app/src', 'path:/home/a/app');
+    addProjectAlias(db, '/elsewhere', 'path:/home/a/app');
+    seedSession(db, 's1', '/home/a/app');
+    upsertFileAccess(db, '/home/a/app', 'src/index.ts', 'edit');
+    recordCoAccess(db, '/home/a/app', ['src/index.ts', 'README.md'], 'session', '2026-01-10T00:00:00Z');
+
+    const { project, moved } = moveProject(db, 'path:/home/a/app', '/work/app');
+
+    expect(project).toMatchObject({ projectId: 'path:/work/app', rootPath: '/work/app' });
+    expect(moved).toEqual({ sessions: 1, knowledge: 0 });
+    expect(getProjectAliases(db, project.projectId)).toEqual(['/elsewhere', '/work/app']);
+    expect(getSession(db, 's1')?.projectPath).toBe('/work/app');
+    expect(getImportantFiles(db, '/work/app').map((f) => f.filePath)).toEqual(['src/index.ts']);
+    expect(getImportantFiles(db, '/home/a/app')).toEqual([]);
+    expect(getRelatedFiles(db, '/work/app', 'src/index.ts').map((r) => r.filePath)).toEqual(['README.md']);
+    expect(getRelatedFiles(db, '/home/a/app', 'src/index.ts')).toEqual([]);
+  });
+
+  it('merges counters that exist under both projects', () => {
+    createProject(db, APP);
+    createProject(db, { projectId: 'path:/work/app', rootPath: '/work/app' });
+    addProjectAlias(db, '/work/app/src', 'path:/work/app');
+    seedSession(db, 's1', '/home/a/app');
+    seedSession(db, 's2', '/work/app');
+    upsertFileAccess(db, '/home/a/app', 'src/index.ts', 'edit');
+    upsertFileAccess(db, '/work/app', 'src/index.ts', 'read');
+    upsertFileAccess(db, '/work/app', 'README.md', 'read');
+    recordCoAccess(db, '/home/a/app', ['src/index.ts', 'README.md'], 'session', '2026-01-10T00:00:00Z');
+    recordCoAccess(db, '/work/app', ['src/index.ts', 'README.md'], 'commit', '2026-01-12T00:00:00Z');
+    setReconciledCommit(db, '/home/a/app', '/home/a/app', 'aaaa');
+    setReconciledCommit(db, '/work/app', '/work/app', 'bbbb');
+    incrementSessionCount(db, '/home/a/app');
+    incrementSessionCount(db, '/work/app');
+
+    const { project, moved } = mergeProjects(db, 'path:/work/app', APP.projectId);
+
+    expect(project.projectId).toBe(APP.projectId);
+    expect(moved).toEqual({ sessions: 1, knowledge: 0 });
+    expect(getProject(db, 'path:/work/app')).toBeUndefined();
+    expect(getProjectAliases(db, APP.projectId)).toEqual(['/home/a/app', '/work/app', '/work/app/src']);
+    expect(getSession(db, 's2')?.projectPath).toBe('/home/a/app');
+    expect(getImportantFiles(db, '/home/a/app')).toEqual([
+      expect.objectContaining({ filePath: 'src/index.ts', readCount: 1, editCount: 1 }),
+      expect.objectContaining({ filePath: 'README.md', readCount: 1, editCount: 0 }),
+    ]);
+    expect(getRelatedFiles(db, '/home/a/app', 'src/index.ts')).toEqual([
+      { filePath: 'README.md', sessionCount: 1, commitCount: 1, lastSeenAt: '2026-01-12T00:00:00Z' },
+    ]);
+    expect(getRelatedFiles(db, '/work/app', 'src/index.ts')).toEqual([]);
+    expect(getReconciledWorktrees(db, '/home/a/app')).toEqual(new Map([['/home/a/app', 'aaaa'], ['/work/app', 'bbbb']]));
+    expect(getValueMetrics(db, '/home/a/app')?.totalSessions).toBe(2);
+    expect(getValueMetrics(db, '/work/app')).toBeUndefined();
+  });
+});
@@ -0,0 +1,186 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import type Database from 'better-sqlite3';
+import { createInMemoryDatabase } from '../../src/storage/database.js';
+import {
+  buildMatchQuery,
+  searchMemory,
+  searchSessionText,
+  searchEventText,
+  searchKnowledgeText,
+} from '../../src/storage/search.js';
+import { createSession, endSession } from '../../src/storage/sessions.js';
+import { insertEvent } from '../../src/storage/events.js';
+import { insertKnowledge } from '../../src/storage/knowledge.js';
+import { markSuperseded } from '../../src/context/deduplication.js';
+import type { EventDetail, PromotedKnowledge } from '../../src/types.js';
+
+function seedSession(db: Database.Database, id: string, summary?: string, branch = 'main'): void {
+  createSession(db, {
+    sessionId: id,
+    projectPath: '/test/project',
+    branch,
+    startedAt: '2026-01-15T10:00:00.000Z',
+    status: 'active',
+  });
+  endSession(db, id, '2026-01-15T11:00:00.000Z', summary);
+}
+
+function seedEvent(db: Database.Database, sessionId: string, eventId: string, detail: EventDetail): void {
+  const eventType = detail.type === 'file_op' ? 'file_read' : detail.type;
+  insertEvent(db, {
+    eventId,
+    sessionId,
+    timestamp: '2026-01-15T10:30:00.000Z',
+    eventType,
+    category: 'other',
+    detail,
+  });
+}
+
+function seedKnowledge(db: Database.Database, overrides: Partial<PromotedKnowledge> = {}): void {
+  insertKnowledge(db, {
+    knowledgeId: `k-${Math.random().toString(36).slice(2, 8)}`,
+    projectPath: '/test/project',
+    title: 'Use SQLite',
+    content: 'Embedded database with zero infrastructure',
+    knowledgeType: 'decision',
+    tags: ['storage'],
+    createdAt: '2026-01-15T10:00:00.000Z',
+    ...overrides,
+  });
+}
+
+describe('search storage', () => {
+  let db: Database.Database;
+
+  beforeEach(() => {
+    db = createInMemoryDatabase();
+  });
+
+  describe('buildMatchQuery', () => {
+    it('quotes each word as a prefix term', () => {
+      expect(buildMatchQuery('Auth token')).toBe('"auth"* "token"*');
+    });
+
+    it('drops FTS operators and punctuation', () => {
+      expect(buildMatchQuery('NOT (foo) OR "bar"')).toBe('"not"* "foo"* "or"* "bar"*');
+    });
+
+    it('returns undefined when nothing is searchable', () => {
+      expect(buildMatchQuery('  -- !! ')).toBeUndefined();
+    });
+  });
+
+  describe('searchSessionText', () => {
+    it('finds summaries by word prefix with highlighted snippet', () => {
+      seedSession(db, 's1', 'Fixed authentication bug');
+      seedSession(db, 's2', 'Added new feature');
+
+      const hits = searchSessionText(db, '/test/project', 'auth');
+      expect(hits).toHaveLength(1);
+      expect(hits[0]?.id).toBe('s1');
+      expect(hits[0]?.fields).toEqual(['summary']);
+      expect(hits[0]?.snippet).toContain('**authentication**');
+    });
+
+    it('keeps the index in sync when a summary changes', () => {
+      seedSession(db, 's1', 'Old words');
+      db.prepare('UPDATE sessions SET summary = ? WHERE session_id = ?').run('Fresh words', 's1');
+
+      expect(searchSessionText(db, '/test/project', 'old')).toHaveLength(0);
+      expect(searchSessionText(db, '/test/project', 'fresh')).toHaveLength(1);
+    });
+
+    it('filters by branch', () => {
+      seedSession(db, 's1', 'Refactor parser', 'main');
+      seedSession(db, 's2', 'Refactor parser again', 'feature/x');
+
+      const hits = searchSessionText(db, '/test/project', 'parser', 'feature/x');
+      expect(hits.map((h) => h.id)).toEqual(['s2']);
+    });
+  });
+
+  describe('searchEventText', () => {
+    it('reports the detail field that matched', () => {
+      seedSession(db, 's1', 'Work');
+      seedEvent(db, 's1', 'e1', { type: 'decision', title: 'Token refresh', rationale: 'Rotate every hour' });
+      seedEvent(db, 's1', 'e2', { type: 'error_resolved', error: 'ECONNRESET', resolution: 'Retry with backoff', files: [] });
+
+      const rationaleHits = searchEventText(db, '/test/project', 'rotate');
+      expect(rationaleHits).toHaveLength(1);
+      expect(rationaleHits[0]?.fields).toEqual(['rationale']);
+      expect(rationaleHits[0]?.sessionId).toBe('s1');
+
+      const errorHits = searchEventText(db, '/test/project', 'econnreset');
+      expect(errorHits[0]?.kind).toBe('error_resolved');
+      expect(errorHits[0]?.fields).toEqual(['error']);
+    });
+
+    it('does not index file operations', () => {
+      seedSession(db, 's1', 'Work');
+      seedEvent(db, 's1', 'e1', { type: 'file_op', path: 'src/auth.ts', operation: 'read' });
+
+      expect(searchEventText(db, '/test/project', 'auth')).toHaveLength(0);
+    });
+
+    it('removes deleted events from the index', () => {
+      seedSession(db, 's1', 'Work');
+      seedEvent(db, 's1', 'e1', { type: 'milestone', summary: 'Shipped importer' });
+      db.prepare('DELETE FROM session_events WHERE event_id = ?').run('e1');
+
+      expect(searchEventText(db, '/test/project', 'importer')).toHaveLength(0);
+    });
+  });
+
+  describe('searchKnowledgeText', () => {
+    it('matches title, content and tags', () => {
+      seedKnowledge(db, { knowledgeId: 'k1', tags: ['persistence'] });
+
+      expect(searchKnowledgeText(db, '/test/project', 'infrastructure')[0]?.fields).toEqual(['content']);
+      expect(searchKnowledgeText(db, '/test/project', 'persistence')[0]?.fields).toEqual(['tags']);
+      expect(searchKnowledgeText(db, '/test/project', 'sqlite')[0]?.title).toBe('Use SQLite');
+    });
+
+    it('excludes superseded knowledge', () => {
+      seedKnowledge(db, { knowledgeId: 'k1' });
+      seedKnowledge(db, { knowledgeId: 'k2', title: 'Use SQLite with WAL' });
+      markSuperseded(db, 'k1', 'k2');
+
+      const hits = searchKnowledgeText(db, '/test/project', 'sqlite');
+      expect(hits.map((h) => h.id)).toEqual(['k2']);
+    });
+  });
+
+  describe('searchMemory', () => {
+    it('merges hits from all sources ordered by score', () => {
+      seedSession(db, 's1', 'Migrated storage to SQLite');
+      seedEvent(db, 's1', 'e1', { type: 'pattern', description: 'SQLite access via repository functions', files: [] });
+      seedKnowledge(db, { knowledgeId: 'k1' });
+
+      const hits = searchMemory(db, '/test/project', 'sqlite');
+      expect(hits.map((h) => h.source).sort()).toEqual(['event', 'knowledge', 'session']);
+      for (let i = 1; i < hits.length; i++) {
+        expect(hits[i - 1]!.score).toBeGreaterThanOrEqual(hits[i]!.score);
+      }
+    });
+
+    it('ranks each source on its own before merging', () => {
+      for (let i = 0; i < 4; i++) {
+        seedSession(db, `s${i}`, `Cache tuning round ${i}`);
+      }
+      seedEvent(db, 's0', 'e1', { type: 'pattern', description: 'Cache keys include the branch', files: [] });
+
+      const hits = searchMemory(db, '/test/project', 'cache', undefined, 3);
+
+      expect(hits.map((h) => h.source)).toEqual(['session', 'event', 'session']);
+      expect(hits[1]).toMatchObject({ id: 'e1', score: 1 });
+    });
+
+    it('respects the limit', () => {
+      for (let i = 0; i < 5; i++) {
+        seedSession(db, `s${i}`, `Cache tuning round ${i}`);
+      }
+      expect(searchMemory(db, '/test/project', 'cache', undefined, 3)).toHaveLength(3);
+    });
+  });
+});
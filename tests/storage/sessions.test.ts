@@ -4,12 +4,20 @@ import { createInMemoryDatabase } from '../../src/storage/database.js';
 import {
   createSession,
   endSession,
+  reopenSession,
+  replaceGeneratedSummary,
+  pauseSession,
   abandonStaleSessions,
+  findResumableSession,
   getSession,
   getActiveSession,
+  getActiveSessions,
   getRecentSessions,
+  listRecentSessions,
+  getProjectPaths,
   searchSessions,
   computeMetrics,
+  getChildSessions,
   getSessionStats,
 } from '../../src/storage/sessions.js';
 import { insertEvent } from '../../src/storage/events.js';
@@ -101,29 +109,166 @@ describe('sessions', () => {
     });
   });
 
+  describe('reopenSession', () => {
+    it('makes an ended session active again', () => {
+      const session = makeSession();
+      createSession(db, session);
+      endSession(db, session.sessionId, '2026-01-15T11:00:00.000Z', 'First turn');
+
+      const reopened = reopenSession(db, session.sessionId);
+
+      expect(reopened?.status).toBe('active');
+      expect(reopened?.endedAt).toBeUndefined();
+      expect(reopened?.summary).toBe('First turn');
+      expect(reopened?.startedAt).toBe(session.startedAt);
+    });
+
+    it('returns undefined for active or unknown sessions', () => {
+      const session = makeSession();
+      createSession(db, session);
+
+      expect(reopenSession(db, session.sessionId)).toBeUndefined();
+      expect(reopenSession(db, 'nonexistent')).toBeUndefined();
+    });
+  });
+
+  describe('replaceGeneratedSummary', () => {
+    it('replaces a generated summary with a written one', () => {
+      const session = makeSession();
+      createSession(db, session);
+      const ended = endSession(db, session.sessionId, '2026-01-15T11:00:00.000Z', 'Edited a.ts.', undefined, true);
+      expect(ended?.summaryGenerated).toBe(true);
+
+      const replaced = replaceGeneratedSummary(db, session.sessionId, 'Fixed the login redirect');
+      expect(replaced?.summary).toBe('Fixed the login redirect');
+      expect(replaced?.summaryGenerated).toBeUndefined();
+      expect(searchSessions(db, '/test/project', 'redirect')).toHaveLength(1);
+    });
+
+    it('leaves written summaries and active sessions alone', () => {
+      const written = makeSession({ sessionId: 'written' });
+      const active = makeSession({ sessionId: 'active' });
+      createSession(db, written);
+      createSession(db, active);
+      endSession(db, 'written', '2026-01-15T11:00:00.000Z', 'By hand');
+
+      expect(replaceGeneratedSummary(db, 'written', 'Other')).toBeUndefined();
+      expect(replaceGeneratedSummary(db, 'active', 'Other')).toBeUndefined();
+      expect(getSession(db, 'written')?.summary).toBe('By hand');
+    });
+  });
+
+  describe('pauseSession', () => {
+    it('pauses an active session', () => {
+      const session = makeSession();
+      createSession(db, session);
+
+      const paused = pauseSession(db, session.sessionId);
+      expect(paused?.status).toBe('paused');
+      expect(paused?.endedAt).toBeUndefined();
+    });
+
+    it('returns undefined for sessions that are not active', () => {
+      const session = makeSession();
+      createSession(db, session);
+      endSession(db, session.sessionId, '2026-01-15T11:00:00.000Z');
+
+      expect(pauseSession(db, session.sessionId)).toBeUndefined();
+      expect(pauseSession(db, 'nonexistent')).toBeUndefined();
+    });
+
+    it('can still be ended', () => {
+      const session = makeSession();
+      createSession(db, session);
+      pauseSession(db, session.sessionId);
+
+      endSession(db, session.sessionId, '2026-01-15T11:00:00.000Z', 'Done');
+      expect(getSession(db, session.sessionId)?.status).toBe('completed');
+    });
+  });
+
   describe('abandonStaleSessions', () => {
-    it('marks active sessions as abandoned', () => {
+    it('marks inactive sessions as abandoned at their last activity', () => {
       const s1 = makeSession({ sessionId: 's1' });
       const s2 = makeSession({ sessionId: 's2' });
       createSession(db, s1);
       createSession(db, s2);
+      insertEvent(db, makeEvent('s1', { timestamp: '2026-01-15T10:30:00.000Z' }));
 
-      const count = abandonStaleSessions(db, '/test/project', '2026-01-15T11:00:00.000Z');
+      const count = abandonStaleSessions(db, '/test/project', '2026-01-15T15:00:00.000Z');
       expect(count).toBe(2);
 
       const fetched = getSession(db, 's1');
       expect(fetched?.status).toBe('abandoned');
+      expect(fetched?.endedAt).toBe('2026-01-15T10:30:00.000Z');
+      expect(getSession(db, 's2')?.endedAt).toBe('2026-01-15T10:00:00.000Z');
+    });
+
+    it('keeps sessions with recent events', () => {
+      const session = makeSession({ sessionId: 's1' });
+      createSession(db, session);
+      insertEvent(db, makeEvent('s1', { timestamp: '2026-01-15T14:00:00.000Z' }));
+
+      const count = abandonStaleSessions(db, '/test/project', '2026-01-15T15:00:00.000Z');
+      expect(count).toBe(0);
+      expect(getSession(db, 's1')?.status).toBe('active');
+    });
+
+    it('respects a custom inactivity window', () => {
+      createSession(db, makeSession({ sessionId: 's1' }));
+
+      expect(abandonStaleSessions(db, '/test/project', '2026-01-15T10:30:00.000Z', 60)).toBe(0);
+      expect(abandonStaleSessions(db, '/test/project', '2026-01-15T10:30:00.000Z', 15)).toBe(1);
+    });
+
+    it('never abandons paused sessions', () => {
+      const session = makeSession({ sessionId: 's1' });
+      createSession(db, session);
+      pauseSession(db, 's1');
+
+      expect(abandonStaleSessions(db, '/test/project', '2026-02-15T10:00:00.000Z')).toBe(0);
+      expect(getSession(db, 's1')?.status).toBe('paused');
     });
 
     it('does not affect other projects', () => {
       const s1 = makeSession({ projectPath: '/other/project' });
       createSession(db, s1);
 
-      const count = abandonStaleSessions(db, '/test/project', '2026-01-15T11:00:00.000Z');
+      const count = abandonStaleSessions(db, '/test/project', '2026-01-15T15:00:00.000Z');
       expect(count).toBe(0);
     });
   });
 
+  describe('findResumableSession', () => {
+    it('returns the most recently active session with a matching status', () => {
+      createSession(db, makeSession({ sessionId: 'older', startedAt: '2026-01-15T09:00:00.000Z' }));
+      createSession(db, makeSession({ sessionId: 'newer', startedAt: '2026-01-15T09:30:00.000Z' }));
+      // The older session saw activity after the newer one started
+      insertEvent(db, makeEvent('older', { timestamp: '2026-01-15T10:00:00.000Z' }));
+      pauseSession(db, 'older');
+      pauseSession(db, 'newer');
+
+      const found = findResumableSession(db, '/test/project', { statuses: ['paused'] });
+      expect(found?.sessionId).toBe('older');
+    });
+
+    it('filters by status, branch and recency', () => {
+      createSession(db, makeSession({ sessionId: 's1', branch: 'feature' }));
+
+      expect(findResumableSession(db, '/test/project', { statuses: ['paused'] })).toBeUndefined();
+      expect(findResumableSession(db, '/test/project', { statuses: ['active'], branch: 'main' })).toBeUndefined();
+      expect(findResumableSession(db, '/test/project', {
+        statuses: ['active'],
+        activeSince: '2026-01-15T10:30:00.000Z',
+      })).toBeUndefined();
+      expect(findResumableSession(db, '/test/project', {
+        statuses: ['active'],
+        branch: 'feature',
+        activeSince: '2026-01-15T09:30:00.000Z',
+      })?.sessionId).toBe('s1');
+    });
+  });
+
   describe('getActiveSession', () => {
     it('returns the most recent active session', () => {
       const s1 = makeSession({
@@ -145,6 +290,30 @@ describe('sessions', () => {
       const active = getActiveSession(db, '/test/project');
       expect(active).toBeUndefined();
     });
+
+    it('narrows to a worktree and agent instance', () => {
+      createSession(db, makeSession({ sessionId: 'main-a', worktree: '/test/project', agentInstance: 'a' }));
+      createSession(db, makeSession({ sessionId: 'main-b', worktree: '/test/project', agentInstance: 'b' }));
+      createSession(db, makeSession({ sessionId: 'wt', worktree: '/test/project-wt', branch: 'feature' }));
+
+      expect(getActiveSession(db, '/test/project', { agentInstance: 'a' })?.sessionId).toBe('main-a');
+      expect(getActiveSession(db, '/test/project', { worktree: '/test/project-wt' })?.sessionId).toBe('wt');
+      expect(getActiveSession(db, '/test/project', { branch: 'feature', agentInstance: 'a' })).toBeUndefined();
+    });
+  });
+
+  describe('getActiveSessions', () => {
+    it('returns every active session in the project', () => {
+      createSession(db, makeSession({ sessionId: 's1', startedAt: '2026-01-15T09:00:00.000Z' }));
+      createSession(db, makeSession({ sessionId: 's2', startedAt: '2026-01-15T10:00:00.000Z', worktree: '/wt' }));
+      createSession(db, makeSession({ sessionId: 'done' }));
+      endSession(db, 'done', '2026-01-15T11:00:00.000Z');
+
+      const active = getActiveSessions(db, '/test/project');
+      expect(active.map((s) => s.sessionId)).toEqual(['s2', 's1']);
+      expect(active[0]?.worktree).toBe('/wt');
+      expect(getActiveSessions(db, '/test/project', { branch: 'main', worktree: '/wt' })).toHaveLength(1);
+    });
   });
 
   describe('getRecentSessions', () => {
@@ -195,6 +364,29 @@ describe('sessions', () => {
     });
   });
 
+  describe('listRecentSessions', () => {
+    it('returns sessions from every project in any status, newest first', () => {
+      createSession(db, makeSession({ sessionId: 'old', startedAt: '2026-01-10T10:00:00.000Z' }));
+      createSession(db, makeSession({
+        sessionId: 'new',
+        projectPath: '/other/project',
+        startedAt: '2026-01-20T10:00:00.000Z',
+      }));
+
+      expect(listRecentSessions(db).map((s) => s.sessionId)).toEqual(['new', 'old']);
+    });
+  });
+
+  describe('getProjectPaths', () => {
+    it('lists each project once, sorted', () => {
+      createSession(db, makeSession({ projectPath: '/b' }));
+      createSession(db, makeSession({ projectPath: '/a' }));
+      createSession(db, makeSession({ projectPath: '/b' }));
+
+      expect(getProjectPaths(db)).toEqual(['/a', '/b']);
+    });
+  });
+
   describe('searchSessions', () => {
     it('searches by summary text', () => {
       const s1 = makeSession({ sessionId: 's1' });
@@ -219,6 +411,30 @@ describe('sessions', () => {
     });
   });
 
+  describe('getChildSessions', () => {
+    it('returns the subagent tree depth first in start order', () => {
+      createSession(db, makeSession({ sessionId: 'parent' }));
+      createSession(db, makeSession({
+        sessionId: 'second', parentSessionId: 'parent', startedAt: '2026-01-15T10:20:00.000Z',
+      }));
+      createSession(db, makeSession({
+        sessionId: 'first', parentSessionId: 'parent', startedAt: '2026-01-15T10:10:00.000Z',
+      }));
+      createSession(db, makeSession({
+        sessionId: 'nested', parentSessionId: 'first', startedAt: '2026-01-15T10:15:00.000Z',
+      }));
+
+      const tree = getChildSessions(db, 'parent');
+      expect(tree.map((n) => [n.session.sessionId, n.depth])).toEqual([
+        ['first', 1],
+        ['nested', 2],
+        ['second', 1],
+      ]);
+      expect(tree[0]?.session.parentSessionId).toBe('parent');
+      expect(getChildSessions(db, 'second')).toEqual([]);
+    });
+  });
+
   describe('computeMetrics', () => {
     it('computes metrics from session events', () => {
       const session = makeSession({ sessionId: 'metrics-test' });
@@ -260,6 +476,35 @@ describe('sessions', () => {
       const metrics = computeMetrics(db, 'nonexistent');
       expect(metrics).toBeUndefined();
     });
+
+    it('rolls up events from subagent sessions', () => {
+      createSession(db, makeSession({ sessionId: 'parent' }));
+      createSession(db, makeSession({ sessionId: 'child', parentSessionId: 'parent' }));
+      createSession(db, makeSession({ sessionId: 'grandchild', parentSessionId: 'child' }));
+      createSession(db, makeSession({ sessionId: 'unrelated' }));
+      insertEvent(db, makeEvent('parent', {
+        detail: { type: 'file_op', path: '/a.ts', operation: 'read' },
+      }));
+      insertEvent(db, makeEvent('child', {
+        detail: { type: 'file_op', path: '/a.ts', operation: 'read' },
+      }));
+      insertEvent(db, makeEvent('grandchild', {
+        eventType: 'decision',
+        category: 'other',
+        detail: { type: 'decision', title: 'Use Zod', rationale: 'Type safety' },
+      }));
+      insertEvent(db, makeEvent('unrelated'));
+
+      const parent = computeMetrics(db, 'parent');
+      expect(parent?.eventsTotal).toBe(3);
+      expect(parent?.filesRead).toBe(1);
+      expect(parent?.decisionsRecorded).toBe(1);
+      expect(parent?.childSessions).toBe(2);
+
+      const child = computeMetrics(db, 'child');
+      expect(child?.eventsTotal).toBe(2);
+      expect(child?.childSessions).toBe(1);
+    });
   });
 
   describe('getSessionStats', () => {
@@ -0,0 +1,85 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import type Database from 'better-sqlite3';
+import { createInMemoryDatabase } from '../../src/storage/database.js';
+import { handleListActiveSessions } from '../../src/tools/active-sessions.js';
+import { createSession, endSession } from '../../src/storage/sessions.js';
+import { insertEvent } from '../../src/storage/events.js';
+import type { Session } from '../../src/types.js';
+
+function seedSession(db: Database.Database, overrides: Partial<Session> & { sessionId: string }): void {
+  createSession(db, {
+    projectPath: '/test/project',
+    branch: 'main',
+    startedAt: '2026-01-15T10:00:00.000Z',
+    status: 'active',
+    ...overrides,
+  });
+}
+
+function seedFileOp(
+  db: Database.Database,
+  sessionId: string,
+  path: string,
+  operation: 'read' | 'write' | 'edit',
+  timestamp: string,
+): void {
+  insertEvent(db, {
+    eventId: `evt-${Math.random().toString(36).slice(2, 8)}`,
+    sessionId,
+    timestamp,
+    eventType: operation === 'read' ? 'file_read' : operation === 'write' ? 'file_write' : 'file_edit',
+    category: operation === 'read' ? 'read' : 'edit',
+    detail: { type: 'file_op', path, operation },
+  });
+}
+
+describe('list_active_sessions tool', () => {
+  let db: Database.Database;
+
+  beforeEach(() => {
+    db = createInMemoryDatabase();
+  });
+
+  it('lists active sessions with the files they modify', async () => {
+    seedSession(db, { sessionId: 'a', agentType: 'claude-code', agentInstance: 'tab-1' });
+    seedSession(db, { sessionId: 'b', branch: 'feature', worktree: '/test/project-feature' });
+    seedSession(db, { sessionId: 'done' });
+    endSession(db, 'done', '2026-01-15T11:00:00.000Z');
+    seedFileOp(db, 'a', 'src/a.ts', 'edit', '2026-01-15T10:10:00.000Z');
+    seedFileOp(db, 'a', 'src/b.ts', 'read', '2026-01-15T10:20:00.000Z');
+    seedFileOp(db, 'b', 'src/c.ts', 'write', '2026-01-15T10:30:00.000Z');
+
+    const result = await handleListActiveSessions(db)({ projectPath: '/test/project' });
+
+    const sessions = result.structuredContent!.sessions;
+    expect(sessions.map((s) => s.session.sessionId)).toEqual(['b', 'a']);
+    expect(sessions[1]).toMatchObject({
+      lastActivityAt: '2026-01-15T10:20:00.000Z',
+      eventCount: 2,
+      filesModified: ['src/a.ts'],
+    });
+    expect(result.content[0]?.text).toContain('Claude Code (tab-1)');
+    expect(result.content[0]?.text).toContain('Worktree: /test/project-feature');
+    expect(result.content[0]?.text).toContain('Editing: src/a.ts');
+  });
+
+  it('flags files modified by more than one session', async () => {
+    seedSession(db, { sessionId: 'a', startedAt: '2026-01-15T09:00:00.000Z' });
+    seedSession(db, { sessionId: 'b' });
+    seedFileOp(db, 'a', 'src/shared.ts', 'edit', '2026-01-15T10:10:00.000Z');
+    seedFileOp(db, 'b', 'src/shared.ts', 'edit', '2026-01-15T10:20:00.000Z');
+
+    const result = await handleListActiveSessions(db)({ projectPath: '/test/project', excludeSessionId: 'a' });
+
+    expect(result.structuredContent?.sessions.map((s) => s.session.sessionId)).toEqual(['b']);
+    expect(result.structuredContent?.sharedFiles).toEqual([
+      { filePath: 'src/shared.ts', sessionIds: ['b', 'a'] },
+    ]);
+    expect(result.content[0]?.text).toContain('Modified by more than one session:');
+  });
+
+  it('reports when nobody is working on the project', async () => {
+    const result = await handleListActiveSessions(db)({ projectPath: '/test/project' });
+    expect(result.content[0]?.text).toContain('No active sessions');
+  });
+});
@@ -0,0 +1,94 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { mkdirSync, mkdtempSync, rmSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import type Database from 'better-sqlite3';
+import { createInMemoryDatabase } from '../../src/storage/database.js';
+import { getProjectKnowledge, insertKnowledge } from '../../src/storage/knowledge.js';
+import { computeContentHash } from '../../src/context/deduplication.js';
+import { handleImportKnowledge } from '../../src/tools/import.js';
+
+describe('import_knowledge tool', () => {
+  let db: Database.Database;
+  let projectPath: string;
+
+  beforeEach(() => {
+    db = createInMemoryDatabase();
+    projectPath = mkdtempSync(join(tmpdir(), 'synapse-import-'));
+
+    writeFileSync(join(projectPath, 'CLAUDE.md'), [
+      '# Conventions',
+      '',
+      '- Use immutable data structures everywhere',
+      '- Validate tool input with zod schemas',
+    ].join('\n'));
+
+    mkdirSync(join(projectPath, 'docs', 'adr'), { recursive: true });
+    writeFileSync(join(projectPath, 'docs', 'adr', 'README.md'), '# Decisions\n\n- index of records');
+    writeFileSync(join(projectPath, 'docs', 'adr', '0001-use-sqlite.md'), [
+      '# 1. Use SQLite',
+      '',
+      '## Decision',
+      'Use better-sqlite3 for local storage.',
+    ].join('\n'));
+  });
+
+  afterEach(() => {
+    rmSync(projectPath, { recursive: true, force: true });
+  });
+
+  it('imports instruction bullets as patterns and ADRs as decisions', async () => {
+    const handler = handleImportKnowledge(db);
+    const result = await handler({ projectPath });
+
+    expect(result.content[0]?.text).toContain('Imported 3 item(s), skipped 0.');
+    expect(result.structuredContent?.imported.every((i) => i.knowledgeId)).toBe(true);
+    const knowledge = getProjectKnowledge(db, projectPath);
+    expect(knowledge.filter((k) => k.knowledgeType === 'pattern')).toHaveLength(2);
+    expect(knowledge.find((k) => k.knowledgeType === 'decision')?.title).toBe('Use SQLite');
+  });
+
+  it('skips duplicates of existing knowledge and reports them', async () => {
+    const content = 'Use better-sqlite3 for local storage.';
+    insertKnowledge(db, {
+      knowledgeId: 'existing',
+      projectPath,
+      title: 'Storage engine',
+      content,
+      knowledgeType: 'decision',
+      tags: [],
+      createdAt: new Date().toISOString(),
+      contentHash: computeContentHash(content),
+    });
+
+    const handler = handleImportKnowledge(db);
+    const result = await handler({ projectPath });
+
+    expect(result.content[0]?.text).toContain('Imported 2 item(s), skipped 1.');
+    expect(result.content[0]?.text).toContain('duplicate of [decision] Storage engine (existing)');
+  });
+
+  it('is safe to re-run', async () => {
+    const handler = handleImportKnowledge(db);
+    await handler({ projectPath });
+    const result = await handler({ projectPath });
+
+    expect(result.content[0]?.text).toContain('Imported 0 item(s), skipped 3.');
+    expect(getProjectKnowledge(db, projectPath)).toHaveLength(3);
+  });
+
+  it('does not write on dry run', async () => {
+    const handler = handleImportKnowledge(db);
+    const result = await handler({ projectPath, dryRun: true });
+
+    expect(result.content[0]?.text).toContain('Would import 3 item(s)');
+    expect(getProjectKnowledge(db, projectPath)).toHaveLength(0);
+  });
+
+  it('reports explicit paths that do not exist', async () => {
+    const handler = handleImportKnowledge(db);
+    const result = await handler({ projectPath, paths: ['missing.md'] });
+
+    expect(result.content[0]?.text).toContain('Not found: missing.md');
+  });
+});
@@ -0,0 +1,101 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { mkdtempSync, readFileSync, rmSync, writeFileSync, existsSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import type Database from 'better-sqlite3';
+import { createInMemoryDatabase } from '../../src/storage/database.js';
+import { insertKnowledge, retractKnowledge } from '../../src/storage/knowledge.js';
+import { handleGenerateInstructions } from '../../src/tools/instructions.js';
+
+describe('generate_instructions_file tool', () => {
+  let db: Database.Database;
+  let projectPath: string;
+
+  beforeEach(() => {
+    db = createInMemoryDatabase();
+    projectPath = mkdtempSync(join(tmpdir(), 'synapse-instructions-'));
+
+    insertKnowledge(db, {
+      knowledgeId: 'k1',
+      projectPath,
+      title: 'Use SQLite for storage',
+      content: 'Embedded database, zero infrastructure',
+      knowledgeType: 'decision',
+      tags: [],
+      createdAt: new Date().toISOString(),
+    });
+  });
+
+  afterEach(() => {
+    rmSync(projectPath, { recursive: true, force: true });
+  });
+
+  it('creates CLAUDE.md by default', async () => {
+    const handler = handleGenerateInstructions(db);
+    const result = await handler({ projectPath, branch: 'main' });
+
+    expect(result.content[0]?.text).toContain('Created');
+    const written = readFileSync(join(projectPath, 'CLAUDE.md'), 'utf-8');
+    expect(written).toContain('<!-- synapse-memory:start -->');
+    expect(written).toContain('**Use SQLite for storage**');
+  });
+
+  it('preserves hand-written content and is idempotent', async () => {
+    const file = join(projectPath, 'AGENTS.md');
+    writeFileSync(file, '# Agents\n\nRun npm test before committing.\n');
+
+    const handler = handleGenerateInstructions(db);
+    await handler({ projectPath, format: 'agents', branch: 'main' });
+    const first = readFileSync(file, 'utf-8');
+    const second = await handler({ projectPath, format: 'agents', branch: 'main' });
+
+    expect(first.startsWith('# Agents\n\nRun npm test before committing.\n')).toBe(true);
+    expect(second.content[0]?.text).toContain('already up to date');
+    expect(readFileSync(file, 'utf-8')).toBe(first);
+  });
+
+  it('drops retracted knowledge on regeneration', async () => {
+    const handler = handleGenerateInstructions(db);
+    await handler({ projectPath, format: 'cursorrules', branch: 'main' });
+
+    retractKnowledge(db, 'k1', 'Moved to Postgres', new Date().toISOString());
+    const result = await handler({ projectPath, format: 'cursorrules', branch: 'main' });
+
+    expect(result.content[0]?.text).toContain('Updated');
+    expect(readFileSync(join(projectPath, '.cursorrules'), 'utf-8')).not.toContain('Use SQLite');
+  });
+
+  it('does not write on dry run', async () => {
+    const handler = handleGenerateInstructions(db);
+    const result = await handler({ projectPath, branch: 'main', dryRun: true });
+
+    expect(result.content[0]?.text).toContain('Would write 1 knowledge item(s)');
+    expect(existsSync(join(projectPath, 'CLAUDE.md'))).toBe(false);
+  });
+
+  it('leaves a file with an unterminated managed block alone', async () => {
+    const existing = '# Notes\n<!-- synapse-memory:start -->\nhalf a block\n\n## Keep\nhand-written\n';
+    writeFileSync(join(projectPath, 'CLAUDE.md'), existing);
+
+    const result = await handleGenerateInstructions(db)({ projectPath, branch: 'main' });
+
+    expect(result.isError).toBe(true);
+    expect(result.content[0]?.text).toContain('without a <!-- synapse-memory:end --> after it');
+    expect(readFileSync(join(projectPath, 'CLAUDE.md'), 'utf-8')).toBe(existing);
+  });
+
+  it('refuses to write outside the project', async () => {
+    const outside = mkdtempSync(join(tmpdir(), 'synapse-outside-'));
+    const target = join(outside, 'authorized_keys');
+    writeFileSync(target, 'ssh-ed25519 AAAA\n');
+
+    try {
+      const result = await handleGenerateInstructions(db)({ projectPath, branch: 'main', outputPath: target });
+
+      expect(result.isError).toBe(true);
+      expect(readFileSync(target, 'utf-8')).toBe('ssh-ed25519 AAAA\n');
+    } finally {
+      rmSync(outside, { recursive: true, force: true });
+    }
+  });
+});
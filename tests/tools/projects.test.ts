@@ -0,0 +1,71 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import type Database from 'better-sqlite3';
+import { createInMemoryDatabase } from '../../src/storage/database.js';
+import { handleSessionStart } from '../../src/tools/session-start.js';
+import { handlePromoteKnowledge, handleGetKnowledge } from '../../src/tools/knowledge.js';
+import { handleMoveProject, handleMergeProjects } from '../../src/tools/projects.js';
+
+describe('project tools', () => {
+  let db: Database.Database;
+
+  beforeEach(async () => {
+    db = createInMemoryDatabase();
+    await handleSessionStart(db)({ projectPath: '/old/app', branch: 'main' });
+    await handlePromoteKnowledge(db)({
+      projectPath: '/old/app',
+      title: 'Use SQLite',
+      content: 'Zero infrastructure',
+      knowledgeType: 'decision',
+    });
+  });
+
+  describe('move_project', () => {
+    it('moves sessions and knowledge to the new root', async () => {
+      const result = await handleMoveProject(db)({ fromPath: '/old/app', toPath: '/new/app' });
+
+      expect(result.structuredContent).toMatchObject({
+        project: { projectId: 'path:/new/app', rootPath: '/new/app', aliases: ['/new/app'] },
+        previousRootPath: '/old/app',
+        moved: { sessions: 1, knowledge: 1 },
+      });
+      const knowledge = await handleGetKnowledge(db)({ projectPath: '/new/app' });
+      expect(knowledge.structuredContent?.items.map((k) => k.title)).toEqual(['Use SQLite']);
+    });
+
+    it('refuses unknown paths and roots owned by another project', async () => {
+      await handleSessionStart(db)({ projectPath: '/other/app', branch: 'main' });
+
+      const unknown = await handleMoveProject(db)({ fromPath: '/never/seen', toPath: '/new/app' });
+      expect(unknown.isError).toBe(true);
+      expect(unknown.content[0]?.text).toContain('No project is known at /never/seen');
+
+      const taken = await handleMoveProject(db)({ fromPath: '/old/app', toPath: '/other/app' });
+      expect(taken.isError).toBe(true);
+      expect(taken.content[0]?.text).toContain('merge_projects');
+    });
+  });
+
+  describe('merge_projects', () => {
+    it('folds the source into the target and maps its paths there', async () => {
+      await handleSessionStart(db)({ projectPath: '/other/app', branch: 'main' });
+
+      const result = await handleMergeProjects(db)({ sourcePath: '/old/app', targetPath: '/other/app' });
+
+      expect(result.structuredContent).toMatchObject({
+        project: { projectId: 'path:/other/app', aliases: ['/old/app', '/other/app'] },
+        mergedProjectId: 'path:/old/app',
+        moved: { sessions: 1, knowledge: 1 },
+      });
+      const knowledge = await handleGetKnowledge(db)({ projectPath: '/old/app' });
+      expect(knowledge.structuredContent).toMatchObject({ projectPath: '/other/app' });
+      expect(knowledge.structuredContent?.items).toHaveLength(1);
+    });
+
+    it('refuses to merge a project into itself', async () => {
+      const result = await handleMergeProjects(db)({ sourcePath: '/old/app', targetPath: '/old/app' });
+
+      expect(result.isError).toBe(true);
+      expect(result.content[0]?.text).toContain('already the same project');
+    });
+  });
+});
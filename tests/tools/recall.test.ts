@@ -4,6 +4,8 @@ import { createInMemoryDatabase } from '../../src/storage/database.js';
 import { handleRecall } from '../../src/tools/recall.js';
 import { createSession, endSession } from '../../src/storage/sessions.js';
 import { insertEvent } from '../../src/storage/events.js';
+import { insertKnowledge } from '../../src/storage/knowledge.js';
+import { getKnowledgeUsageHistory } from '../../src/storage/knowledge-usage.js';
 import type { Session, SessionEvent } from '../../src/types.js';
 
 function seedSession(db: Database.Database, id: string, summary: string): void {
@@ -18,6 +20,30 @@ function seedSession(db: Database.Database, id: string, summary: string): void {
   endSession(db, id, '2026-01-15T11:00:00.000Z', summary);
 }
 
+function seedActiveSession(db: Database.Database, id: string, agentInstance?: string): void {
+  createSession(db, {
+    sessionId: id,
+    projectPath: '/test/project',
+    branch: 'main',
+    startedAt: '2026-01-15T10:00:00.000Z',
+    status: 'active',
+    agentInstance,
+  });
+}
+
+function seedRecallableKnowledge(db: Database.Database): void {
+  insertKnowledge(db, {
+    knowledgeId: 'k1',
+    projectPath: '/test/project',
+    title: 'Rotate refresh tokens',
+    content: 'Refresh tokens rotate hourly',
+    knowledgeType: 'decision',
+    tags: [],
+    createdAt: '2026-01-10T10:00:00.000Z',
+    usageCount: 0,
+  });
+}
+
 function seedEvent(
   db: Database.Database,
   sessionId: string,
@@ -56,6 +82,45 @@ describe('recall tool', () => {
     expect(result.content[0]?.text).not.toContain('API endpoint');
   });
 
+  it('finds decision rationales and knowledge by full-text query', async () => {
+    seedSession(db, 's1', 'Auth work');
+    seedEvent(db, 's1', {
+      eventType: 'decision',
+      detail: { type: 'decision', title: 'Short-lived tokens', rationale: 'Refresh tokens rotate hourly' },
+    });
+
+    const handler = handleRecall(db);
+    const result = await handler({
+      projectPath: '/test/project',
+      query: 'rotate',
+    });
+
+    expect(result.content[0]?.text).toContain('Full-text matches');
+    expect(result.content[0]?.text).toContain('[decision] rationale:');
+    expect(result.content[0]?.text).toContain('**rotate**');
+    expect(result.structuredContent?.textHits[0]).toMatchObject({
+      source: 'event',
+      kind: 'decision',
+      fields: ['rationale'],
+    });
+  });
+
+  it('finds related sessions in semantic mode', async () => {
+    seedSession(db, 's1', 'Refreshing expired authentication tokens');
+    seedSession(db, 's2', 'Tweaked CSS grid layout');
+
+    const handler = handleRecall(db);
+    const result = await handler({
+      projectPath: '/test/project',
+      query: 'auth token refresh',
+      mode: 'semantic',
+    });
+
+    expect(result.content[0]?.text).toContain('Semantic matches');
+    expect(result.content[0]?.text).toContain('Refreshing expired authentication tokens');
+    expect(result.content[0]?.text).not.toContain('CSS grid');
+  });
+
   it('returns all sessions when no query provided', async () => {
     seedSession(db, 's1', 'Session one');
     seedSession(db, 's2', 'Session two');
@@ -121,4 +186,71 @@ describe('recall tool', () => {
     });
     expect(result.content[0]?.text).toContain('No milestone events found');
   });
+
+  it('credits recalled knowledge to the given session', async () => {
+    seedActiveSession(db, 'mine', 'a');
+    seedActiveSession(db, 'theirs', 'b');
+    seedRecallableKnowledge(db);
+
+    const result = await handleRecall(db)({
+      projectPath: '/test/project',
+      query: 'rotate',
+      branch: 'main',
+      sessionId: 'mine',
+    });
+
+    expect(result.structuredContent?.usageSessionId).toBe('mine');
+    expect(getKnowledgeUsageHistory(db, 'k1').map((u) => u.sessionId)).toEqual(['mine']);
+  });
+
+  it('credits nobody when several sessions are active and none is given', async () => {
+    seedActiveSession(db, 'a');
+    seedActiveSession(db, 'b');
+    seedRecallableKnowledge(db);
+
+    const result = await handleRecall(db)({ projectPath: '/test/project', query: 'rotate', branch: 'main' });
+
+    expect(result.structuredContent?.usageSessionId).toBeUndefined();
+    expect(getKnowledgeUsageHistory(db, 'k1')).toHaveLength(0);
+  });
+
+  it('credits the only active session on the branch', async () => {
+    seedActiveSession(db, 'only');
+    seedRecallableKnowledge(db);
+
+    await handleRecall(db)({ projectPath: '/test/project', query: 'rotate', branch: 'main' });
+
+    expect(getKnowledgeUsageHistory(db, 'k1').map((u) => u.sessionId)).toEqual(['only']);
+  });
+
+  it('rejects an unknown session', async () => {
+    const result = await handleRecall(db)({ projectPath: '/test/project', query: 'x', sessionId: 'missing' });
+    expect(result.isError).toBe(true);
+  });
+
+  it('nests subagent sessions under their parent', async () => {
+    seedSession(db, 'parent', 'Refactor auth module');
+    createSession(db, {
+      sessionId: 'child',
+      projectPath: '/test/project',
+      branch: 'main',
+      startedAt: '2026-01-15T10:10:00.000Z',
+      status: 'active',
+      parentSessionId: 'parent',
+    });
+    endSession(db, 'child', '2026-01-15T10:40:00.000Z', 'Auth module tests');
+    seedEvent(db, 'child', {
+      detail: { type: 'decision', title: 'Mock the token store', rationale: 'Keeps tests offline' },
+    });
+
+    const result = await handleRecall(db)({ projectPath: '/test/project', branch: 'main' });
+
+    const sessions = result.structuredContent!.sessions;
+    expect(sessions.map((s) => s.session.sessionId)).toEqual(['parent']);
+    expect(sessions[0]?.subagents).toMatchObject([
+      { session: { sessionId: 'child' }, depth: 1, events: [{ eventType: 'decision' }] },
+    ]);
+    expect(result.content[0]?.text).toContain('└ Subagent: child (completed) Auth module tests');
+    expect(result.content[0]?.text).toContain('[decision] Mock the token store: Keeps tests offline');
+  });
 });
@@ -0,0 +1,36 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import type Database from 'better-sqlite3';
+import { createInMemoryDatabase } from '../../src/storage/database.js';
+import { recordCoAccess } from '../../src/storage/co-access.js';
+import { handleRelatedFiles } from '../../src/tools/related-files.js';
+
+describe('related_files tool', () => {
+  let db: Database.Database;
+
+  beforeEach(() => {
+    db = createInMemoryDatabase();
+  });
+
+  it('lists files touched together with a file given by absolute path', async () => {
+    recordCoAccess(db, '/test/project', ['src/api.ts', 'src/api.test.ts'], 'session', '2026-01-10T00:00:00Z');
+    recordCoAccess(db, '/test/project', ['src/api.ts', 'src/api.test.ts', 'src/db.ts'], 'commit', '2026-01-11T00:00:00Z');
+
+    const result = await handleRelatedFiles(db)({ projectPath: '/test/project', filePath: '/test/project/src/api.ts' });
+
+    expect(result.structuredContent).toMatchObject({
+      filePath: 'src/api.ts',
+      related: [
+        { filePath: 'src/api.test.ts', sessionCount: 1, commitCount: 1 },
+        { filePath: 'src/db.ts', sessionCount: 0, commitCount: 1 },
+      ],
+    });
+    expect(result.content[0]?.text).toContain('src/api.test.ts (1 session(s), 1 commit(s))');
+  });
+
+  it('says when nothing has been seen with the file', async () => {
+    const result = await handleRelatedFiles(db)({ projectPath: '/test/project', filePath: 'README.md' });
+
+    expect(result.structuredContent?.related).toEqual([]);
+    expect(result.content[0]?.text).toBe('No files have been touched together with README.md yet.');
+  });
+});
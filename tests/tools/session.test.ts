@@ -1,9 +1,50 @@
-import { describe, it, expect, beforeEach } from 'vitest';
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { execFileSync } from 'node:child_process';
+import { mkdtempSync, rmSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
 import type Database from 'better-sqlite3';
 import { createInMemoryDatabase } from '../../src/storage/database.js';
 import { handleSessionStart } from '../../src/tools/session-start.js';
 import { handleSessionEnd } from '../../src/tools/session-end.js';
-import { getSession, getActiveSession } from '../../src/storage/sessions.js';
+import { handlePauseSession } from '../../src/tools/session-pause.js';
+import { handleResumeSession } from '../../src/tools/session-resume.js';
+import { createSession, getSession, getActiveSession } from '../../src/storage/sessions.js';
+import { insertEvent } from '../../src/storage/events.js';
+import { insertKnowledge } from '../../src/storage/knowledge.js';
+import { getImportantFiles } from '../../src/storage/file-importance.js';
+import { getRelatedFiles, recordCoAccess } from '../../src/storage/co-access.js';
+import { handleRecall } from '../../src/tools/recall.js';
+import { estimateTokens } from '../../src/context/budget.js';
+
+function hoursAgo(hours: number): string {
+  return new Date(Date.now() - hours * 3_600_000).toISOString();
+}
+
+function git(cwd: string, ...args: string[]): string {
+  return execFileSync('git', args, { cwd, encoding: 'utf-8', stdio: ['ignore', 'pipe', 'ignore'] }).trim();
+}
+
+function commitFile(cwd: string, file: string, content: string, message: string): void {
+  writeFileSync(join(cwd, file), content);
+  git(cwd, 'add', '-A');
+  git(cwd, 'commit', '-q', '-m', message);
+}
+
+function seedKnowledge(db: Database.Database, count: number, content: string): void {
+  for (let i = 0; i < count; i++) {
+    insertKnowledge(db, {
+      knowledgeId: `k${i}`,
+      projectPath: '/test/project',
+      title: `Convention ${i}`,
+      content,
+      knowledgeType: 'pattern',
+      tags: [],
+      createdAt: new Date(Date.now() - i * 60_000).toISOString(),
+      usageCount: 0,
+    });
+  }
+}
 
 describe('session tools', () => {
   let db: Database.Database;
@@ -28,15 +69,123 @@ describe('session tools', () => {
       expect(active?.branch).toBe('main');
     });
 
-    it('abandons stale sessions', async () => {
+    it('keeps recently active sessions running alongside a new one', async () => {
+      const handler = handleSessionStart(db);
+      const first = await handler({ projectPath: '/test/project', branch: 'main' });
+
+      const second = await handler({ projectPath: '/test/project', branch: 'main' });
+
+      expect(second.structuredContent?.sessionId).not.toBe(first.structuredContent?.sessionId);
+      expect(second.structuredContent?.abandonedSessions).toBe(0);
+      expect(getSession(db, first.structuredContent!.sessionId)?.status).toBe('active');
+    });
+
+    it('abandons sessions with no recent activity', async () => {
+      const lastEventAt = hoursAgo(9);
+      createSession(db, {
+        sessionId: 'stale',
+        projectPath: '/test/project',
+        branch: 'main',
+        startedAt: hoursAgo(10),
+        status: 'active',
+      });
+      insertEvent(db, {
+        eventId: 'e1',
+        sessionId: 'stale',
+        timestamp: lastEventAt,
+        eventType: 'file_read',
+        category: 'read',
+        detail: { type: 'file_op', path: 'src/a.ts', operation: 'read' },
+      });
+
+      const result = await handleSessionStart(db)({ projectPath: '/test/project', branch: 'main' });
+
+      expect(result.structuredContent?.abandonedSessions).toBe(1);
+      const stale = getSession(db, 'stale');
+      expect(stale?.status).toBe('abandoned');
+      expect(stale?.endedAt).toBe(lastEventAt);
+    });
+
+    it('reattaches to a recent session with resumeIfRecent', async () => {
+      const handler = handleSessionStart(db);
+      const first = await handler({ projectPath: '/test/project', branch: 'main' });
+
+      const again = await handler({ projectPath: '/test/project', branch: 'main', resumeIfRecent: true });
+
+      expect(again.structuredContent?.resumed).toBe(true);
+      expect(again.structuredContent?.sessionId).toBe(first.structuredContent?.sessionId);
+      expect(again.content[0]?.text).toContain('Session resumed:');
+    });
+
+    it('reports other active sessions and records worktree and agent instance', async () => {
+      const handler = handleSessionStart(db);
+      await handler({ projectPath: '/test/project', branch: 'main', worktree: '/test/project', agentInstance: 'a' });
+
+      const second = await handler({
+        projectPath: '/test/project',
+        branch: 'feature',
+        worktree: '/test/project-feature',
+        agentInstance: 'b',
+      });
+
+      expect(second.structuredContent).toMatchObject({
+        concurrentSessions: 1,
+        worktree: '/test/project-feature',
+        agentInstance: 'b',
+      });
+      expect(second.content[0]?.text).toContain('1 other session(s) active');
+      expect(getSession(db, second.structuredContent!.sessionId)?.worktree).toBe('/test/project-feature');
+    });
+
+    it('only resumes the same agent instance with resumeIfRecent', async () => {
+      const handler = handleSessionStart(db);
+      const first = await handler({ projectPath: '/test/project', branch: 'main', agentInstance: 'a' });
+
+      const other = await handler({ projectPath: '/test/project', branch: 'main', agentInstance: 'b', resumeIfRecent: true });
+      const same = await handler({ projectPath: '/test/project', branch: 'main', agentInstance: 'a', resumeIfRecent: true });
+
+      expect(other.structuredContent?.resumed).toBe(false);
+      expect(same.structuredContent?.sessionId).toBe(first.structuredContent?.sessionId);
+    });
+
+    it('starts subagent sessions under a parent', async () => {
+      const handler = handleSessionStart(db);
+      const parent = await handler({ projectPath: '/test/project', branch: 'main' });
+      const parentId = parent.structuredContent!.sessionId;
+
+      const child = await handler({ projectPath: '/test/project', branch: 'main', parentSessionId: parentId });
+
+      expect(child.structuredContent?.parentSessionId).toBe(parentId);
+      expect(child.content[0]?.text).toContain(`Parent session: ${parentId}`);
+      expect(getSession(db, child.structuredContent!.sessionId)?.parentSessionId).toBe(parentId);
+    });
+
+    it('rejects an unknown parent session', async () => {
+      const result = await handleSessionStart(db)({ projectPath: '/test/project', parentSessionId: 'missing' });
+      expect(result.isError).toBe(true);
+    });
+
+    it('starts a new session when nothing recent matches resumeIfRecent', async () => {
+      createSession(db, {
+        sessionId: 'old',
+        projectPath: '/test/project',
+        branch: 'main',
+        startedAt: hoursAgo(2),
+        status: 'active',
+      });
       const handler = handleSessionStart(db);
-      await handler({ projectPath: '/test/project', branch: 'main' });
-      const first = getActiveSession(db, '/test/project');
 
-      await handler({ projectPath: '/test/project', branch: 'main' });
+      const other = await handler({ projectPath: '/test/project', branch: 'feature', resumeIfRecent: true });
+      const outside = await handler({
+        projectPath: '/test/project',
+        branch: 'main',
+        resumeIfRecent: true,
+        resumeWindowMinutes: 30,
+      });
 
-      const old = getSession(db, first!.sessionId);
-      expect(old?.status).toBe('abandoned');
+      expect(other.structuredContent?.resumed).toBe(false);
+      expect(outside.structuredContent?.resumed).toBe(false);
+      expect(outside.structuredContent?.sessionId).not.toBe('old');
     });
 
     it('returns context from recent sessions', async () => {
@@ -57,6 +206,86 @@ describe('session tools', () => {
       expect(result.content[0]?.text).toContain('Recent Sessions');
       expect(result.content[0]?.text).toContain('Fixed a critical bug');
     });
+
+    it("hints at files usually changed with the last session's edits that it left alone", async () => {
+      for (let i = 0; i < 3; i++) {
+        recordCoAccess(db, '/test/project', ['src/auth.ts', 'src/auth.test.ts', 'src/db.ts'], 'session', hoursAgo(24 + i));
+      }
+      recordCoAccess(db, '/test/project', ['src/auth.ts', 'docs/auth.md'], 'commit', hoursAgo(30));
+      createSession(db, {
+        sessionId: 'prev',
+        projectPath: '/test/project',
+        branch: 'main',
+        startedAt: hoursAgo(2),
+        status: 'completed',
+      });
+      insertEvent(db, {
+        eventId: 'e1',
+        sessionId: 'prev',
+        timestamp: hoursAgo(2),
+        eventType: 'file_edit',
+        category: 'edit',
+        detail: { type: 'file_op', path: 'src/auth.ts', operation: 'edit' },
+      });
+      insertEvent(db, {
+        eventId: 'e2',
+        sessionId: 'prev',
+        timestamp: hoursAgo(2),
+        eventType: 'file_read',
+        category: 'read',
+        detail: { type: 'file_op', path: 'src/db.ts', operation: 'read' },
+      });
+
+      const result = await handleSessionStart(db)({ projectPath: '/test/project', branch: 'main' });
+
+      expect(result.structuredContent?.untouchedCompanions).toEqual([
+        { filePath: 'src/auth.ts', companion: 'src/auth.test.ts', together: 3 },
+      ]);
+      expect(result.content[0]?.text).toContain(
+        'src/auth.test.ts: changed with src/auth.ts 3 times, not touched last session',
+      );
+    });
+  });
+
+  describe('session_start context budget', () => {
+    it('truncates long knowledge content', async () => {
+      seedKnowledge(db, 1, 'Always validate input at the boundary. '.repeat(100));
+
+      const result = await handleSessionStart(db)({ projectPath: '/test/project', branch: 'main' });
+      const entry = result.structuredContent?.knowledge[0];
+
+      expect(entry?.truncated).toBe(true);
+      expect(entry?.knowledge.content.endsWith('…')).toBe(true);
+      expect(result.content[0]?.text).toContain('[pattern] Convention 0: Always validate input');
+    });
+
+    it('stays within the budget and reports what was left out', async () => {
+      seedKnowledge(db, 20, 'Prefer small focused modules with one clear responsibility each.');
+
+      const result = await handleSessionStart(db)({ projectPath: '/test/project', branch: 'main', maxTokens: 300 });
+      const data = result.structuredContent!;
+      const text = result.content[0]!.text;
+
+      expect(estimateTokens(text)).toBeLessThanOrEqual(300);
+      expect(data.budget).toEqual({ maxTokens: 300, usedTokens: estimateTokens(text) });
+      expect(data.knowledge.length).toBeGreaterThan(0);
+      expect(data.knowledge.length + data.omitted.knowledge.length).toBe(20);
+      expect(text).toContain(`Knowledge (${data.omitted.knowledge.length}):`);
+      expect(text).toContain('Use recall or get_knowledge to load them.');
+    });
+
+    it('accepts a custom token estimator', async () => {
+      seedKnowledge(db, 3, 'Keep handlers thin.');
+      const words = (text: string) => text.split(/\s+/).filter(Boolean).length;
+
+      const result = await handleSessionStart(db, { maxTokens: 40 }, words)({
+        projectPath: '/test/project',
+        branch: 'main',
+      });
+
+      expect(words(result.content[0]!.text)).toBeLessThanOrEqual(40);
+      expect(result.structuredContent?.budget.maxTokens).toBe(40);
+    });
   });
 
   describe('session_end', () => {
@@ -79,10 +308,191 @@ describe('session tools', () => {
       expect(ended?.status).toBe('completed');
     });
 
+    it('generates a summary from recorded events when none is given', async () => {
+      const start = await handleSessionStart(db)({ projectPath: '/test/project', branch: 'main', gitCommit: 'aaaaaaa111' });
+      const sessionId = start.structuredContent!.sessionId;
+      insertEvent(db, {
+        eventId: 'e1',
+        sessionId,
+        timestamp: new Date().toISOString(),
+        eventType: 'decision',
+        category: 'other',
+        detail: { type: 'decision', title: 'Use SQLite', rationale: 'Embedded' },
+      });
+
+      const result = await handleSessionEnd(db)({ sessionId, gitCommit: 'bbbbbbb222' });
+
+      expect(result.structuredContent?.session).toMatchObject({
+        summary: 'Decisions: Use SQLite. Commits aaaaaaa..bbbbbbb.',
+        summaryGenerated: true,
+      });
+      expect(result.content[0]?.text).toContain('Summary (generated): Decisions: Use SQLite.');
+    });
+
+    it('replaces a generated summary when ended again with one', async () => {
+      const start = await handleSessionStart(db)({ projectPath: '/test/project', branch: 'main', gitCommit: 'aaaaaaa111' });
+      const sessionId = start.structuredContent!.sessionId;
+      await handleSessionEnd(db)({ sessionId, gitCommit: 'bbbbbbb222' });
+
+      const result = await handleSessionEnd(db)({ sessionId, summary: 'Moved storage to SQLite' });
+
+      expect(result.structuredContent?.summaryReplaced).toBe(true);
+      expect(getSession(db, sessionId)).toMatchObject({ summary: 'Moved storage to SQLite', status: 'completed' });
+      expect((await handleSessionEnd(db)({ sessionId, summary: 'Again' })).isError).toBe(true);
+    });
+
+    it('redacts secrets in the summary', async () => {
+      const start = await handleSessionStart(db)({ projectPath: '/test/project', branch: 'main' });
+      const sessionId = start.structuredContent!.sessionId;
+
+      const result = await handleSessionEnd(db)({ sessionId, summary: 'Rotated STRIPE_SECRET=abc123 for billing' });
+
+      expect(result.structuredContent?.redactions).toBe(1);
+      expect(getSession(db, sessionId)?.summary).toBe('Rotated STRIPE_SECRET=[REDACTED:secret_assignment] for billing');
+    });
+
     it('returns error for nonexistent session', async () => {
       const endHandler = handleSessionEnd(db);
       const result = await endHandler({ sessionId: 'nonexistent' });
       expect(result.isError).toBe(true);
     });
   });
+
+  describe('pause_session and resume_session', () => {
+    it('pauses and resumes a session with its latest events', async () => {
+      const start = await handleSessionStart(db)({ projectPath: '/test/project', branch: 'main' });
+      const sessionId = start.structuredContent!.sessionId;
+      insertEvent(db, {
+        eventId: 'e1',
+        sessionId,
+        timestamp: new Date().toISOString(),
+        eventType: 'decision',
+        category: 'agent',
+        detail: { type: 'decision', title: 'Use SQLite', rationale: 'Embedded' },
+      });
+
+      const paused = await handlePauseSession(db)({ sessionId });
+      expect(paused.structuredContent?.session.status).toBe('paused');
+
+      const resumed = await handleResumeSession(db)({ sessionId });
+      expect(resumed.structuredContent).toMatchObject({ previousStatus: 'paused', eventCount: 1 });
+      expect(resumed.content[0]?.text).toContain('Use SQLite: Embedded');
+      expect(getSession(db, sessionId)?.status).toBe('active');
+    });
+
+    it('resumes the most recent abandoned session in a project', async () => {
+      createSession(db, {
+        sessionId: 'stale',
+        projectPath: '/test/project',
+        branch: 'main',
+        startedAt: hoursAgo(10),
+        status: 'active',
+      });
+      await handleSessionStart(db)({ projectPath: '/test/project', branch: 'main' });
+      await handlePauseSession(db)({ sessionId: getActiveSession(db, '/test/project')!.sessionId });
+
+      const result = await handleResumeSession(db)({ sessionId: 'stale' });
+
+      expect(result.structuredContent?.previousStatus).toBe('abandoned');
+      expect(getSession(db, 'stale')?.status).toBe('active');
+      expect(getSession(db, 'stale')?.endedAt).toBeUndefined();
+    });
+
+    it('refuses completed sessions and sessions that cannot be paused', async () => {
+      const start = await handleSessionStart(db)({ projectPath: '/test/project', branch: 'main' });
+      const sessionId = start.structuredContent!.sessionId;
+      await handleSessionEnd(db)({ sessionId });
+
+      expect((await handleResumeSession(db)({ sessionId })).isError).toBe(true);
+      expect((await handlePauseSession(db)({ sessionId })).isError).toBe(true);
+      expect((await handlePauseSession(db)({ sessionId: 'nonexistent' })).isError).toBe(true);
+      expect((await handleResumeSession(db)({ projectPath: '/other' })).isError).toBe(true);
+      expect((await handleResumeSession(db)({})).isError).toBe(true);
+    });
+  });
+
+  describe('session_end git capture', () => {
+    let repo: string;
+
+    beforeEach(() => {
+      repo = mkdtempSync(join(tmpdir(), 'synapse-git-'));
+      git(repo, 'init', '-q', '-b', 'main');
+      git(repo, 'config', 'user.email', 'ada@example.com');
+      git(repo, 'config', 'user.name', 'Ada');
+      commitFile(repo, 'a.ts', 'a', 'Initial commit');
+    });
+
+    afterEach(() => {
+      rmSync(repo, { recursive: true, force: true });
+    });
+
+    it('stores the commits and changed files between the start and end commits', async () => {
+      const start = await handleSessionStart(db)({ projectPath: repo });
+      const sessionId = start.structuredContent!.sessionId;
+      insertEvent(db, {
+        eventId: 'e1',
+        sessionId,
+        timestamp: new Date().toISOString(),
+        eventType: 'file_edit',
+        category: 'edit',
+        detail: { type: 'file_op', path: join(repo, 'a.ts'), operation: 'edit' },
+      });
+      commitFile(repo, 'a.ts', 'a2', 'Tighten token rotation');
+      commitFile(repo, 'b.ts', 'b', 'Add refresh endpoint');
+
+      const result = await handleSessionEnd(db)({ sessionId, summary: 'Auth work' });
+
+      expect(result.structuredContent?.commits.map((c) => c.subject)).toEqual([
+        'Add refresh endpoint',
+        'Tighten token rotation',
+      ]);
+      expect(result.structuredContent?.changedFiles).toEqual([
+        { path: 'a.ts', changeType: 'modified' },
+        { path: 'b.ts', changeType: 'added' },
+      ]);
+      expect(result.content[0]?.text).toContain('Commits: 2 | Files changed in git: 2');
+
+      // Only the file changed outside recorded file ops is added to file importance
+      expect(getImportantFiles(db, repo).map((f) => f.filePath)).toEqual(['b.ts']);
+
+      const recall = await handleRecall(db)({ projectPath: repo, query: 'rotation' });
+      expect(recall.structuredContent?.sessions[0]?.session.sessionId).toBe(sessionId);
+      expect(recall.content[0]?.text).toContain('Tighten token rotation (Ada)');
+    });
+
+    it('counts files seen together in the session, and in each commit once', async () => {
+      const startCommit = git(repo, 'rev-parse', 'HEAD');
+      const start = await handleSessionStart(db)({ projectPath: repo });
+      const sessionId = start.structuredContent!.sessionId;
+      insertEvent(db, {
+        eventId: 'e1',
+        sessionId,
+        timestamp: new Date().toISOString(),
+        eventType: 'file_read',
+        category: 'read',
+        detail: { type: 'file_op', path: 'c.ts', operation: 'read' },
+      });
+      writeFileSync(join(repo, 'a.ts'), 'a2');
+      commitFile(repo, 'b.ts', 'b', 'Change a and b');
+      await handleSessionEnd(db)({ sessionId, summary: 'First' });
+
+      // A concurrent session over the same commit counts as a session only
+      const other = await handleSessionStart(db)({ projectPath: repo, gitCommit: startCommit });
+      await handleSessionEnd(db)({ sessionId: other.structuredContent!.sessionId, summary: 'Second' });
+
+      expect(getRelatedFiles(db, repo, 'a.ts')).toEqual([
+        expect.objectContaining({ filePath: 'b.ts', sessionCount: 2, commitCount: 1 }),
+        expect.objectContaining({ filePath: 'c.ts', sessionCount: 1, commitCount: 0 }),
+      ]);
+    });
+
+    it('captures nothing when no commits were made', async () => {
+      const start = await handleSessionStart(db)({ projectPath: repo });
+
+      const result = await handleSessionEnd(db)({ sessionId: start.structuredContent!.sessionId });
+
+      expect(result.structuredContent).toMatchObject({ commits: [], changedFiles: [] });
+      expect(result.structuredContent?.session.gitCommitEnd).toBe(git(repo, 'rev-parse', 'HEAD'));
+    });
+  });
 });
@@ -0,0 +1,64 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import type Database from 'better-sqlite3';
+import { createInMemoryDatabase } from '../../src/storage/database.js';
+import { handleFindSimilarSessions } from '../../src/tools/similar-sessions.js';
+import { createSession, endSession } from '../../src/storage/sessions.js';
+import { insertEvent } from '../../src/storage/events.js';
+
+function seedFileSession(db: Database.Database, id: string, path: string, end: boolean): void {
+  createSession(db, {
+    sessionId: id,
+    projectPath: '/test/project',
+    branch: 'main',
+    startedAt: new Date().toISOString(),
+    status: 'active',
+  });
+  insertEvent(db, {
+    eventId: `${id}-e1`,
+    sessionId: id,
+    timestamp: new Date().toISOString(),
+    eventType: 'file_edit',
+    category: 'edit',
+    detail: { type: 'file_op', path, operation: 'edit' },
+  });
+  if (end) {
+    endSession(db, id, new Date().toISOString(), `Edited ${path}`);
+  }
+}
+
+describe('find_similar_sessions tool', () => {
+  let db: Database.Database;
+
+  beforeEach(() => {
+    db = createInMemoryDatabase();
+  });
+
+  it('uses the active session by default', async () => {
+    seedFileSession(db, 'past', 'src/parser.ts', true);
+    seedFileSession(db, 'current', 'src/parser.ts', false);
+
+    const handler = handleFindSimilarSessions(db);
+    const result = await handler({ projectPath: '/test/project' });
+
+    expect(result.content[0]?.text).toContain('Sessions similar to current');
+    expect(result.content[0]?.text).toContain('Edited src/parser.ts');
+    expect(result.content[0]?.text).toContain('1 shared file(s): src/parser.ts');
+  });
+
+  it('errors when there is no active session', async () => {
+    const handler = handleFindSimilarSessions(db);
+    const result = await handler({ projectPath: '/test/project' });
+
+    expect(result.isError).toBe(true);
+    expect(result.content[0]?.text).toContain('No active session');
+  });
+
+  it('reports when nothing is similar', async () => {
+    seedFileSession(db, 'current', 'src/new.ts', false);
+
+    const handler = handleFindSimilarSessions(db);
+    const result = await handler({ projectPath: '/test/project', sessionId: 'current' });
+
+    expect(result.content[0]?.text).toContain('No past sessions resemble');
+  });
+});
@@ -39,6 +39,35 @@ describe('stats tool', () => {
 
     expect(result.content[0]?.text).toContain('Sessions: 1');
     expect(result.content[0]?.text).toContain('/src/index.ts');
+    expect(result.structuredContent).toMatchObject({
+      period: 'week',
+      totalSessions: 1,
+      topFiles: [{ path: '/src/index.ts', count: 1 }],
+    });
+  });
+
+  it('leaves ignored paths stored before the rules out of top files', async () => {
+    createSession(db, {
+      sessionId: 's1',
+      projectPath: '/test/project',
+      branch: 'main',
+      startedAt: new Date().toISOString(),
+      status: 'active',
+    });
+    for (const [i, path] of ['/test/project/node_modules/zod/index.js', '/test/project/src/index.ts'].entries()) {
+      insertEvent(db, {
+        eventId: `e${i}`,
+        sessionId: 's1',
+        timestamp: new Date().toISOString(),
+        eventType: 'file_read',
+        category: 'read',
+        detail: { type: 'file_op', path, operation: 'read' },
+      });
+    }
+
+    const result = await handleStats(db)({ projectPath: '/test/project' });
+
+    expect(result.structuredContent?.topFiles).toEqual([{ path: '/test/project/src/index.ts', count: 1 }]);
   });
 
   it('returns zero stats for empty project', async () => {
@@ -0,0 +1,47 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { mkdirSync, mkdtempSync, realpathSync, rmSync, symlinkSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { normalizeFilePath } from '../../src/utils.js';
+
+describe('normalizeFilePath', () => {
+  let dir: string;
+  let root: string;
+
+  beforeEach(() => {
+    dir = realpathSync(mkdtempSync(join(tmpdir(), 'synapse-paths-')));
+    root = join(dir, 'app');
+    mkdirSync(join(root, 'src'), { recursive: true });
+    writeFileSync(join(root, 'src', 'index.ts'), '');
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('stores every spelling of a project file the same way', () => {
+    for (const path of ['src/index.ts', './src/index.ts', 'src/../src/index.ts', join(root, 'src/index.ts')]) {
+      expect(normalizeFilePath(root, path), path).toEqual({ path: 'src/index.ts', outsideProject: false });
+    }
+  });
+
+  it('resolves symlinks, in the file path and in the root', () => {
+    symlinkSync(join(root, 'src'), join(dir, 'src-link'));
+    symlinkSync(root, join(dir, 'app-link'));
+
+    expect(normalizeFilePath(root, join(dir, 'src-link/index.ts')).path).toBe('src/index.ts');
+    expect(normalizeFilePath(join(dir, 'app-link'), join(root, 'src/index.ts')).path).toBe('src/index.ts');
+  });
+
+  it('handles files that do not exist yet', () => {
+    expect(normalizeFilePath(root, './src/new/file.ts')).toEqual({ path: 'src/new/file.ts', outsideProject: false });
+  });
+
+  it('flags paths outside the project and keeps them absolute', () => {
+    expect(normalizeFilePath(root, '../other/index.ts')).toEqual({
+      path: join(dir, 'other/index.ts'),
+      outsideProject: true,
+    });
+    expect(normalizeFilePath(root, '/etc/hosts').outsideProject).toBe(true);
+  });
+});